@@ -14,6 +14,7 @@ import { EditorHeader } from "@/components/editor/editor-header";
 import { EditorProvider } from "@/components/providers/editor-provider";
 import { Onboarding } from "@/components/editor/onboarding";
 import { MigrationDialog } from "@/components/editor/dialogs/migration-dialog";
+import { TransientDetectionDialog } from "@/components/editor/dialogs/transient-detection-dialog";
 import { usePanelStore } from "@/stores/panel-store";
 
 export default function Editor() {
@@ -29,6 +30,7 @@ export default function Editor() {
 				</div>
 				<Onboarding />
 				<MigrationDialog />
+				<TransientDetectionDialog />
 			</div>
 		</EditorProvider>
 	);
@@ -21,11 +21,17 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { PlusSignIcon, Delete02Icon } from "@hugeicons/core-free-icons";
+import type { EditorCore } from "@/core";
 import { useEditor } from "@/hooks/use-editor";
 import { useAutomationStore } from "@/stores/automation-store";
-import type { AudioVolumeOperation, AutomationState } from "@/types/automation";
+import type {
+	AutomationOperation,
+	AutomationOperationType,
+} from "@/types/automation";
+import { AUTOMATION_OPERATION_OPTIONS } from "@/constants/automation-constants";
 import {
 	CreateAutomationStateCommand,
 	UpdateAutomationStateCommand,
@@ -51,7 +57,7 @@ export function AutomationStateDialog() {
 
 	const [name, setName] = useState("");
 	const [description, setDescription] = useState("");
-	const [operations, setOperations] = useState<AudioVolumeOperation[]>([]);
+	const [operations, setOperations] = useState<AutomationOperation[]>([]);
 
 	// Initialize form when dialog opens
 	useEffect(() => {
@@ -105,26 +111,22 @@ export function AutomationStateDialog() {
 	};
 
 	const addOperation = () => {
-		const audioTracks = editor.timeline
-			.getTracks()
-			.filter((t) => t.type === "audio");
+		// start with the first kind of operation that has something to target
+		const newOperation = AUTOMATION_OPERATION_OPTIONS.map(({ value }) =>
+			createOperation({ type: value, editor }),
+		).find((operation) => operation !== null);
 
-		if (audioTracks.length === 0) {
-			alert("No audio tracks available. Add an audio track first.");
+		if (!newOperation) {
+			alert(
+				"Nothing to automate yet. Add a track, sidechain or oneshot first.",
+			);
 			return;
 		}
 
-		const newOperation: AudioVolumeOperation = {
-			id: nanoid(),
-			type: "audio-volume",
-			trackId: audioTracks[0].id,
-			value: 50,
-		};
-
 		setOperations([...operations, newOperation]);
 	};
 
-	const updateOperation = (index: number, updated: AudioVolumeOperation) => {
+	const updateOperation = (index: number, updated: AutomationOperation) => {
 		const newOperations = [...operations];
 		newOperations[index] = updated;
 		setOperations(newOperations);
@@ -206,55 +208,193 @@ export function AutomationStateDialog() {
 	);
 }
 
+interface OperationTarget {
+	id: string;
+	label: string;
+}
+
+function getOperationTargets({
+	type,
+	editor,
+}: {
+	type: AutomationOperationType;
+	editor: EditorCore;
+}): OperationTarget[] {
+	const allTracks = editor.timeline.getTracks();
+	const toTargets = (tracks: typeof allTracks) =>
+		tracks.map((track) => ({
+			id: track.id,
+			label: getTrackDisplayName(track, allTracks),
+		}));
+
+	switch (type) {
+		case "audio-volume":
+			return toTargets(allTracks.filter((track) => track.type === "audio"));
+		case "track-pan":
+			return toTargets(
+				allTracks.filter(
+					(track) => track.type === "audio" || track.type === "video",
+				),
+			);
+		case "video-opacity":
+			return toTargets(allTracks.filter((track) => track.type === "video"));
+		case "sidechain-enabled":
+			return editor.sidechain
+				.getConfigs()
+				.map((config) => ({ id: config.id, label: config.name }));
+		case "oneshot-gain":
+			return editor.oneshot
+				.getDefinitions()
+				.map((definition) => ({ id: definition.id, label: definition.name }));
+	}
+}
+
+function getOperationTargetId(operation: AutomationOperation): string {
+	switch (operation.type) {
+		case "sidechain-enabled":
+			return operation.configId;
+		case "oneshot-gain":
+			return operation.definitionId;
+		default:
+			return operation.trackId;
+	}
+}
+
+function setOperationTargetId({
+	operation,
+	targetId,
+}: {
+	operation: AutomationOperation;
+	targetId: string;
+}): AutomationOperation {
+	switch (operation.type) {
+		case "sidechain-enabled":
+			return { ...operation, configId: targetId };
+		case "oneshot-gain":
+			return { ...operation, definitionId: targetId };
+		default:
+			return { ...operation, trackId: targetId };
+	}
+}
+
+function createOperation({
+	type,
+	editor,
+	id = nanoid(),
+}: {
+	type: AutomationOperationType;
+	editor: EditorCore;
+	id?: string;
+}): AutomationOperation | null {
+	const [target] = getOperationTargets({ type, editor });
+	if (!target) return null;
+
+	switch (type) {
+		case "audio-volume":
+			return { id, type, trackId: target.id, value: 50 };
+		case "track-pan":
+			return { id, type, trackId: target.id, value: 0 };
+		case "video-opacity":
+			return { id, type, trackId: target.id, value: 50 };
+		case "sidechain-enabled":
+			return { id, type, configId: target.id, enabled: false };
+		case "oneshot-gain":
+			return { id, type, definitionId: target.id, value: 50 };
+	}
+}
+
 function OperationEditor({
 	operation,
 	onChange,
 	onRemove,
 }: {
-	operation: AudioVolumeOperation;
-	onChange: (updated: AudioVolumeOperation) => void;
+	operation: AutomationOperation;
+	onChange: (updated: AutomationOperation) => void;
 	onRemove: () => void;
 }) {
 	const editor = useEditor();
-	const audioTracks = editor.timeline
-		.getTracks()
-		.filter((t) => t.type === "audio");
-	const allTracks = editor.timeline.getTracks();
+	const targets = getOperationTargets({ type: operation.type, editor });
+
+	const handleTypeChange = (type: AutomationOperationType) => {
+		const updated = createOperation({ type, editor, id: operation.id });
+		if (updated) onChange(updated);
+	};
 
 	return (
 		<div className="flex gap-2 items-center p-3 border rounded-lg bg-muted/30">
-			{/* Track selector */}
+			{/* Operation type */}
+			<div className="w-36 shrink-0">
+				<Select value={operation.type} onValueChange={handleTypeChange}>
+					<SelectTrigger className="w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{AUTOMATION_OPERATION_OPTIONS.map((option) => (
+							<SelectItem
+								key={option.value}
+								value={option.value}
+								disabled={
+									getOperationTargets({ type: option.value, editor }).length ===
+									0
+								}
+							>
+								{option.label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			{/* Target selector */}
 			<div className="flex-1">
 				<Select
-					value={operation.trackId}
-					onValueChange={(trackId) => onChange({ ...operation, trackId })}
+					value={getOperationTargetId(operation)}
+					onValueChange={(targetId) =>
+						onChange(setOperationTargetId({ operation, targetId }))
+					}
 				>
 					<SelectTrigger className="w-full">
-						<SelectValue placeholder="Select track" />
+						<SelectValue placeholder="Select target" />
 					</SelectTrigger>
 					<SelectContent>
-						{audioTracks.map((track) => (
-							<SelectItem key={track.id} value={track.id}>
-								{getTrackDisplayName(track, allTracks)}
+						{targets.map((target) => (
+							<SelectItem key={target.id} value={target.id}>
+								{target.label}
 							</SelectItem>
 						))}
 					</SelectContent>
 				</Select>
 			</div>
 
-			{/* Volume slider */}
+			{/* Value */}
 			<div className="flex-1 flex items-center gap-2">
-				<Slider
-					value={[operation.value]}
-					onValueChange={([value]) => onChange({ ...operation, value })}
-					min={0}
-					max={100}
-					step={1}
-					className="flex-1"
-				/>
-				<span className="text-sm font-medium w-12 text-right">
-					{operation.value}%
-				</span>
+				{operation.type === "sidechain-enabled" ? (
+					<>
+						<Switch
+							checked={operation.enabled}
+							onCheckedChange={(enabled) => onChange({ ...operation, enabled })}
+						/>
+						<span className="text-sm font-medium">
+							{operation.enabled ? "Enabled" : "Bypassed"}
+						</span>
+					</>
+				) : (
+					<>
+						<Slider
+							value={[operation.value]}
+							onValueChange={([value]) => onChange({ ...operation, value })}
+							min={operation.type === "track-pan" ? -100 : 0}
+							max={100}
+							step={1}
+							className="flex-1"
+						/>
+						<span className="text-sm font-medium w-12 text-right">
+							{operation.type === "track-pan"
+								? operation.value
+								: `${operation.value}%`}
+						</span>
+					</>
+				)}
 			</div>
 
 			{/* Remove button */}
@@ -21,19 +21,9 @@ import type { OneshotAudioSource } from "@/types/oneshot";
 import type { SoundEffect } from "@/types/sounds";
 import type { MediaAsset } from "@/types/assets";
 import { CreateOneshotCommand, UpdateOneshotCommand } from "@/lib/commands";
+import { ONESHOT_COLORS } from "@/constants/oneshot-constants";
 import { OneshotWaveformEditor } from "./oneshot-waveform-editor";
 
-const ONESHOT_COLORS = [
-	"#ef4444", // red
-	"#f97316", // orange
-	"#eab308", // yellow
-	"#22c55e", // green
-	"#06b6d4", // cyan
-	"#3b82f6", // blue
-	"#8b5cf6", // violet
-	"#ec4899", // pink
-];
-
 export function OneshotDefinitionDialog() {
 	const editor = useEditor();
 	const {
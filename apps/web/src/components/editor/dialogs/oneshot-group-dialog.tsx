@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogBody,
+	DialogContent,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useEditor } from "@/hooks/use-editor";
+import { useOneshotStore } from "@/stores/oneshot-store";
+import {
+	CreateOneshotGroupCommand,
+	UpdateOneshotGroupCommand,
+} from "@/lib/commands";
+import {
+	MAX_VARIATION_GAIN_RANGE,
+	MAX_VARIATION_PITCH_RANGE,
+	ONESHOT_COLORS,
+	ONESHOT_VARIATION_MODE_OPTIONS,
+} from "@/constants/oneshot-constants";
+import type { OneshotVariationMode } from "@/types/oneshot";
+
+export function OneshotGroupDialog() {
+	const editor = useEditor();
+	const { isCreatingGroup, editingGroupId, closeGroupDialog } =
+		useOneshotStore();
+
+	const isOpen = isCreatingGroup || editingGroupId !== null;
+	const existingGroup = editingGroupId
+		? editor.oneshot.getGroup(editingGroupId)
+		: undefined;
+	const definitions = editor.oneshot.getDefinitions();
+
+	const [name, setName] = useState("");
+	const [color, setColor] = useState(ONESHOT_COLORS[0]);
+	const [definitionIds, setDefinitionIds] = useState<string[]>([]);
+	const [mode, setMode] = useState<OneshotVariationMode>("round-robin");
+	const [pitchRange, setPitchRange] = useState(0);
+	const [gainRange, setGainRange] = useState(0);
+
+	// Reset form when dialog opens
+	useEffect(() => {
+		if (!isOpen) return;
+		setName(existingGroup?.name ?? "");
+		setColor(
+			existingGroup?.color ??
+				ONESHOT_COLORS[Math.floor(Math.random() * ONESHOT_COLORS.length)],
+		);
+		setDefinitionIds([...(existingGroup?.definitionIds ?? [])]);
+		setMode(existingGroup?.mode ?? "round-robin");
+		setPitchRange(existingGroup?.pitchRange ?? 0);
+		setGainRange(existingGroup?.gainRange ?? 0);
+	}, [isOpen, existingGroup]);
+
+	const handleDefinitionToggle = (definitionId: string, checked: boolean) => {
+		setDefinitionIds((ids) =>
+			checked
+				? [...ids, definitionId]
+				: ids.filter((id) => id !== definitionId),
+		);
+	};
+
+	const handleSave = () => {
+		if (!name.trim() || definitionIds.length === 0) return;
+
+		const data = {
+			name: name.trim(),
+			color,
+			definitionIds,
+			mode,
+			pitchRange,
+			gainRange,
+		};
+		if (editingGroupId) {
+			editor.command.execute(
+				new UpdateOneshotGroupCommand(editingGroupId, data),
+			);
+		} else {
+			editor.command.execute(new CreateOneshotGroupCommand(data));
+		}
+		closeGroupDialog();
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={(open) => !open && closeGroupDialog()}>
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle>
+						{editingGroupId ? "Edit Variation Group" : "Create Variation Group"}
+					</DialogTitle>
+				</DialogHeader>
+
+				<DialogBody className="gap-4">
+					<div className="space-y-2">
+						<Label htmlFor="group-name">Name</Label>
+						<Input
+							id="group-name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							placeholder="e.g., Snare Hits"
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Color</Label>
+						<div className="flex gap-1">
+							{ONESHOT_COLORS.map((c) => (
+								<button
+									key={c}
+									type="button"
+									aria-label={`Color ${c}`}
+									className={`w-6 h-6 rounded-full border-2 ${
+										color === c ? "border-white" : "border-transparent"
+									}`}
+									style={{ backgroundColor: c }}
+									onClick={() => setColor(c)}
+								/>
+							))}
+						</div>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Variations</Label>
+						<div className="space-y-1.5 rounded border p-2">
+							{definitions.map((definition) => (
+								<div key={definition.id} className="flex items-center gap-2">
+									<Checkbox
+										id={`variation-${definition.id}`}
+										checked={definitionIds.includes(definition.id)}
+										onCheckedChange={(checked) =>
+											handleDefinitionToggle(definition.id, !!checked)
+										}
+									/>
+									<Label
+										htmlFor={`variation-${definition.id}`}
+										className="text-sm font-normal cursor-pointer"
+									>
+										{definition.name}
+									</Label>
+								</div>
+							))}
+							{definitions.length === 0 && (
+								<p className="text-xs text-muted-foreground">
+									Create oneshots to group them
+								</p>
+							)}
+						</div>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Playback</Label>
+						<Select
+							value={mode}
+							onValueChange={(value) => setMode(value as OneshotVariationMode)}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{ONESHOT_VARIATION_MODE_OPTIONS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<RangeSlider
+						label="Random pitch"
+						value={pitchRange}
+						max={MAX_VARIATION_PITCH_RANGE}
+						unit=" st"
+						onChange={setPitchRange}
+					/>
+					<RangeSlider
+						label="Random gain"
+						value={gainRange}
+						max={MAX_VARIATION_GAIN_RANGE}
+						unit=" dB"
+						onChange={setGainRange}
+					/>
+				</DialogBody>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={closeGroupDialog}>
+						Cancel
+					</Button>
+					<Button
+						onClick={handleSave}
+						disabled={!name.trim() || definitionIds.length === 0}
+					>
+						{editingGroupId ? "Save" : "Create"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+// a +/- spread around the slice's own pitch or level, 0 leaves it untouched
+function RangeSlider({
+	label,
+	value,
+	max,
+	unit,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	max: number;
+	unit: string;
+	onChange: (value: number) => void;
+}) {
+	return (
+		<div className="space-y-1">
+			<div className="flex items-center justify-between text-xs">
+				<span className="text-muted-foreground">{label}</span>
+				<span className="font-medium tabular-nums">
+					{value === 0 ? "Off" : `±${value}${unit}`}
+				</span>
+			</div>
+			<Slider
+				value={[value]}
+				min={0}
+				max={max}
+				step={0.5}
+				onValueChange={([v]) => onChange(v)}
+			/>
+		</div>
+	);
+}
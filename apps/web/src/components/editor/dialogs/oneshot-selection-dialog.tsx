@@ -13,12 +13,14 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useEditor } from "@/hooks/use-editor";
 import { useOneshotStore } from "@/stores/oneshot-store";
+import { useTimelineStore } from "@/stores/timeline-store";
 import { CreateOneshotMarkerCommand } from "@/lib/commands";
-import type { OneshotDefinition } from "@/types/oneshot";
+import { snapToBeatGrid } from "@/lib/timeline/beat-grid";
 
 export function OneshotSelectionDialog() {
 	const editor = useEditor();
 	const { isOneshotSelectionOpen, closeOneshotSelection } = useOneshotStore();
+	const snappingEnabled = useTimelineStore((state) => state.snappingEnabled);
 	const [selectedId, setSelectedId] = useState<string | null>(null);
 	const [, forceUpdate] = useState({});
 
@@ -31,6 +33,7 @@ export function OneshotSelectionDialog() {
 	}, [editor.oneshot]);
 
 	const definitions = editor.oneshot.getDefinitions();
+	const groups = editor.oneshot.getGroups();
 
 	const handleClose = () => {
 		setSelectedId(null);
@@ -44,7 +47,12 @@ export function OneshotSelectionDialog() {
 		editor.command.execute(
 			new CreateOneshotMarkerCommand({
 				oneshotId: selectedId,
-				time: currentTime,
+				time: snappingEnabled
+					? snapToBeatGrid({
+							grid: editor.scenes.getActiveSceneOrNull()?.beatGrid,
+							time: currentTime,
+						})
+					: currentTime,
 			}),
 		);
 
@@ -69,11 +77,23 @@ export function OneshotSelectionDialog() {
 								{definitions.map((def) => (
 									<OneshotSelectionItem
 										key={def.id}
-										definition={def}
+										name={def.name}
+										color={def.color}
+										detail={`${(def.trimEnd - def.trimStart).toFixed(2)}s slice`}
 										isSelected={selectedId === def.id}
 										onSelect={() => setSelectedId(def.id)}
 									/>
 								))}
+								{groups.map((group) => (
+									<OneshotSelectionItem
+										key={group.id}
+										name={group.name}
+										color={group.color}
+										detail={`Variation group of ${group.definitionIds.length}`}
+										isSelected={selectedId === group.id}
+										onSelect={() => setSelectedId(group.id)}
+									/>
+								))}
 							</div>
 						</ScrollArea>
 					)}
@@ -93,16 +113,18 @@ export function OneshotSelectionDialog() {
 }
 
 function OneshotSelectionItem({
-	definition,
+	name,
+	color,
+	detail,
 	isSelected,
 	onSelect,
 }: {
-	definition: OneshotDefinition;
+	name: string;
+	color: string;
+	detail: string;
 	isSelected: boolean;
 	onSelect: () => void;
 }) {
-	const sliceDuration = definition.trimEnd - definition.trimStart;
-
 	return (
 		<button
 			type="button"
@@ -116,13 +138,11 @@ function OneshotSelectionItem({
 			<div className="flex items-center gap-2">
 				<div
 					className="w-3 h-3 rounded-full flex-shrink-0"
-					style={{ backgroundColor: definition.color }}
+					style={{ backgroundColor: color }}
 				/>
-				<span className="font-medium text-sm">{definition.name}</span>
+				<span className="font-medium text-sm">{name}</span>
 			</div>
-			<p className="text-xs text-muted-foreground mt-1 ml-5">
-				{sliceDuration.toFixed(2)}s slice
-			</p>
+			<p className="text-xs text-muted-foreground mt-1 ml-5">{detail}</p>
 		</button>
 	);
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
 	Dialog,
 	DialogContent,
@@ -35,6 +35,15 @@ import {
 } from "@/types/sidechain";
 import { getTrackDisplayName } from "@/lib/timeline/track-utils";
 import { canTracktHaveAudio } from "@/lib/timeline";
+import {
+	computeDetectorEnvelope,
+	computeEnvelopeFromDetector,
+} from "@/lib/sidechain/compute-envelope";
+import {
+	GAIN_REDUCTION_GRAPH_FLOOR_DB,
+	KEY_HIGHPASS_OPTIONS,
+	KEY_LOWPASS_OPTIONS,
+} from "@/constants/sidechain-constants";
 
 export function SidechainConfigDialog() {
 	const editor = useEditor();
@@ -344,6 +353,51 @@ export function SidechainConfigDialog() {
 							unit="dB"
 							onChange={(v) => setParams((p) => ({ ...p, depth: v }))}
 						/>
+
+						<ParamSlider
+							label="Knee"
+							value={params.knee}
+							min={0}
+							max={24}
+							step={1}
+							unit="dB"
+							onChange={(v) => setParams((p) => ({ ...p, knee: v }))}
+						/>
+
+						<ParamSlider
+							label="Lookahead"
+							value={params.lookahead}
+							min={0}
+							max={0.05}
+							step={0.001}
+							unit="s"
+							onChange={(v) => setParams((p) => ({ ...p, lookahead: v }))}
+						/>
+
+						<ParamSlider
+							label="Hold"
+							value={params.hold}
+							min={0}
+							max={0.5}
+							step={0.01}
+							unit="s"
+							onChange={(v) => setParams((p) => ({ ...p, hold: v }))}
+						/>
+
+						<div className="grid grid-cols-2 gap-3">
+							<KeyFilterSelect
+								label="Key high-pass"
+								value={params.keyHighpass}
+								options={KEY_HIGHPASS_OPTIONS}
+								onChange={(v) => setParams((p) => ({ ...p, keyHighpass: v }))}
+							/>
+							<KeyFilterSelect
+								label="Key low-pass"
+								value={params.keyLowpass}
+								options={KEY_LOWPASS_OPTIONS}
+								onChange={(v) => setParams((p) => ({ ...p, keyLowpass: v }))}
+							/>
+						</div>
 					</div>
 
 					{/* Enable toggle */}
@@ -352,13 +406,11 @@ export function SidechainConfigDialog() {
 						<Switch checked={enabled} onCheckedChange={setEnabled} />
 					</div>
 
-					{/* Envelope Preview */}
-					<EnvelopePreviewCanvas
-						configId={editingConfigId}
+					{/* Gain reduction preview */}
+					<GainReductionGraph
 						params={params}
 						sourceType={sourceType}
-						sourceTrackId={sourceTrackId}
-						sourceOneshotId={sourceOneshotId}
+						sourceId={sourceType === "track" ? sourceTrackId : sourceOneshotId}
 					/>
 				</DialogBody>
 
@@ -412,164 +464,259 @@ function ParamSlider({
 	);
 }
 
-function EnvelopePreviewCanvas({
-	configId,
+function KeyFilterSelect({
+	label,
+	value,
+	options,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	options: number[];
+	onChange: (value: number) => void;
+}) {
+	return (
+		<div className="space-y-1">
+			<span className="text-muted-foreground text-xs">{label}</span>
+			<Select
+				value={String(value)}
+				onValueChange={(frequency) => onChange(Number(frequency))}
+			>
+				<SelectTrigger className="h-8 text-xs">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{options.map((frequency) => (
+						<SelectItem key={frequency} value={String(frequency)}>
+							{frequency === 0 ? "Off" : `${frequency} Hz`}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
+
+// recomputing runs over the whole timeline, so wait for sliders to settle
+const PREVIEW_DEBOUNCE_MS = 120;
+
+interface SourceSignal {
+	samples: Float32Array;
+	sampleRate: number;
+}
+
+/**
+ * Live preview of the gain reduction the draft params produce on the real
+ * source audio, drawn over the key-filtered detector level.
+ */
+function GainReductionGraph({
 	params,
 	sourceType,
-	sourceTrackId,
-	sourceOneshotId,
+	sourceId,
 }: {
-	configId: string | null;
 	params: SidechainParams;
 	sourceType: "track" | "oneshot";
-	sourceTrackId: string;
-	sourceOneshotId: string;
+	sourceId: string;
 }) {
 	const editor = useEditor();
 	const canvasRef = useRef<HTMLCanvasElement>(null);
 	const { isComputingEnvelope, setComputingEnvelope } = useSidechainStore();
+	const [signal, setSignal] = useState<SourceSignal | null>(null);
+	const [maxReductionDb, setMaxReductionDb] = useState(0);
 
-	const hasSource = sourceType === "track" ? !!sourceTrackId : !!sourceOneshotId;
+	useEffect(() => {
+		setSignal(null);
+		if (!sourceId) return;
 
-	const handlePreview = useCallback(async () => {
-		if (!hasSource) return;
+		const source: SidechainSource =
+			sourceType === "track"
+				? { type: "track", trackId: sourceId }
+				: { type: "oneshot", definitionId: sourceId };
 
+		let isCancelled = false;
 		setComputingEnvelope(true);
-		try {
-			const { computeSidechainEnvelope } = await import(
-				"@/lib/sidechain/compute-envelope"
-			);
-			const duration = editor.timeline.getTotalDuration();
-
-			let elements: Array<{
-				buffer: AudioBuffer;
-				startTime: number;
-				trimStart: number;
-				duration: number;
-				loop: boolean;
-			}>;
-
-			if (sourceType === "track") {
-				const tracks = editor.timeline.getTracks();
-				const sourceTrack = tracks.find((t) => t.id === sourceTrackId);
-				if (!sourceTrack) return;
-
-				const mediaAssets = editor.media.getAssets();
-				const { collectAudioElements, createAudioContext } =
-					await import("@/lib/media/audio");
-				const audioContext = createAudioContext();
-				const audioElements = await collectAudioElements({
-					tracks: [sourceTrack],
-					mediaAssets,
-					audioContext,
-				});
-
-				elements = audioElements.map((el) => ({
-					buffer: el.buffer,
-					startTime: el.startTime,
-					trimStart: el.trimStart,
-					duration: el.duration,
-					loop: el.loop ?? false,
-				}));
-			} else {
-				const buffer = await editor.oneshot.loadAudioBuffer(sourceOneshotId);
-				if (!buffer) return;
-
-				const definition = editor.oneshot.getDefinition(sourceOneshotId);
-				if (!definition) return;
-
-				const markers = editor.oneshot.getMarkersForDefinition(sourceOneshotId);
-				const sliceDuration = definition.trimEnd - definition.trimStart;
-
-				elements = markers.map((marker) => {
-					const audioStartTime = editor.oneshot.getAudioStartTimeForMarker(marker);
-					return {
-						buffer,
-						startTime: audioStartTime ?? marker.time,
-						trimStart: definition.trimStart,
-						duration: sliceDuration,
-						loop: false,
-					};
-				});
-			}
-
-			const envelope = computeSidechainEnvelope(elements, duration, params);
-			drawEnvelope(canvasRef.current, envelope);
-		} catch (error) {
-			console.error("Failed to preview envelope:", error);
-		} finally {
+		editor.sidechain
+			.composeSourceSignal(source)
+			.then((composed) => {
+				if (!isCancelled) setSignal(composed);
+			})
+			.catch((error) => {
+				console.error("Failed to load sidechain source:", error);
+			})
+			.finally(() => {
+				if (!isCancelled) setComputingEnvelope(false);
+			});
+
+		return () => {
+			isCancelled = true;
 			setComputingEnvelope(false);
+		};
+	}, [sourceType, sourceId, editor, setComputingEnvelope]);
+
+	useEffect(() => {
+		if (!signal) {
+			clearGraph(canvasRef.current);
+			setMaxReductionDb(0);
+			return;
 		}
-	}, [configId, params, sourceType, sourceTrackId, sourceOneshotId, editor, hasSource, setComputingEnvelope]);
+
+		const timeout = setTimeout(() => {
+			const detector = computeDetectorEnvelope(
+				signal.samples,
+				signal.sampleRate,
+				params,
+			);
+			const envelope = computeEnvelopeFromDetector(
+				detector,
+				signal.samples.length / signal.sampleRate,
+				params,
+			);
+			const [minGain] = getColumnMinimums(envelope.gainValues, 1);
+			setMaxReductionDb(gainToDb(minGain));
+			drawGainReduction({
+				canvas: canvasRef.current,
+				detector,
+				gainValues: envelope.gainValues,
+				threshold: params.threshold,
+			});
+		}, PREVIEW_DEBOUNCE_MS);
+
+		return () => clearTimeout(timeout);
+	}, [signal, params]);
 
 	return (
 		<div className="space-y-2">
 			<div className="flex items-center justify-between">
-				<Label>Envelope Preview</Label>
-				<Button
-					variant="outline"
-					size="sm"
-					onClick={handlePreview}
-					disabled={!hasSource || isComputingEnvelope}
-				>
-					{isComputingEnvelope ? "Computing..." : "Preview"}
-				</Button>
+				<Label>Gain Reduction</Label>
+				<span className="text-muted-foreground text-xs tabular-nums">
+					{isComputingEnvelope
+						? "Loading source..."
+						: !sourceId
+							? "Select a source to preview"
+							: `max ${maxReductionDb.toFixed(1)} dB`}
+				</span>
 			</div>
 			<canvas
 				ref={canvasRef}
 				width={400}
-				height={60}
+				height={80}
 				className="w-full rounded border bg-background"
-				style={{ height: 60 }}
+				style={{ height: 80 }}
 			/>
 		</div>
 	);
 }
 
-function drawEnvelope(
-	canvas: HTMLCanvasElement | null,
-	envelope: { gainValues: Float32Array; duration: number; sampleRate: number },
-) {
-	if (!canvas) return;
-
-	const ctx = canvas.getContext("2d");
-	if (!ctx) return;
+function gainToDb(gain: number): number {
+	return gain > 0 ? 20 * Math.log10(gain) : GAIN_REDUCTION_GRAPH_FLOOR_DB;
+}
 
-	const { width, height } = canvas;
-	ctx.clearRect(0, 0, width, height);
+// smallest value per column, so short transients survive the downsampling
+function getColumnMinimums(values: Float32Array, columns: number): number[] {
+	const minimums: number[] = [];
+	const step = values.length / columns;
+	for (let x = 0; x < columns; x++) {
+		const start = Math.floor(x * step);
+		const end = Math.max(start + 1, Math.floor((x + 1) * step));
+		let minimum = Number.POSITIVE_INFINITY;
+		for (let i = start; i < end && i < values.length; i++) {
+			minimum = Math.min(minimum, values[i]);
+		}
+		minimums.push(Number.isFinite(minimum) ? minimum : 1);
+	}
+	return minimums;
+}
 
-	const values = envelope.gainValues;
-	if (values.length === 0) return;
+// largest value per column, for the detector level
+function getColumnMaximums(values: Float32Array, columns: number): number[] {
+	const maximums: number[] = [];
+	const step = values.length / columns;
+	for (let x = 0; x < columns; x++) {
+		const start = Math.floor(x * step);
+		const end = Math.max(start + 1, Math.floor((x + 1) * step));
+		let maximum = 0;
+		for (let i = start; i < end && i < values.length; i++) {
+			maximum = Math.max(maximum, values[i]);
+		}
+		maximums.push(maximum);
+	}
+	return maximums;
+}
 
-	const step = values.length / width;
+function clearGraph(canvas: HTMLCanvasElement | null) {
+	const ctx = canvas?.getContext("2d");
+	if (!canvas || !ctx) return;
 
-	// Background
+	ctx.clearRect(0, 0, canvas.width, canvas.height);
 	ctx.fillStyle = "rgba(128, 128, 128, 0.1)";
-	ctx.fillRect(0, 0, width, height);
+	ctx.fillRect(0, 0, canvas.width, canvas.height);
+}
 
-	// Fill area
+function drawGainReduction({
+	canvas,
+	detector,
+	gainValues,
+	threshold,
+}: {
+	canvas: HTMLCanvasElement | null;
+	detector: Float32Array;
+	gainValues: Float32Array;
+	threshold: number;
+}) {
+	const ctx = canvas?.getContext("2d");
+	if (!canvas || !ctx) return;
+
+	clearGraph(canvas);
+	const { width, height } = canvas;
+	if (gainValues.length === 0) return;
+
+	// 0 dB at the top, the floor at the bottom
+	const dbToY = (db: number) =>
+		(Math.min(0, Math.max(GAIN_REDUCTION_GRAPH_FLOOR_DB, db)) /
+			GAIN_REDUCTION_GRAPH_FLOOR_DB) *
+		height;
+
+	// Detector level, rising from the bottom
+	const levels = getColumnMaximums(detector, width);
 	ctx.beginPath();
 	ctx.moveTo(0, height);
-	for (let x = 0; x < width; x++) {
-		const idx = Math.floor(x * step);
-		const gain = idx < values.length ? values[idx] : 1;
-		ctx.lineTo(x, height - gain * height);
-	}
+	levels.forEach((level, x) => {
+		ctx.lineTo(x, dbToY(gainToDb(level)));
+	});
 	ctx.lineTo(width, height);
 	ctx.closePath();
-	ctx.fillStyle = "rgba(59, 130, 246, 0.3)";
+	ctx.fillStyle = "rgba(128, 128, 128, 0.35)";
+	ctx.fill();
+
+	// Threshold
+	const thresholdY = dbToY(threshold);
+	ctx.setLineDash([4, 3]);
+	ctx.beginPath();
+	ctx.moveTo(0, thresholdY);
+	ctx.lineTo(width, thresholdY);
+	ctx.strokeStyle = "rgba(234, 179, 8, 0.8)";
+	ctx.lineWidth = 1;
+	ctx.stroke();
+	ctx.setLineDash([]);
+
+	// Gain reduction, hanging from the top
+	const gains = getColumnMinimums(gainValues, width);
+	ctx.beginPath();
+	ctx.moveTo(0, 0);
+	gains.forEach((gain, x) => {
+		ctx.lineTo(x, dbToY(gainToDb(gain)));
+	});
+	ctx.lineTo(width, 0);
+	ctx.closePath();
+	ctx.fillStyle = "rgba(59, 130, 246, 0.35)";
 	ctx.fill();
 
-	// Line
 	ctx.beginPath();
-	for (let x = 0; x < width; x++) {
-		const idx = Math.floor(x * step);
-		const gain = idx < values.length ? values[idx] : 1;
-		const y = height - gain * height;
+	gains.forEach((gain, x) => {
+		const y = dbToY(gainToDb(gain));
 		if (x === 0) ctx.moveTo(x, y);
 		else ctx.lineTo(x, y);
-	}
-	ctx.strokeStyle = "rgba(59, 130, 246, 0.8)";
-	ctx.lineWidth = 1;
+	});
+	ctx.strokeStyle = "rgba(59, 130, 246, 0.9)";
 	ctx.stroke();
 }
@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogBody,
+	DialogContent,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useEditor } from "@/hooks/use-editor";
+import { useTransientStore } from "@/stores/transient-store";
+import {
+	AddBookmarksCommand,
+	CreateOneshotMarkersCommand,
+	SplitElementAtTimesCommand,
+} from "@/lib/commands";
+import { decodeAudioToFloat32, loadElementAudioBlob } from "@/lib/media/audio";
+import {
+	type OnsetStrength,
+	computeOnsetStrength,
+	getClipOnsetTimes,
+	pickOnsets,
+} from "@/lib/media/transient-detection";
+import { canElementHaveAudio, getClipSourceRange } from "@/lib/timeline";
+import {
+	DEFAULT_TRANSIENT_SENSITIVITY,
+	TRANSIENT_ACTION_OPTIONS,
+} from "@/constants/transient-constants";
+import type { EditorCore } from "@/core";
+import type { AudioElement, VideoElement } from "@/types/timeline";
+import type { TransientAction, TransientSource } from "@/types/transient";
+
+// bars drawn across the preview
+const PREVIEW_POINTS = 600;
+
+interface TransientAnalysis {
+	samples: Float32Array;
+	sampleRate: number;
+	onsetStrength: OnsetStrength;
+}
+
+// the audio being scanned; clips also carry where their hits land
+type ResolvedSource =
+	| {
+			type: "element";
+			name: string;
+			trackId: string;
+			element: AudioElement | VideoElement;
+	  }
+	| { type: "asset"; name: string; file: File };
+
+export function TransientDetectionDialog() {
+	const editor = useEditor();
+	const { source, closeDetection } = useTransientStore();
+	const [analysis, setAnalysis] = useState<TransientAnalysis | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [sensitivity, setSensitivity] = useState(DEFAULT_TRANSIENT_SENSITIVITY);
+	const [action, setAction] = useState<TransientAction>("oneshot-markers");
+	const [oneshotId, setOneshotId] = useState("");
+
+	const resolved = source ? resolveSource({ editor, source }) : null;
+	const oneshots = [
+		...editor.oneshot.getDefinitions(),
+		...editor.oneshot.getGroups(),
+	];
+
+	// decoding and the onset strength only depend on the source
+	useEffect(() => {
+		setAnalysis(null);
+		setError(null);
+		if (!source) return;
+
+		let cancelled = false;
+		const target = resolveSource({ editor, source });
+		loadSourceAudio({ editor, target })
+			.then((audioBlob) => decodeAudioToFloat32({ audioBlob }))
+			.then(({ samples, sampleRate }) => {
+				if (cancelled) return;
+				setAnalysis({
+					samples,
+					sampleRate,
+					onsetStrength: computeOnsetStrength({ samples, sampleRate }),
+				});
+			})
+			.catch((loadError) => {
+				console.error("Failed to analyze audio for transients:", loadError);
+				if (!cancelled) setError("Couldn't decode this audio");
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [editor, source]);
+
+	const onsets = useMemo(
+		() =>
+			analysis
+				? pickOnsets({ onsetStrength: analysis.onsetStrength, sensitivity })
+				: [],
+		[analysis, sensitivity],
+	);
+
+	// source seconds shown in the preview: what the clip plays, or the whole file
+	const previewRange =
+		resolved?.type === "element"
+			? getClipSourceRange({ clip: resolved.element })
+			: {
+					start: 0,
+					end: analysis ? analysis.samples.length / analysis.sampleRate : 0,
+				};
+
+	const getPlacementTimes = (): number[] => {
+		if (!resolved) return [];
+		if (resolved.type === "element") {
+			return getClipOnsetTimes({
+				clip: resolved.element,
+				startTime: resolved.element.startTime,
+				onsets,
+			});
+		}
+		// a file isn't on the timeline yet, so its hits are laid out from the playhead
+		const playhead = editor.playback.getCurrentTime();
+		return onsets.map((onset) => playhead + onset);
+	};
+
+	const availableActions = TRANSIENT_ACTION_OPTIONS.filter(
+		(option) => option.value !== "split" || resolved?.type === "element",
+	);
+	const selectedAction = availableActions.some(
+		(option) => option.value === action,
+	)
+		? action
+		: "oneshot-markers";
+	const hitCount =
+		resolved?.type === "element" ? getPlacementTimes().length : onsets.length;
+	const canApply =
+		hitCount > 0 && (selectedAction !== "oneshot-markers" || !!oneshotId);
+
+	const handleApply = () => {
+		const times = getPlacementTimes();
+		if (times.length === 0 || !resolved) return;
+
+		if (selectedAction === "oneshot-markers") {
+			if (!oneshotId) return;
+			editor.command.execute(new CreateOneshotMarkersCommand(oneshotId, times));
+		} else if (selectedAction === "bookmarks") {
+			editor.command.execute(new AddBookmarksCommand(times));
+		} else if (resolved.type === "element") {
+			editor.command.execute(
+				new SplitElementAtTimesCommand(
+					resolved.trackId,
+					resolved.element.id,
+					times,
+				),
+			);
+		}
+		closeDetection();
+	};
+
+	return (
+		<Dialog
+			open={source !== null}
+			onOpenChange={(open) => !open && closeDetection()}
+		>
+			<DialogContent className="max-w-xl">
+				<DialogHeader>
+					<DialogTitle>
+						Detect Transients{resolved ? `: ${resolved.name}` : ""}
+					</DialogTitle>
+				</DialogHeader>
+
+				<DialogBody className="gap-4">
+					<OnsetPreview
+						analysis={analysis}
+						onsets={onsets}
+						range={previewRange}
+						message={
+							!resolved
+								? "This audio is no longer available"
+								: (error ?? (analysis ? null : "Analyzing audio..."))
+						}
+					/>
+
+					<div className="space-y-1">
+						<div className="flex items-center justify-between text-xs">
+							<span className="text-muted-foreground">Sensitivity</span>
+							<span className="font-medium tabular-nums">
+								{Math.round(sensitivity * 100)}% · {hitCount}{" "}
+								{hitCount === 1 ? "hit" : "hits"}
+							</span>
+						</div>
+						<Slider
+							value={[sensitivity]}
+							min={0}
+							max={1}
+							step={0.01}
+							onValueChange={([value]) => setSensitivity(value)}
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Place at each hit</Label>
+						<RadioGroup
+							value={selectedAction}
+							onValueChange={(value) => setAction(value as TransientAction)}
+						>
+							{availableActions.map((option) => (
+								<div key={option.value} className="flex items-center gap-2">
+									<RadioGroupItem
+										value={option.value}
+										id={`transient-${option.value}`}
+									/>
+									<Label htmlFor={`transient-${option.value}`}>
+										{option.label}
+									</Label>
+								</div>
+							))}
+						</RadioGroup>
+					</div>
+
+					{selectedAction === "oneshot-markers" && (
+						<Select value={oneshotId} onValueChange={setOneshotId}>
+							<SelectTrigger>
+								<SelectValue placeholder="Select oneshot" />
+							</SelectTrigger>
+							<SelectContent>
+								{oneshots.map((oneshot) => (
+									<SelectItem key={oneshot.id} value={oneshot.id}>
+										{oneshot.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+
+					{resolved?.type === "asset" && (
+						<p className="text-xs text-muted-foreground">
+							Hits are placed from the playhead onwards.
+						</p>
+					)}
+				</DialogBody>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={closeDetection}>
+						Cancel
+					</Button>
+					<Button onClick={handleApply} disabled={!canApply}>
+						Place {hitCount} {hitCount === 1 ? "hit" : "hits"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+// waveform of the scanned range with a line at every detected onset
+function OnsetPreview({
+	analysis,
+	onsets,
+	range,
+	message,
+}: {
+	analysis: TransientAnalysis | null;
+	onsets: number[];
+	range: { start: number; end: number };
+	message: string | null;
+}) {
+	const peaks = useMemo(
+		() =>
+			analysis
+				? getPeaks({ analysis, start: range.start, end: range.end })
+				: [],
+		[analysis, range.start, range.end],
+	);
+
+	if (message || peaks.length === 0) {
+		return (
+			<div className="flex h-24 items-center justify-center rounded border text-xs text-muted-foreground">
+				{message}
+			</div>
+		);
+	}
+
+	const span = range.end - range.start;
+	const points = peaks.map((peak, index) => `${index},${50 - peak * 50}`);
+	const mirrored = peaks
+		.map((peak, index) => `${index},${50 + peak * 50}`)
+		.reverse();
+
+	return (
+		<svg
+			className="h-24 w-full rounded border bg-muted/30"
+			viewBox={`0 0 ${peaks.length} 100`}
+			preserveAspectRatio="none"
+			aria-hidden="true"
+		>
+			<polygon
+				points={[...points, ...mirrored].join(" ")}
+				className="fill-foreground/40"
+			/>
+			{onsets
+				.filter((onset) => onset > range.start && onset < range.end)
+				.map((onset) => {
+					const x = ((onset - range.start) / span) * peaks.length;
+					return (
+						<line
+							key={onset}
+							x1={x}
+							x2={x}
+							y1={0}
+							y2={100}
+							className="stroke-primary"
+							strokeWidth={1}
+							vectorEffect="non-scaling-stroke"
+						/>
+					);
+				})}
+		</svg>
+	);
+}
+
+function resolveSource({
+	editor,
+	source,
+}: {
+	editor: EditorCore;
+	source: TransientSource;
+}): ResolvedSource | null {
+	if (source.type === "asset") {
+		const asset = editor.media
+			.getAssets()
+			.find((candidate) => candidate.id === source.assetId);
+		return asset ? { type: "asset", name: asset.name, file: asset.file } : null;
+	}
+
+	const track = editor.timeline.getTrackById({ trackId: source.trackId });
+	const element = track?.elements.find(
+		(candidate) => candidate.id === source.elementId,
+	);
+	if (!element || !canElementHaveAudio(element)) return null;
+	return {
+		type: "element",
+		name: element.name,
+		trackId: source.trackId,
+		element,
+	};
+}
+
+async function loadSourceAudio({
+	editor,
+	target,
+}: {
+	editor: EditorCore;
+	target: ResolvedSource | null;
+}): Promise<Blob> {
+	if (!target) throw new Error("Transient source not found");
+	if (target.type === "asset") return target.file;
+
+	return loadElementAudioBlob({
+		element: target.element,
+		mediaAssets: editor.media.getAssets(),
+	});
+}
+
+// loudest sample per bar, over source seconds [start, end]
+function getPeaks({
+	analysis,
+	start,
+	end,
+}: {
+	analysis: TransientAnalysis;
+	start: number;
+	end: number;
+}): number[] {
+	const { samples, sampleRate } = analysis;
+	const from = Math.max(0, Math.floor(start * sampleRate));
+	const to = Math.min(samples.length, Math.ceil(end * sampleRate));
+	const count = to - from;
+	if (count <= 0) return [];
+
+	const pointCount = Math.min(count, PREVIEW_POINTS);
+	const step = count / pointCount;
+	let loudest = 0;
+	const peaks: number[] = [];
+	for (let point = 0; point < pointCount; point++) {
+		const pointStart = from + Math.floor(point * step);
+		const pointEnd = Math.max(
+			pointStart + 1,
+			from + Math.floor((point + 1) * step),
+		);
+		let peak = 0;
+		for (let i = pointStart; i < pointEnd; i++) {
+			peak = Math.max(peak, Math.abs(samples[i]));
+		}
+		peaks.push(peak);
+		loudest = Math.max(loudest, peak);
+	}
+
+	// normalized so quiet material still reads
+	return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
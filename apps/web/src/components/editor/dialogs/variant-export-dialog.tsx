@@ -40,6 +40,7 @@ import { getRemappedDuration } from "@/lib/time-remap";
 import { getExportMimeType, getExportFileExtension } from "@/lib/export";
 import type { ExportFormat, ExportQuality, ExportResult } from "@/types/export";
 import { DEFAULT_EXPORT_OPTIONS } from "@/constants/export-constants";
+import { downloadBlob } from "@/utils/browser";
 
 const TIME_SCALE_OPTIONS = [
 	{ value: "0.25", label: "0.25x (4x duration)" },
@@ -212,16 +213,10 @@ export function VariantExportDialog({
 			const format = DEFAULT_EXPORT_OPTIONS.format;
 			const mimeType = getExportMimeType({ format });
 			const extension = getExportFileExtension({ format });
-			const blob = new Blob([result.buffer], { type: mimeType });
-			const url = URL.createObjectURL(blob);
-
-			const a = document.createElement("a");
-			a.href = url;
-			a.download = `${activeProject.metadata.name}_${timeScale}x${extension}`;
-			document.body.appendChild(a);
-			a.click();
-			document.body.removeChild(a);
-			URL.revokeObjectURL(url);
+			downloadBlob({
+				blob: new Blob([result.buffer], { type: mimeType }),
+				fileName: `${activeProject.metadata.name}_${timeScale}x${extension}`,
+			});
 
 			onOpenChange(false);
 			setExportResult(null);
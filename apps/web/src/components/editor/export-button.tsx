@@ -19,19 +19,58 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Progress } from "@/components/ui/progress";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/utils/ui";
-import { getExportMimeType, getExportFileExtension } from "@/lib/export";
-import { Check, Copy, Download, RotateCcw, X, ChevronDown, Clock } from "lucide-react";
+import {
+	getExportMimeType,
+	getExportFileExtension,
+	isAudioExportFormat,
+} from "@/lib/export";
+import {
+	Check,
+	Copy,
+	Download,
+	RotateCcw,
+	X,
+	ChevronDown,
+	Clock,
+} from "lucide-react";
 import {
 	EXPORT_FORMAT_VALUES,
 	EXPORT_QUALITY_VALUES,
+	WAV_BIT_DEPTH_VALUES,
 	type ExportFormat,
 	type ExportQuality,
 	type ExportResult,
+	type WavBitDepth,
 } from "@/types/export";
 import { PropertyGroup } from "@/components/editor/panels/properties/property-item";
 import { useEditor } from "@/hooks/use-editor";
-import { DEFAULT_EXPORT_OPTIONS } from "@/constants/export-constants";
+import {
+	DEFAULT_EXPORT_OPTIONS,
+	DEFAULT_LOUDNESS_OPTIONS,
+	DEFAULT_WAV_BIT_DEPTH,
+	LOUDNESS_TARGET_OPTIONS,
+	TRUE_PEAK_CEILING_OPTIONS,
+} from "@/constants/export-constants";
+import type { LoudnessReport } from "@/types/loudness";
+import {
+	SUBTITLE_FORMAT_VALUES,
+	type SubtitleExportOptions,
+	type SubtitleFormat,
+} from "@/types/subtitles";
+import type { TextTrack } from "@/types/timeline";
+import {
+	SUBTITLE_FORMAT_LABELS,
+	SUBTITLE_MIME_TYPES,
+} from "@/constants/subtitle-constants";
+import { downloadBlob } from "@/utils/browser";
 import { VariantExportDialog } from "@/components/editor/dialogs/variant-export-dialog";
 
 export function ExportButton() {
@@ -60,9 +99,7 @@ export function ExportButton() {
 						type="button"
 						className={cn(
 							"flex items-center gap-1.5 rounded-md bg-[#38BDF8] px-[0.12rem] py-[0.12rem] text-white",
-							hasProject
-								? "cursor-pointer"
-								: "cursor-not-allowed opacity-50",
+							hasProject ? "cursor-pointer" : "cursor-not-allowed opacity-50",
 						)}
 						disabled={!hasProject}
 					>
@@ -121,10 +158,33 @@ function ExportPopover({
 	const [includeAudio, setIncludeAudio] = useState<boolean>(
 		DEFAULT_EXPORT_OPTIONS.includeAudio || true,
 	);
+	const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(
+		DEFAULT_WAV_BIT_DEPTH,
+	);
+	const [stems, setStems] = useState(false);
+	const [targetLufs, setTargetLufs] = useState(
+		DEFAULT_LOUDNESS_OPTIONS.targetLufs,
+	);
+	const [truePeakCeiling, setTruePeakCeiling] = useState(
+		DEFAULT_LOUDNESS_OPTIONS.truePeakCeiling,
+	);
+	const [subtitleTrackId, setSubtitleTrackId] = useState(NO_SUBTITLES);
+	const [subtitleTarget, setSubtitleTarget] = useState<SubtitleTarget>("embed");
 	const [isExporting, setIsExporting] = useState(false);
 	const [progress, setProgress] = useState(0);
 	const [exportResult, setExportResult] = useState<ExportResult | null>(null);
 	const cancelRequestedRef = useRef(false);
+	const isAudioOnly = isAudioExportFormat(format);
+	const isStemExport = isAudioOnly && stems;
+	const textTracks = editor.timeline
+		.getTracks()
+		.filter((track): track is TextTrack => track.type === "text");
+	const subtitles: SubtitleExportOptions | undefined =
+		!isAudioOnly && textTracks.some((track) => track.id === subtitleTrackId)
+			? subtitleTarget === "embed"
+				? { trackId: subtitleTrackId, mode: "embed", format: "vtt" }
+				: { trackId: subtitleTrackId, mode: "sidecar", format: subtitleTarget }
+			: undefined;
 
 	const handleExport = async () => {
 		if (!activeProject) return;
@@ -140,6 +200,10 @@ function ExportPopover({
 				quality,
 				fps: activeProject.settings.fps,
 				includeAudio,
+				wavBitDepth,
+				stems: isStemExport,
+				loudness: { targetLufs, truePeakCeiling },
+				subtitles,
 				onProgress: ({ progress }) => setProgress(progress),
 				onCancel: () => cancelRequestedRef.current,
 			},
@@ -156,19 +220,26 @@ function ExportPopover({
 		setExportResult(result);
 
 		if (result.success && result.buffer) {
-			const mimeType = getExportMimeType({ format });
-			const extension = getExportFileExtension({ format });
-			const blob = new Blob([result.buffer], { type: mimeType });
-			const url = URL.createObjectURL(blob);
-
-			const a = document.createElement("a");
-			a.href = url;
-			a.download = `${activeProject.metadata.name}${extension}`;
-			document.body.appendChild(a);
-			a.click();
-			document.body.removeChild(a);
-			URL.revokeObjectURL(url);
-
+			const mimeType = getExportMimeType({ format, stems: isStemExport });
+			const extension = getExportFileExtension({
+				format,
+				stems: isStemExport,
+			});
+			downloadBlob({
+				blob: new Blob([result.buffer], { type: mimeType }),
+				fileName: `${activeProject.metadata.name}${extension}`,
+			});
+			if (result.subtitles) {
+				downloadBlob({
+					blob: new Blob([result.subtitles.content], {
+						type: SUBTITLE_MIME_TYPES[result.subtitles.format],
+					}),
+					fileName: `${activeProject.metadata.name}.${result.subtitles.format}`,
+				});
+			}
+
+			// a loudness report, only made when processing ran, stays up until dismissed
+			if (result.loudness) return;
 			onOpenChange(false);
 			setExportResult(null);
 			setProgress(0);
@@ -194,6 +265,8 @@ function ExportPopover({
 					error={exportResult.error || "Unknown error occurred"}
 					onRetry={handleExport}
 				/>
+			) : exportResult?.loudness ? (
+				<LoudnessSummary report={exportResult.loudness} onClose={handleClose} />
 			) : (
 				<>
 					<div className="flex items-center justify-between">
@@ -234,61 +307,186 @@ function ExportPopover({
 													WebM (VP9) - Smaller file size
 												</Label>
 											</div>
-										</RadioGroup>
-									</PropertyGroup>
-
-									<PropertyGroup
-										title="Quality"
-										titleClassName="text-sm"
-										defaultExpanded={false}
-									>
-										<RadioGroup
-											value={quality}
-											onValueChange={(value) => {
-												if (isExportQuality(value)) {
-													setQuality(value);
-												}
-											}}
-										>
 											<div className="flex items-center space-x-2">
-												<RadioGroupItem value="low" id="low" />
-												<Label htmlFor="low">Low - Smallest file size</Label>
+												<RadioGroupItem value="wav" id="wav" />
+												<Label htmlFor="wav">WAV - Uncompressed audio</Label>
 											</div>
 											<div className="flex items-center space-x-2">
-												<RadioGroupItem value="medium" id="medium" />
-												<Label htmlFor="medium">Medium - Balanced</Label>
+												<RadioGroupItem value="ogg" id="ogg" />
+												<Label htmlFor="ogg">Ogg (Opus) - Audio only</Label>
 											</div>
 											<div className="flex items-center space-x-2">
-												<RadioGroupItem value="high" id="high" />
-												<Label htmlFor="high">High - Recommended</Label>
-											</div>
-											<div className="flex items-center space-x-2">
-												<RadioGroupItem value="very_high" id="very_high" />
-												<Label htmlFor="very_high">
-													Very High - Largest file size
-												</Label>
+												<RadioGroupItem value="m4a" id="m4a" />
+												<Label htmlFor="m4a">M4A (AAC) - Audio only</Label>
 											</div>
 										</RadioGroup>
 									</PropertyGroup>
 
+									{format !== "wav" && (
+										<PropertyGroup
+											title="Quality"
+											titleClassName="text-sm"
+											defaultExpanded={false}
+										>
+											<RadioGroup
+												value={quality}
+												onValueChange={(value) => {
+													if (isExportQuality(value)) {
+														setQuality(value);
+													}
+												}}
+											>
+												<div className="flex items-center space-x-2">
+													<RadioGroupItem value="low" id="low" />
+													<Label htmlFor="low">Low - Smallest file size</Label>
+												</div>
+												<div className="flex items-center space-x-2">
+													<RadioGroupItem value="medium" id="medium" />
+													<Label htmlFor="medium">Medium - Balanced</Label>
+												</div>
+												<div className="flex items-center space-x-2">
+													<RadioGroupItem value="high" id="high" />
+													<Label htmlFor="high">High - Recommended</Label>
+												</div>
+												<div className="flex items-center space-x-2">
+													<RadioGroupItem value="very_high" id="very_high" />
+													<Label htmlFor="very_high">
+														Very High - Largest file size
+													</Label>
+												</div>
+											</RadioGroup>
+										</PropertyGroup>
+									)}
+
 									<PropertyGroup
 										title="Audio"
 										titleClassName="text-sm"
 										defaultExpanded={false}
 									>
-										<div className="flex items-center space-x-2">
-											<Checkbox
-												id="include-audio"
-												checked={includeAudio}
-												onCheckedChange={(checked) =>
-													setIncludeAudio(!!checked)
-												}
-											/>
-											<Label htmlFor="include-audio">
-												Include audio in export
-											</Label>
-										</div>
+										{isAudioOnly ? (
+											<div className="flex flex-col gap-3">
+												{format === "wav" && (
+													<div className="flex flex-col gap-1.5">
+														<Label className="text-xs">Bit depth</Label>
+														<Select
+															value={String(wavBitDepth)}
+															onValueChange={(value) => {
+																const bitDepth = Number(value);
+																if (isWavBitDepth(bitDepth)) {
+																	setWavBitDepth(bitDepth);
+																}
+															}}
+														>
+															<SelectTrigger>
+																<SelectValue />
+															</SelectTrigger>
+															<SelectContent>
+																{WAV_BIT_DEPTH_VALUES.map((bitDepth) => (
+																	<SelectItem
+																		key={bitDepth}
+																		value={String(bitDepth)}
+																	>
+																		{bitDepth}-bit
+																	</SelectItem>
+																))}
+															</SelectContent>
+														</Select>
+													</div>
+												)}
+												<div className="flex items-center space-x-2">
+													<Checkbox
+														id="export-stems"
+														checked={stems}
+														onCheckedChange={(checked) => setStems(!!checked)}
+													/>
+													<Label htmlFor="export-stems">
+														Export stems as a zip
+													</Label>
+												</div>
+											</div>
+										) : (
+											<div className="flex items-center space-x-2">
+												<Checkbox
+													id="include-audio"
+													checked={includeAudio}
+													onCheckedChange={(checked) =>
+														setIncludeAudio(!!checked)
+													}
+												/>
+												<Label htmlFor="include-audio">
+													Include audio in export
+												</Label>
+											</div>
+										)}
+										{/* stems stay unprocessed so they sum back to the mix */}
+										{(isAudioOnly ? !stems : includeAudio) && (
+											<div className="mt-3 flex flex-col gap-3">
+												<LoudnessSelect
+													label="Loudness target"
+													value={targetLufs}
+													options={LOUDNESS_TARGET_OPTIONS}
+													onChange={setTargetLufs}
+												/>
+												<LoudnessSelect
+													label="True peak limit"
+													value={truePeakCeiling}
+													options={TRUE_PEAK_CEILING_OPTIONS}
+													onChange={setTruePeakCeiling}
+												/>
+											</div>
+										)}
 									</PropertyGroup>
+
+									{!isAudioOnly && textTracks.length > 0 && (
+										<PropertyGroup
+											title="Subtitles"
+											titleClassName="text-sm"
+											defaultExpanded={false}
+										>
+											<div className="flex flex-col gap-3">
+												<Select
+													value={subtitleTrackId}
+													onValueChange={setSubtitleTrackId}
+												>
+													<SelectTrigger>
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														<SelectItem value={NO_SUBTITLES}>None</SelectItem>
+														{textTracks.map((track) => (
+															<SelectItem key={track.id} value={track.id}>
+																{track.name}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+												{subtitles && (
+													<Select
+														value={subtitleTarget}
+														onValueChange={(value) => {
+															if (isSubtitleTarget(value)) {
+																setSubtitleTarget(value);
+															}
+														}}
+													>
+														<SelectTrigger>
+															<SelectValue />
+														</SelectTrigger>
+														<SelectContent>
+															<SelectItem value="embed">
+																Embed as subtitle stream
+															</SelectItem>
+															{SUBTITLE_FORMAT_VALUES.map((value) => (
+																<SelectItem key={value} value={value}>
+																	Sidecar {SUBTITLE_FORMAT_LABELS[value]}
+																</SelectItem>
+															))}
+														</SelectContent>
+													</Select>
+												)}
+											</div>
+										</PropertyGroup>
+									)}
 								</div>
 
 								<Button onClick={handleExport} className="w-full gap-2">
@@ -326,6 +524,19 @@ function ExportPopover({
 	);
 }
 
+// a select item can't hold an empty value
+const NO_SUBTITLES = "none";
+
+// embedded in the video, or written next to it in one of the file formats
+type SubtitleTarget = "embed" | SubtitleFormat;
+
+function isSubtitleTarget(value: string): value is SubtitleTarget {
+	return (
+		value === "embed" ||
+		SUBTITLE_FORMAT_VALUES.some((format) => format === value)
+	);
+}
+
 function isExportFormat(value: string): value is ExportFormat {
 	return EXPORT_FORMAT_VALUES.some((formatValue) => formatValue === value);
 }
@@ -334,6 +545,91 @@ function isExportQuality(value: string): value is ExportQuality {
 	return EXPORT_QUALITY_VALUES.some((qualityValue) => qualityValue === value);
 }
 
+function isWavBitDepth(value: number): value is WavBitDepth {
+	return WAV_BIT_DEPTH_VALUES.some((bitDepth) => bitDepth === value);
+}
+
+// "off" stands in for null, which a select item can't hold
+function LoudnessSelect({
+	label,
+	value,
+	options,
+	onChange,
+}: {
+	label: string;
+	value: number | null;
+	options: { value: number; label: string }[];
+	onChange: (value: number | null) => void;
+}) {
+	return (
+		<div className="flex flex-col gap-1.5">
+			<Label className="text-xs">{label}</Label>
+			<Select
+				value={value === null ? "off" : String(value)}
+				onValueChange={(next) => onChange(next === "off" ? null : Number(next))}
+			>
+				<SelectTrigger>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value="off">Off</SelectItem>
+					{options.map((option) => (
+						<SelectItem key={option.value} value={String(option.value)}>
+							{option.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
+
+function LoudnessSummary({
+	report,
+	onClose,
+}: {
+	report: LoudnessReport;
+	onClose: () => void;
+}) {
+	const rows = [
+		{ label: "Integrated", value: formatLevel(report.integrated, "LUFS") },
+		{
+			label: "Short-term max",
+			value: formatLevel(report.shortTermMax, "LUFS"),
+		},
+		{ label: "Loudness range", value: `${report.loudnessRange.toFixed(1)} LU` },
+		{ label: "True peak", value: formatLevel(report.truePeak, "dBTP") },
+	];
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-col gap-1.5">
+				<p className="text-sm font-medium">Export complete</p>
+				<p className="text-muted-foreground text-xs">
+					Loudness of the exported audio
+				</p>
+			</div>
+
+			<div className="flex flex-col gap-1 text-sm">
+				{rows.map((row) => (
+					<div key={row.label} className="flex justify-between">
+						<span className="text-muted-foreground">{row.label}</span>
+						<span className="font-medium tabular-nums">{row.value}</span>
+					</div>
+				))}
+			</div>
+
+			<Button variant="outline" className="w-full" onClick={onClose}>
+				Done
+			</Button>
+		</div>
+	);
+}
+
+function formatLevel(value: number, unit: string): string {
+	return Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+}
+
 function ExportError({
 	error,
 	onRetry,
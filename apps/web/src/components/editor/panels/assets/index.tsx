@@ -9,7 +9,9 @@ import { SettingsView } from "./views/settings";
 import { SoundsView } from "./views/sounds";
 import { StickersView } from "./views/stickers";
 import { TextView } from "./views/text";
+import { TranscriptView } from "./views/transcript";
 import { AutomationView } from "./views/automation";
+import { MixerView } from "./views/mixer";
 
 export function AssetsPanel() {
 	const { activeTab } = useAssetsPanelStore();
@@ -30,6 +32,7 @@ export function AssetsPanel() {
 			</div>
 		),
 		captions: <Captions />,
+		transcript: <TranscriptView />,
 		filters: (
 			<div className="text-muted-foreground p-4">
 				Filters view coming soon...
@@ -41,6 +44,7 @@ export function AssetsPanel() {
 			</div>
 		),
 		automation: <AutomationView />,
+		mixer: <MixerView />,
 		settings: <SettingsView />,
 	};
 
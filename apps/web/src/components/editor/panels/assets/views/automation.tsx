@@ -3,27 +3,41 @@
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import {
-	Tabs,
-	TabsList,
-	TabsTrigger,
-	TabsContent,
-} from "@/components/ui/tabs";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import {
 	DropdownMenu,
 	DropdownMenuContent,
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { PlusSignIcon, MoreVerticalIcon } from "@hugeicons/core-free-icons";
 import { useEditor } from "@/hooks/use-editor";
 import { useAutomationStore } from "@/stores/automation-store";
-import type { AutomationState } from "@/types/automation";
+import type { EditorCore } from "@/core";
+import type {
+	AutomationOperation,
+	AutomationRampCurve,
+	AutomationState,
+	PointMarker,
+} from "@/types/automation";
 import {
 	DeleteAutomationStateCommand,
 	RemoveAutomationMarkerCommand,
+	UpdateAutomationMarkerRampCommand,
 } from "@/lib/commands";
+import {
+	AUTOMATION_RAMP_CURVE_OPTIONS,
+	AUTOMATION_RAMP_DURATIONS,
+	DEFAULT_AUTOMATION_RAMP,
+} from "@/constants/automation-constants";
 import { useState, useEffect } from "react";
 import { AutomationStateDialog } from "@/components/editor/dialogs/automation-state-dialog";
 import { AutomationStateSelectionDialog } from "@/components/editor/dialogs/automation-state-selection-dialog";
@@ -55,7 +69,10 @@ export function AutomationView() {
 				<Separator className="my-2" />
 
 				{/* State Tab Content */}
-				<TabsContent value="state" className="flex-1 min-h-0 flex flex-col mt-0">
+				<TabsContent
+					value="state"
+					className="flex-1 min-h-0 flex flex-col mt-0"
+				>
 					{/* Header with Create button */}
 					<div className="px-3 pb-2">
 						<Button onClick={startCreatingState} className="w-full">
@@ -73,12 +90,18 @@ export function AutomationView() {
 				</TabsContent>
 
 				{/* Oneshot Tab Content */}
-				<TabsContent value="oneshot" className="flex-1 min-h-0 flex flex-col mt-0">
+				<TabsContent
+					value="oneshot"
+					className="flex-1 min-h-0 flex flex-col mt-0"
+				>
 					<OneshotView />
 				</TabsContent>
 
 				{/* Sidechain Tab Content */}
-				<TabsContent value="sidechain" className="flex-1 min-h-0 flex flex-col mt-0">
+				<TabsContent
+					value="sidechain"
+					className="flex-1 min-h-0 flex flex-col mt-0"
+				>
 					<SidechainView />
 				</TabsContent>
 			</Tabs>
@@ -130,7 +153,6 @@ function AutomationStateCard({ state }: { state: AutomationState }) {
 		useAutomationStore();
 	const { startEditingState } = useAutomationStore();
 	const isActive = isMarkModeActive && activeMarkStateId === state.id;
-	const allTracks = editor.timeline.getTracks();
 
 	const handleDelete = () => {
 		if (confirm(`Delete automation state "${state.name}"?`)) {
@@ -173,7 +195,10 @@ function AutomationStateCard({ state }: { state: AutomationState }) {
 					</DropdownMenuTrigger>
 					<DropdownMenuContent align="end">
 						<DropdownMenuItem onClick={handleEdit}>Edit</DropdownMenuItem>
-						<DropdownMenuItem onClick={handleDelete} className="text-destructive">
+						<DropdownMenuItem
+							onClick={handleDelete}
+							className="text-destructive"
+						>
 							Delete
 						</DropdownMenuItem>
 					</DropdownMenuContent>
@@ -195,18 +220,18 @@ function AutomationStateCard({ state }: { state: AutomationState }) {
 			{/* Operations list */}
 			<div className="mt-3 space-y-1">
 				{state.operations.map((op) => {
-					const track = allTracks.find((t) => t.id === op.trackId);
-					const trackDisplayName = track
-						? getTrackDisplayName(track, allTracks)
-						: `Track ${op.trackId}`;
+					const { target, value } = describeOperation({
+						operation: op,
+						editor,
+					});
 
 					return (
 						<div
 							key={op.id}
 							className="text-xs bg-muted/50 rounded px-2 py-1.5 flex items-center justify-between"
 						>
-							<span className="text-muted-foreground">{trackDisplayName}:</span>
-							<span className="font-medium">{op.value}% volume</span>
+							<span className="text-muted-foreground">{target}:</span>
+							<span className="font-medium">{value}</span>
 						</div>
 					);
 				})}
@@ -252,6 +277,7 @@ function AutomationMarkersList({ stateId }: { stateId: string }) {
 								? `Clip on track ${marker.trackId}`
 								: `Time ${formatTime(marker.time)}`}
 						</span>
+						{marker.type === "point" && <MarkerRampControls marker={marker} />}
 						<Button
 							variant="ghost"
 							size="sm"
@@ -266,3 +292,114 @@ function AutomationMarkersList({ stateId }: { stateId: string }) {
 		</div>
 	);
 }
+
+function describeOperation({
+	operation,
+	editor,
+}: {
+	operation: AutomationOperation;
+	editor: EditorCore;
+}): { target: string; value: string } {
+	switch (operation.type) {
+		case "sidechain-enabled": {
+			const config = editor.sidechain.getConfig(operation.configId);
+			return {
+				target: config?.name ?? `Sidechain ${operation.configId}`,
+				value: operation.enabled ? "enabled" : "bypassed",
+			};
+		}
+		case "oneshot-gain": {
+			const definition = editor.oneshot.getDefinition(operation.definitionId);
+			return {
+				target: definition?.name ?? `Oneshot ${operation.definitionId}`,
+				value: `${operation.value}% gain`,
+			};
+		}
+	}
+
+	const allTracks = editor.timeline.getTracks();
+	const track = allTracks.find((t) => t.id === operation.trackId);
+	const target = track
+		? getTrackDisplayName(track, allTracks)
+		: `Track ${operation.trackId}`;
+
+	switch (operation.type) {
+		case "track-pan":
+			return {
+				target,
+				value:
+					operation.value === 0
+						? "center pan"
+						: `${Math.abs(operation.value)} ${operation.value < 0 ? "left" : "right"}`,
+			};
+		case "video-opacity":
+			return { target, value: `${operation.value}% opacity` };
+		default:
+			return { target, value: `${operation.value}% volume` };
+	}
+}
+
+// "step" switches at the marker, anything else glides into its state
+function MarkerRampControls({ marker }: { marker: PointMarker }) {
+	const editor = useEditor();
+	const ramp = marker.ramp;
+
+	const handleCurveChange = (curve: string) => {
+		editor.command.execute(
+			new UpdateAutomationMarkerRampCommand(
+				marker.id,
+				curve === "step"
+					? undefined
+					: {
+							duration: ramp?.duration ?? DEFAULT_AUTOMATION_RAMP.duration,
+							curve: curve as AutomationRampCurve,
+						},
+			),
+		);
+	};
+
+	const handleDurationChange = (duration: string) => {
+		if (!ramp) return;
+		editor.command.execute(
+			new UpdateAutomationMarkerRampCommand(marker.id, {
+				...ramp,
+				duration: Number(duration),
+			}),
+		);
+	};
+
+	return (
+		<div className="flex items-center gap-1 ml-auto mr-1">
+			<Select value={ramp?.curve ?? "step"} onValueChange={handleCurveChange}>
+				<SelectTrigger className="h-6 w-24 px-2 text-xs">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value="step">Step</SelectItem>
+					{AUTOMATION_RAMP_CURVE_OPTIONS.map((option) => (
+						<SelectItem key={option.value} value={option.value}>
+							{option.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			{ramp && (
+				<Select
+					value={String(ramp.duration)}
+					onValueChange={handleDurationChange}
+				>
+					<SelectTrigger className="h-6 w-16 px-2 text-xs">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{AUTOMATION_RAMP_DURATIONS.map((duration) => (
+							<SelectItem key={duration} value={String(duration)}>
+								{duration}s
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			)}
+		</div>
+	);
+}
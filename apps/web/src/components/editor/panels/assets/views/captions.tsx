@@ -9,17 +9,37 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { useState, useRef } from "react";
+import { toast } from "sonner";
 import { extractTimelineAudio } from "@/lib/media/mediabunny";
 import { useEditor } from "@/hooks/use-editor";
+import { useFileUpload } from "@/hooks/use-file-upload";
 import { DEFAULT_TEXT_ELEMENT } from "@/constants/text-constants";
-import { TRANSCRIPTION_LANGUAGES } from "@/constants/transcription-constants";
+import {
+	CAPTION_FONT_SIZE,
+	TRANSCRIPTION_LANGUAGES,
+} from "@/constants/transcription-constants";
+import {
+	SUBTITLE_FILE_ACCEPT,
+	SUBTITLE_FORMAT_LABELS,
+	SUBTITLE_MIME_TYPES,
+} from "@/constants/subtitle-constants";
 import type {
 	TranscriptionLanguage,
 	TranscriptionProgress,
 } from "@/types/transcription";
+import { SUBTITLE_FORMAT_VALUES, type SubtitleFormat } from "@/types/subtitles";
+import type { TextTrack } from "@/types/timeline";
 import { transcriptionService } from "@/services/transcription/service";
 import { decodeAudioToFloat32 } from "@/lib/media/audio";
 import { buildCaptionChunks } from "@/lib/transcription/caption";
+import { AddTextTrackCommand } from "@/lib/commands";
+import {
+	getTextTrackSubtitleCues,
+	parseSubtitles,
+	serializeSubtitles,
+	subtitleCuesToTextElements,
+} from "@/lib/subtitles";
+import { downloadBlob } from "@/utils/browser";
 import { Spinner } from "@/components/ui/spinner";
 
 export function Captions() {
@@ -61,28 +81,26 @@ export function Captions() {
 			});
 
 			setProcessingStep("Generating captions...");
-			const captionChunks = buildCaptionChunks({ segments: result.segments });
-
-			const captionTrackId = editor.timeline.addTrack({
-				type: "text",
-				index: 0,
+			const captionChunks = buildCaptionChunks({
+				segments: result.segments,
+				words: result.words,
 			});
 
-			for (let i = 0; i < captionChunks.length; i++) {
-				const caption = captionChunks[i];
-				editor.timeline.insertElement({
-					placement: { mode: "explicit", trackId: captionTrackId },
-					element: {
+			editor.command.execute(
+				new AddTextTrackCommand(
+					captionChunks.map((caption, i) => ({
 						...DEFAULT_TEXT_ELEMENT,
 						name: `Caption ${i + 1}`,
 						content: caption.text,
 						duration: caption.duration,
 						startTime: caption.startTime,
-						fontSize: 65,
+						fontSize: CAPTION_FONT_SIZE,
 						fontWeight: "bold",
-					},
-				});
-			}
+						words: caption.words,
+					})),
+					"Captions",
+				),
+			);
 		} catch (error) {
 			console.error("Transcription failed:", error);
 			setError(
@@ -112,24 +130,27 @@ export function Captions() {
 			ref={containerRef}
 			className="flex h-full flex-col justify-between"
 		>
-			<PropertyGroup title="Language">
-				<Select
-					value={selectedLanguage}
-					onValueChange={(value) => handleLanguageChange({ value })}
-				>
-					<SelectTrigger className="bg-panel-accent h-8 w-full text-xs">
-						<SelectValue placeholder="Select a language" />
-					</SelectTrigger>
-					<SelectContent>
-						<SelectItem value="auto">Auto detect</SelectItem>
-						{TRANSCRIPTION_LANGUAGES.map((language) => (
-							<SelectItem key={language.code} value={language.code}>
-								{language.name}
-							</SelectItem>
-						))}
-					</SelectContent>
-				</Select>
-			</PropertyGroup>
+			<div>
+				<PropertyGroup title="Language">
+					<Select
+						value={selectedLanguage}
+						onValueChange={(value) => handleLanguageChange({ value })}
+					>
+						<SelectTrigger className="bg-panel-accent h-8 w-full text-xs">
+							<SelectValue placeholder="Select a language" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="auto">Auto detect</SelectItem>
+							{TRANSCRIPTION_LANGUAGES.map((language) => (
+								<SelectItem key={language.code} value={language.code}>
+									{language.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</PropertyGroup>
+				<SubtitleFiles />
+			</div>
 
 			<div className="flex flex-col gap-4">
 				{error && (
@@ -150,3 +171,101 @@ export function Captions() {
 		</BaseView>
 	);
 }
+
+function SubtitleFiles() {
+	const editor = useEditor();
+	const [trackId, setTrackId] = useState("");
+	const [format, setFormat] = useState<SubtitleFormat>("srt");
+
+	const textTracks = editor.timeline
+		.getTracks()
+		.filter((track): track is TextTrack => track.type === "text");
+	const selectedTrack = textTracks.find((track) => track.id === trackId);
+
+	const importSubtitles = async (file: File) => {
+		const cues = parseSubtitles({ content: await file.text() });
+		if (cues.length === 0) {
+			toast.error(`No subtitles found in ${file.name}`);
+			return;
+		}
+		editor.command.execute(
+			new AddTextTrackCommand(
+				subtitleCuesToTextElements({ cues }),
+				file.name.replace(/\.(srt|vtt)$/i, ""),
+			),
+		);
+		toast.success(
+			`Imported ${cues.length} ${cues.length === 1 ? "subtitle" : "subtitles"}`,
+		);
+	};
+
+	const { openFilePicker, fileInputProps } = useFileUpload({
+		accept: SUBTITLE_FILE_ACCEPT,
+		onFilesSelected: (files) => {
+			const [file] = files;
+			if (file) void importSubtitles(file);
+		},
+	});
+
+	const handleExport = () => {
+		if (!selectedTrack) return;
+		const content = serializeSubtitles({
+			cues: getTextTrackSubtitleCues({ track: selectedTrack }),
+			format,
+		});
+		downloadBlob({
+			blob: new Blob([content], { type: SUBTITLE_MIME_TYPES[format] }),
+			fileName: `${selectedTrack.name}.${format}`,
+		});
+	};
+
+	return (
+		<PropertyGroup title="Subtitle files">
+			<div className="flex flex-col gap-2">
+				<Button variant="outline" size="sm" onClick={openFilePicker}>
+					Import SRT / WebVTT
+				</Button>
+				<input {...fileInputProps} />
+
+				<Select value={trackId} onValueChange={setTrackId}>
+					<SelectTrigger className="bg-panel-accent h-8 w-full text-xs">
+						<SelectValue placeholder="Select a text track" />
+					</SelectTrigger>
+					<SelectContent>
+						{textTracks.map((track) => (
+							<SelectItem key={track.id} value={track.id}>
+								{track.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="flex gap-2">
+					<Select
+						value={format}
+						onValueChange={(value) => {
+							if (isSubtitleFormat(value)) setFormat(value);
+						}}
+					>
+						<SelectTrigger className="bg-panel-accent h-8 w-full text-xs">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{SUBTITLE_FORMAT_VALUES.map((value) => (
+								<SelectItem key={value} value={value}>
+									{SUBTITLE_FORMAT_LABELS[value]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button size="sm" onClick={handleExport} disabled={!selectedTrack}>
+						Export
+					</Button>
+				</div>
+			</div>
+		</PropertyGroup>
+	);
+}
+
+function isSubtitleFormat(value: string): value is SubtitleFormat {
+	return SUBTITLE_FORMAT_VALUES.some((format) => format === value);
+}
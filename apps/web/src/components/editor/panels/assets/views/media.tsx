@@ -35,6 +35,7 @@ import {
 	buildVideoElement,
 } from "@/lib/timeline/element-utils";
 import { useAssetsPanelStore } from "@/stores/assets-panel-store";
+import { useTransientStore } from "@/stores/transient-store";
 import type { MediaAsset } from "@/types/assets";
 import type { CreateTimelineElement } from "@/types/timeline";
 import { cn } from "@/utils/ui";
@@ -377,6 +378,17 @@ function MediaItemWithContextMenu({
 			<ContextMenuTrigger>{children}</ContextMenuTrigger>
 			<ContextMenuContent>
 				<ContextMenuItem>Export clips</ContextMenuItem>
+				{(item.type === "audio" || item.type === "video") && (
+					<ContextMenuItem
+						onClick={() =>
+							useTransientStore
+								.getState()
+								.openDetection({ type: "asset", assetId: item.id })
+						}
+					>
+						Detect transients
+					</ContextMenuItem>
+				)}
 				<ContextMenuItem
 					variant="destructive"
 					onClick={(event) => onRemove({ event, id: item.id })}
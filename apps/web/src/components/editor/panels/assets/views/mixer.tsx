@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { VolumeHighIcon, VolumeOffIcon } from "@hugeicons/core-free-icons";
+import { PanelBaseView as BaseView } from "@/components/editor/panels/panel-base-view";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { MAX_TRACK_VOLUME, METER_FLOOR_DB } from "@/constants/mixer-constants";
+import { useEditor } from "@/hooks/use-editor";
+import { type AudioLevels, gainToDb } from "@/lib/media/audio-levels";
+import {
+	canTracktHaveAudio,
+	getTrackDisplayName,
+	getTrackMix,
+	isTrackSilenced,
+} from "@/lib/timeline/track-utils";
+import type { AudioTrack, VideoTrack } from "@/types/timeline";
+import { clamp } from "@/utils/math";
+import { cn } from "@/utils/ui";
+
+type MixerTrack = AudioTrack | VideoTrack;
+
+export function MixerView() {
+	const editor = useEditor();
+	const allTracks = editor.timeline.getTracks();
+	const mixerTracks = allTracks.filter((track): track is MixerTrack =>
+		canTracktHaveAudio(track),
+	);
+
+	return (
+		<BaseView>
+			<div className="flex flex-col gap-3">
+				{mixerTracks.length === 0 ? (
+					<p className="text-muted-foreground py-8 text-center text-sm">
+						Add audio or video to the timeline to mix it
+					</p>
+				) : (
+					mixerTracks.map((track) => (
+						<ChannelStrip
+							key={track.id}
+							track={track}
+							name={getTrackDisplayName(track, allTracks)}
+							isSilenced={isTrackSilenced({ track, tracks: allTracks })}
+						/>
+					))
+				)}
+				<MasterStrip />
+			</div>
+		</BaseView>
+	);
+}
+
+function ChannelStrip({
+	track,
+	name,
+	isSilenced,
+}: {
+	track: MixerTrack;
+	name: string;
+	isSilenced: boolean;
+}) {
+	const editor = useEditor();
+	const { volume, pan } = getTrackMix(track);
+
+	return (
+		<div
+			className={cn(
+				"bg-card flex flex-col gap-2 rounded-lg border p-3",
+				isSilenced && "opacity-60",
+			)}
+		>
+			<div className="flex items-center gap-2">
+				<span className="min-w-0 flex-1 truncate text-sm font-medium">
+					{name}
+				</span>
+				<Button
+					variant={track.solo ? "default" : "outline"}
+					size="icon"
+					aria-pressed={track.solo === true}
+					title="Solo"
+					onClick={() =>
+						editor.timeline.updateTrackMix({
+							trackId: track.id,
+							updates: { solo: !track.solo },
+						})
+					}
+				>
+					S
+				</Button>
+				<Button
+					variant="outline"
+					size="icon"
+					aria-pressed={track.muted}
+					title={track.muted ? "Unmute" : "Mute"}
+					onClick={() => editor.timeline.toggleTrackMute({ trackId: track.id })}
+				>
+					<HugeiconsIcon
+						icon={track.muted ? VolumeOffIcon : VolumeHighIcon}
+						className={cn(track.muted && "text-destructive")}
+					/>
+				</Button>
+			</div>
+			<MixerSlider
+				label="Volume"
+				value={volume * 100}
+				min={0}
+				max={MAX_TRACK_VOLUME * 100}
+				resetValue={100}
+				formatValue={(value) => formatDb({ gain: value / 100 })}
+				onChange={(value) =>
+					editor.timeline.updateTrackMix({
+						trackId: track.id,
+						updates: { volume: value / 100 },
+					})
+				}
+			/>
+			<MixerSlider
+				label="Pan"
+				value={pan * 100}
+				min={-100}
+				max={100}
+				resetValue={0}
+				formatValue={formatPan}
+				onChange={(value) =>
+					editor.timeline.updateTrackMix({
+						trackId: track.id,
+						updates: { pan: value / 100 },
+					})
+				}
+			/>
+			<LevelMeter trackId={track.id} />
+		</div>
+	);
+}
+
+function MasterStrip() {
+	return (
+		<div className="bg-card flex flex-col gap-2 rounded-lg border p-3">
+			<span className="text-sm font-medium">Master</span>
+			<LevelMeter trackId={null} />
+		</div>
+	);
+}
+
+function MixerSlider({
+	label,
+	value,
+	min,
+	max,
+	resetValue,
+	formatValue,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	resetValue: number;
+	formatValue: (value: number) => string;
+	onChange: (value: number) => void;
+}) {
+	return (
+		<div className="flex items-center gap-2">
+			<span className="text-muted-foreground w-12 text-xs">{label}</span>
+			<Slider
+				value={[value]}
+				min={min}
+				max={max}
+				step={1}
+				onValueChange={([next]) => onChange(next)}
+				// double-click goes back to unity or center
+				onDoubleClick={() => onChange(resetValue)}
+				className="flex-1"
+			/>
+			<span className="text-muted-foreground w-14 text-right text-xs tabular-nums">
+				{formatValue(value)}
+			</span>
+		</div>
+	);
+}
+
+/**
+ * Polls the analyser every frame and writes straight to the DOM, so the meters
+ * don't re-render the mixer sixty times a second. A null track is the master bus.
+ */
+function LevelMeter({ trackId }: { trackId: string | null }) {
+	const editor = useEditor();
+	const rmsRef = useRef<HTMLDivElement>(null);
+	const peakRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		let frame = 0;
+		const draw = () => {
+			const levels: AudioLevels =
+				trackId === null
+					? editor.audio.getMasterLevels()
+					: editor.audio.getTrackLevels({ trackId });
+			if (rmsRef.current) {
+				rmsRef.current.style.width = `${levelToPercent({ level: levels.rms })}%`;
+			}
+			if (peakRef.current) {
+				peakRef.current.style.left = `${levelToPercent({ level: levels.peak })}%`;
+				peakRef.current.classList.toggle("bg-destructive", levels.peak >= 1);
+			}
+			frame = requestAnimationFrame(draw);
+		};
+		frame = requestAnimationFrame(draw);
+		return () => cancelAnimationFrame(frame);
+	}, [editor, trackId]);
+
+	return (
+		<div className="bg-primary/15 relative h-1.5 overflow-hidden rounded-full">
+			<div ref={rmsRef} className="bg-primary absolute inset-y-0 left-0 w-0" />
+			<div
+				ref={peakRef}
+				className="bg-foreground absolute inset-y-0 left-0 w-0.5 -translate-x-full"
+			/>
+		</div>
+	);
+}
+
+function levelToPercent({ level }: { level: number }): number {
+	const db = gainToDb({ gain: level });
+	return clamp({
+		value: ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100,
+		min: 0,
+		max: 100,
+	});
+}
+
+function formatDb({ gain }: { gain: number }): string {
+	const db = gainToDb({ gain });
+	if (!Number.isFinite(db)) return "-inf dB";
+	return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+function formatPan(value: number): string {
+	if (value === 0) return "C";
+	return value < 0 ? `L${-value}` : `R${value}`;
+}
@@ -12,15 +12,21 @@ import { HugeiconsIcon } from "@hugeicons/react";
 import { PlusSignIcon, MoreVerticalIcon, ArrowDown01Icon, ArrowUp01Icon } from "@hugeicons/core-free-icons";
 import { useEditor } from "@/hooks/use-editor";
 import { useOneshotStore } from "@/stores/oneshot-store";
-import type { OneshotDefinition } from "@/types/oneshot";
-import { DeleteOneshotCommand, DeleteOneshotMarkerCommand } from "@/lib/commands";
+import type { OneshotDefinition, OneshotVariationGroup } from "@/types/oneshot";
+import {
+	DeleteOneshotCommand,
+	DeleteOneshotGroupCommand,
+	DeleteOneshotMarkerCommand,
+} from "@/lib/commands";
+import { ONESHOT_VARIATION_MODE_OPTIONS } from "@/constants/oneshot-constants";
 import { useState, useEffect, useCallback } from "react";
 import { OneshotDefinitionDialog } from "@/components/editor/dialogs/oneshot-definition-dialog";
+import { OneshotGroupDialog } from "@/components/editor/dialogs/oneshot-group-dialog";
 import { OneshotSelectionDialog } from "@/components/editor/dialogs/oneshot-selection-dialog";
 import { TargetIcon } from "@hugeicons/core-free-icons";
 
 export function OneshotView() {
-	const { startCreatingOneshot } = useOneshotStore();
+	const { startCreatingOneshot, startCreatingGroup } = useOneshotStore();
 
 	return (
 		<div className="flex h-full min-h-0 flex-col">
@@ -32,6 +38,14 @@ export function OneshotView() {
 				</Button>
 				<div className="flex gap-2">
 					<GlobalMarkModeButton />
+					<Button
+						variant="outline"
+						onClick={startCreatingGroup}
+						className="flex-[2]"
+					>
+						<HugeiconsIcon icon={PlusSignIcon} />
+						Group
+					</Button>
 				</div>
 			</div>
 
@@ -43,6 +57,9 @@ export function OneshotView() {
 			{/* Dialog for creating/editing oneshots */}
 			<OneshotDefinitionDialog />
 
+			{/* Dialog for creating/editing variation groups */}
+			<OneshotGroupDialog />
+
 			{/* Dialog for selecting oneshot when pressing O without mark mode */}
 			<OneshotSelectionDialog />
 		</div>
@@ -98,8 +115,9 @@ function OneshotsList() {
 	}, [editor.oneshot]);
 
 	const definitions = editor.oneshot.getDefinitions();
+	const groups = editor.oneshot.getGroups();
 
-	if (definitions.length === 0) {
+	if (definitions.length === 0 && groups.length === 0) {
 		return (
 			<div className="flex flex-col items-center justify-center py-8 text-center text-muted-foreground">
 				<p className="text-sm">No oneshots yet</p>
@@ -113,6 +131,14 @@ function OneshotsList() {
 			{definitions.map((definition) => (
 				<OneshotCard key={definition.id} definition={definition} />
 			))}
+			{groups.length > 0 && (
+				<h3 className="text-xs font-medium text-muted-foreground mt-2">
+					Variation Groups
+				</h3>
+			)}
+			{groups.map((group) => (
+				<OneshotGroupCard key={group.id} group={group} />
+			))}
 		</div>
 	);
 }
@@ -191,14 +217,99 @@ function OneshotCard({ definition }: { definition: OneshotDefinition }) {
 			</div>
 
 			{/* Markers list */}
-			<OneshotMarkersList definitionId={definition.id} />
+			<OneshotMarkersList oneshotId={definition.id} />
+		</div>
+	);
+}
+
+function OneshotGroupCard({ group }: { group: OneshotVariationGroup }) {
+	const editor = useEditor();
+	const { isMarkModeActive, activeOneshotId, enterMarkMode, exitMarkMode } =
+		useOneshotStore();
+	const { startEditingGroup } = useOneshotStore();
+	const isActive = isMarkModeActive && activeOneshotId === group.id;
+
+	const handleDelete = () => {
+		if (confirm(`Delete variation group "${group.name}" and its markers?`)) {
+			editor.command.execute(new DeleteOneshotGroupCommand(group.id));
+		}
+	};
+
+	const handleToggleMarkMode = () => {
+		if (isActive) {
+			exitMarkMode();
+		} else {
+			enterMarkMode(group.id);
+		}
+	};
+
+	const memberNames = group.definitionIds
+		.map((id) => editor.oneshot.getDefinition(id)?.name)
+		.filter((name): name is string => name !== undefined);
+	const modeLabel = ONESHOT_VARIATION_MODE_OPTIONS.find(
+		(option) => option.value === group.mode,
+	)?.label;
+	const randomization = [
+		group.pitchRange > 0 && `±${group.pitchRange} st`,
+		group.gainRange > 0 && `±${group.gainRange} dB`,
+	].filter(Boolean);
+
+	return (
+		<div className="border rounded-lg p-3 bg-card">
+			<div className="flex items-start justify-between gap-2">
+				<div className="flex-1 min-w-0">
+					<div className="flex items-center gap-2">
+						<div
+							className="w-3 h-3 rounded-sm flex-shrink-0"
+							style={{ backgroundColor: group.color }}
+						/>
+						<h4 className="font-medium text-sm truncate">{group.name}</h4>
+					</div>
+					<p className="text-xs text-muted-foreground mt-1 truncate">
+						{memberNames.length > 0 ? memberNames.join(", ") : "No variations"}
+					</p>
+					<p className="text-xs text-muted-foreground">
+						{[modeLabel, ...randomization].join(", ")}
+					</p>
+				</div>
+
+				<DropdownMenu>
+					<DropdownMenuTrigger asChild>
+						<Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+							<HugeiconsIcon icon={MoreVerticalIcon} className="h-4 w-4" />
+						</Button>
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="end">
+						<DropdownMenuItem onClick={() => startEditingGroup(group.id)}>
+							Edit
+						</DropdownMenuItem>
+						<DropdownMenuItem onClick={handleDelete} className="text-destructive">
+							Delete
+						</DropdownMenuItem>
+					</DropdownMenuContent>
+				</DropdownMenu>
+			</div>
+
+			<div className="mt-3">
+				<Button
+					variant={isActive ? "default" : "outline"}
+					size="sm"
+					onClick={handleToggleMarkMode}
+					disabled={memberNames.length === 0 && !isActive}
+					className="w-full"
+				>
+					{isActive ? "Exit Mark Mode" : "Enter Mark Mode (O)"}
+				</Button>
+			</div>
+
+			<OneshotMarkersList oneshotId={group.id} />
 		</div>
 	);
 }
 
-function OneshotMarkersList({ definitionId }: { definitionId: string }) {
+function OneshotMarkersList({ oneshotId }: { oneshotId: string }) {
 	const editor = useEditor();
-	const markers = editor.oneshot.getMarkersForDefinition(definitionId);
+	const markers = editor.oneshot.getMarkersForDefinition(oneshotId);
 	const [isCollapsed, setIsCollapsed] = useState(true);
 
 	if (markers.length === 0) return null;
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { PanelBaseView as BaseView } from "@/components/editor/panels/panel-base-view";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { useEditor } from "@/hooks/use-editor";
+import { useKeybindingDisabler } from "@/hooks/use-keybindings";
+import { DeleteTimeRangesCommand } from "@/lib/commands";
+import { decodeAudioToFloat32, loadElementAudioBlob } from "@/lib/media/audio";
+import { canElementHaveAudio } from "@/lib/timeline";
+import {
+	type TranscriptWord,
+	dropLinkedWords,
+	getClipTranscriptWords,
+	getSentenceBounds,
+	getTranscriptCuts,
+	getTranscriptSourceKey,
+	getTranscriptionWords,
+} from "@/lib/transcription/transcript";
+import { transcriptionService } from "@/services/transcription/service";
+import { useTimelineStore } from "@/stores/timeline-store";
+import { useTranscriptStore } from "@/stores/transcript-store";
+import type { EditorCore } from "@/core";
+import type { AudioElement, VideoElement } from "@/types/timeline";
+import { cn } from "@/utils/ui";
+
+interface TranscriptClip {
+	trackId: string;
+	element: AudioElement | VideoElement;
+}
+
+// anchor is where the selection started, focus where shift-click moved it.
+// indexes only hold for the clips the selection was made in
+interface WordSelection {
+	clipKey: string;
+	anchor: number;
+	focus: number;
+}
+
+export function TranscriptView() {
+	const editor = useEditor();
+	const { transcripts, setTranscript } = useTranscriptStore();
+	const { disableKeybindings, enableKeybindings } = useKeybindingDisabler();
+	const [selection, setSelection] = useState<WordSelection | null>(null);
+	const [isTranscribing, setIsTranscribing] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	const clips = getSelectedClips({ editor });
+	const untranscribed = [
+		...new Map(
+			clips
+				.filter(
+					({ element }) => !transcripts[getTranscriptSourceKey({ element })],
+				)
+				.map((clip) => [
+					getTranscriptSourceKey({ element: clip.element }),
+					clip,
+				]),
+		).values(),
+	];
+	const words = dropLinkedWords({
+		words: clips.flatMap(({ trackId, element }) => {
+			const sourceWords = transcripts[getTranscriptSourceKey({ element })];
+			return sourceWords
+				? getClipTranscriptWords({ words: sourceWords, clip: element, trackId })
+				: [];
+		}),
+	});
+
+	const clipKey = clips.map(({ element }) => element.id).join(",");
+	const activeSelection = selection?.clipKey === clipKey ? selection : null;
+
+	// shortcuts are off while a word has focus; unmounting ends that
+	useEffect(() => enableKeybindings, [enableKeybindings]);
+
+	const selectedRange = activeSelection
+		? {
+				start: Math.min(activeSelection.anchor, activeSelection.focus),
+				end: Math.max(activeSelection.anchor, activeSelection.focus),
+			}
+		: null;
+	const selectedCount = selectedRange
+		? selectedRange.end - selectedRange.start + 1
+		: 0;
+	const currentTime = editor.playback.getCurrentTime();
+
+	const handleTranscribe = async () => {
+		setIsTranscribing(true);
+		try {
+			for (const [index, { element }] of untranscribed.entries()) {
+				setStatus(`Transcribing ${index + 1} of ${untranscribed.length}...`);
+				const audioBlob = await loadElementAudioBlob({
+					element,
+					mediaAssets: editor.media.getAssets(),
+				});
+				const { samples } = await decodeAudioToFloat32({ audioBlob });
+				const result = await transcriptionService.transcribe({
+					audioData: samples,
+					onProgress: (progress) => {
+						if (progress.status === "loading-model") {
+							setStatus(`Loading model ${Math.round(progress.progress)}%`);
+						}
+					},
+				});
+				setTranscript(
+					getTranscriptSourceKey({ element }),
+					getTranscriptionWords({ result }),
+				);
+			}
+		} catch (error) {
+			console.error("Transcription failed:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Transcription failed",
+			);
+		} finally {
+			setIsTranscribing(false);
+			setStatus(null);
+		}
+	};
+
+	const handleWordClick = ({
+		index,
+		extend,
+	}: {
+		index: number;
+		extend: boolean;
+	}) => {
+		setSelection(
+			extend && activeSelection
+				? { ...activeSelection, focus: index }
+				: { clipKey, anchor: index, focus: index },
+		);
+		editor.playback.seek({ time: words[index].start });
+	};
+
+	const handleSentenceSelect = ({ index }: { index: number }) => {
+		const { start, end } = getSentenceBounds({ words, index });
+		setSelection({ clipKey, anchor: start, focus: end });
+	};
+
+	const handleDelete = () => {
+		if (!selectedRange) return;
+		const cuts = getTranscriptCuts({
+			words,
+			selected: (index) =>
+				index >= selectedRange.start && index <= selectedRange.end,
+		});
+		if (cuts.length === 0) return;
+
+		// cutting words always closes the gap, like a ripple delete
+		const { rippleAllTracksEnabled } = useTimelineStore.getState();
+		editor.command.execute(
+			new DeleteTimeRangesCommand(cuts, { allTracks: rippleAllTracksEnabled }),
+		);
+		setSelection(null);
+	};
+
+	const handleKeyDown = (event: React.KeyboardEvent) => {
+		if (event.key === "Delete" || event.key === "Backspace") {
+			event.preventDefault();
+			handleDelete();
+		} else if (event.key === "Escape") {
+			setSelection(null);
+		}
+	};
+
+	if (clips.length === 0) {
+		return (
+			<BaseView>
+				<p className="text-muted-foreground py-8 text-center text-sm">
+					Select audio or video clips to see their transcript
+				</p>
+			</BaseView>
+		);
+	}
+
+	return (
+		<BaseView className="flex h-full flex-col gap-4">
+			{words.length > 0 ? (
+				<div className="flex-1 overflow-y-auto rounded-md border p-3 text-sm leading-7">
+					{words.map((word, index) => (
+						<TranscriptWordItem
+							key={`${word.elementId}-${index}`}
+							word={word}
+							isSelected={
+								!!selectedRange &&
+								index >= selectedRange.start &&
+								index <= selectedRange.end
+							}
+							isActive={currentTime >= word.start && currentTime < word.end}
+							onClick={(extend) => handleWordClick({ index, extend })}
+							onDoubleClick={() => handleSentenceSelect({ index })}
+							onKeyDown={handleKeyDown}
+							onFocus={disableKeybindings}
+							onBlur={enableKeybindings}
+						/>
+					))}
+				</div>
+			) : (
+				<p className="text-muted-foreground py-8 text-center text-sm">
+					{untranscribed.length > 0
+						? "Transcribe the selected clips to edit them by their words"
+						: "No speech found in the selected clips"}
+				</p>
+			)}
+
+			<div className="flex flex-col gap-2">
+				{untranscribed.length > 0 && (
+					<Button
+						className="w-full"
+						onClick={handleTranscribe}
+						disabled={isTranscribing}
+					>
+						{isTranscribing && <Spinner className="mr-1" />}
+						{isTranscribing
+							? status
+							: `Transcribe ${untranscribed.length} ${untranscribed.length === 1 ? "clip" : "clips"}`}
+					</Button>
+				)}
+				{words.length > 0 && (
+					<Button
+						variant="outline"
+						className="w-full"
+						onClick={handleDelete}
+						disabled={selectedCount === 0}
+					>
+						{selectedCount > 0
+							? `Cut ${selectedCount} ${selectedCount === 1 ? "word" : "words"}`
+							: "Click words to select, double-click for a sentence"}
+					</Button>
+				)}
+			</div>
+		</BaseView>
+	);
+}
+
+function TranscriptWordItem({
+	word,
+	isSelected,
+	isActive,
+	onClick,
+	onDoubleClick,
+	onKeyDown,
+	onFocus,
+	onBlur,
+}: {
+	word: TranscriptWord;
+	isSelected: boolean;
+	isActive: boolean;
+	onClick: (extend: boolean) => void;
+	onDoubleClick: () => void;
+	onKeyDown: (event: React.KeyboardEvent) => void;
+	onFocus: () => void;
+	onBlur: () => void;
+}) {
+	return (
+		<>
+			<button
+				type="button"
+				aria-pressed={isSelected}
+				className={cn(
+					"cursor-pointer rounded px-0.5 outline-none",
+					isActive && "underline decoration-2 underline-offset-4",
+					isSelected ? "bg-primary text-primary-foreground" : "hover:bg-accent",
+				)}
+				onClick={(event) => onClick(event.shiftKey)}
+				onDoubleClick={onDoubleClick}
+				onKeyDown={onKeyDown}
+				onFocus={onFocus}
+				onBlur={onBlur}
+			>
+				{word.text.trim()}
+			</button>{" "}
+		</>
+	);
+}
+
+// selected clips that carry audio, in timeline order
+function getSelectedClips({
+	editor,
+}: {
+	editor: EditorCore;
+}): TranscriptClip[] {
+	return editor.selection
+		.getSelectedElements()
+		.flatMap(({ trackId, elementId }) => {
+			const element = editor.timeline
+				.getTrackById({ trackId })
+				?.elements.find((candidate) => candidate.id === elementId);
+			return element && canElementHaveAudio(element)
+				? [{ trackId, element }]
+				: [];
+		})
+		.sort((a, b) => a.element.startTime - b.element.startTime);
+}
@@ -8,6 +8,7 @@ import { CanvasRenderer } from "@/services/renderer/canvas-renderer";
 import type { RootNode } from "@/services/renderer/nodes/root-node";
 import { buildScene } from "@/services/renderer/scene-builder";
 import { getLastFrameTime } from "@/lib/time";
+import { TransformGizmo } from "./transform-gizmo";
 
 function usePreviewSize() {
 	const editor = useEditor();
@@ -23,6 +24,9 @@ function RenderTreeController() {
 	const editor = useEditor();
 	const tracks = editor.timeline.getTracks();
 	const mediaAssets = editor.media.getAssets();
+	const transitions = editor.transitions.getTransitions();
+	const scenes = editor.scenes.getScenes();
+	const automation = editor.automation.getSnapshot();
 	const activeProject = editor.project.getActive();
 
 	const { width, height } = usePreviewSize();
@@ -37,27 +41,45 @@ function RenderTreeController() {
 			duration,
 			canvasSize: { width, height },
 			background: activeProject.settings.background,
+			transitions,
+			scenes,
+			automation,
 		});
 
 		editor.renderer.setRenderTree({ renderTree });
-	}, [tracks, mediaAssets, activeProject?.settings.background, width, height]);
+	}, [
+		tracks,
+		mediaAssets,
+		transitions,
+		scenes,
+		automation,
+		activeProject?.settings.background,
+		width,
+		height,
+	]);
 
 	return null;
 }
 
 export function PreviewPanel() {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+
 	return (
 		<div className="bg-panel relative flex h-full min-h-0 w-full min-w-0 flex-col rounded-sm">
-			<div className="flex min-h-0 min-w-0 flex-1 items-center justify-center p-2">
-				<PreviewCanvas />
+			<div className="relative flex min-h-0 min-w-0 flex-1 items-center justify-center p-2">
+				<PreviewCanvas canvasRef={canvasRef} />
+				<TransformGizmo canvasRef={canvasRef} />
 				<RenderTreeController />
 			</div>
 		</div>
 	);
 }
 
-function PreviewCanvas() {
-	const ref = useRef<HTMLCanvasElement>(null);
+function PreviewCanvas({
+	canvasRef: ref,
+}: {
+	canvasRef: React.RefObject<HTMLCanvasElement | null>;
+}) {
 	const lastFrameRef = useRef(-1);
 	const lastSceneRef = useRef<RootNode | null>(null);
 	const renderingRef = useRef(false);
@@ -103,7 +125,7 @@ function PreviewCanvas() {
 					});
 			}
 		}
-	}, [renderer, renderTree, editor.playback]);
+	}, [ref, renderer, renderTree, editor.playback]);
 
 	useRafLoop(render);
 
@@ -0,0 +1,454 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import { useTimelineStore } from "@/stores/timeline-store";
+import {
+	getElementContentTime,
+	resolveAnimatedTransform,
+} from "@/lib/keyframes";
+import {
+	type ElementBounds,
+	type SnapGuide,
+	type VisualElement,
+	getElementBounds,
+	getSnapLines,
+	getVisibleElementsTopToBottom,
+	isPointInBounds,
+	snapBounds,
+} from "@/lib/preview";
+import type { TimelineTrack, Transform } from "@/types/timeline";
+import { cn } from "@/utils/ui";
+
+// screen pixels within which a dragged element snaps to a guide
+const SNAP_THRESHOLD_PX = 6;
+// rotation step while shift is held
+const ROTATION_STEP_DEGREES = 15;
+const MIN_SCALE = 0.01;
+// distance of the rotate handle above the top edge, in screen pixels
+const ROTATE_HANDLE_OFFSET_PX = 24;
+
+type DragMode = "move" | "scale" | "rotate";
+
+interface GizmoDragState {
+	mode: DragMode;
+	trackId: string;
+	elementId: string;
+	startPoint: { x: number; y: number };
+	initialTransform: Transform;
+	initialBounds: ElementBounds;
+	contentTime: number;
+	baseState: TimelineTrack[];
+	lastTransform: Transform | null;
+}
+
+interface OverlayRect {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+const CORNERS = [
+	{ key: "top-left", x: -1, y: -1, cursor: "cursor-nwse-resize" },
+	{ key: "top-right", x: 1, y: -1, cursor: "cursor-nesw-resize" },
+	{ key: "bottom-right", x: 1, y: 1, cursor: "cursor-nwse-resize" },
+	{ key: "bottom-left", x: -1, y: 1, cursor: "cursor-nesw-resize" },
+] as const;
+
+/**
+ * Selection and transform handles drawn over the preview canvas. Edits are
+ * previewed without history while dragging and committed as one undo entry.
+ */
+export function TransformGizmo({
+	canvasRef,
+}: {
+	canvasRef: React.RefObject<HTMLCanvasElement | null>;
+}) {
+	const editor = useEditor();
+	const snappingEnabled = useTimelineStore((state) => state.snappingEnabled);
+	const overlayRef = useRef<HTMLDivElement>(null);
+	const dragStateRef = useRef<GizmoDragState | null>(null);
+	const [isDragging, setIsDragging] = useState(false);
+	const [guides, setGuides] = useState<SnapGuide[]>([]);
+	const [overlayRect, setOverlayRect] = useState<OverlayRect | null>(null);
+
+	const { canvasSize } = editor.project.getActive().settings;
+	const tracks = editor.timeline.getTracks();
+	const mediaAssets = editor.media.getAssets();
+	const selectedElements = editor.selection.getSelectedElements();
+	const currentTime = editor.playback.getCurrentTime();
+
+	// keep the overlay on top of the canvas as the panel resizes
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const container = overlayRef.current?.parentElement;
+		if (!canvas || !container) return;
+
+		const measure = () => {
+			const canvasBox = canvas.getBoundingClientRect();
+			const containerBox = container.getBoundingClientRect();
+			setOverlayRect({
+				left: canvasBox.left - containerBox.left,
+				top: canvasBox.top - containerBox.top,
+				width: canvasBox.width,
+				height: canvasBox.height,
+			});
+		};
+
+		measure();
+		const observer = new ResizeObserver(measure);
+		observer.observe(canvas);
+		observer.observe(container);
+		return () => observer.disconnect();
+	}, [canvasRef]);
+
+	const displayScale = overlayRect ? overlayRect.width / canvasSize.width : 1;
+
+	const getBounds = useCallback(
+		({ element, time }: { element: VisualElement; time: number }) =>
+			getElementBounds({
+				element,
+				mediaAsset:
+					element.type === "video" || element.type === "image"
+						? mediaAssets.find((asset) => asset.id === element.mediaId)
+						: undefined,
+				canvasSize,
+				time,
+			}),
+		[mediaAssets, canvasSize],
+	);
+
+	const toCanvasPoint = useCallback(
+		({ clientX, clientY }: { clientX: number; clientY: number }) => {
+			const box = canvasRef.current?.getBoundingClientRect();
+			if (!box || box.width === 0 || box.height === 0) return null;
+			return {
+				x: ((clientX - box.left) / box.width) * canvasSize.width,
+				y: ((clientY - box.top) / box.height) * canvasSize.height,
+			};
+		},
+		[canvasRef, canvasSize],
+	);
+
+	const visibleElements = getVisibleElementsTopToBottom({
+		tracks,
+		time: currentTime,
+	});
+	const selectedVisible = visibleElements.filter(({ trackId, element }) =>
+		selectedElements.some(
+			(selected) =>
+				selected.trackId === trackId && selected.elementId === element.id,
+		),
+	);
+
+	useEffect(() => {
+		if (!isDragging) return;
+
+		const handleMouseMove = (event: MouseEvent) => {
+			const drag = dragStateRef.current;
+			const point = toCanvasPoint(event);
+			if (!drag || !point) return;
+
+			const { initialTransform, initialBounds, startPoint } = drag;
+			const center = initialBounds.center;
+			let transform: Transform = initialTransform;
+			let nextGuides: SnapGuide[] = [];
+
+			if (drag.mode === "move") {
+				const delta = { x: point.x - startPoint.x, y: point.y - startPoint.y };
+				if (snappingEnabled && !event.altKey) {
+					const others = getVisibleElementsTopToBottom({
+						tracks: editor.timeline.getTracks(),
+						time: editor.playback.getCurrentTime(),
+					})
+						.filter(({ element }) => element.id !== drag.elementId)
+						.map(({ element }) =>
+							getBounds({ element, time: editor.playback.getCurrentTime() }),
+						);
+					const snap = snapBounds({
+						bounds: {
+							...initialBounds,
+							center: { x: center.x + delta.x, y: center.y + delta.y },
+						},
+						lines: getSnapLines({ canvasSize, otherBounds: others }),
+						threshold: SNAP_THRESHOLD_PX / displayScale,
+					});
+					delta.x += snap.offset.x;
+					delta.y += snap.offset.y;
+					nextGuides = snap.guides;
+				}
+				transform = {
+					...initialTransform,
+					position: {
+						x: initialTransform.position.x + delta.x,
+						y: initialTransform.position.y + delta.y,
+					},
+				};
+			}
+
+			if (drag.mode === "scale") {
+				const startDistance = Math.hypot(
+					startPoint.x - center.x,
+					startPoint.y - center.y,
+				);
+				const distance = Math.hypot(point.x - center.x, point.y - center.y);
+				if (startDistance > 0) {
+					transform = {
+						...initialTransform,
+						scale: Math.max(
+							MIN_SCALE,
+							initialTransform.scale * (distance / startDistance),
+						),
+					};
+				}
+			}
+
+			if (drag.mode === "rotate") {
+				const startAngle = Math.atan2(
+					startPoint.y - center.y,
+					startPoint.x - center.x,
+				);
+				const angle = Math.atan2(point.y - center.y, point.x - center.x);
+				let rotate =
+					initialTransform.rotate + ((angle - startAngle) * 180) / Math.PI;
+				if (event.shiftKey) {
+					rotate =
+						Math.round(rotate / ROTATION_STEP_DEGREES) * ROTATION_STEP_DEGREES;
+				}
+				transform = { ...initialTransform, rotate: normalizeDegrees(rotate) };
+			}
+
+			drag.lastTransform = transform;
+			setGuides(nextGuides);
+			editor.timeline.updateElementTransform({
+				trackId: drag.trackId,
+				elementId: drag.elementId,
+				transform,
+				time: drag.contentTime,
+				pushHistory: false,
+			});
+		};
+
+		const handleMouseUp = () => {
+			const drag = dragStateRef.current;
+			dragStateRef.current = null;
+			setIsDragging(false);
+			setGuides([]);
+			if (!drag?.lastTransform) return;
+
+			// the preview already applied the edit, this records it as one step
+			editor.timeline.updateElementTransform({
+				trackId: drag.trackId,
+				elementId: drag.elementId,
+				transform: drag.lastTransform,
+				time: drag.contentTime,
+				baseState: drag.baseState,
+			});
+		};
+
+		window.addEventListener("mousemove", handleMouseMove);
+		window.addEventListener("mouseup", handleMouseUp);
+		return () => {
+			window.removeEventListener("mousemove", handleMouseMove);
+			window.removeEventListener("mouseup", handleMouseUp);
+		};
+	}, [
+		isDragging,
+		editor,
+		canvasSize,
+		displayScale,
+		snappingEnabled,
+		getBounds,
+		toCanvasPoint,
+	]);
+
+	const startDrag = ({
+		event,
+		mode,
+		trackId,
+		element,
+	}: {
+		event: React.MouseEvent;
+		mode: DragMode;
+		trackId: string;
+		element: VisualElement;
+	}) => {
+		const point = toCanvasPoint(event);
+		if (!point) return;
+
+		const time = editor.playback.getCurrentTime();
+		const contentTime = getElementContentTime({ element, time });
+		dragStateRef.current = {
+			mode,
+			trackId,
+			elementId: element.id,
+			startPoint: point,
+			initialTransform: resolveCurrentTransform({ element, time: contentTime }),
+			initialBounds: getBounds({ element, time }),
+			contentTime,
+			baseState: editor.timeline.getTracks(),
+			lastTransform: null,
+		};
+		setIsDragging(true);
+	};
+
+	const handleOverlayMouseDown = (event: React.MouseEvent) => {
+		if (event.button !== 0) return;
+		const point = toCanvasPoint(event);
+		if (!point) return;
+
+		const hit = visibleElements.find(({ element }) =>
+			isPointInBounds({
+				point,
+				bounds: getBounds({ element, time: currentTime }),
+			}),
+		);
+
+		if (!hit) {
+			editor.selection.clearSelection();
+			return;
+		}
+
+		const ref = { trackId: hit.trackId, elementId: hit.element.id };
+		const isSelected = selectedElements.some(
+			(selected) =>
+				selected.trackId === ref.trackId &&
+				selected.elementId === ref.elementId,
+		);
+
+		if (event.shiftKey || event.metaKey || event.ctrlKey) {
+			editor.selection.setSelectedElements({
+				elements: isSelected
+					? selectedElements.filter(
+							(selected) =>
+								!(
+									selected.trackId === ref.trackId &&
+									selected.elementId === ref.elementId
+								),
+						)
+					: [...selectedElements, ref],
+			});
+			return;
+		}
+
+		if (!isSelected) {
+			editor.selection.setSelectedElements({ elements: [ref] });
+		}
+		startDrag({
+			event,
+			mode: "move",
+			trackId: hit.trackId,
+			element: hit.element,
+		});
+	};
+
+	return (
+		<div
+			ref={overlayRef}
+			className="absolute"
+			style={
+				overlayRect
+					? {
+							left: overlayRect.left,
+							top: overlayRect.top,
+							width: overlayRect.width,
+							height: overlayRect.height,
+						}
+					: { display: "none" }
+			}
+			role="application"
+			aria-label="Preview canvas"
+			onMouseDown={handleOverlayMouseDown}
+		>
+			{selectedVisible.map(({ trackId, element }) => {
+				const bounds = getBounds({ element, time: currentTime });
+				const width = bounds.width * displayScale;
+				const height = bounds.height * displayScale;
+
+				return (
+					<div
+						key={element.id}
+						className="border-primary pointer-events-none absolute border"
+						style={{
+							left: bounds.center.x * displayScale - width / 2,
+							top: bounds.center.y * displayScale - height / 2,
+							width,
+							height,
+							transform: `rotate(${bounds.rotation}deg)`,
+						}}
+					>
+						{CORNERS.map((corner) => (
+							<button
+								key={corner.key}
+								type="button"
+								aria-label={`Scale from ${corner.key}`}
+								className={cn(
+									"border-primary pointer-events-auto absolute size-2.5 -translate-x-1/2 -translate-y-1/2 rounded-[2px] border bg-white",
+									corner.cursor,
+								)}
+								style={{
+									left: `${((corner.x + 1) / 2) * 100}%`,
+									top: `${((corner.y + 1) / 2) * 100}%`,
+								}}
+								onMouseDown={(event) => {
+									event.stopPropagation();
+									if (event.button !== 0) return;
+									startDrag({ event, mode: "scale", trackId, element });
+								}}
+							/>
+						))}
+						<button
+							type="button"
+							aria-label="Rotate"
+							title="Drag to rotate, hold shift to step"
+							className="border-primary pointer-events-auto absolute left-1/2 size-3 -translate-x-1/2 cursor-grab rounded-full border bg-white"
+							style={{ top: -ROTATE_HANDLE_OFFSET_PX }}
+							onMouseDown={(event) => {
+								event.stopPropagation();
+								if (event.button !== 0) return;
+								startDrag({ event, mode: "rotate", trackId, element });
+							}}
+						/>
+					</div>
+				);
+			})}
+			{guides.map((guide) => (
+				<div
+					key={`${guide.orientation}-${guide.position}`}
+					className={cn(
+						"pointer-events-none absolute bg-pink-500",
+						guide.orientation === "vertical"
+							? "top-0 bottom-0 w-px"
+							: "right-0 left-0 h-px",
+					)}
+					style={
+						guide.orientation === "vertical"
+							? { left: guide.position * displayScale }
+							: { top: guide.position * displayScale }
+					}
+				/>
+			))}
+		</div>
+	);
+}
+
+function resolveCurrentTransform({
+	element,
+	time,
+}: {
+	element: VisualElement;
+	time: number;
+}): Transform {
+	return resolveAnimatedTransform({
+		transform: element.transform,
+		opacity: element.opacity,
+		keyframes: element.keyframes,
+		time,
+	}).transform;
+}
+
+function normalizeDegrees(degrees: number): number {
+	const wrapped = ((((degrees + 180) % 360) + 360) % 360) - 180;
+	return wrapped === -180 ? 180 : wrapped;
+}
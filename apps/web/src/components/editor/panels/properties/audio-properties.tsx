@@ -1,12 +1,31 @@
-import type { AudioElement } from "@/types/timeline";
+import type { AudioElement, FadeCurve } from "@/types/timeline";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	DEFAULT_FADE_CURVE,
+	FADE_CURVE_OPTIONS,
+	MAX_FADE_DURATION,
+} from "@/constants/audio-fade-constants";
 import { useEditor } from "@/hooks/use-editor";
+import {
+	getAnimatedValue,
+	getElementContentTime,
+	hasKeyframes,
+} from "@/lib/keyframes";
 import {
 	PropertyItem,
 	PropertyItemLabel,
 	PropertyItemValue,
 } from "./property-item";
+import { SpeedProperties } from "./speed-properties";
 
 export function AudioProperties({
 	element,
@@ -17,6 +36,35 @@ export function AudioProperties({
 }) {
 	const editor = useEditor();
 
+	// once volume is keyframed, edits write a keyframe at the playhead
+	const contentTime = getElementContentTime({
+		element,
+		time: editor.playback.getCurrentTime(),
+	});
+	const displayedVolume = getAnimatedValue({
+		element,
+		property: "volume",
+		time: contentTime,
+	});
+
+	const handleVolumeChange = ({ volume }: { volume: number }) => {
+		if (hasKeyframes({ keyframes: element.keyframes, property: "volume" })) {
+			editor.timeline.addKeyframes({
+				trackId,
+				elementId: element.id,
+				time: contentTime,
+				values: { volume },
+			});
+			return;
+		}
+
+		editor.timeline.updateAudioElement({
+			trackId,
+			elementId: element.id,
+			updates: { volume },
+		});
+	};
+
 	const handleLoopToggle = () => {
 		editor.timeline.toggleAudioLoop({
 			elements: [{ trackId, elementId: element.id }],
@@ -27,6 +75,26 @@ export function AudioProperties({
 		<div className="space-y-4 p-5">
 			<div className="space-y-3">
 				<h3 className="text-sm font-medium">Audio Settings</h3>
+				<PropertyItem direction="column">
+					<PropertyItemLabel>Volume</PropertyItemLabel>
+					<PropertyItemValue>
+						<div className="flex items-center gap-2">
+							<Slider
+								value={[displayedVolume * 100]}
+								min={0}
+								max={100}
+								step={1}
+								onValueChange={([value]) =>
+									handleVolumeChange({ volume: value / 100 })
+								}
+								className="w-full"
+							/>
+							<span className="text-muted-foreground w-10 text-right text-xs">
+								{Math.round(displayedVolume * 100)}%
+							</span>
+						</div>
+					</PropertyItemValue>
+				</PropertyItem>
 				<PropertyItem>
 					<PropertyItemLabel>
 						<Label htmlFor="loop-audio">Loop Audio</Label>
@@ -44,7 +112,96 @@ export function AudioProperties({
 						Audio will repeat until the end of the timeline
 					</p>
 				)}
+				<FadeProperty
+					label="Fade in"
+					side="fadeIn"
+					element={element}
+					trackId={trackId}
+				/>
+				<FadeProperty
+					label="Fade out"
+					side="fadeOut"
+					element={element}
+					trackId={trackId}
+				/>
 			</div>
+			<SpeedProperties element={element} trackId={trackId} hasAudio />
 		</div>
 	);
 }
+
+function FadeProperty({
+	label,
+	side,
+	element,
+	trackId,
+}: {
+	label: string;
+	side: "fadeIn" | "fadeOut";
+	element: AudioElement;
+	trackId: string;
+}) {
+	const editor = useEditor();
+	const fade = element[side];
+	const duration = fade?.duration ?? 0;
+	const curve = fade?.curve ?? DEFAULT_FADE_CURVE;
+	const otherDuration =
+		element[side === "fadeIn" ? "fadeOut" : "fadeIn"]?.duration ?? 0;
+	const maxDuration = Math.max(
+		0,
+		Math.min(MAX_FADE_DURATION, element.duration - otherDuration),
+	);
+
+	const updateFade = ({
+		duration,
+		curve,
+	}: {
+		duration: number;
+		curve: FadeCurve;
+	}) => {
+		editor.timeline.updateAudioElement({
+			trackId,
+			elementId: element.id,
+			updates: { [side]: duration > 0 ? { duration, curve } : undefined },
+		});
+	};
+
+	return (
+		<PropertyItem direction="column">
+			<PropertyItemLabel>{label}</PropertyItemLabel>
+			<PropertyItemValue>
+				<div className="flex items-center gap-2">
+					<Slider
+						value={[duration]}
+						min={0}
+						max={maxDuration}
+						step={0.05}
+						onValueChange={([value]) => updateFade({ duration: value, curve })}
+						className="w-full"
+					/>
+					<span className="text-muted-foreground w-10 text-right text-xs">
+						{duration.toFixed(2)}s
+					</span>
+				</div>
+				<Select
+					value={curve}
+					onValueChange={(value) =>
+						updateFade({ duration, curve: value as FadeCurve })
+					}
+					disabled={duration === 0}
+				>
+					<SelectTrigger className="bg-panel-accent mt-2 w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{FADE_CURVE_OPTIONS.map((option) => (
+							<SelectItem key={option.value} value={option.value}>
+								{option.label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</PropertyItemValue>
+		</PropertyItem>
+	);
+}
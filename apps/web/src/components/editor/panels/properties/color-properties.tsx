@@ -0,0 +1,247 @@
+import type { ImageElement, VideoElement } from "@/types/timeline";
+import type { AdjustmentFilterType, ColorFilter } from "@/types/color";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useEditor } from "@/hooks/use-editor";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { parseCubeLut } from "@/lib/color/cube-lut";
+import {
+	ADJUSTMENT_FILTER_OPTIONS,
+	DEFAULT_LUT_AMOUNT,
+} from "@/constants/color-constants";
+import { generateUUID } from "@/utils/id";
+import { toast } from "sonner";
+import { HugeiconsIcon } from "@hugeicons/react";
+import {
+	ArrowDown01Icon,
+	ArrowUp01Icon,
+	Delete02Icon,
+	FileImportIcon,
+} from "@hugeicons/core-free-icons";
+import {
+	PropertyGroup,
+	PropertyItem,
+	PropertyItemLabel,
+	PropertyItemValue,
+} from "./property-item";
+
+export function ColorProperties({
+	element,
+	trackId,
+}: {
+	element: VideoElement | ImageElement;
+	trackId: string;
+}) {
+	const editor = useEditor();
+	const filters = element.filters ?? [];
+
+	const updateFilters = (next: ColorFilter[]) => {
+		editor.timeline.updateMediaElement({
+			trackId,
+			elementId: element.id,
+			updates: { filters: next },
+		});
+	};
+
+	const updateFilter = ({
+		id,
+		updates,
+	}: {
+		id: string;
+		updates: Partial<Pick<ColorFilter, "amount" | "enabled">>;
+	}) => {
+		updateFilters(
+			filters.map((filter) =>
+				filter.id === id ? { ...filter, ...updates } : filter,
+			),
+		);
+	};
+
+	const moveFilter = ({ index, offset }: { index: number; offset: number }) => {
+		const target = index + offset;
+		if (target < 0 || target >= filters.length) return;
+		const next = [...filters];
+		[next[index], next[target]] = [next[target], next[index]];
+		updateFilters(next);
+	};
+
+	const addAdjustment = (type: AdjustmentFilterType) => {
+		const option = ADJUSTMENT_FILTER_OPTIONS.find(
+			(item) => item.value === type,
+		);
+		if (!option) return;
+		updateFilters([
+			...filters,
+			{ id: generateUUID(), type, amount: option.defaultAmount },
+		]);
+	};
+
+	const importLut = async (file: File) => {
+		try {
+			const lut = parseCubeLut({ text: await file.text() });
+			updateFilters([
+				...filters,
+				{
+					id: generateUUID(),
+					type: "lut",
+					name: lut.title ?? file.name.replace(/\.cube$/i, ""),
+					size: lut.size,
+					data: lut.data,
+					domainMin: lut.domainMin,
+					domainMax: lut.domainMax,
+					amount: DEFAULT_LUT_AMOUNT,
+				},
+			]);
+		} catch (error) {
+			console.error("Failed to import LUT:", error);
+			toast.error(
+				error instanceof Error
+					? `Invalid LUT: ${error.message}`
+					: "Failed to import LUT",
+			);
+		}
+	};
+
+	const { openFilePicker, fileInputProps } = useFileUpload({
+		accept: ".cube",
+		onFilesSelected: (files) => {
+			const [file] = files;
+			if (file) void importLut(file);
+		},
+	});
+
+	return (
+		<PropertyGroup title="Color">
+			<div className="space-y-4">
+				{filters.map((filter, index) => (
+					<FilterItem
+						key={filter.id}
+						filter={filter}
+						canMoveUp={index > 0}
+						canMoveDown={index < filters.length - 1}
+						onChange={(updates) => updateFilter({ id: filter.id, updates })}
+						onMove={(offset) => moveFilter({ index, offset })}
+						onRemove={() =>
+							updateFilters(filters.filter((item) => item.id !== filter.id))
+						}
+					/>
+				))}
+				<div className="flex items-center gap-2">
+					<Select
+						value=""
+						onValueChange={(value) =>
+							addAdjustment(value as AdjustmentFilterType)
+						}
+					>
+						<SelectTrigger className="bg-panel-accent flex-1">
+							<SelectValue placeholder="Add filter" />
+						</SelectTrigger>
+						<SelectContent>
+							{ADJUSTMENT_FILTER_OPTIONS.map((option) => (
+								<SelectItem key={option.value} value={option.value}>
+									{option.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button variant="outline" size="sm" onClick={openFilePicker}>
+						<HugeiconsIcon icon={FileImportIcon} />
+						Import LUT
+					</Button>
+					<input {...fileInputProps} />
+				</div>
+			</div>
+		</PropertyGroup>
+	);
+}
+
+function FilterItem({
+	filter,
+	canMoveUp,
+	canMoveDown,
+	onChange,
+	onMove,
+	onRemove,
+}: {
+	filter: ColorFilter;
+	canMoveUp: boolean;
+	canMoveDown: boolean;
+	onChange: (updates: Partial<Pick<ColorFilter, "amount" | "enabled">>) => void;
+	onMove: (offset: number) => void;
+	onRemove: () => void;
+}) {
+	const option =
+		filter.type === "lut"
+			? null
+			: ADJUSTMENT_FILTER_OPTIONS.find((item) => item.value === filter.type);
+	const label = filter.type === "lut" ? `LUT: ${filter.name}` : option?.label;
+	const range = option ?? { min: 0, max: 1, step: 0.01 };
+	const format =
+		option?.format ?? ((amount: number) => `${Math.round(amount * 100)}%`);
+	const isEnabled = filter.enabled !== false;
+
+	return (
+		<PropertyItem direction="column">
+			<div className="flex items-center gap-1">
+				<PropertyItemLabel className="min-w-0 flex-1 truncate">
+					{label}
+				</PropertyItemLabel>
+				<Switch
+					checked={isEnabled}
+					onCheckedChange={(checked) => onChange({ enabled: checked })}
+					aria-label={`Toggle ${label}`}
+				/>
+				<Button
+					variant="ghost"
+					size="icon"
+					disabled={!canMoveUp}
+					onClick={() => onMove(-1)}
+					aria-label="Move filter up"
+				>
+					<HugeiconsIcon icon={ArrowUp01Icon} />
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					disabled={!canMoveDown}
+					onClick={() => onMove(1)}
+					aria-label="Move filter down"
+				>
+					<HugeiconsIcon icon={ArrowDown01Icon} />
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={onRemove}
+					aria-label="Remove filter"
+				>
+					<HugeiconsIcon icon={Delete02Icon} />
+				</Button>
+			</div>
+			<PropertyItemValue>
+				<div className="flex items-center gap-2">
+					<Slider
+						value={[filter.amount]}
+						min={range.min}
+						max={range.max}
+						step={range.step}
+						disabled={!isEnabled}
+						onValueChange={([amount]) => onChange({ amount })}
+						className="w-full"
+					/>
+					<span className="text-muted-foreground w-14 text-right text-xs">
+						{format(filter.amount)}
+					</span>
+				</div>
+			</PropertyItemValue>
+		</PropertyItem>
+	);
+}
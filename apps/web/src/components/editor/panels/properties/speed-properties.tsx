@@ -0,0 +1,106 @@
+import type { AudioElement, VideoElement } from "@/types/timeline";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useEditor } from "@/hooks/use-editor";
+import type { ElementSpeedUpdates } from "@/lib/commands/timeline/element/update-element-speed";
+import {
+	CLIP_SPEED_LIMITS,
+	CLIP_SPEED_PRESETS,
+} from "@/constants/timeline-constants";
+import {
+	PropertyGroup,
+	PropertyItem,
+	PropertyItemLabel,
+	PropertyItemValue,
+} from "./property-item";
+
+export function SpeedProperties({
+	element,
+	trackId,
+	hasAudio,
+}: {
+	element: VideoElement | AudioElement;
+	trackId: string;
+	hasAudio: boolean;
+}) {
+	const editor = useEditor();
+	const speed = element.speed ?? 1;
+
+	const updateSpeed = (updates: ElementSpeedUpdates) => {
+		editor.timeline.updateElementSpeed({
+			trackId,
+			elementId: element.id,
+			updates,
+		});
+	};
+
+	return (
+		<PropertyGroup title="Speed">
+			<div className="space-y-4">
+				<PropertyItem direction="column">
+					<PropertyItemLabel>Speed</PropertyItemLabel>
+					<PropertyItemValue>
+						<div className="flex items-center gap-2">
+							<Slider
+								value={[speed]}
+								min={CLIP_SPEED_LIMITS.min}
+								max={CLIP_SPEED_LIMITS.max}
+								step={0.05}
+								onValueChange={([value]) => updateSpeed({ speed: value })}
+								className="w-full"
+							/>
+							<span className="text-muted-foreground w-12 text-right text-xs">
+								{`${Number(speed.toFixed(2))}x`}
+							</span>
+						</div>
+					</PropertyItemValue>
+				</PropertyItem>
+				<div className="flex flex-wrap gap-1">
+					{CLIP_SPEED_PRESETS.map((preset) => (
+						<Button
+							key={preset}
+							variant={preset === speed ? "secondary" : "outline"}
+							size="sm"
+							className="h-7 px-2"
+							onClick={() => updateSpeed({ speed: preset })}
+						>
+							{preset}x
+						</Button>
+					))}
+				</div>
+				<PropertyItem>
+					<PropertyItemLabel>
+						<Label htmlFor={`reverse-${element.id}`}>Reverse</Label>
+					</PropertyItemLabel>
+					<PropertyItemValue className="flex justify-end">
+						<Switch
+							id={`reverse-${element.id}`}
+							checked={element.reversed ?? false}
+							onCheckedChange={(checked) => updateSpeed({ reversed: checked })}
+						/>
+					</PropertyItemValue>
+				</PropertyItem>
+				{hasAudio && (
+					<PropertyItem>
+						<PropertyItemLabel>
+							<Label htmlFor={`preserve-pitch-${element.id}`}>
+								Preserve pitch
+							</Label>
+						</PropertyItemLabel>
+						<PropertyItemValue className="flex justify-end">
+							<Switch
+								id={`preserve-pitch-${element.id}`}
+								checked={element.preservePitch ?? true}
+								onCheckedChange={(checked) =>
+									updateSpeed({ preservePitch: checked })
+								}
+							/>
+						</PropertyItemValue>
+					</PropertyItem>
+				)}
+			</div>
+		</PropertyGroup>
+	);
+}
@@ -1,10 +1,24 @@
 import { Textarea } from "@/components/ui/textarea";
 import { FontPicker } from "@/components/ui/font-picker";
 import type { FontFamily } from "@/constants/font-constants";
-import type { TextElement } from "@/types/timeline";
+import type {
+	CaptionHighlight,
+	TextAnimation,
+	TextElement,
+} from "@/types/timeline";
+import type { TextElementUpdates } from "@/lib/commands/timeline/element/update-text-element";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import { useState, useRef } from "react";
 import { PanelBaseView } from "@/components/editor/panels/panel-base-view";
 import {
@@ -30,6 +44,22 @@ import {
 } from "@/components/ui/tooltip";
 import { useEditor } from "@/hooks/use-editor";
 import { DEFAULT_COLOR } from "@/constants/project-constants";
+import {
+	CAPTION_HIGHLIGHT_MAX_SCALE,
+	DEFAULT_CAPTION_HIGHLIGHT,
+	DEFAULT_TEXT_ANIMATION_IN,
+	DEFAULT_TEXT_ANIMATION_OUT,
+	DEFAULT_TEXT_SHADOW,
+	TEXT_ANIMATION_EASING_OPTIONS,
+	TEXT_ANIMATION_MIN_DURATION,
+	TEXT_ANIMATION_PRESET_OPTIONS,
+} from "@/constants/text-constants";
+import { hasTextBackground, resolveTextStyle } from "@/lib/text-layout";
+import {
+	getAnimatedValue,
+	getElementContentTime,
+	hasKeyframes,
+} from "@/lib/keyframes";
 
 export function TextProperties({
 	element,
@@ -50,6 +80,39 @@ export function TextProperties({
 
 	const lastSelectedColor = useRef(DEFAULT_COLOR);
 
+	// once opacity is keyframed, edits write a keyframe at the playhead
+	const contentTime = getElementContentTime({
+		element,
+		time: editor.playback.getCurrentTime(),
+	});
+	const isOpacityAnimated = hasKeyframes({
+		keyframes: element.keyframes,
+		property: "opacity",
+	});
+	const displayedOpacity = getAnimatedValue({
+		element,
+		property: "opacity",
+		time: contentTime,
+	});
+
+	const updateOpacity = ({ opacity }: { opacity: number }) => {
+		if (isOpacityAnimated) {
+			editor.timeline.addKeyframes({
+				trackId,
+				elementId: element.id,
+				time: contentTime,
+				values: { opacity },
+			});
+			return;
+		}
+
+		editor.timeline.updateTextElement({
+			trackId,
+			elementId: element.id,
+			updates: { opacity },
+		});
+	};
+
 	const handleFontSizeChange = ({ value }: { value: string }) => {
 		setFontSizeInput(value);
 
@@ -85,27 +148,19 @@ export function TextProperties({
 		if (value.trim() !== "") {
 			const parsed = parseInt(value, 10);
 			const opacityPercent = Number.isNaN(parsed)
-				? Math.round(element.opacity * 100)
+				? Math.round(displayedOpacity * 100)
 				: clamp({ value: parsed, min: 0, max: 100 });
-			editor.timeline.updateTextElement({
-				trackId,
-				elementId: element.id,
-				updates: { opacity: opacityPercent / 100 },
-			});
+			updateOpacity({ opacity: opacityPercent / 100 });
 		}
 	};
 
 	const handleOpacityBlur = () => {
 		const parsed = parseInt(opacityInput, 10);
 		const opacityPercent = Number.isNaN(parsed)
-			? Math.round(element.opacity * 100)
+			? Math.round(displayedOpacity * 100)
 			: clamp({ value: parsed, min: 0, max: 100 });
 		setOpacityInput(opacityPercent.toString());
-		editor.timeline.updateTextElement({
-			trackId,
-			elementId: element.id,
-			updates: { opacity: opacityPercent / 100 },
-		});
+		updateOpacity({ opacity: opacityPercent / 100 });
 	};
 
 	const handleColorChange = ({ color }: { color: string }) => {
@@ -324,16 +379,12 @@ export function TextProperties({
 								<PropertyItemValue>
 									<div className="flex items-center gap-2">
 										<Slider
-											value={[element.opacity * 100]}
+											value={[displayedOpacity * 100]}
 											min={0}
 											max={100}
 											step={1}
 											onValueChange={([value]) => {
-												editor.timeline.updateTextElement({
-													trackId,
-													elementId: element.id,
-													updates: { opacity: value / 100 },
-												});
+												updateOpacity({ opacity: value / 100 });
 												setOpacityInput(value.toString());
 											}}
 											className="w-full"
@@ -402,9 +453,507 @@ export function TextProperties({
 									</div>
 								</PropertyItemValue>
 							</PropertyItem>
+							<TextLayoutProperties
+								element={element}
+								trackId={trackId}
+								containerRef={containerRef}
+							/>
+							{element.words && element.words.length > 0 && (
+								<CaptionHighlightProperty
+									element={element}
+									trackId={trackId}
+									containerRef={containerRef}
+								/>
+							)}
+							<TextAnimationProperties element={element} trackId={trackId} />
 						</div>
 					),
 			}))}
 		/>
 	);
 }
+
+// box, spacing, outline, shadow and background shape
+function TextLayoutProperties({
+	element,
+	trackId,
+	containerRef,
+}: {
+	element: TextElement;
+	trackId: string;
+	containerRef: React.RefObject<HTMLDivElement | null>;
+}) {
+	const editor = useEditor();
+	const style = resolveTextStyle({ element });
+	const canvasWidth =
+		editor.project.getActive()?.settings.canvasSize.width ?? 1920;
+
+	const update = (updates: TextElementUpdates) =>
+		editor.timeline.updateTextElement({
+			trackId,
+			elementId: element.id,
+			updates,
+		});
+
+	return (
+		<>
+			{hasTextBackground({ element }) && (
+				<>
+					<SliderProperty
+						label="Background padding X"
+						value={style.backgroundPadding.x}
+						max={100}
+						unit="px"
+						onChange={(x) =>
+							update({ backgroundPadding: { ...style.backgroundPadding, x } })
+						}
+					/>
+					<SliderProperty
+						label="Background padding Y"
+						value={style.backgroundPadding.y}
+						max={100}
+						unit="px"
+						onChange={(y) =>
+							update({ backgroundPadding: { ...style.backgroundPadding, y } })
+						}
+					/>
+					<SliderProperty
+						label="Background radius"
+						value={style.backgroundRadius}
+						max={100}
+						unit="px"
+						onChange={(backgroundRadius) => update({ backgroundRadius })}
+					/>
+				</>
+			)}
+
+			<SliderProperty
+				label="Line height"
+				value={style.lineHeight}
+				min={0.5}
+				max={3}
+				step={0.05}
+				unit="×"
+				onChange={(lineHeight) => update({ lineHeight })}
+			/>
+			<SliderProperty
+				label="Letter spacing"
+				value={style.letterSpacing}
+				min={-20}
+				max={100}
+				unit="px"
+				onChange={(letterSpacing) => update({ letterSpacing })}
+			/>
+
+			<PropertyItem>
+				<PropertyItemLabel>
+					<Label htmlFor="text-box-width">Fixed box width</Label>
+				</PropertyItemLabel>
+				<PropertyItemValue>
+					<Switch
+						id="text-box-width"
+						checked={style.boxWidth !== undefined}
+						onCheckedChange={(checked) =>
+							update({
+								boxWidth: checked ? Math.round(canvasWidth * 0.8) : undefined,
+							})
+						}
+					/>
+				</PropertyItemValue>
+			</PropertyItem>
+			{style.boxWidth !== undefined && (
+				<>
+					<SliderProperty
+						label="Box width"
+						value={style.boxWidth}
+						min={20}
+						max={canvasWidth}
+						unit="px"
+						onChange={(boxWidth) => update({ boxWidth })}
+					/>
+					<PropertyItem>
+						<PropertyItemLabel>
+							<Label htmlFor="text-auto-wrap">Wrap to box</Label>
+						</PropertyItemLabel>
+						<PropertyItemValue>
+							<Switch
+								id="text-auto-wrap"
+								checked={style.autoWrap}
+								onCheckedChange={(autoWrap) => update({ autoWrap })}
+							/>
+						</PropertyItemValue>
+					</PropertyItem>
+				</>
+			)}
+
+			<PropertyItem direction="column">
+				<PropertyItemLabel>Outline</PropertyItemLabel>
+				<PropertyItemValue>
+					<ColorPicker
+						value={uppercase({ string: style.strokeColor.replace("#", "") })}
+						onChange={(color) => update({ strokeColor: `#${color}` })}
+						containerRef={containerRef}
+					/>
+				</PropertyItemValue>
+			</PropertyItem>
+			<SliderProperty
+				label="Outline width"
+				value={style.strokeWidth}
+				max={30}
+				unit="px"
+				onChange={(strokeWidth) => update({ strokeWidth })}
+			/>
+
+			<PropertyItem>
+				<PropertyItemLabel>
+					<Label htmlFor="text-shadow">Shadow</Label>
+				</PropertyItemLabel>
+				<PropertyItemValue>
+					<Switch
+						id="text-shadow"
+						checked={!!style.shadow}
+						onCheckedChange={(checked) =>
+							update({ shadow: checked ? DEFAULT_TEXT_SHADOW : undefined })
+						}
+					/>
+				</PropertyItemValue>
+			</PropertyItem>
+			{style.shadow && (
+				<ShadowProperties
+					shadow={style.shadow}
+					onChange={(shadow) => update({ shadow })}
+					containerRef={containerRef}
+				/>
+			)}
+		</>
+	);
+}
+
+function ShadowProperties({
+	shadow,
+	onChange,
+	containerRef,
+}: {
+	shadow: NonNullable<TextElement["shadow"]>;
+	onChange: (shadow: NonNullable<TextElement["shadow"]>) => void;
+	containerRef: React.RefObject<HTMLDivElement | null>;
+}) {
+	return (
+		<>
+			<PropertyItem direction="column">
+				<PropertyItemLabel>Shadow color</PropertyItemLabel>
+				<PropertyItemValue>
+					<ColorPicker
+						value={uppercase({ string: shadow.color.replace("#", "") })}
+						onChange={(color) => onChange({ ...shadow, color: `#${color}` })}
+						containerRef={containerRef}
+					/>
+				</PropertyItemValue>
+			</PropertyItem>
+			<SliderProperty
+				label="Shadow blur"
+				value={shadow.blur}
+				max={100}
+				unit="px"
+				onChange={(blur) => onChange({ ...shadow, blur })}
+			/>
+			<SliderProperty
+				label="Shadow offset X"
+				value={shadow.offsetX}
+				min={-100}
+				max={100}
+				unit="px"
+				onChange={(offsetX) => onChange({ ...shadow, offsetX })}
+			/>
+			<SliderProperty
+				label="Shadow offset Y"
+				value={shadow.offsetY}
+				min={-100}
+				max={100}
+				unit="px"
+				onChange={(offsetY) => onChange({ ...shadow, offsetY })}
+			/>
+		</>
+	);
+}
+
+function SliderProperty({
+	label,
+	value,
+	min = 0,
+	max,
+	step = 1,
+	unit,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min?: number;
+	max: number;
+	step?: number;
+	unit: string;
+	onChange: (value: number) => void;
+}) {
+	return (
+		<PropertyItem direction="column">
+			<PropertyItemLabel>{label}</PropertyItemLabel>
+			<PropertyItemValue>
+				<div className="flex items-center gap-2">
+					<Slider
+						value={[value]}
+						min={min}
+						max={max}
+						step={step}
+						onValueChange={([next]) => onChange(next)}
+						className="w-full"
+					/>
+					<span className="text-muted-foreground w-14 text-right text-xs">
+						{Number(value.toFixed(2))}
+						{unit}
+					</span>
+				</div>
+			</PropertyItemValue>
+		</PropertyItem>
+	);
+}
+
+// presets played as the text appears and disappears
+function TextAnimationProperties({
+	element,
+	trackId,
+}: {
+	element: TextElement;
+	trackId: string;
+}) {
+	const editor = useEditor();
+
+	const update = (updates: TextElementUpdates) =>
+		editor.timeline.updateTextElement({
+			trackId,
+			elementId: element.id,
+			updates,
+		});
+
+	return (
+		<>
+			<TextAnimationItem
+				label="Animation in"
+				animation={element.animationIn}
+				defaults={DEFAULT_TEXT_ANIMATION_IN}
+				maxDuration={element.duration}
+				onChange={(animationIn) => update({ animationIn })}
+			/>
+			<TextAnimationItem
+				label="Animation out"
+				animation={element.animationOut}
+				defaults={DEFAULT_TEXT_ANIMATION_OUT}
+				maxDuration={element.duration}
+				onChange={(animationOut) => update({ animationOut })}
+			/>
+		</>
+	);
+}
+
+const NO_ANIMATION = "none";
+
+function TextAnimationItem({
+	label,
+	animation,
+	defaults,
+	maxDuration,
+	onChange,
+}: {
+	label: string;
+	animation: TextAnimation | undefined;
+	defaults: Omit<TextAnimation, "preset">;
+	maxDuration: number;
+	onChange: (animation: TextAnimation | undefined) => void;
+}) {
+	const handlePresetChange = (value: string) => {
+		const preset = TEXT_ANIMATION_PRESET_OPTIONS.find(
+			(option) => option.value === value,
+		)?.value;
+		// switching presets keeps the timing already set
+		onChange(preset ? { ...defaults, ...animation, preset } : undefined);
+	};
+
+	const handleEasingChange = (value: string) => {
+		const easing = TEXT_ANIMATION_EASING_OPTIONS.find(
+			(option) => option.value === value,
+		)?.value;
+		if (animation && easing) onChange({ ...animation, easing });
+	};
+
+	return (
+		<>
+			<PropertyItem direction="column">
+				<PropertyItemLabel>{label}</PropertyItemLabel>
+				<PropertyItemValue>
+					<Select
+						value={animation?.preset ?? NO_ANIMATION}
+						onValueChange={handlePresetChange}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={NO_ANIMATION}>None</SelectItem>
+							{TEXT_ANIMATION_PRESET_OPTIONS.map((option) => (
+								<SelectItem key={option.value} value={option.value}>
+									{option.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</PropertyItemValue>
+			</PropertyItem>
+			{animation && (
+				<>
+					<SliderProperty
+						label="Duration"
+						value={Math.min(animation.duration, maxDuration)}
+						min={TEXT_ANIMATION_MIN_DURATION}
+						max={Math.max(maxDuration, TEXT_ANIMATION_MIN_DURATION)}
+						step={0.05}
+						unit="s"
+						onChange={(duration) => onChange({ ...animation, duration })}
+					/>
+					<PropertyItem direction="column">
+						<PropertyItemLabel>Easing</PropertyItemLabel>
+						<PropertyItemValue>
+							<Select
+								value={animation.easing}
+								onValueChange={handleEasingChange}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{TEXT_ANIMATION_EASING_OPTIONS.map((option) => (
+										<SelectItem key={option.value} value={option.value}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</PropertyItemValue>
+					</PropertyItem>
+				</>
+			)}
+		</>
+	);
+}
+
+// karaoke-style highlighting for captions that carry word timing
+function CaptionHighlightProperty({
+	element,
+	trackId,
+	containerRef,
+}: {
+	element: TextElement;
+	trackId: string;
+	containerRef: React.RefObject<HTMLDivElement | null>;
+}) {
+	const editor = useEditor();
+	const highlight = element.captionHighlight;
+
+	const updateHighlight = (updates: Partial<CaptionHighlight> | null) => {
+		editor.timeline.updateTextElement({
+			trackId,
+			elementId: element.id,
+			updates: {
+				captionHighlight: updates
+					? { ...DEFAULT_CAPTION_HIGHLIGHT, ...highlight, ...updates }
+					: undefined,
+			},
+		});
+	};
+
+	return (
+		<>
+			<PropertyItem>
+				<PropertyItemLabel>
+					<Label htmlFor="caption-highlight">Highlight spoken word</Label>
+				</PropertyItemLabel>
+				<PropertyItemValue>
+					<Switch
+						id="caption-highlight"
+						checked={!!highlight}
+						onCheckedChange={(checked) => updateHighlight(checked ? {} : null)}
+					/>
+				</PropertyItemValue>
+			</PropertyItem>
+			{highlight && (
+				<>
+					<HighlightColorItem
+						label="Word color"
+						value={highlight.color}
+						fallback={element.color}
+						onChange={(color) => updateHighlight({ color })}
+						containerRef={containerRef}
+					/>
+					<HighlightColorItem
+						label="Word background"
+						value={highlight.backgroundColor}
+						fallback={DEFAULT_COLOR}
+						onChange={(backgroundColor) => updateHighlight({ backgroundColor })}
+						containerRef={containerRef}
+					/>
+					<PropertyItem direction="column">
+						<PropertyItemLabel>Word scale</PropertyItemLabel>
+						<PropertyItemValue>
+							<div className="flex items-center gap-2">
+								<Slider
+									value={[highlight.scale]}
+									min={1}
+									max={CAPTION_HIGHLIGHT_MAX_SCALE}
+									step={0.05}
+									onValueChange={([scale]) => updateHighlight({ scale })}
+									className="w-full"
+								/>
+								<span className="text-muted-foreground w-10 text-right text-xs">
+									{Math.round(highlight.scale * 100)}%
+								</span>
+							</div>
+						</PropertyItemValue>
+					</PropertyItem>
+				</>
+			)}
+		</>
+	);
+}
+
+// a color the highlight may leave alone, which null stands for
+function HighlightColorItem({
+	label,
+	value,
+	fallback,
+	onChange,
+	containerRef,
+}: {
+	label: string;
+	value: string | null;
+	fallback: string;
+	onChange: (value: string | null) => void;
+	containerRef: React.RefObject<HTMLDivElement | null>;
+}) {
+	return (
+		<PropertyItem direction="column">
+			<PropertyItemLabel>{label}</PropertyItemLabel>
+			<PropertyItemValue>
+				<div className="flex items-center gap-2">
+					<ColorPicker
+						value={uppercase({ string: (value ?? fallback).replace("#", "") })}
+						onChange={(color) => onChange(`#${color}`)}
+						containerRef={containerRef}
+						className={value === null ? "pointer-events-none opacity-50" : ""}
+					/>
+					<Switch
+						checked={value !== null}
+						onCheckedChange={(checked) => onChange(checked ? fallback : null)}
+					/>
+				</div>
+			</PropertyItemValue>
+		</PropertyItem>
+	);
+}
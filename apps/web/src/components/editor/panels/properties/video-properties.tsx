@@ -1,9 +1,313 @@
-import type { ImageElement, VideoElement } from "@/types/timeline";
+import type {
+	CropRect,
+	ImageElement,
+	MediaBlendMode,
+	MediaFitMode,
+	VideoElement,
+} from "@/types/timeline";
+import type { AnimatableProperty } from "@/types/keyframe";
+import { Slider } from "@/components/ui/slider";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useEditor } from "@/hooks/use-editor";
+import {
+	getAnimatedValue,
+	getElementContentTime,
+	hasKeyframes,
+} from "@/lib/keyframes";
+import { normalizeCropRect } from "@/lib/media/media-layout";
+import { mediaSupportsAudio } from "@/lib/media/media-utils";
+import {
+	DEFAULT_BLEND_MODE,
+	DEFAULT_FIT_MODE,
+	MEDIA_BLEND_MODE_OPTIONS,
+	MEDIA_FIT_MODE_OPTIONS,
+} from "@/constants/media-constants";
+import {
+	PropertyGroup,
+	PropertyItem,
+	PropertyItemLabel,
+	PropertyItemValue,
+} from "./property-item";
+import { SpeedProperties } from "./speed-properties";
+import { ColorProperties } from "./color-properties";
+
+type CropEdge = "left" | "top" | "right" | "bottom";
+
+const CROP_EDGES: { edge: CropEdge; label: string }[] = [
+	{ edge: "left", label: "Left" },
+	{ edge: "top", label: "Top" },
+	{ edge: "right", label: "Right" },
+	{ edge: "bottom", label: "Bottom" },
+];
 
 export function VideoProperties({
-	_element,
+	element,
+	trackId,
+}: {
+	element: VideoElement | ImageElement;
+	trackId: string;
+}) {
+	const editor = useEditor();
+	const { canvasSize } = editor.project.getActive().settings;
+	const mediaAsset =
+		editor.media.getAssets().find((asset) => asset.id === element.mediaId) ??
+		null;
+
+	// keyframed properties get a keyframe at the playhead instead of a static edit
+	const contentTime = getElementContentTime({
+		element,
+		time: editor.playback.getCurrentTime(),
+	});
+	const animatedValue = (property: AnimatableProperty) =>
+		getAnimatedValue({ element, property, time: contentTime });
+
+	const crop = normalizeCropRect({ crop: element.crop });
+	const cropInsets: Record<CropEdge, number> = {
+		left: crop.x,
+		top: crop.y,
+		right: 1 - crop.x - crop.width,
+		bottom: 1 - crop.y - crop.height,
+	};
+
+	const updateProperty = ({
+		property,
+		value,
+	}: {
+		property: AnimatableProperty;
+		value: number;
+	}) => {
+		if (hasKeyframes({ keyframes: element.keyframes, property })) {
+			editor.timeline.addKeyframes({
+				trackId,
+				elementId: element.id,
+				time: contentTime,
+				values: { [property]: value },
+			});
+			return;
+		}
+
+		const { transform } = element;
+		const updates =
+			property === "opacity"
+				? { opacity: value }
+				: {
+						transform: {
+							...transform,
+							position: {
+								x: property === "position.x" ? value : transform.position.x,
+								y: property === "position.y" ? value : transform.position.y,
+							},
+							scale: property === "scale" ? value : transform.scale,
+							rotate: property === "rotate" ? value : transform.rotate,
+						},
+					};
+
+		editor.timeline.updateMediaElement({
+			trackId,
+			elementId: element.id,
+			updates,
+		});
+	};
+
+	const updateCrop = ({ edge, value }: { edge: CropEdge; value: number }) => {
+		const insets = { ...cropInsets, [edge]: value };
+		const next: CropRect = {
+			x: insets.left,
+			y: insets.top,
+			width: 1 - insets.left - insets.right,
+			height: 1 - insets.top - insets.bottom,
+		};
+		editor.timeline.updateMediaElement({
+			trackId,
+			elementId: element.id,
+			updates: { crop: normalizeCropRect({ crop: next }) },
+		});
+	};
+
+	return (
+		<div className="space-y-6 p-5">
+			<PropertyGroup title="Transform">
+				<div className="space-y-4">
+					<SliderProperty
+						label="Position X"
+						value={animatedValue("position.x")}
+						min={-canvasSize.width}
+						max={canvasSize.width}
+						step={1}
+						format={(value) => `${Math.round(value)}px`}
+						onChange={(value) =>
+							updateProperty({ property: "position.x", value })
+						}
+					/>
+					<SliderProperty
+						label="Position Y"
+						value={animatedValue("position.y")}
+						min={-canvasSize.height}
+						max={canvasSize.height}
+						step={1}
+						format={(value) => `${Math.round(value)}px`}
+						onChange={(value) =>
+							updateProperty({ property: "position.y", value })
+						}
+					/>
+					<SliderProperty
+						label="Scale"
+						value={animatedValue("scale")}
+						min={0.1}
+						max={5}
+						step={0.01}
+						format={(value) => `${Math.round(value * 100)}%`}
+						onChange={(value) => updateProperty({ property: "scale", value })}
+					/>
+					<SliderProperty
+						label="Rotation"
+						value={animatedValue("rotate")}
+						min={-180}
+						max={180}
+						step={1}
+						format={(value) => `${Math.round(value)}°`}
+						onChange={(value) => updateProperty({ property: "rotate", value })}
+					/>
+					<SliderProperty
+						label="Opacity"
+						value={animatedValue("opacity")}
+						min={0}
+						max={1}
+						step={0.01}
+						format={(value) => `${Math.round(value * 100)}%`}
+						onChange={(value) => updateProperty({ property: "opacity", value })}
+					/>
+				</div>
+			</PropertyGroup>
+
+			<PropertyGroup title="Layout">
+				<div className="space-y-4">
+					<PropertyItem direction="column">
+						<PropertyItemLabel>Fit mode</PropertyItemLabel>
+						<PropertyItemValue>
+							<Select
+								value={element.fitMode ?? DEFAULT_FIT_MODE}
+								onValueChange={(value) =>
+									editor.timeline.updateMediaElement({
+										trackId,
+										elementId: element.id,
+										updates: { fitMode: value as MediaFitMode },
+									})
+								}
+							>
+								<SelectTrigger className="bg-panel-accent">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{MEDIA_FIT_MODE_OPTIONS.map((option) => (
+										<SelectItem key={option.value} value={option.value}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</PropertyItemValue>
+					</PropertyItem>
+					<PropertyItem direction="column">
+						<PropertyItemLabel>Blend mode</PropertyItemLabel>
+						<PropertyItemValue>
+							<Select
+								value={element.blendMode ?? DEFAULT_BLEND_MODE}
+								onValueChange={(value) =>
+									editor.timeline.updateMediaElement({
+										trackId,
+										elementId: element.id,
+										updates: { blendMode: value as MediaBlendMode },
+									})
+								}
+							>
+								<SelectTrigger className="bg-panel-accent">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{MEDIA_BLEND_MODE_OPTIONS.map((option) => (
+										<SelectItem key={option.value} value={option.value}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</PropertyItemValue>
+					</PropertyItem>
+				</div>
+			</PropertyGroup>
+
+			<ColorProperties element={element} trackId={trackId} />
+
+			{element.type === "video" && (
+				<SpeedProperties
+					element={element}
+					trackId={trackId}
+					hasAudio={mediaSupportsAudio({ media: mediaAsset })}
+				/>
+			)}
+
+			<PropertyGroup title="Crop" defaultExpanded={false}>
+				<div className="space-y-4">
+					{CROP_EDGES.map(({ edge, label }) => (
+						<SliderProperty
+							key={edge}
+							label={label}
+							value={cropInsets[edge]}
+							min={0}
+							max={0.95}
+							step={0.01}
+							format={(value) => `${Math.round(value * 100)}%`}
+							onChange={(value) => updateCrop({ edge, value })}
+						/>
+					))}
+				</div>
+			</PropertyGroup>
+		</div>
+	);
+}
+
+function SliderProperty({
+	label,
+	value,
+	min,
+	max,
+	step,
+	format,
+	onChange,
 }: {
-	_element: VideoElement | ImageElement;
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	format: (value: number) => string;
+	onChange: (value: number) => void;
 }) {
-	return <div className="space-y-4 p-5">Video properties</div>;
+	return (
+		<PropertyItem direction="column">
+			<PropertyItemLabel>{label}</PropertyItemLabel>
+			<PropertyItemValue>
+				<div className="flex items-center gap-2">
+					<Slider
+						value={[value]}
+						min={min}
+						max={max}
+						step={step}
+						onValueChange={([next]) => onChange(next)}
+						className="w-full"
+					/>
+					<span className="text-muted-foreground w-12 text-right text-xs">
+						{format(value)}
+					</span>
+				</div>
+			</PropertyItemValue>
+		</PropertyItem>
+	);
 }
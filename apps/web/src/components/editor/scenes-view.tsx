@@ -9,7 +9,7 @@ import {
 	SheetTrigger,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Check, ListCheck, Trash2 } from "lucide-react";
+import { Check, ListCheck, ListPlus, Trash2 } from "lucide-react";
 import { cn } from "@/utils/ui";
 import { useState } from "react";
 import {
@@ -21,7 +21,14 @@ import {
 	DialogFooter,
 	DialogTrigger,
 } from "@/components/ui/dialog";
-import { canDeleteScene, getMainScene } from "@/lib/scenes";
+import {
+	canDeleteScene,
+	getMainScene,
+	getSceneDuration,
+	wouldCreateSceneCycle,
+} from "@/lib/scenes";
+import { buildSceneElement } from "@/lib/timeline/element-utils";
+import type { TScene } from "@/types/timeline";
 import { toast } from "sonner";
 import { useEditor } from "@/hooks/use-editor";
 
@@ -45,6 +52,37 @@ export function ScenesView({ children }: { children: React.ReactNode }) {
 		}
 	};
 
+	const handleInsertScene = ({ scene }: { scene: TScene }) => {
+		editor.timeline.insertElement({
+			element: buildSceneElement({
+				sceneId: scene.id,
+				name: scene.name,
+				duration: getSceneDuration({ scene }),
+				startTime: editor.playback.getCurrentTime(),
+			}),
+			placement: { mode: "auto" },
+		});
+	};
+
+	const getInsertBlockedReason = ({
+		scene,
+	}: {
+		scene: TScene;
+	}): string | null => {
+		if (!currentScene) return "No active scene";
+		if (
+			wouldCreateSceneCycle({
+				scenes,
+				parentSceneId: currentScene.id,
+				childSceneId: scene.id,
+			})
+		) {
+			return "A scene cannot contain itself";
+		}
+		if (getSceneDuration({ scene }) <= 0) return "Scene is empty";
+		return null;
+	};
+
 	const toggleSceneSelection = ({ sceneId }: { sceneId: string }) => {
 		setSelectedScenes((prev) => {
 			const newSet = new Set(prev);
@@ -140,30 +178,48 @@ export function ScenesView({ children }: { children: React.ReactNode }) {
 						</div>
 					) : (
 						<div className="space-y-2">
-							{scenes.map((scene) => (
-								<Button
-									key={scene.id}
-									variant="outline"
-									className={cn(
-										"w-full justify-between font-normal",
-										currentScene?.id === scene.id &&
-											!isSelectMode &&
-											"border-primary !text-primary",
-										isSelectMode &&
-											selectedScenes.has(scene.id) &&
-											"bg-accent border-foreground/30",
-									)}
-									onClick={() => handleSceneSwitch(scene.id)}
-								>
-									<span>{scene.name}</span>
-									<div className="flex items-center gap-2">
-										{((isSelectMode && selectedScenes.has(scene.id)) ||
-											(!isSelectMode && currentScene?.id === scene.id)) && (
-											<Check className="size-4" />
+							{scenes.map((scene) => {
+								const insertBlockedReason = getInsertBlockedReason({ scene });
+								return (
+									<div key={scene.id} className="flex items-center gap-2">
+										<Button
+											variant="outline"
+											className={cn(
+												"flex-1 justify-between font-normal",
+												currentScene?.id === scene.id &&
+													!isSelectMode &&
+													"border-primary !text-primary",
+												isSelectMode &&
+													selectedScenes.has(scene.id) &&
+													"bg-accent border-foreground/30",
+											)}
+											onClick={() => handleSceneSwitch(scene.id)}
+										>
+											<span>{scene.name}</span>
+											<div className="flex items-center gap-2">
+												{((isSelectMode && selectedScenes.has(scene.id)) ||
+													(!isSelectMode && currentScene?.id === scene.id)) && (
+													<Check className="size-4" />
+												)}
+											</div>
+										</Button>
+										{!isSelectMode && (
+											<Button
+												variant="outline"
+												size="icon"
+												title={
+													insertBlockedReason ?? "Insert into current scene"
+												}
+												aria-label={`Insert ${scene.name} into current scene`}
+												disabled={insertBlockedReason !== null}
+												onClick={() => handleInsertScene({ scene })}
+											>
+												<ListPlus />
+											</Button>
 										)}
 									</div>
-								</Button>
-							))}
+								);
+							})}
 						</div>
 					)}
 				</div>
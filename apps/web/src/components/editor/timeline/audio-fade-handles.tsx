@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import {
+	DEFAULT_FADE_CURVE,
+	MAX_FADE_DURATION,
+} from "@/constants/audio-fade-constants";
+import {
+	getEffectiveFadeDurations,
+	getFadeCurveGain,
+} from "@/lib/media/audio-fade";
+import { snapTimeToFrame } from "@/lib/time";
+import type { AudioElement, AudioFade, FadeCurve } from "@/types/timeline";
+import { clamp } from "@/utils/math";
+import { cn } from "@/utils/ui";
+
+// keeps the handles clear of the resize handles at the clip edges
+const HANDLE_INSET_PX = 14;
+// points per fade when drawing the curve
+const CURVE_STEPS = 24;
+
+type FadeSide = "fadeIn" | "fadeOut";
+
+interface FadeDragState {
+	side: FadeSide;
+	startX: number;
+	initialDuration: number;
+	previewDuration: number;
+}
+
+export function AudioFadeHandles({
+	element,
+	trackId,
+	zoomLevel,
+	isSelected,
+}: {
+	element: AudioElement;
+	trackId: string;
+	zoomLevel: number;
+	isSelected: boolean;
+}) {
+	const editor = useEditor();
+	const [dragState, setDragState] = useState<FadeDragState | null>(null);
+	const dragStateRef = useRef<FadeDragState | null>(null);
+
+	const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
+	const fps = editor.project.getActive().settings.fps;
+	const isDragging = dragState !== null;
+
+	const getDisplayedFade = (side: FadeSide): AudioFade | undefined => {
+		const fade = element[side];
+		if (dragState?.side !== side) return fade;
+		return {
+			duration: dragState.previewDuration,
+			curve: fade?.curve ?? DEFAULT_FADE_CURVE,
+		};
+	};
+
+	const fadeIn = getDisplayedFade("fadeIn");
+	const fadeOut = getDisplayedFade("fadeOut");
+	const { fadeInDuration, fadeOutDuration } = getEffectiveFadeDurations({
+		fadeIn,
+		fadeOut,
+		length: element.duration,
+	});
+
+	useEffect(() => {
+		if (!isDragging) return;
+
+		const handleMouseMove = (event: MouseEvent) => {
+			const current = dragStateRef.current;
+			if (!current) return;
+
+			// fade-outs grow as the handle moves left
+			const deltaSeconds =
+				((event.clientX - current.startX) / pixelsPerSecond) *
+				(current.side === "fadeIn" ? 1 : -1);
+			const otherSide = current.side === "fadeIn" ? "fadeOut" : "fadeIn";
+			const maxDuration = Math.min(
+				MAX_FADE_DURATION,
+				element.duration - (element[otherSide]?.duration ?? 0),
+			);
+			const next = {
+				...current,
+				previewDuration: clamp({
+					value: snapTimeToFrame({
+						time: current.initialDuration + deltaSeconds,
+						fps,
+					}),
+					min: 0,
+					max: Math.max(0, maxDuration),
+				}),
+			};
+			dragStateRef.current = next;
+			setDragState(next);
+		};
+
+		const handleMouseUp = () => {
+			const current = dragStateRef.current;
+			dragStateRef.current = null;
+			setDragState(null);
+			if (!current || current.previewDuration === current.initialDuration) {
+				return;
+			}
+
+			editor.timeline.updateAudioElement({
+				trackId,
+				elementId: element.id,
+				updates: {
+					[current.side]: buildFade({
+						duration: current.previewDuration,
+						curve: element[current.side]?.curve,
+					}),
+				},
+			});
+		};
+
+		window.addEventListener("mousemove", handleMouseMove);
+		window.addEventListener("mouseup", handleMouseUp);
+		return () => {
+			window.removeEventListener("mousemove", handleMouseMove);
+			window.removeEventListener("mouseup", handleMouseUp);
+		};
+	}, [isDragging, editor, element, trackId, pixelsPerSecond, fps]);
+
+	const handleMouseDown = ({
+		event,
+		side,
+	}: {
+		event: React.MouseEvent;
+		side: FadeSide;
+	}) => {
+		// keep the element itself from starting a drag
+		event.stopPropagation();
+		if (event.button !== 0) return;
+
+		const duration = element[side]?.duration ?? 0;
+		const next = {
+			side,
+			startX: event.clientX,
+			initialDuration: duration,
+			previewDuration: duration,
+		};
+		dragStateRef.current = next;
+		setDragState(next);
+	};
+
+	const width = element.duration * pixelsPerSecond;
+	const fadeInWidth = fadeInDuration * pixelsPerSecond;
+	const fadeOutWidth = fadeOutDuration * pixelsPerSecond;
+
+	return (
+		<div className="pointer-events-none absolute inset-0 z-40 overflow-hidden rounded-[0.5rem]">
+			{width > 0 && (fadeInWidth > 0 || fadeOutWidth > 0) && (
+				<svg
+					className="absolute inset-0 size-full"
+					viewBox={`0 0 ${width} 100`}
+					preserveAspectRatio="none"
+					aria-hidden="true"
+				>
+					{fadeIn && fadeInWidth > 0 && (
+						<FadeShape curve={fadeIn.curve} from={0} to={fadeInWidth} />
+					)}
+					{fadeOut && fadeOutWidth > 0 && (
+						<FadeShape
+							curve={fadeOut.curve}
+							from={width}
+							to={width - fadeOutWidth}
+						/>
+					)}
+				</svg>
+			)}
+			{isSelected && (
+				<>
+					<FadeHandle
+						label="Fade in"
+						style={{ left: `${Math.max(fadeInWidth, HANDLE_INSET_PX)}px` }}
+						isActive={dragState?.side === "fadeIn"}
+						onMouseDown={(event) => handleMouseDown({ event, side: "fadeIn" })}
+					/>
+					<FadeHandle
+						label="Fade out"
+						style={{ right: `${Math.max(fadeOutWidth, HANDLE_INSET_PX)}px` }}
+						isActive={dragState?.side === "fadeOut"}
+						onMouseDown={(event) => handleMouseDown({ event, side: "fadeOut" })}
+					/>
+				</>
+			)}
+		</div>
+	);
+}
+
+function buildFade({
+	duration,
+	curve = DEFAULT_FADE_CURVE,
+}: {
+	duration: number;
+	curve?: FadeCurve;
+}): AudioFade | undefined {
+	return duration > 0 ? { duration, curve } : undefined;
+}
+
+// shades the attenuated part above the curve, running from silence to full level
+function FadeShape({
+	curve,
+	from,
+	to,
+}: {
+	curve: FadeCurve;
+	from: number;
+	to: number;
+}) {
+	const points = Array.from({ length: CURVE_STEPS + 1 }, (_, step) => {
+		const progress = step / CURVE_STEPS;
+		const x = from + (to - from) * progress;
+		const y = 100 * (1 - getFadeCurveGain({ curve, progress }));
+		return `${x},${y}`;
+	});
+
+	return (
+		<>
+			<polygon
+				points={[`${from},0`, ...points, `${to},0`].join(" ")}
+				className="fill-black/40"
+			/>
+			<polyline
+				points={points.join(" ")}
+				className="fill-none stroke-white/80"
+				strokeWidth={1}
+				vectorEffect="non-scaling-stroke"
+			/>
+		</>
+	);
+}
+
+function FadeHandle({
+	label,
+	style,
+	isActive,
+	onMouseDown,
+}: {
+	label: string;
+	style: React.CSSProperties;
+	isActive: boolean;
+	onMouseDown: (event: React.MouseEvent) => void;
+}) {
+	return (
+		<button
+			type="button"
+			aria-label={label}
+			title={`${label}: drag to change`}
+			className={cn(
+				"pointer-events-auto absolute top-0.5 size-2.5 cursor-ew-resize rounded-full border border-black/60 bg-white",
+				style.left !== undefined ? "-translate-x-1/2" : "translate-x-1/2",
+				isActive && "bg-primary",
+			)}
+			style={style}
+			onMouseDown={onMouseDown}
+			onClick={(event) => event.stopPropagation()}
+		/>
+	);
+}
@@ -46,6 +46,14 @@ export function AutomationPointMarkers({
 					onClick={() => handleRemoveMarker(marker.id)}
 					title="Click to remove automation marker"
 				>
+					{marker.ramp && (
+						<div
+							className="absolute top-0 bottom-0 left-0 bg-gradient-to-r from-primary/30 to-transparent pointer-events-none"
+							style={{
+								width: `${marker.ramp.duration * TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel}px`,
+							}}
+						/>
+					)}
 					<div className="absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 bg-primary rounded-full border-2 border-background" />
 					<div className="absolute top-4 left-1/2 -translate-x-1/2 bg-primary text-primary-foreground rounded-sm px-1.5 py-0.5 text-[10px] font-medium shadow-sm whitespace-nowrap">
 						{getStateName(marker.stateId)}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { MusicNote01Icon } from "@hugeicons/core-free-icons";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useEditor } from "@/hooks/use-editor";
+import { SetBeatGridCommand } from "@/lib/commands";
+import { decodeAudioToFloat32, loadElementAudioBlob } from "@/lib/media/audio";
+import { detectTempo, getClipBeatGrid } from "@/lib/media/tempo-detection";
+import { normalizeBeatOffset } from "@/lib/timeline/beat-grid";
+import {
+	BEATS_PER_BAR_OPTIONS,
+	DEFAULT_BEAT_GRID,
+	MAX_BPM,
+	MIN_BPM,
+} from "@/constants/beat-grid-constants";
+import type { BeatGrid } from "@/types/beat-grid";
+import type { AudioElement } from "@/types/timeline";
+import { cn } from "@/utils/ui";
+
+export function BeatGridPopover() {
+	const editor = useEditor();
+	const grid = editor.scenes.getActiveSceneOrNull()?.beatGrid;
+
+	return (
+		<Popover>
+			<Tooltip delayDuration={200}>
+				<TooltipTrigger asChild>
+					<PopoverTrigger asChild>
+						<Button variant="text" size="icon" type="button">
+							<HugeiconsIcon
+								icon={MusicNote01Icon}
+								className={cn(grid?.enabled ? "text-primary" : "")}
+							/>
+						</Button>
+					</PopoverTrigger>
+				</TooltipTrigger>
+				<TooltipContent>Beat grid</TooltipContent>
+			</Tooltip>
+			<PopoverContent className="flex w-72 flex-col gap-3" align="end">
+				<BeatGridSettings grid={grid} />
+			</PopoverContent>
+		</Popover>
+	);
+}
+
+function BeatGridSettings({ grid }: { grid: BeatGrid | undefined }) {
+	const editor = useEditor();
+	const current = grid ?? DEFAULT_BEAT_GRID;
+	const [bpmDraft, setBpmDraft] = useState(String(current.bpm));
+	const [offsetDraft, setOffsetDraft] = useState(current.offset.toFixed(3));
+	const [elementId, setElementId] = useState("");
+	const [isDetecting, setIsDetecting] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	// drafts follow the grid when it changes elsewhere, e.g. undo or detection
+	useEffect(() => {
+		setBpmDraft(String(current.bpm));
+		setOffsetDraft(current.offset.toFixed(3));
+	}, [current.bpm, current.offset]);
+
+	const musicElements = editor.timeline
+		.getTracks()
+		.flatMap((track) =>
+			track.type === "audio"
+				? track.elements.map((element) => ({ trackId: track.id, element }))
+				: [],
+		)
+		.filter(
+			(entry): entry is { trackId: string; element: AudioElement } =>
+				entry.element.type === "audio",
+		);
+
+	const applyGrid = (updates: Partial<BeatGrid>) => {
+		const next = { ...current, ...updates };
+		editor.command.execute(
+			new SetBeatGridCommand({
+				...next,
+				offset: normalizeBeatOffset(next),
+			}),
+		);
+	};
+
+	const commitBpm = () => {
+		const bpm = Number.parseFloat(bpmDraft);
+		if (!Number.isFinite(bpm) || bpm === current.bpm) {
+			setBpmDraft(String(current.bpm));
+			return;
+		}
+		applyGrid({ bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, bpm)) });
+	};
+
+	const commitOffset = () => {
+		const offset = Number.parseFloat(offsetDraft);
+		if (!Number.isFinite(offset) || offset === current.offset) {
+			setOffsetDraft(current.offset.toFixed(3));
+			return;
+		}
+		applyGrid({ offset });
+	};
+
+	const handleDetect = async () => {
+		const entry = musicElements.find(
+			(candidate) => candidate.element.id === elementId,
+		);
+		if (!entry) return;
+
+		setIsDetecting(true);
+		setStatus("Analyzing audio...");
+		try {
+			const audioBlob = await loadElementAudioBlob({
+				element: entry.element,
+				mediaAssets: editor.media.getAssets(),
+			});
+			const { samples, sampleRate } = await decodeAudioToFloat32({
+				audioBlob,
+			});
+			const tempo = detectTempo({
+				samples,
+				sampleRate,
+				beatsPerBar: current.beatsPerBar,
+			});
+			if (!tempo) {
+				setStatus("No steady beat found");
+				return;
+			}
+			editor.command.execute(
+				new SetBeatGridCommand(
+					getClipBeatGrid({
+						clip: entry.element,
+						startTime: entry.element.startTime,
+						tempo,
+						beatsPerBar: current.beatsPerBar,
+					}),
+				),
+			);
+			setStatus(null);
+		} catch (error) {
+			console.error("Failed to detect tempo:", error);
+			setStatus("Couldn't decode this audio");
+		} finally {
+			setIsDetecting(false);
+		}
+	};
+
+	return (
+		<>
+			<div className="flex items-center justify-between">
+				<Label htmlFor="beat-grid-enabled">Beat grid</Label>
+				<Switch
+					id="beat-grid-enabled"
+					checked={grid?.enabled ?? false}
+					onCheckedChange={(enabled) => applyGrid({ enabled })}
+				/>
+			</div>
+
+			<div className="grid grid-cols-2 gap-2">
+				<div className="space-y-1">
+					<Label htmlFor="beat-grid-bpm" className="text-xs">
+						BPM
+					</Label>
+					<Input
+						id="beat-grid-bpm"
+						type="number"
+						min={MIN_BPM}
+						max={MAX_BPM}
+						step={0.01}
+						value={bpmDraft}
+						onChange={(event) => setBpmDraft(event.target.value)}
+						onBlur={commitBpm}
+						onKeyDown={(event) => event.key === "Enter" && commitBpm()}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label className="text-xs">Beats per bar</Label>
+					<Select
+						value={String(current.beatsPerBar)}
+						onValueChange={(value) => applyGrid({ beatsPerBar: Number(value) })}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{BEATS_PER_BAR_OPTIONS.map((count) => (
+								<SelectItem key={count} value={String(count)}>
+									{count}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className="space-y-1">
+				<Label htmlFor="beat-grid-offset" className="text-xs">
+					Downbeat offset (s)
+				</Label>
+				<div className="flex gap-2">
+					<Input
+						id="beat-grid-offset"
+						type="number"
+						step={0.001}
+						value={offsetDraft}
+						onChange={(event) => setOffsetDraft(event.target.value)}
+						onBlur={commitOffset}
+						onKeyDown={(event) => event.key === "Enter" && commitOffset()}
+					/>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() =>
+							applyGrid({ offset: editor.playback.getCurrentTime() })
+						}
+					>
+						At playhead
+					</Button>
+				</div>
+			</div>
+
+			<div className="space-y-1">
+				<Label className="text-xs">Detect from music</Label>
+				<div className="flex gap-2">
+					<Select value={elementId} onValueChange={setElementId}>
+						<SelectTrigger>
+							<SelectValue placeholder="Select audio clip" />
+						</SelectTrigger>
+						<SelectContent>
+							{musicElements.map(({ element }) => (
+								<SelectItem key={element.id} value={element.id}>
+									{element.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button
+						size="sm"
+						onClick={handleDetect}
+						disabled={!elementId || isDetecting}
+					>
+						Detect
+					</Button>
+				</div>
+				{status && <p className="text-xs text-muted-foreground">{status}</p>}
+			</div>
+
+			{grid && (
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={() => editor.command.execute(new SetBeatGridCommand(null))}
+				>
+					Remove grid
+				</Button>
+			)}
+		</>
+	);
+}
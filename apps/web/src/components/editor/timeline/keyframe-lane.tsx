@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import { getContentTimelineTime, getKeyframeTimes } from "@/lib/keyframes";
+import {
+	canElementChangeSpeed,
+	getClipSourceRange,
+	getElementSpeed,
+} from "@/lib/timeline";
+import type { TimelineElement } from "@/types/timeline";
+import { clamp } from "@/utils/math";
+import { cn } from "@/utils/ui";
+
+// pixels the pointer must travel before a press becomes a drag
+const DRAG_THRESHOLD_PX = 3;
+
+interface KeyframeDragState {
+	time: number;
+	startX: number;
+	previewTime: number;
+	hasMoved: boolean;
+}
+
+export function KeyframeLane({
+	element,
+	trackId,
+	zoomLevel,
+	isSelected,
+}: {
+	element: TimelineElement;
+	trackId: string;
+	zoomLevel: number;
+	isSelected: boolean;
+}) {
+	const editor = useEditor();
+	const [dragState, setDragState] = useState<KeyframeDragState | null>(null);
+	const dragStateRef = useRef<KeyframeDragState | null>(null);
+
+	const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
+	// keyframes sit on the source clock, which runs at the clip's speed
+	const { start: contentStart, end: contentEnd } = getClipSourceRange({
+		clip: element,
+	});
+	const contentRate =
+		canElementChangeSpeed(element) && element.reversed
+			? -getElementSpeed(element)
+			: getElementSpeed(element);
+
+	const times = getKeyframeTimes({ keyframes: element.keyframes });
+	const isDragging = dragState !== null;
+
+	useEffect(() => {
+		if (!isDragging) return;
+
+		const handleMouseMove = (event: MouseEvent) => {
+			const current = dragStateRef.current;
+			if (!current) return;
+
+			const deltaX = event.clientX - current.startX;
+			const next = {
+				...current,
+				hasMoved: current.hasMoved || Math.abs(deltaX) > DRAG_THRESHOLD_PX,
+				previewTime: clamp({
+					value: current.time + (deltaX / pixelsPerSecond) * contentRate,
+					min: contentStart,
+					max: contentEnd,
+				}),
+			};
+			dragStateRef.current = next;
+			setDragState(next);
+		};
+
+		const handleMouseUp = () => {
+			const current = dragStateRef.current;
+			dragStateRef.current = null;
+			setDragState(null);
+			if (!current) return;
+
+			if (current.hasMoved) {
+				editor.timeline.moveKeyframes({
+					trackId,
+					elementId: element.id,
+					fromTime: current.time,
+					toTime: current.previewTime,
+				});
+				return;
+			}
+
+			editor.playback.seek({
+				time: getContentTimelineTime({ element, contentTime: current.time }),
+			});
+		};
+
+		window.addEventListener("mousemove", handleMouseMove);
+		window.addEventListener("mouseup", handleMouseUp);
+		return () => {
+			window.removeEventListener("mousemove", handleMouseMove);
+			window.removeEventListener("mouseup", handleMouseUp);
+		};
+	}, [
+		isDragging,
+		editor,
+		element,
+		trackId,
+		pixelsPerSecond,
+		contentRate,
+		contentStart,
+		contentEnd,
+	]);
+
+	if (times.length === 0) return null;
+
+	const handleMouseDown = ({
+		event,
+		time,
+	}: {
+		event: React.MouseEvent;
+		time: number;
+	}) => {
+		// keep the element itself from starting a drag
+		event.stopPropagation();
+		if (event.button !== 0 || !isSelected) return;
+
+		const next = {
+			time,
+			startX: event.clientX,
+			previewTime: time,
+			hasMoved: false,
+		};
+		dragStateRef.current = next;
+		setDragState(next);
+	};
+
+	return (
+		<div className="pointer-events-none absolute right-0 bottom-0 left-0 z-40 h-3">
+			{times.map((time) => {
+				const displayTime =
+					dragState && dragState.time === time ? dragState.previewTime : time;
+				if (displayTime < contentStart || displayTime > contentEnd) {
+					return null;
+				}
+
+				const left =
+					(getContentTimelineTime({ element, contentTime: displayTime }) -
+						element.startTime) *
+					pixelsPerSecond;
+				return (
+					<button
+						key={time}
+						type="button"
+						aria-label="Keyframe"
+						title="Drag to move, double-click to remove"
+						className={cn(
+							"absolute top-1/2 size-2 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-black/60 bg-white",
+							isSelected
+								? "pointer-events-auto cursor-ew-resize"
+								: "opacity-70",
+						)}
+						style={{ left: `${left}px` }}
+						onMouseDown={(event) => handleMouseDown({ event, time })}
+						onClick={(event) => event.stopPropagation()}
+						onDoubleClick={(event) => {
+							event.stopPropagation();
+							editor.timeline.removeKeyframes({
+								trackId,
+								elementId: element.id,
+								time,
+							});
+						}}
+					/>
+				);
+			})}
+		</div>
+	);
+}
@@ -1,9 +1,10 @@
 "use client";
 
 import { useEditor } from "@/hooks/use-editor";
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { DeleteOneshotMarkerCommand } from "@/lib/commands";
 import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import { OneshotSidechainOverlay } from "./sidechain-gain-overlay";
 export function OneshotTimelineMarkers({
 	zoomLevel,
 }: {
@@ -20,44 +21,50 @@ export function OneshotTimelineMarkers({
 		return unsubscribe;
 	}, [editor.oneshot]);
 
-	const markers = editor.oneshot.getMarkers();
+	const resolvedMarkers = editor.oneshot.getResolvedMarkers();
 
 	const handleRemoveMarker = (markerId: string) => {
 		editor.command.execute(new DeleteOneshotMarkerCommand(markerId));
 	};
 
-	const getDefinition = (oneshotId: string) => {
-		return editor.oneshot.getDefinition(oneshotId);
-	};
-
 	return (
 		<>
-			{markers.map((marker) => {
-				const definition = getDefinition(marker.oneshotId);
-				if (!definition) return null;
+			{resolvedMarkers.map(({ marker, definition, group, playbackRate }) => {
+				// group markers wear the group's look and name the variation they hit
+				const { name, color } = group ?? definition;
+				const title = group ? `${group.name}: ${definition.name}` : name;
 
 				return (
-					<div
-						key={marker.id}
-						className="absolute top-0 bottom-0 w-0.5 cursor-pointer hover:opacity-80 transition-opacity"
-						style={{
-							left: `${marker.time * TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel}px`,
-							backgroundColor: definition.color,
-						}}
-						onClick={() => handleRemoveMarker(marker.id)}
-						title={`${definition.name} - Click to remove`}
-					>
-						<div
-							className="absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 rounded-full border-2 border-background"
-							style={{ backgroundColor: definition.color }}
+					<Fragment key={marker.id}>
+						<OneshotSidechainOverlay
+							definitionId={definition.id}
+							startTime={
+								editor.oneshot.getAudioStartTimeForMarker(marker) ?? marker.time
+							}
+							duration={(definition.trimEnd - definition.trimStart) / playbackRate}
+							zoomLevel={zoomLevel}
 						/>
 						<div
-							className="absolute top-4 left-1/2 -translate-x-1/2 text-white rounded-sm px-1.5 py-0.5 text-[10px] font-medium shadow-sm whitespace-nowrap"
-							style={{ backgroundColor: definition.color }}
+							className="absolute top-0 bottom-0 w-0.5 cursor-pointer hover:opacity-80 transition-opacity"
+							style={{
+								left: `${marker.time * TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel}px`,
+								backgroundColor: color,
+							}}
+							onClick={() => handleRemoveMarker(marker.id)}
+							title={`${title} - Click to remove`}
 						>
-							{definition.name.slice(0, 8)}
+							<div
+								className={`absolute top-0 left-1/2 -translate-x-1/2 w-3 h-3 border-2 border-background ${group ? "rounded-sm" : "rounded-full"}`}
+								style={{ backgroundColor: color }}
+							/>
+							<div
+								className="absolute top-4 left-1/2 -translate-x-1/2 text-white rounded-sm px-1.5 py-0.5 text-[10px] font-medium shadow-sm whitespace-nowrap"
+								style={{ backgroundColor: color }}
+							>
+								{name.slice(0, 8)}
+							</div>
 						</div>
-					</div>
+					</Fragment>
 				);
 			})}
 		</>
@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import { useSidechainEnvelope } from "@/hooks/timeline/use-sidechain-envelope";
+import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import { canTracktHaveAudio } from "@/lib/timeline";
+import type { SidechainEnvelope } from "@/types/sidechain";
+import type { TimelineTrack } from "@/types/timeline";
+import { cn } from "@/utils/ui";
+
+// points per overlay; each keeps the lowest gain it covers so short ducks show
+const MAX_CURVE_POINTS = 1500;
+
+export function TrackSidechainOverlay({
+	track,
+	zoomLevel,
+}: {
+	track: TimelineTrack;
+	zoomLevel: number;
+}) {
+	const editor = useEditor();
+	const isVisible =
+		canTracktHaveAudio(track) &&
+		!track.hideSidechainOverlay &&
+		editor.sidechain
+			.getAudibleConfigs()
+			.some((config) => config.targetTrackIds.includes(track.id));
+	const envelope = useSidechainEnvelope({
+		target: isVisible ? { type: "track", trackId: track.id } : null,
+	});
+
+	if (!isVisible || !envelope) return null;
+
+	return (
+		<GainCurve
+			envelope={envelope}
+			startTime={0}
+			duration={envelope.duration}
+			zoomLevel={zoomLevel}
+			className="z-30"
+		/>
+	);
+}
+
+// ducking of one oneshot hit, drawn over the span its slice plays
+export function OneshotSidechainOverlay({
+	definitionId,
+	startTime,
+	duration,
+	zoomLevel,
+}: {
+	definitionId: string;
+	startTime: number;
+	duration: number;
+	zoomLevel: number;
+}) {
+	const editor = useEditor();
+	const isTarget = editor.sidechain
+		.getAudibleConfigs()
+		.some((config) => config.targetOneshotDefinitionIds.includes(definitionId));
+	const envelope = useSidechainEnvelope({
+		target: isTarget ? { type: "oneshot", definitionId } : null,
+	});
+
+	if (!isTarget || !envelope) return null;
+
+	return (
+		<GainCurve
+			envelope={envelope}
+			startTime={startTime}
+			duration={duration}
+			zoomLevel={zoomLevel}
+		/>
+	);
+}
+
+function GainCurve({
+	envelope,
+	startTime,
+	duration,
+	zoomLevel,
+	className,
+}: {
+	envelope: SidechainEnvelope;
+	startTime: number;
+	duration: number;
+	zoomLevel: number;
+	className?: string;
+}) {
+	const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
+	const gains = useMemo(
+		() => getCurveGains({ envelope, startTime, duration }),
+		[envelope, startTime, duration],
+	);
+
+	if (gains.length < 2 || gains.every((gain) => gain >= 1)) return null;
+
+	// the envelope may end before the span, at the end of the timeline
+	const visibleDuration = Math.min(duration, envelope.duration - startTime);
+	const points = gains.map((gain, index) => `${index},${100 * (1 - gain)}`);
+	const lastX = gains.length - 1;
+
+	return (
+		<svg
+			className={cn("pointer-events-none absolute top-0 bottom-0", className)}
+			style={{
+				left: `${startTime * pixelsPerSecond}px`,
+				width: `${visibleDuration * pixelsPerSecond}px`,
+				height: "100%",
+			}}
+			viewBox={`0 0 ${lastX} 100`}
+			preserveAspectRatio="none"
+			aria-hidden="true"
+		>
+			<polygon
+				points={["0,0", ...points, `${lastX},0`].join(" ")}
+				className="fill-blue-500/25"
+			/>
+			<polyline
+				points={points.join(" ")}
+				className="fill-none stroke-blue-400"
+				strokeWidth={1}
+				vectorEffect="non-scaling-stroke"
+			/>
+		</svg>
+	);
+}
+
+function getCurveGains({
+	envelope,
+	startTime,
+	duration,
+}: {
+	envelope: SidechainEnvelope;
+	startTime: number;
+	duration: number;
+}): number[] {
+	const { gainValues, sampleRate } = envelope;
+	const start = Math.max(0, Math.floor(startTime * sampleRate));
+	const end = Math.min(
+		gainValues.length,
+		Math.ceil((startTime + duration) * sampleRate),
+	);
+	const count = end - start;
+	if (count <= 0) return [];
+
+	const pointCount = Math.min(count, MAX_CURVE_POINTS);
+	const step = count / pointCount;
+	const gains: number[] = [];
+	for (let point = 0; point < pointCount; point++) {
+		const from = start + Math.floor(point * step);
+		const to = Math.max(from + 1, start + Math.floor((point + 1) * step));
+		let gain = 1;
+		for (let i = from; i < to; i++) {
+			gain = Math.min(gain, gainValues[i]);
+		}
+		gains.push(gain);
+	}
+	return gains;
+}
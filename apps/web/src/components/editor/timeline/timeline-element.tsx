@@ -2,8 +2,11 @@
 
 import { useEditor } from "@/hooks/use-editor";
 import { useAssetsPanelStore } from "@/stores/assets-panel-store";
+import { useTransientStore } from "@/stores/transient-store";
 import AudioWaveform from "./audio-waveform";
 import { AutomationMarkerBadge } from "./automation-marker-badge";
+import { KeyframeLane } from "./keyframe-lane";
+import { AudioFadeHandles } from "./audio-fade-handles";
 import { useTimelineElementResize } from "@/hooks/timeline/element/use-element-resize";
 import type { SnapPoint } from "@/hooks/timeline/use-timeline-snapping";
 import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
@@ -19,6 +22,9 @@ import {
 	ContextMenuContent,
 	ContextMenuItem,
 	ContextMenuSeparator,
+	ContextMenuSub,
+	ContextMenuSubContent,
+	ContextMenuSubTrigger,
 	ContextMenuTrigger,
 } from "../../ui/context-menu";
 import type {
@@ -27,9 +33,32 @@ import type {
 	ElementDragState,
 } from "@/types/timeline";
 import type { MediaAsset } from "@/types/assets";
+import type { TransitionType } from "@/types/transition";
 import { mediaSupportsAudio } from "@/lib/media/media-utils";
+import {
+	KEYFRAME_TIME_EPSILON,
+	getAnimatableProperties,
+	getAnimatedValue,
+	getElementContentTime,
+	getKeyframeTimes,
+	hasKeyframes,
+} from "@/lib/keyframes";
+import { KEYFRAME_EASING_OPTIONS } from "@/constants/keyframe-constants";
+import {
+	DEFAULT_TRANSITION_COLOR,
+	DEFAULT_TRANSITION_DIRECTION,
+	DEFAULT_TRANSITION_DURATION,
+	TRANSITION_DIRECTION_OPTIONS,
+	TRANSITION_TYPE_OPTIONS,
+} from "@/constants/transition-constants";
 import { getActionDefinition, type TAction, invokeAction } from "@/lib/actions";
-import { RemoveAutomationMarkerCommand } from "@/lib/commands";
+import {
+	CreateTransitionCommand,
+	DeleteTransitionCommand,
+	RemoveAutomationMarkerCommand,
+	UpdateTransitionCommand,
+} from "@/lib/commands";
+import { findNextElement, getMaxTransitionDuration } from "@/lib/transitions";
 import { useElementSelection } from "@/hooks/timeline/element/use-element-selection";
 import Image from "next/image";
 import {
@@ -44,6 +73,14 @@ import {
 	Search01Icon,
 	Exchange01Icon,
 	RepeatIcon,
+	KeyframeAddIcon,
+	KeyframeRemoveIcon,
+	KeyframeIcon,
+	KeyframesMultipleRemoveIcon,
+	Pulse01Icon,
+	BlendIcon,
+	TransitionRightIcon,
+	Film02Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { uppercase } from "@/utils/string";
@@ -172,6 +209,20 @@ export function TimelineElement({
 						elementLeft={elementLeft}
 						elementWidth={elementWidth}
 					/>
+					<KeyframeLane
+						element={element}
+						trackId={track.id}
+						zoomLevel={zoomLevel}
+						isSelected={isSelected}
+					/>
+					{element.type === "audio" && (
+						<AudioFadeHandles
+							element={element}
+							trackId={track.id}
+							zoomLevel={zoomLevel}
+							isSelected={isSelected}
+						/>
+					)}
 				</div>
 			</ContextMenuTrigger>
 			<ContextMenuContent className="z-200 w-64">
@@ -189,6 +240,20 @@ export function TimelineElement({
 				{element.type === "audio" && (
 					<LoopMenuItem isLooping={element.loop ?? false} />
 				)}
+				{canElementHaveAudio(element) && hasAudio && selectedElements.length === 1 && (
+					<ContextMenuItem
+						icon={<HugeiconsIcon icon={Pulse01Icon} />}
+						onClick={() =>
+							useTransientStore.getState().openDetection({
+								type: "element",
+								trackId: track.id,
+								elementId: element.id,
+							})
+						}
+					>
+						Detect transients
+					</ContextMenuItem>
+				)}
 				{canElementBeHidden(element) && (
 					<VisibilityMenuItem
 						element={element}
@@ -217,6 +282,12 @@ export function TimelineElement({
 						</ContextMenuItem>
 					</>
 				)}
+				{selectedElements.length === 1 && (
+					<KeyframeMenuItems element={element} trackId={track.id} />
+				)}
+				{track.type === "video" && (
+					<TransitionMenuItems element={element} track={track} />
+				)}
 				{(() => {
 					const automationMarkers = editor.automation.getMarkersForElement(
 						track.id,
@@ -442,6 +513,18 @@ function ElementContent({
 		);
 	}
 
+	if (element.type === "scene") {
+		return (
+			<div className="flex size-full items-center gap-2 pl-2">
+				<HugeiconsIcon
+					icon={Film02Icon}
+					className="size-4 shrink-0 text-white"
+				/>
+				<span className="truncate text-xs text-white">{element.name}</span>
+			</div>
+		);
+	}
+
 	const mediaAsset = mediaAssets.find((asset) => asset.id === element.mediaId);
 	if (!mediaAsset) {
 		return (
@@ -534,6 +617,214 @@ function LoopMenuItem({
 	);
 }
 
+function KeyframeMenuItems({
+	element,
+	trackId,
+}: {
+	element: TimelineElementType;
+	trackId: string;
+}) {
+	const editor = useEditor();
+	const playheadTime = editor.playback.getCurrentTime();
+	const isPlayheadInside =
+		playheadTime >= element.startTime &&
+		playheadTime <= element.startTime + element.duration;
+	const contentTime = getElementContentTime({ element, time: playheadTime });
+	const keyframeTime = getKeyframeTimes({ keyframes: element.keyframes }).find(
+		(time) => Math.abs(time - contentTime) < KEYFRAME_TIME_EPSILON,
+	);
+
+	const handleAddKeyframe = () => {
+		// record every property as it currently plays, so adding a keyframe
+		// never changes the animation by itself
+		const values = Object.fromEntries(
+			getAnimatableProperties({ element }).map((property) => [
+				property,
+				getAnimatedValue({ element, property, time: contentTime }),
+			]),
+		);
+		editor.timeline.addKeyframes({
+			trackId,
+			elementId: element.id,
+			time: contentTime,
+			values,
+		});
+	};
+
+	return (
+		<>
+			{isPlayheadInside && keyframeTime === undefined && (
+				<ContextMenuItem
+					icon={<HugeiconsIcon icon={KeyframeAddIcon} />}
+					onClick={handleAddKeyframe}
+				>
+					Add keyframe
+				</ContextMenuItem>
+			)}
+			{keyframeTime !== undefined && (
+				<>
+					<ContextMenuSub>
+						<ContextMenuSubTrigger icon={<HugeiconsIcon icon={KeyframeIcon} />}>
+							Keyframe easing
+						</ContextMenuSubTrigger>
+						<ContextMenuSubContent className="z-200">
+							{KEYFRAME_EASING_OPTIONS.map((option) => (
+								<ContextMenuItem
+									key={option.value}
+									onClick={() =>
+										editor.timeline.updateKeyframeEasing({
+											trackId,
+											elementId: element.id,
+											time: keyframeTime,
+											easing: option.value,
+										})
+									}
+								>
+									{option.label}
+								</ContextMenuItem>
+							))}
+						</ContextMenuSubContent>
+					</ContextMenuSub>
+					<ContextMenuItem
+						icon={<HugeiconsIcon icon={KeyframeRemoveIcon} />}
+						onClick={() =>
+							editor.timeline.removeKeyframes({
+								trackId,
+								elementId: element.id,
+								time: keyframeTime,
+							})
+						}
+					>
+						Remove keyframe
+					</ContextMenuItem>
+				</>
+			)}
+			{hasKeyframes({ keyframes: element.keyframes }) && (
+				<ContextMenuItem
+					icon={<HugeiconsIcon icon={KeyframesMultipleRemoveIcon} />}
+					onClick={() =>
+						editor.timeline.removeKeyframes({
+							trackId,
+							elementId: element.id,
+							time: null,
+						})
+					}
+				>
+					Clear keyframes
+				</ContextMenuItem>
+			)}
+		</>
+	);
+}
+
+function TransitionMenuItems({
+	element,
+	track,
+}: {
+	element: TimelineElementType;
+	track: TimelineTrack;
+}) {
+	const editor = useEditor();
+	const next = findNextElement({ track, elementId: element.id });
+	if (!next) return null;
+
+	const transition = editor.transitions
+		.getTransitions()
+		.find(
+			(item) =>
+				item.fromElementId === element.id && item.toElementId === next.id,
+		);
+
+	const handleSelectType = (type: TransitionType) => {
+		if (transition) {
+			editor.command.execute(
+				new UpdateTransitionCommand(transition.id, { type }),
+			);
+			return;
+		}
+
+		editor.command.execute(
+			new CreateTransitionCommand({
+				trackId: track.id,
+				fromElementId: element.id,
+				toElementId: next.id,
+				type,
+				duration: Math.min(
+					DEFAULT_TRANSITION_DURATION,
+					getMaxTransitionDuration({ from: element, to: next }),
+				),
+				direction: DEFAULT_TRANSITION_DIRECTION,
+				color: DEFAULT_TRANSITION_COLOR,
+			}),
+		);
+	};
+
+	const hasDirection =
+		transition?.type === "wipe" || transition?.type === "slide";
+
+	return (
+		<>
+			<ContextMenuSub>
+				<ContextMenuSubTrigger icon={<HugeiconsIcon icon={BlendIcon} />}>
+					{transition ? "Transition" : "Add transition"}
+				</ContextMenuSubTrigger>
+				<ContextMenuSubContent className="z-200">
+					{TRANSITION_TYPE_OPTIONS.map((option) => (
+						<ContextMenuItem
+							key={option.value}
+							onClick={() => handleSelectType(option.value)}
+							textRight={transition?.type === option.value ? "✓" : ""}
+						>
+							{option.label}
+						</ContextMenuItem>
+					))}
+				</ContextMenuSubContent>
+			</ContextMenuSub>
+			{transition && hasDirection && (
+				<ContextMenuSub>
+					<ContextMenuSubTrigger
+						icon={<HugeiconsIcon icon={TransitionRightIcon} />}
+					>
+						Transition direction
+					</ContextMenuSubTrigger>
+					<ContextMenuSubContent className="z-200">
+						{TRANSITION_DIRECTION_OPTIONS.map((option) => (
+							<ContextMenuItem
+								key={option.value}
+								onClick={() =>
+									editor.command.execute(
+										new UpdateTransitionCommand(transition.id, {
+											direction: option.value,
+										}),
+									)
+								}
+								textRight={
+									(transition.direction ?? DEFAULT_TRANSITION_DIRECTION) ===
+									option.value
+										? "✓"
+										: ""
+								}
+							>
+								{option.label}
+							</ContextMenuItem>
+						))}
+					</ContextMenuSubContent>
+				</ContextMenuSub>
+			)}
+			{transition && (
+				<ContextMenuItem
+					icon={<HugeiconsIcon icon={Delete02Icon} />}
+					onClick={() =>
+						editor.command.execute(new DeleteTransitionCommand(transition.id))
+					}
+				>
+					Remove transition
+				</ContextMenuItem>
+			)}
+		</>
+	);
+}
+
 function VisibilityMenuItem({
 	element,
 	isMultipleSelected,
@@ -2,7 +2,10 @@ import type { JSX } from "react";
 import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
 import { DEFAULT_FPS } from "@/constants/project-constants";
 import { useEditor } from "@/hooks/use-editor";
+import { MIN_BEAT_LINE_SPACING } from "@/constants/beat-grid-constants";
 import { getRulerConfig, shouldShowLabel } from "@/lib/timeline/ruler-utils";
+import { getBeatDuration, getBeatsInRange } from "@/lib/timeline/beat-grid";
+import type { BeatGrid } from "@/types/beat-grid";
 import { TimelineTick } from "./timeline-tick";
 import { AutomationPointMarkers } from "./automation-point-markers";
 import { OneshotTimelineMarkers } from "./oneshot-timeline-markers";
@@ -80,9 +83,52 @@ export function TimelineRuler({
 				onMouseDown={handleRulerMouseDown}
 			>
 				{timelineTicks}
+				<BeatGridLines
+					grid={editor.scenes.getActiveSceneOrNull()?.beatGrid}
+					pixelsPerSecond={pixelsPerSecond}
+					duration={effectiveDuration}
+				/>
 				<AutomationPointMarkers zoomLevel={zoomLevel} />
 				<OneshotTimelineMarkers zoomLevel={zoomLevel} />
 			</div>
 		</div>
 	);
 }
+
+// bar lines run the full ruler height, beats only show once they spread out
+function BeatGridLines({
+	grid,
+	pixelsPerSecond,
+	duration,
+}: {
+	grid: BeatGrid | undefined;
+	pixelsPerSecond: number;
+	duration: number;
+}) {
+	if (!grid?.enabled) return null;
+
+	const beatSpacing = getBeatDuration({ grid }) * pixelsPerSecond;
+	const showBeats = beatSpacing >= MIN_BEAT_LINE_SPACING;
+	const showBars = beatSpacing * grid.beatsPerBar >= MIN_BEAT_LINE_SPACING * 2;
+	if (!showBars) return null;
+
+	const lines = getBeatsInRange({ grid, start: 0, end: duration }).filter(
+		(beat) => beat.isDownbeat || showBeats,
+	);
+
+	return (
+		<div className="pointer-events-none absolute inset-0">
+			{lines.map((beat) => (
+				<div
+					key={beat.time}
+					className={
+						beat.isDownbeat
+							? "absolute top-0 bottom-0 border-l border-amber-500/60"
+							: "absolute bottom-0 h-2 border-l border-amber-500/30"
+					}
+					style={{ left: `${beat.time * pixelsPerSecond}px` }}
+				/>
+			))}
+		</div>
+	);
+}
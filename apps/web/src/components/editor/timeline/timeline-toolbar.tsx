@@ -19,6 +19,7 @@ import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
 import { sliderToZoom, zoomToSlider } from "@/lib/timeline/zoom-utils";
 import { EditableTimecode } from "@/components/editable-timecode";
 import { ScenesView } from "../scenes-view";
+import { BeatGridPopover } from "./beat-grid-popover";
 import { type TAction, invokeAction } from "@/lib/actions";
 import { cn } from "@/utils/ui";
 import { useTimelineStore } from "@/stores/timeline-store";
@@ -38,6 +39,8 @@ import {
 	AlignLeftIcon,
 	AlignRightIcon,
 	Layers01Icon,
+	Layers02Icon,
+	ArrowShrink02Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 
@@ -175,6 +178,14 @@ function ToolbarLeftSection() {
 					}
 				/>
 
+				<ToolbarButton
+					icon={<HugeiconsIcon icon={ArrowShrink02Icon} />}
+					tooltip="Close all gaps"
+					onClick={({ event }) =>
+						handleAction({ action: "close-all-gaps", event })
+					}
+				/>
+
 				<div className="bg-border mx-1 h-6 w-px" />
 
 				<Tooltip>
@@ -257,8 +268,10 @@ function ToolbarRightSection({
 	const {
 		snappingEnabled,
 		rippleEditingEnabled,
+		rippleAllTracksEnabled,
 		toggleSnapping,
 		toggleRippleEditing,
+		toggleRippleAllTracks,
 	} = useTimelineStore();
 
 	return (
@@ -275,6 +288,8 @@ function ToolbarRightSection({
 					onClick={() => toggleSnapping()}
 				/>
 
+				<BeatGridPopover />
+
 				<ToolbarButton
 					icon={
 						<HugeiconsIcon
@@ -288,6 +303,17 @@ function ToolbarRightSection({
 					tooltip="Ripple editing"
 					onClick={() => toggleRippleEditing()}
 				/>
+
+				<ToolbarButton
+					icon={
+						<HugeiconsIcon
+							icon={Layers02Icon}
+							className={cn(rippleAllTracksEnabled ? "text-primary" : "")}
+						/>
+					}
+					tooltip="Ripple other tracks, markers and bookmarks"
+					onClick={() => toggleRippleAllTracks()}
+				/>
 			</TooltipProvider>
 
 			<div className="bg-border mx-1 h-6 w-px" />
@@ -2,6 +2,8 @@
 
 import { useElementSelection } from "@/hooks/timeline/element/use-element-selection";
 import { TimelineElement } from "./timeline-element";
+import { TransitionHandles } from "./transition-handles";
+import { TrackSidechainOverlay } from "./sidechain-gain-overlay";
 import type { TimelineTrack } from "@/types/timeline";
 import type { TimelineElement as TimelineElementType } from "@/types/timeline";
 import type { SnapPoint } from "@/hooks/timeline/use-timeline-snapping";
@@ -110,6 +112,8 @@ export function TimelineTrackContent({
 						);
 					})
 				)}
+				<TransitionHandles track={track} zoomLevel={zoomLevel} />
+				<TrackSidechainOverlay track={track} zoomLevel={zoomLevel} />
 			</div>
 		</div>
 	);
@@ -1,9 +1,14 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { ChartDecreaseIcon } from "@hugeicons/core-free-icons";
 import { useEditor } from "@/hooks/use-editor";
 import { RenameTrackCommand } from "@/lib/commands";
-import { getTrackDisplayName } from "@/lib/timeline/track-utils";
+import {
+	canTracktHaveAudio,
+	getTrackDisplayName,
+} from "@/lib/timeline/track-utils";
 import type { TimelineTrack } from "@/types/timeline";
 import { cn } from "@/utils/ui";
 
@@ -19,6 +24,11 @@ export function TrackLabel({ track, allTracks }: TrackLabelProps) {
 	const inputRef = useRef<HTMLInputElement>(null);
 
 	const displayName = getTrackDisplayName(track, allTracks);
+	const isSidechainTarget =
+		canTracktHaveAudio(track) &&
+		editor.sidechain
+			.getConfigs()
+			.some((config) => config.targetTrackIds.includes(track.id));
 
 	useEffect(() => {
 		if (isEditing && inputRef.current) {
@@ -74,12 +84,35 @@ export function TrackLabel({ track, allTracks }: TrackLabelProps) {
 	}
 
 	return (
-		<span
-			className="text-muted-foreground cursor-pointer truncate text-xs hover:text-foreground"
-			onClick={handleStartEdit}
-			title={`${displayName} (click to rename)`}
-		>
-			{displayName}
-		</span>
+		<div className="flex min-w-0 items-center gap-1">
+			<span
+				className="text-muted-foreground cursor-pointer truncate text-xs hover:text-foreground"
+				onClick={handleStartEdit}
+				title={`${displayName} (click to rename)`}
+			>
+				{displayName}
+			</span>
+			{isSidechainTarget && (
+				<button
+					type="button"
+					className={cn(
+						"shrink-0 cursor-pointer",
+						track.hideSidechainOverlay
+							? "text-muted-foreground/50"
+							: "text-blue-400",
+					)}
+					onClick={() =>
+						editor.timeline.toggleTrackSidechainOverlay({ trackId: track.id })
+					}
+					title={
+						track.hideSidechainOverlay
+							? "Show sidechain ducking"
+							: "Hide sidechain ducking"
+					}
+				>
+					<HugeiconsIcon icon={ChartDecreaseIcon} className="size-3.5" />
+				</button>
+			)}
+		</div>
 	);
 }
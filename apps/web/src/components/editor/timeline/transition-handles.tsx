@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import {
+	MIN_TRANSITION_DURATION,
+	TRANSITION_TYPE_OPTIONS,
+} from "@/constants/transition-constants";
+import {
+	type ResolvedTransition,
+	getMaxTransitionDuration,
+	resolveTrackTransitions,
+} from "@/lib/transitions";
+import {
+	DeleteTransitionCommand,
+	UpdateTransitionCommand,
+} from "@/lib/commands";
+import type { TimelineTrack } from "@/types/timeline";
+import { clamp } from "@/utils/math";
+import { cn } from "@/utils/ui";
+
+interface TransitionDragState {
+	transitionId: string;
+	cut: number;
+	maxDuration: number;
+	previewDuration: number;
+}
+
+/**
+ * Bars over the cuts of a video track showing each transition. Dragging either
+ * edge resizes the transition around the cut, double-click removes it.
+ */
+export function TransitionHandles({
+	track,
+	zoomLevel,
+}: {
+	track: TimelineTrack;
+	zoomLevel: number;
+}) {
+	const editor = useEditor();
+	const [dragState, setDragState] = useState<TransitionDragState | null>(null);
+	const dragStateRef = useRef<TransitionDragState | null>(null);
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
+	const isDragging = dragState !== null;
+
+	useEffect(() => {
+		if (!isDragging) return;
+
+		const handleMouseMove = (event: MouseEvent) => {
+			const current = dragStateRef.current;
+			const container = containerRef.current;
+			if (!current || !container) return;
+
+			const pointerTime =
+				(event.clientX - container.getBoundingClientRect().left) /
+				pixelsPerSecond;
+			const next = {
+				...current,
+				previewDuration: clamp({
+					value: Math.abs(pointerTime - current.cut) * 2,
+					min: MIN_TRANSITION_DURATION,
+					max: current.maxDuration,
+				}),
+			};
+			dragStateRef.current = next;
+			setDragState(next);
+		};
+
+		const handleMouseUp = () => {
+			const current = dragStateRef.current;
+			dragStateRef.current = null;
+			setDragState(null);
+			if (!current) return;
+
+			editor.command.execute(
+				new UpdateTransitionCommand(current.transitionId, {
+					duration: current.previewDuration,
+				}),
+			);
+		};
+
+		window.addEventListener("mousemove", handleMouseMove);
+		window.addEventListener("mouseup", handleMouseUp);
+		return () => {
+			window.removeEventListener("mousemove", handleMouseMove);
+			window.removeEventListener("mouseup", handleMouseUp);
+		};
+	}, [isDragging, editor, pixelsPerSecond]);
+
+	if (track.type !== "video") return null;
+
+	const resolved = resolveTrackTransitions({
+		track,
+		transitions: editor.transitions.getTransitions(),
+	});
+	if (resolved.length === 0) return null;
+
+	const startDrag = ({
+		event,
+		item,
+	}: {
+		event: React.MouseEvent;
+		item: ResolvedTransition;
+	}) => {
+		event.stopPropagation();
+		event.preventDefault();
+		if (event.button !== 0) return;
+
+		const from = track.elements.find(
+			(element) => element.id === item.transition.fromElementId,
+		);
+		const to = track.elements.find(
+			(element) => element.id === item.transition.toElementId,
+		);
+		// overlapping clips transition over the overlap, nothing to resize
+		if (!from || !to || item.fromEnd > item.toStart) return;
+
+		const next = {
+			transitionId: item.transition.id,
+			cut: item.toStart,
+			maxDuration: getMaxTransitionDuration({ from, to }),
+			previewDuration: item.end - item.start,
+		};
+		dragStateRef.current = next;
+		setDragState(next);
+	};
+
+	return (
+		<div
+			ref={containerRef}
+			className="pointer-events-none absolute inset-0 z-20"
+		>
+			{resolved.map((item) => {
+				const isActive = dragState?.transitionId === item.transition.id;
+				const start = isActive
+					? item.toStart - dragState.previewDuration / 2
+					: item.start;
+				const end = isActive
+					? item.toStart + dragState.previewDuration / 2
+					: item.end;
+				const label =
+					TRANSITION_TYPE_OPTIONS.find(
+						(option) => option.value === item.transition.type,
+					)?.label ?? item.transition.type;
+
+				return (
+					<div
+						key={item.transition.id}
+						title={`${label} (${(end - start).toFixed(2)}s), double-click or Delete to remove`}
+						className={cn(
+							"pointer-events-auto absolute top-1/2 flex h-4 -translate-y-1/2 items-center justify-center overflow-hidden rounded-sm border border-white/70 bg-black/60 text-[9px] text-white",
+							isActive && "border-primary",
+						)}
+						style={{
+							left: `${start * pixelsPerSecond}px`,
+							width: `${Math.max(end - start, 0) * pixelsPerSecond}px`,
+						}}
+						role="slider"
+						tabIndex={0}
+						aria-label={`${label} transition duration`}
+						aria-valuenow={end - start}
+						aria-valuemin={MIN_TRANSITION_DURATION}
+						onMouseDown={(event) => event.stopPropagation()}
+						onClick={(event) => event.stopPropagation()}
+						onDoubleClick={(event) => {
+							event.stopPropagation();
+							editor.command.execute(
+								new DeleteTransitionCommand(item.transition.id),
+							);
+						}}
+						onKeyDown={(event) => {
+							if (event.key !== "Delete" && event.key !== "Backspace") return;
+							event.stopPropagation();
+							editor.command.execute(
+								new DeleteTransitionCommand(item.transition.id),
+							);
+						}}
+					>
+						<span className="truncate px-1">{label}</span>
+						{(["start", "end"] as const).map((edge) => (
+							<button
+								key={edge}
+								type="button"
+								aria-label={`Resize transition ${edge}`}
+								className={cn(
+									"absolute top-0 h-full w-1.5 cursor-ew-resize bg-white/70",
+									edge === "start" ? "left-0" : "right-0",
+								)}
+								onMouseDown={(event) => startDrag({ event, item })}
+							/>
+						))}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
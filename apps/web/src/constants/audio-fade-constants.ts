@@ -0,0 +1,13 @@
+import type { FadeCurve } from "@/types/timeline";
+
+export const DEFAULT_FADE_CURVE: FadeCurve = "equal-power";
+export const MAX_FADE_DURATION = 10;
+
+export const FADE_CURVE_OPTIONS: {
+	value: FadeCurve;
+	label: string;
+}[] = [
+	{ value: "linear", label: "Linear" },
+	{ value: "equal-power", label: "Equal power" },
+	{ value: "logarithmic", label: "Logarithmic" },
+];
@@ -0,0 +1,33 @@
+import type {
+	AutomationOperationType,
+	AutomationRamp,
+	AutomationRampCurve,
+} from "@/types/automation";
+
+export const DEFAULT_AUTOMATION_RAMP: AutomationRamp = {
+	duration: 0.5,
+	curve: "ease-in-out",
+};
+// seconds offered for a marker's ramp
+export const AUTOMATION_RAMP_DURATIONS = [0.1, 0.25, 0.5, 1, 2, 4, 8];
+
+export const AUTOMATION_OPERATION_OPTIONS: {
+	value: AutomationOperationType;
+	label: string;
+}[] = [
+	{ value: "audio-volume", label: "Track volume" },
+	{ value: "track-pan", label: "Track pan" },
+	{ value: "sidechain-enabled", label: "Sidechain" },
+	{ value: "oneshot-gain", label: "Oneshot gain" },
+	{ value: "video-opacity", label: "Video opacity" },
+];
+
+export const AUTOMATION_RAMP_CURVE_OPTIONS: {
+	value: AutomationRampCurve;
+	label: string;
+}[] = [
+	{ value: "linear", label: "Linear" },
+	{ value: "ease-in", label: "Ease in" },
+	{ value: "ease-out", label: "Ease out" },
+	{ value: "ease-in-out", label: "Ease in-out" },
+];
@@ -0,0 +1,22 @@
+import type { BeatGrid } from "@/types/beat-grid";
+
+export const DEFAULT_BEAT_GRID: BeatGrid = {
+	bpm: 120,
+	offset: 0,
+	beatsPerBar: 4,
+	enabled: true,
+};
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+// detection only looks for tempos in this range; halves and doubles fold in
+export const DETECTION_MIN_BPM = 60;
+export const DETECTION_MAX_BPM = 200;
+
+export const BEATS_PER_BAR_OPTIONS = [2, 3, 4, 5, 6, 7];
+
+// fraction of a beat within which a point placed at the playhead snaps to it
+export const BEAT_SNAP_TOLERANCE = 0.25;
+
+// beat lines closer than this many pixels are hidden, bars need twice that
+export const MIN_BEAT_LINE_SPACING = 6;
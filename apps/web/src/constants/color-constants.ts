@@ -0,0 +1,99 @@
+import type { AdjustmentFilterType } from "@/types/color";
+
+export interface AdjustmentFilterOption {
+	value: AdjustmentFilterType;
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+	defaultAmount: number;
+	format: (amount: number) => string;
+}
+
+const formatPercent = (amount: number) => `${Math.round(amount * 100)}%`;
+
+export const ADJUSTMENT_FILTER_OPTIONS: AdjustmentFilterOption[] = [
+	{
+		value: "brightness",
+		label: "Brightness",
+		min: -1,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0,
+		format: formatPercent,
+	},
+	{
+		value: "contrast",
+		label: "Contrast",
+		min: -1,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0,
+		format: formatPercent,
+	},
+	{
+		value: "saturation",
+		label: "Saturation",
+		min: -1,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0,
+		format: formatPercent,
+	},
+	{
+		value: "exposure",
+		label: "Exposure",
+		min: -3,
+		max: 3,
+		step: 0.05,
+		defaultAmount: 0,
+		format: (amount) => `${amount.toFixed(2)} EV`,
+	},
+	{
+		value: "temperature",
+		label: "Temperature",
+		min: -1,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0,
+		format: formatPercent,
+	},
+	{
+		value: "tint",
+		label: "Tint",
+		min: -1,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0,
+		format: formatPercent,
+	},
+	{
+		value: "hue",
+		label: "Hue",
+		min: -180,
+		max: 180,
+		step: 1,
+		defaultAmount: 0,
+		format: (amount) => `${Math.round(amount)}°`,
+	},
+	{
+		value: "vignette",
+		label: "Vignette",
+		min: 0,
+		max: 1,
+		step: 0.01,
+		defaultAmount: 0.5,
+		format: formatPercent,
+	},
+];
+
+export const DEFAULT_LUT_AMOUNT = 1;
+
+// the .cube spec allows up to 256 points per axis, larger tables are rejected
+export const MAX_LUT_SIZE = 256;
+
+// how far full temperature or tint pushes the red/blue or green channel
+export const WHITE_BALANCE_STRENGTH = 0.15;
+
+// distance from the center, as a fraction of the corner distance, where the vignette starts
+export const VIGNETTE_START = 0.4;
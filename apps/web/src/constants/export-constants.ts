@@ -1,4 +1,5 @@
 import type { ExportOptions } from "@/types/export";
+import type { LoudnessOptions } from "@/types/loudness";
 
 export const DEFAULT_EXPORT_OPTIONS = {
 	format: "mp4",
@@ -9,4 +10,30 @@ export const DEFAULT_EXPORT_OPTIONS = {
 export const EXPORT_MIME_TYPES = {
 	webm: "video/webm",
 	mp4: "video/mp4",
+	wav: "audio/wav",
+	ogg: "audio/ogg",
+	m4a: "audio/mp4",
 } as const;
+
+export const STEMS_MIME_TYPE = "application/zip";
+
+export const DEFAULT_WAV_BIT_DEPTH = 24;
+
+// exports keep the mix as it is unless a target or ceiling is picked
+export const DEFAULT_LOUDNESS_OPTIONS: LoudnessOptions = {
+	targetLufs: null,
+	truePeakCeiling: null,
+};
+
+export const LOUDNESS_TARGET_OPTIONS: { value: number; label: string }[] = [
+	{ value: -14, label: "-14 LUFS (streaming)" },
+	{ value: -16, label: "-16 LUFS (podcast)" },
+	{ value: -23, label: "-23 LUFS (EBU R128)" },
+	{ value: -24, label: "-24 LUFS (ATSC A/85)" },
+];
+
+export const TRUE_PEAK_CEILING_OPTIONS: { value: number; label: string }[] = [
+	{ value: -0.1, label: "-0.1 dBTP" },
+	{ value: -1, label: "-1 dBTP" },
+	{ value: -2, label: "-2 dBTP" },
+];
@@ -0,0 +1,13 @@
+import type { KeyframeEasing } from "@/types/keyframe";
+
+export const KEYFRAME_EASING_OPTIONS: {
+	value: KeyframeEasing;
+	label: string;
+}[] = [
+	{ value: "linear", label: "Linear" },
+	{ value: "ease-in", label: "Ease in" },
+	{ value: "ease-out", label: "Ease out" },
+	{ value: "ease-in-out", label: "Ease in-out" },
+	{ value: "bezier", label: "Bezier" },
+	{ value: "hold", label: "Hold" },
+];
@@ -0,0 +1,37 @@
+import type { CropRect, MediaBlendMode, MediaFitMode } from "@/types/timeline";
+
+export const DEFAULT_CROP_RECT: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+export const DEFAULT_FIT_MODE: MediaFitMode = "contain";
+export const DEFAULT_BLEND_MODE: MediaBlendMode = "normal";
+
+// smallest visible fraction a crop may leave on either axis
+export const MIN_CROP_SIZE = 0.05;
+
+export const MEDIA_FIT_MODE_OPTIONS: { value: MediaFitMode; label: string }[] =
+	[
+		{ value: "contain", label: "Contain" },
+		{ value: "cover", label: "Cover" },
+		{ value: "stretch", label: "Stretch" },
+	];
+
+export const MEDIA_BLEND_MODE_OPTIONS: {
+	value: MediaBlendMode;
+	label: string;
+}[] = [
+	{ value: "normal", label: "Normal" },
+	{ value: "multiply", label: "Multiply" },
+	{ value: "screen", label: "Screen" },
+	{ value: "overlay", label: "Overlay" },
+	{ value: "darken", label: "Darken" },
+	{ value: "lighten", label: "Lighten" },
+	{ value: "color-dodge", label: "Color dodge" },
+	{ value: "color-burn", label: "Color burn" },
+	{ value: "hard-light", label: "Hard light" },
+	{ value: "soft-light", label: "Soft light" },
+	{ value: "difference", label: "Difference" },
+	{ value: "exclusion", label: "Exclusion" },
+	{ value: "hue", label: "Hue" },
+	{ value: "saturation", label: "Saturation" },
+	{ value: "color", label: "Color" },
+	{ value: "luminosity", label: "Luminosity" },
+];
@@ -0,0 +1,4 @@
+// the fader tops out at +6 dB
+export const MAX_TRACK_VOLUME = 2;
+// quietest level the meters show
+export const METER_FLOOR_DB = -60;
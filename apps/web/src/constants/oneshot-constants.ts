@@ -0,0 +1,24 @@
+import type { OneshotVariationMode } from "@/types/oneshot";
+
+export const ONESHOT_COLORS = [
+	"#ef4444", // red
+	"#f97316", // orange
+	"#eab308", // yellow
+	"#22c55e", // green
+	"#06b6d4", // cyan
+	"#3b82f6", // blue
+	"#8b5cf6", // violet
+	"#ec4899", // pink
+];
+
+export const ONESHOT_VARIATION_MODE_OPTIONS: {
+	value: OneshotVariationMode;
+	label: string;
+}[] = [
+	{ value: "round-robin", label: "Round robin" },
+	{ value: "random", label: "Random" },
+];
+
+// upper bounds of a group's +/- randomization
+export const MAX_VARIATION_PITCH_RANGE = 12;
+export const MAX_VARIATION_GAIN_RANGE = 12;
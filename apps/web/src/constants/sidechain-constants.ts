@@ -0,0 +1,6 @@
+// 0 switches the filter off
+export const KEY_HIGHPASS_OPTIONS = [0, 40, 80, 120, 200, 500, 1000];
+export const KEY_LOWPASS_OPTIONS = [0, 100, 150, 250, 500, 1000, 4000];
+
+// dB range drawn by the gain-reduction graph, top to bottom
+export const GAIN_REDUCTION_GRAPH_FLOOR_DB = -60;
@@ -0,0 +1,13 @@
+import type { SubtitleFormat } from "@/types/subtitles";
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+	srt: "application/x-subrip",
+	vtt: "text/vtt",
+};
+
+export const SUBTITLE_FORMAT_LABELS: Record<SubtitleFormat, string> = {
+	srt: "SubRip (.srt)",
+	vtt: "WebVTT (.vtt)",
+};
+
+export const SUBTITLE_FILE_ACCEPT = ".srt,.vtt";
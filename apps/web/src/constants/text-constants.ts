@@ -1,29 +1,105 @@
-import type { TextElement } from "@/types/timeline";
-import { TIMELINE_CONSTANTS } from "./timeline-constants";
-
-export const DEFAULT_TEXT_ELEMENT: Omit<TextElement, "id"> = {
-	type: "text",
-	name: "Text",
-	content: "Default Text",
-	fontSize: 48,
-	fontFamily: "Arial",
-	color: "#ffffff",
-	backgroundColor: "transparent",
-	textAlign: "center",
-	fontWeight: "normal",
-	fontStyle: "normal",
-	textDecoration: "none",
-	duration: TIMELINE_CONSTANTS.DEFAULT_ELEMENT_DURATION,
-	startTime: 0,
-	trimStart: 0,
-	trimEnd: 0,
-	transform: {
-		scale: 1,
-		position: {
-			x: 0,
-			y: 0,
-		},
-		rotate: 0,
-	},
-	opacity: 1,
-};
+import type {
+	CaptionHighlight,
+	TextAnimation,
+	TextAnimationEasing,
+	TextAnimationPreset,
+	TextElement,
+	TextShadow,
+} from "@/types/timeline";
+import { TIMELINE_CONSTANTS } from "./timeline-constants";
+
+export const DEFAULT_TEXT_ELEMENT: Omit<TextElement, "id"> = {
+	type: "text",
+	name: "Text",
+	content: "Default Text",
+	fontSize: 48,
+	fontFamily: "Arial",
+	color: "#ffffff",
+	backgroundColor: "transparent",
+	textAlign: "center",
+	fontWeight: "normal",
+	fontStyle: "normal",
+	textDecoration: "none",
+	duration: TIMELINE_CONSTANTS.DEFAULT_ELEMENT_DURATION,
+	startTime: 0,
+	trimStart: 0,
+	trimEnd: 0,
+	transform: {
+		scale: 1,
+		position: {
+			x: 0,
+			y: 0,
+		},
+		rotate: 0,
+	},
+	opacity: 1,
+};
+
+export const DEFAULT_CAPTION_HIGHLIGHT: CaptionHighlight = {
+	color: "#facc15",
+	backgroundColor: null,
+	scale: 1,
+};
+
+export const CAPTION_HIGHLIGHT_MAX_SCALE = 1.5;
+
+// what text elements saved before these settings existed render with
+export const DEFAULT_TEXT_STYLE = {
+	autoWrap: true,
+	lineHeight: 1.2,
+	letterSpacing: 0,
+	strokeColor: "#000000",
+	strokeWidth: 0,
+	backgroundPadding: { x: 8, y: 4 },
+	backgroundRadius: 0,
+} satisfies Partial<TextElement>;
+
+export const DEFAULT_TEXT_SHADOW: TextShadow = {
+	color: "#000000",
+	blur: 8,
+	offsetX: 0,
+	offsetY: 4,
+};
+
+export const TEXT_ANIMATION_PRESET_OPTIONS: {
+	value: TextAnimationPreset;
+	label: string;
+}[] = [
+	{ value: "fade", label: "Fade" },
+	{ value: "slide-left", label: "Slide (left)" },
+	{ value: "slide-right", label: "Slide (right)" },
+	{ value: "slide-up", label: "Slide (top)" },
+	{ value: "slide-down", label: "Slide (bottom)" },
+	{ value: "pop", label: "Pop" },
+	{ value: "typewriter", label: "Typewriter" },
+	{ value: "word-reveal", label: "Word by word" },
+	{ value: "blur", label: "Blur" },
+];
+
+export const TEXT_ANIMATION_EASING_OPTIONS: {
+	value: TextAnimationEasing;
+	label: string;
+}[] = [
+	{ value: "linear", label: "Linear" },
+	{ value: "ease-in", label: "Ease in" },
+	{ value: "ease-out", label: "Ease out" },
+	{ value: "ease-in-out", label: "Ease in-out" },
+];
+
+// settling in and speeding away read as the natural motion for each side
+export const DEFAULT_TEXT_ANIMATION_IN: Omit<TextAnimation, "preset"> = {
+	duration: 0.5,
+	easing: "ease-out",
+};
+
+export const DEFAULT_TEXT_ANIMATION_OUT: Omit<TextAnimation, "preset"> = {
+	duration: 0.5,
+	easing: "ease-in",
+};
+
+export const TEXT_ANIMATION_MIN_DURATION = 0.05;
+
+// slides travel this share of the canvas, fading on the way
+export const TEXT_SLIDE_DISTANCE = 0.2;
+
+export const TEXT_BLUR_MAX_RADIUS = 24;
@@ -42,6 +42,10 @@ export const TIMELINE_CONSTANTS = {
 	ZOOM_ANCHOR_PLAYHEAD_THRESHOLD: 0.15,
 } as const;
 
+export const CLIP_SPEED_LIMITS = { min: 0.1, max: 10 } as const;
+
+export const CLIP_SPEED_PRESETS = [0.25, 0.5, 1, 1.5, 2, 4] as const;
+
 export const DEFAULT_TIMELINE_VIEW_STATE: TTimelineViewState = {
 	zoomLevel: 1,
 	scrollLeft: 0,
@@ -56,3 +56,6 @@ export const DEFAULT_STRIDE_SECONDS = 5;
 
 export const DEFAULT_WORDS_PER_CAPTION = 3;
 export const MIN_CAPTION_DURATION_SECONDS = 0.8;
+// a gap between words at least this long starts a new caption
+export const CAPTION_PAUSE_SECONDS = 0.4;
+export const CAPTION_FONT_SIZE = 65;
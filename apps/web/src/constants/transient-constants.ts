@@ -0,0 +1,15 @@
+import type { TransientAction } from "@/types/transient";
+
+// 0 only keeps the hardest hits, 1 catches soft ones too
+export const DEFAULT_TRANSIENT_SENSITIVITY = 0.5;
+// seconds; hits closer than this count as one, e.g. a flam
+export const TRANSIENT_MIN_GAP = 0.05;
+
+export const TRANSIENT_ACTION_OPTIONS: {
+	value: TransientAction;
+	label: string;
+}[] = [
+	{ value: "oneshot-markers", label: "Oneshot markers" },
+	{ value: "bookmarks", label: "Bookmarks" },
+	{ value: "split", label: "Split points" },
+];
@@ -0,0 +1,27 @@
+import type { TransitionDirection, TransitionType } from "@/types/transition";
+
+export const DEFAULT_TRANSITION_DURATION = 1;
+export const MIN_TRANSITION_DURATION = 0.1;
+export const DEFAULT_TRANSITION_DIRECTION: TransitionDirection = "left";
+export const DEFAULT_TRANSITION_COLOR = "#000000";
+
+export const TRANSITION_TYPE_OPTIONS: {
+	value: TransitionType;
+	label: string;
+}[] = [
+	{ value: "crossfade", label: "Crossfade" },
+	{ value: "dip-to-color", label: "Dip to color" },
+	{ value: "wipe", label: "Wipe" },
+	{ value: "slide", label: "Slide" },
+	{ value: "zoom", label: "Zoom" },
+];
+
+export const TRANSITION_DIRECTION_OPTIONS: {
+	value: TransitionDirection;
+	label: string;
+}[] = [
+	{ value: "left", label: "Left" },
+	{ value: "right", label: "Right" },
+	{ value: "up", label: "Up" },
+	{ value: "down", label: "Down" },
+];
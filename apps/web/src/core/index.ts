@@ -11,6 +11,7 @@ import { SelectionManager } from "./managers/selection-manager";
 import { AutomationManager } from "./managers/automation-manager";
 import { OneshotManager } from "./managers/oneshot-manager";
 import { SidechainManager } from "./managers/sidechain-manager";
+import { TransitionManager } from "./managers/transition-manager";
 
 export class EditorCore {
 	private static instance: EditorCore | null = null;
@@ -28,6 +29,7 @@ export class EditorCore {
 	public readonly automation: AutomationManager;
 	public readonly oneshot: OneshotManager;
 	public readonly sidechain: SidechainManager;
+	public readonly transitions: TransitionManager;
 
 	private constructor() {
 		this.command = new CommandManager();
@@ -43,6 +45,7 @@ export class EditorCore {
 		this.automation = new AutomationManager(this);
 		this.oneshot = new OneshotManager(this);
 		this.sidechain = new SidechainManager(this);
+		this.transitions = new TransitionManager(this);
 		this.save.start();
 	}
 
@@ -1,6 +1,27 @@
 import type { EditorCore } from "@/core";
+import type { ScheduledOneshot } from "@/core/managers/oneshot-manager";
 import type { AudioClipSource } from "@/lib/media/audio";
 import { createAudioContext, collectAudioClips } from "@/lib/media/audio";
+import { getAudioFadeGain } from "@/lib/media/audio-fade";
+import { getNestedSceneAudioTracks } from "@/lib/scenes";
+import { getElementContentTime, resolveAnimatedVolume } from "@/lib/keyframes";
+import { renderClipAtSpeed } from "@/lib/media/clip-speed";
+import {
+	canTracktHaveAudio,
+	getClipSourceRange,
+	getTrackMix,
+	hasSpeedChange,
+} from "@/lib/timeline";
+import {
+	type AudioLevels,
+	SILENT_LEVELS,
+	measureLevels,
+} from "@/lib/media/audio-levels";
+import type { TimelineTrack } from "@/types/timeline";
+import {
+	type ResolvedTransition,
+	getTransitionAudioGain,
+} from "@/lib/transitions";
 import {
 	ALL_FORMATS,
 	AudioBufferSink,
@@ -9,9 +30,24 @@ import {
 	type WrappedAudioBuffer,
 } from "mediabunny";
 
+// a track's channel strip: fader, pan and the meter tap
+interface TrackBus {
+	gain: GainNode;
+	panner: StereoPannerNode;
+	analyser: AnalyserNode;
+}
+
+const METER_FFT_SIZE = 2048;
+// time constant for clip gain changes between volume ticks
+const GAIN_SMOOTHING_SECONDS = 0.03;
+
 export class AudioManager {
 	private audioContext: AudioContext | null = null;
 	private masterGain: GainNode | null = null;
+	private masterAnalyser: AnalyserNode | null = null;
+	private trackBuses = new Map<string, TrackBus>();
+	private meterSamples = new Float32Array(METER_FFT_SIZE);
+	private lastTracks: TimelineTrack[] = [];
 	private playbackStartTime = 0;
 	private playbackStartContextTime = 0;
 	private scheduleTimer: number | null = null;
@@ -19,6 +55,7 @@ export class AudioManager {
 	private lookaheadSeconds = 2;
 	private scheduleIntervalMs = 500;
 	private clips: AudioClipSource[] = [];
+	private transitions: ResolvedTransition[] = [];
 	private sinks = new Map<string, AudioBufferSink>();
 	private inputs = new Map<string, Input>();
 	private activeClipIds = new Set<string>();
@@ -28,6 +65,8 @@ export class AudioManager {
 	>();
 	private queuedSources = new Set<AudioBufferSourceNode>();
 	private clipGains = new Map<string, GainNode>();
+	// clips with a speed change, rendered once at timeline speed
+	private renderedClips = new Map<string, AudioBuffer>();
 	private playbackSessionId = 0;
 	private lastIsPlaying = false;
 	private lastVolume = 1;
@@ -45,7 +84,7 @@ export class AudioManager {
 		this.unsubscribers.push(
 			this.editor.playback.subscribe(this.handlePlaybackChange),
 			this.editor.timeline.subscribe(this.handleTimelineChange),
-			this.editor.media.subscribe(this.handleTimelineChange),
+			this.editor.media.subscribe(this.handleMediaChange),
 		);
 		if (typeof window !== "undefined") {
 			window.addEventListener("playback-seek", this.handleSeek);
@@ -62,13 +101,36 @@ export class AudioManager {
 			window.removeEventListener("playback-seek", this.handleSeek);
 		}
 		this.disposeSinks();
+		this.renderedClips.clear();
+		for (const bus of this.trackBuses.values()) {
+			bus.analyser.disconnect();
+		}
+		this.trackBuses.clear();
 		if (this.audioContext) {
 			void this.audioContext.close();
 			this.audioContext = null;
 			this.masterGain = null;
+			this.masterAnalyser = null;
 		}
 	}
 
+	getTrackLevels({ trackId }: { trackId: string }): AudioLevels {
+		const bus = this.trackBuses.get(trackId);
+		if (!bus) return SILENT_LEVELS;
+		return this.readLevels({ analyser: bus.analyser });
+	}
+
+	getMasterLevels(): AudioLevels {
+		if (!this.masterAnalyser) return SILENT_LEVELS;
+		return this.readLevels({ analyser: this.masterAnalyser });
+	}
+
+	private readLevels({ analyser }: { analyser: AnalyserNode }): AudioLevels {
+		if (!this.editor.playback.getIsPlaying()) return SILENT_LEVELS;
+		analyser.getFloatTimeDomainData(this.meterSamples);
+		return measureLevels({ samples: this.meterSamples });
+	}
+
 	private handlePlaybackChange = (): void => {
 		const isPlaying = this.editor.playback.getIsPlaying();
 		const volume = this.editor.playback.getVolume();
@@ -103,6 +165,20 @@ export class AudioManager {
 	};
 
 	private handleTimelineChange = (): void => {
+		const tracks = this.editor.timeline.getTracks();
+		const previousTracks = this.lastTracks;
+		this.lastTracks = tracks;
+
+		// fader and pan moves only retune the buses, playback carries on
+		if (isMixOnlyChange({ previous: previousTracks, next: tracks })) {
+			this.applyTrackMixes();
+			return;
+		}
+
+		this.handleMediaChange();
+	};
+
+	private handleMediaChange = (): void => {
 		this.disposeSinks();
 
 		if (!this.editor.playback.getIsPlaying()) return;
@@ -110,6 +186,90 @@ export class AudioManager {
 		void this.startPlayback({ time: this.editor.playback.getCurrentTime() });
 	};
 
+	private getAudioTracks(): TimelineTrack[] {
+		const tracks = this.editor.timeline.getTracks();
+		return [
+			...tracks,
+			...getNestedSceneAudioTracks({
+				tracks,
+				scenes: this.editor.scenes.getScenes(),
+			}),
+		];
+	}
+
+	private getTrackBus({
+		trackId,
+		audioContext,
+	}: {
+		trackId: string;
+		audioContext: AudioContext;
+	}): TrackBus {
+		const existing = this.trackBuses.get(trackId);
+		if (existing) return existing;
+
+		const gain = audioContext.createGain();
+		// up-mix mono clips so they pan like stereo ones, as export does
+		gain.channelCount = 2;
+		gain.channelCountMode = "explicit";
+		const panner = audioContext.createStereoPanner();
+		const analyser = audioContext.createAnalyser();
+		analyser.fftSize = METER_FFT_SIZE;
+
+		gain.connect(panner);
+		panner.connect(analyser);
+		analyser.connect(this.masterGain ?? audioContext.destination);
+
+		const bus = { gain, panner, analyser };
+		this.trackBuses.set(trackId, bus);
+		this.applyTrackMixes();
+		return bus;
+	}
+
+	private applyTrackMixes(): void {
+		if (this.trackBuses.size === 0) return;
+
+		const time = this.getPlaybackTime();
+		for (const track of this.getAudioTracks()) {
+			const bus = this.trackBuses.get(track.id);
+			if (!bus) continue;
+			bus.gain.gain.value = getTrackMix(track).volume;
+			bus.panner.pan.value = this.getTrackPan({ track, time });
+		}
+	}
+
+	private getTrackPan({
+		track,
+		time,
+	}: {
+		track: TimelineTrack;
+		time: number;
+	}): number {
+		const { pan } = getTrackMix(track);
+		return (
+			this.editor.automation.getAutomatedValue(
+				{ type: "track-pan", trackId: track.id },
+				time,
+				pan * 100,
+			) / 100
+		);
+	}
+
+	private getOneshotGain({
+		definitionId,
+		time,
+	}: {
+		definitionId: string;
+		time: number;
+	}): number {
+		return (
+			this.editor.automation.getAutomatedValue(
+				{ type: "oneshot-gain", definitionId },
+				time,
+				100,
+			) / 100
+		);
+	}
+
 	private ensureAudioContext(): AudioContext | null {
 		if (this.audioContext) return this.audioContext;
 		if (typeof window === "undefined") return null;
@@ -117,7 +277,10 @@ export class AudioManager {
 		this.audioContext = createAudioContext();
 		this.masterGain = this.audioContext.createGain();
 		this.masterGain.gain.value = this.lastVolume;
-		this.masterGain.connect(this.audioContext.destination);
+		this.masterAnalyser = this.audioContext.createAnalyser();
+		this.masterAnalyser.fftSize = METER_FFT_SIZE;
+		this.masterGain.connect(this.masterAnalyser);
+		this.masterAnalyser.connect(this.audioContext.destination);
 		return this.audioContext;
 	}
 
@@ -139,7 +302,6 @@ export class AudioManager {
 		this.stopPlayback();
 		this.playbackSessionId++;
 
-		const tracks = this.editor.timeline.getTracks();
 		const mediaAssets = this.editor.media.getAssets();
 		const duration = this.editor.timeline.getTotalDuration();
 
@@ -149,7 +311,13 @@ export class AudioManager {
 			await audioContext.resume();
 		}
 
-		this.clips = await collectAudioClips({ tracks, mediaAssets });
+		this.clips = await collectAudioClips({
+			tracks: this.getAudioTracks(),
+			mediaAssets,
+		});
+		this.applyTrackMixes();
+		this.transitions = this.editor.transitions.getResolvedTransitions();
+		this.pruneRenderedClips();
 		if (!this.editor.playback.getIsPlaying()) return;
 
 		// Pre-compute sidechain envelopes and build lookup tables for playback
@@ -212,20 +380,23 @@ export class AudioManager {
 			windowEnd,
 		);
 
-		for (const { marker, definition, audioStartTime } of markersInWindow) {
+		for (const scheduled of markersInWindow) {
+			const { marker, audioStartTime } = scheduled;
 			if (this.scheduledOneshotIds.has(marker.id)) continue;
 			if (audioStartTime < currentTime - 0.1) continue;
 
 			this.scheduledOneshotIds.add(marker.id);
-			void this.playOneshotMarker(marker, definition, audioStartTime);
+			void this.playOneshotMarker(scheduled);
 		}
 	}
 
-	private async playOneshotMarker(
-		marker: { id: string; volume?: number },
-		definition: { id: string; audioSource: { url: string }; trimStart: number; trimEnd: number },
-		audioStartTime: number,
-	): Promise<void> {
+	private async playOneshotMarker({
+		marker,
+		definition,
+		audioStartTime,
+		playbackRate,
+		gain,
+	}: ScheduledOneshot): Promise<void> {
 		const audioContext = this.audioContext;
 		if (!audioContext || !this.masterGain) return;
 
@@ -242,10 +413,15 @@ export class AudioManager {
 
 		const source = audioContext.createBufferSource();
 		source.buffer = buffer;
+		// variation detune; resampling shifts pitch and length together
+		source.playbackRate.value = playbackRate;
 
 		// Create gain node for volume control
+		const baseVolume = (marker.volume ?? 1) * gain;
 		const gainNode = audioContext.createGain();
-		gainNode.gain.value = marker.volume ?? 1;
+		gainNode.gain.value =
+			baseVolume *
+			this.getOneshotGain({ definitionId: definition.id, time: audioStartTime });
 		source.connect(gainNode);
 		gainNode.connect(this.masterGain);
 
@@ -254,12 +430,14 @@ export class AudioManager {
 			this.playbackStartContextTime +
 			(audioStartTime - this.playbackStartTime);
 
+		// start() takes offset and duration in buffer seconds
 		const sliceDuration = definition.trimEnd - definition.trimStart;
 
 		if (contextStartTime >= audioContext.currentTime) {
 			source.start(contextStartTime, definition.trimStart, sliceDuration);
 		} else {
-			const offset = audioContext.currentTime - contextStartTime;
+			const offset =
+				(audioContext.currentTime - contextStartTime) * playbackRate;
 			if (offset < sliceDuration) {
 				source.start(
 					audioContext.currentTime,
@@ -275,7 +453,7 @@ export class AudioManager {
 		this.oneshotGainNodes.set(marker.id, {
 			gainNode,
 			definitionId: definition.id,
-			baseVolume: marker.volume ?? 1,
+			baseVolume,
 		});
 		source.addEventListener("ended", () => {
 			source.disconnect();
@@ -338,7 +516,9 @@ export class AudioManager {
 
 		// Create per-clip gain node for automation volume control
 		const clipGain = audioContext.createGain();
-		clipGain.connect(this.masterGain ?? audioContext.destination);
+		clipGain.connect(
+			this.getTrackBus({ trackId: clip.trackId, audioContext }).gain,
+		);
 		this.clipGains.set(clip.id, clipGain);
 
 		// Set initial volume from automation
@@ -347,9 +527,21 @@ export class AudioManager {
 			clip.trackId,
 			clip.id,
 			initialTime,
-			clip.baseVolume * 100,
+			this.getClipBaseVolume({ clip, time: initialTime }) * 100,
 		);
-		clipGain.gain.value = initialVolume / 100;
+		clipGain.gain.value =
+			(initialVolume / 100) *
+			this.getClipFadeGain({ clip, time: initialTime }) *
+			getTransitionAudioGain({
+				elementId: clip.id,
+				transitions: this.transitions,
+				time: initialTime,
+			});
+
+		if (hasSpeedChange(clip)) {
+			await this.playRenderedClip({ clip, sink, clipGain, startTime, sessionId });
+			return;
+		}
 
 		const clipStart = clip.startTime;
 		const clipDuration = clip.duration;
@@ -445,6 +637,135 @@ export class AudioManager {
 		// the set is cleared on stopPlayback anyway
 	}
 
+	/**
+	 * Sped up, slowed down or reversed clips can't be streamed chunk by chunk,
+	 * so their source range is decoded and rendered at timeline speed up front.
+	 */
+	private async playRenderedClip({
+		clip,
+		sink,
+		clipGain,
+		startTime,
+		sessionId,
+	}: {
+		clip: AudioClipSource;
+		sink: AudioBufferSink;
+		clipGain: GainNode;
+		startTime: number;
+		sessionId: number;
+	}): Promise<void> {
+		const audioContext = this.audioContext;
+		if (!audioContext) return;
+
+		let buffer: AudioBuffer | null;
+		try {
+			buffer = await this.getRenderedClip({ clip, sink, audioContext });
+		} catch (error) {
+			if (error instanceof Error && error.message.includes("disposed")) {
+				return;
+			}
+			throw error;
+		}
+		if (!buffer || !this.editor.playback.getIsPlaying()) return;
+		if (sessionId !== this.playbackSessionId) return;
+
+		const effectiveEnd = clip.loop
+			? this.editor.timeline.getTotalDuration()
+			: clip.startTime + clip.duration;
+		const playFrom = Math.max(startTime, clip.startTime);
+		const scheduledAt =
+			this.playbackStartContextTime + (playFrom - this.playbackStartTime);
+		const startAt = Math.max(scheduledAt, audioContext.currentTime);
+		const lateBy = startAt - scheduledAt;
+		const remaining = effectiveEnd - playFrom - lateBy;
+		if (remaining <= 0) return;
+
+		let offset = playFrom - clip.startTime + lateBy;
+		if (clip.loop) {
+			offset %= buffer.duration;
+		} else if (offset >= buffer.duration) {
+			return;
+		}
+
+		const node = audioContext.createBufferSource();
+		node.buffer = buffer;
+		node.loop = clip.loop ?? false;
+		node.connect(clipGain);
+		node.start(startAt, offset);
+		node.stop(startAt + remaining);
+
+		this.queuedSources.add(node);
+		node.addEventListener("ended", () => {
+			node.disconnect();
+			this.queuedSources.delete(node);
+		});
+	}
+
+	private async getRenderedClip({
+		clip,
+		sink,
+		audioContext,
+	}: {
+		clip: AudioClipSource;
+		sink: AudioBufferSink;
+		audioContext: AudioContext;
+	}): Promise<AudioBuffer | null> {
+		const key = getRenderedClipKey({ clip });
+		const cached = this.renderedClips.get(key);
+		if (cached) return cached;
+
+		const { start, end } = getClipSourceRange({ clip });
+		const chunks: WrappedAudioBuffer[] = [];
+		for await (const chunk of sink.buffers(start, end)) {
+			chunks.push(chunk);
+		}
+		if (chunks.length === 0) return null;
+
+		// stitch the decoded chunks into one buffer starting at the range start
+		const { sampleRate } = chunks[0].buffer;
+		const length = Math.ceil((end - start) * sampleRate);
+		if (length <= 0) return null;
+		const source = audioContext.createBuffer(2, length, sampleRate);
+		for (let channel = 0; channel < 2; channel++) {
+			const output = source.getChannelData(channel);
+			for (const { buffer, timestamp } of chunks) {
+				const input = buffer.getChannelData(
+					Math.min(channel, buffer.numberOfChannels - 1),
+				);
+				const offset = Math.round((timestamp - start) * sampleRate);
+				for (let i = Math.max(0, -offset); i < input.length; i++) {
+					if (offset + i >= length) break;
+					output[offset + i] = input[i];
+				}
+			}
+		}
+
+		const rendered = renderClipAtSpeed({
+			context: audioContext,
+			buffer: source,
+			sourceStart: 0,
+			sourceEnd: end - start,
+			speed: clip.speed ?? 1,
+			reversed: clip.reversed,
+			preservePitch: clip.preservePitch,
+		});
+		if (rendered) {
+			this.renderedClips.set(key, rendered);
+		}
+		return rendered;
+	}
+
+	private pruneRenderedClips(): void {
+		const keys = new Set(
+			this.clips.map((clip) => getRenderedClipKey({ clip })),
+		);
+		for (const key of this.renderedClips.keys()) {
+			if (!keys.has(key)) {
+				this.renderedClips.delete(key);
+			}
+		}
+	}
+
 	private waitUntilCaughtUp({
 		timelineTime,
 		targetAhead,
@@ -479,22 +800,74 @@ export class AudioManager {
 				clip.trackId,
 				clip.id,
 				currentTime,
-				clip.baseVolume * 100,
+				this.getClipBaseVolume({ clip, time: currentTime }) * 100,
 			);
 			const sidechainGain = this.editor.sidechain.getSidechainGainForTrack(
 				clip.trackId,
 				currentTime,
 			);
-			clipGain.gain.value = (effectiveVolume / 100) * sidechainGain;
+			const transitionGain = getTransitionAudioGain({
+				elementId: clip.id,
+				transitions: this.transitions,
+				time: currentTime,
+			});
+			const fadeGain = this.getClipFadeGain({ clip, time: currentTime });
+			// glide between ticks so automation ramps don't step audibly
+			clipGain.gain.setTargetAtTime(
+				(effectiveVolume / 100) * sidechainGain * transitionGain * fadeGain,
+				clipGain.context.currentTime,
+				GAIN_SMOOTHING_SECONDS,
+			);
 		}
 
-		// Apply sidechain gain to active oneshot nodes
+		// Apply sidechain gain and gain automation to active oneshot nodes
 		for (const [, { gainNode, definitionId, baseVolume }] of this.oneshotGainNodes) {
 			const scGain = this.editor.sidechain.getSidechainGainForOneshot(definitionId, currentTime);
-			gainNode.gain.value = baseVolume * scGain;
+			gainNode.gain.value =
+				baseVolume * scGain * this.getOneshotGain({ definitionId, time: currentTime });
+		}
+
+		// Pan automation moves the track buses
+		for (const [trackId, bus] of this.trackBuses) {
+			const track = this.editor.timeline.getTrackById({ trackId });
+			if (!track) continue;
+			bus.panner.pan.value = this.getTrackPan({ track, time: currentTime });
 		}
 	}
 
+	private getClipBaseVolume({
+		clip,
+		time,
+	}: {
+		clip: AudioClipSource;
+		time: number;
+	}): number {
+		return resolveAnimatedVolume({
+			volume: clip.baseVolume,
+			keyframes: clip.keyframes,
+			time: getElementContentTime({ element: clip, time }),
+		});
+	}
+
+	// looping clips play to the timeline end, so that is where they fade out
+	private getClipFadeGain({
+		clip,
+		time,
+	}: {
+		clip: AudioClipSource;
+		time: number;
+	}): number {
+		return getAudioFadeGain({
+			fadeIn: clip.fadeIn,
+			fadeOut: clip.fadeOut,
+			start: clip.startTime,
+			end: clip.loop
+				? this.editor.timeline.getTotalDuration()
+				: clip.startTime + clip.duration,
+			time,
+		});
+	}
+
 	private disposeSinks(): void {
 		for (const iterator of this.clipIterators.values()) {
 			void iterator.return();
@@ -538,3 +911,37 @@ export class AudioManager {
 		}
 	}
 }
+
+function getRenderedClipKey({ clip }: { clip: AudioClipSource }): string {
+	return [
+		clip.sourceKey,
+		clip.trimStart,
+		clip.trimEnd,
+		clip.duration,
+		clip.speed ?? 1,
+		clip.reversed ?? false,
+		clip.preservePitch ?? true,
+	].join(":");
+}
+
+// true when only track faders or pans differ, so nothing has to be rescheduled
+function isMixOnlyChange({
+	previous,
+	next,
+}: {
+	previous: TimelineTrack[];
+	next: TimelineTrack[];
+}): boolean {
+	if (previous === next || previous.length !== next.length) return false;
+
+	return next.every((track, index) => {
+		const before = previous[index];
+		if (before.id !== track.id || before.elements !== track.elements) {
+			return false;
+		}
+		if (!canTracktHaveAudio(before) || !canTracktHaveAudio(track)) {
+			return before.type === track.type;
+		}
+		return before.muted === track.muted && before.solo === track.solo;
+	});
+}
@@ -1,23 +1,25 @@
 import type { EditorCore } from "..";
 import type {
 	AutomationMarker,
+	AutomationRamp,
 	AutomationState,
-	AudioVolumeOperation,
 	PointMarker,
 	RangeMarker,
 } from "@/types/automation";
 import { nanoid } from "nanoid";
-import { getEffectiveVolume, type ElementTimeRange } from "@/lib/automation/apply-automation";
+import {
+	applyAutomationBlend,
+	resolveAutomationBlend,
+	type AutomationSnapshot,
+	type AutomationTarget,
+	type ElementTimeRange,
+} from "@/lib/automation/apply-automation";
 
 export class AutomationManager {
 	private listeners = new Set<() => void>();
 
 	// Playback cache: snapshot of markers/states/elementTimeRanges at playback start
-	private playbackCache: {
-		markers: AutomationMarker[];
-		states: AutomationState[];
-		elementTimeRanges: ElementTimeRange[];
-	} | null = null;
+	private playbackCache: AutomationSnapshot | null = null;
 
 	constructor(private editor: EditorCore) {}
 
@@ -183,6 +185,25 @@ export class AutomationManager {
 		return markerId;
 	}
 
+	updatePointMarkerRamp(markerId: string, ramp: AutomationRamp | undefined): void {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		const updatedMarkers = (currentScene.automationMarkers || []).map((m) =>
+			m.id === markerId && m.type === "point" ? { ...m, ramp } : m,
+		);
+
+		const updatedScene = {
+			...currentScene,
+			automationMarkers: updatedMarkers,
+		};
+
+		this.editor.scenes.updateScene(currentScene.id, updatedScene);
+		this.notify();
+	}
+
 	removeMarker(markerId: string): void {
 		const currentScene = this.editor.scenes.getActiveScene();
 		if (!currentScene) {
@@ -252,23 +273,7 @@ export class AutomationManager {
 	 * Eliminates per-tick scene reads and track/element traversals.
 	 */
 	prepareForPlayback(): void {
-		const markers = this.getMarkers();
-		const states = this.getStates();
-
-		const elementTimeRanges: ElementTimeRange[] = [];
-		const tracks = this.editor.timeline.getTracks();
-		for (const track of tracks) {
-			for (const element of track.elements) {
-				elementTimeRanges.push({
-					trackId: track.id,
-					elementId: element.id,
-					startTime: element.startTime,
-					endTime: element.startTime + element.duration,
-				});
-			}
-		}
-
-		this.playbackCache = { markers, states, elementTimeRanges };
+		this.playbackCache = this.getSnapshot();
 	}
 
 	clearPlaybackCache(): void {
@@ -279,24 +284,38 @@ export class AutomationManager {
 
 	getEffectiveVolumeForTrack(
 		trackId: string,
-		elementId: string,
+		_elementId: string,
 		time: number,
 		baseVolume: number,
 	): number {
-		// Fast path: use cached data during playback
-		if (this.playbackCache) {
-			return getEffectiveVolume(
-				trackId,
-				elementId,
-				time,
-				baseVolume,
-				this.playbackCache.markers,
-				this.playbackCache.states,
-				this.playbackCache.elementTimeRanges,
-			);
-		}
+		return this.getAutomatedValue(
+			{ type: "audio-volume", trackId },
+			time,
+			baseVolume,
+		);
+	}
 
-		// Slow path fallback: read from scene each time
+	/**
+	 * Value of an automated parameter at a given time, ramps included.
+	 * baseValue is what the parameter is without automation, in the
+	 * operation's units.
+	 */
+	getAutomatedValue(
+		target: AutomationTarget,
+		time: number,
+		baseValue: number,
+	): number {
+		// cached during playback, read from the scene otherwise
+		const snapshot = this.playbackCache ?? this.getSnapshot();
+		const blend = resolveAutomationBlend({ target, time, snapshot });
+		return applyAutomationBlend({ blend, base: baseValue });
+	}
+
+	/**
+	 * Capture markers, states and element time ranges from the active scene.
+	 * Shared by live playback and offline export so both resolve identically.
+	 */
+	getSnapshot(): AutomationSnapshot {
 		const markers = this.getMarkers();
 		const states = this.getStates();
 
@@ -313,15 +332,7 @@ export class AutomationManager {
 			}
 		}
 
-		return getEffectiveVolume(
-			trackId,
-			elementId,
-			time,
-			baseVolume,
-			markers,
-			states,
-			elementTimeRanges,
-		);
+		return { markers, states, elementTimeRanges };
 	}
 
 	// ---- Observer pattern ----
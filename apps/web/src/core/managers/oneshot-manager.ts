@@ -2,24 +2,46 @@ import type { EditorCore } from "..";
 import type {
 	OneshotDefinition,
 	OneshotMarker,
+	OneshotVariationGroup,
 	CreateOneshotInput,
 	UpdateOneshotInput,
 	CreateOneshotMarkerInput,
+	CreateOneshotGroupInput,
+	UpdateOneshotGroupInput,
 } from "@/types/oneshot";
+import type { TScene } from "@/types/timeline";
+import type { OneshotMixSource } from "@/lib/media/audio";
+import {
+	type ResolvedOneshotMarker,
+	createVariationSeed,
+	resolveOneshotMarkers,
+} from "@/lib/oneshot/variations";
 import { nanoid } from "nanoid";
 
+// A marker due to play, with the variation it resolved to
+export interface ScheduledOneshot {
+	marker: OneshotMarker;
+	definition: OneshotDefinition;
+	audioStartTime: number;
+	playbackRate: number;
+	gain: number;
+}
+
 export class OneshotManager {
 	private listeners = new Set<() => void>();
 	private audioBufferCache = new Map<string, AudioBuffer>();
 	private decodeContext: AudioContext | null = null;
 
+	// Resolution depends on every marker of a group, so it is kept per scene state
+	private resolvedMarkers: {
+		scene: TScene;
+		markers: ResolvedOneshotMarker[];
+	} | null = null;
+
 	// Playback cache: sorted marker index for binary search scheduling
-	private sortedMarkerIndex: Array<{
-		marker: OneshotMarker;
-		definition: OneshotDefinition;
-		audioStartTime: number;
-		audioEndTime: number;
-	}> | null = null;
+	private sortedMarkerIndex: Array<
+		ScheduledOneshot & { audioEndTime: number }
+	> | null = null;
 
 	constructor(private editor: EditorCore) {}
 
@@ -102,6 +124,16 @@ export class OneshotManager {
 			(d) => d.id !== definitionId,
 		);
 
+		// Drop it from any variation group that uses it
+		const updatedGroups = (currentScene.oneshotGroups || []).map((g) =>
+			g.definitionIds.includes(definitionId)
+				? {
+						...g,
+						definitionIds: g.definitionIds.filter((id) => id !== definitionId),
+					}
+				: g,
+		);
+
 		// Remove all markers associated with this definition
 		const updatedMarkers = (currentScene.oneshotMarkers || []).filter(
 			(m) => m.oneshotId !== definitionId,
@@ -114,6 +146,7 @@ export class OneshotManager {
 			...currentScene,
 			oneshotDefinitions: updatedDefinitions,
 			oneshotMarkers: updatedMarkers,
+			oneshotGroups: updatedGroups,
 		};
 
 		this.editor.scenes.updateScene(currentScene.id, updatedScene);
@@ -130,18 +163,111 @@ export class OneshotManager {
 		return definitions.find((d) => d.id === definitionId);
 	}
 
-	// ---- Marker CRUD ----
+	// ---- Variation group CRUD ----
 
-	addMarker(data: CreateOneshotMarkerInput): string {
-		const markerId = nanoid();
+	createGroup(data: CreateOneshotGroupInput): string {
+		const groupId = nanoid();
 		const now = Date.now();
 
-		const newMarker: OneshotMarker = {
-			id: markerId,
+		const newGroup: OneshotVariationGroup = {
+			id: groupId,
 			...data,
 			createdAt: now,
+			updatedAt: now,
+		};
+
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		const updatedScene = {
+			...currentScene,
+			oneshotGroups: [...(currentScene.oneshotGroups || []), newGroup],
+		};
+
+		this.editor.scenes.updateScene(currentScene.id, updatedScene);
+		this.notify();
+
+		return groupId;
+	}
+
+	updateGroup(groupId: string, updates: UpdateOneshotGroupInput): void {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		const groups = currentScene.oneshotGroups || [];
+		const groupIndex = groups.findIndex((g) => g.id === groupId);
+
+		if (groupIndex === -1) {
+			throw new Error(`Oneshot group ${groupId} not found`);
+		}
+
+		const updatedGroups = [...groups];
+		updatedGroups[groupIndex] = {
+			...updatedGroups[groupIndex],
+			...updates,
+			updatedAt: Date.now(),
+		};
+
+		const updatedScene = {
+			...currentScene,
+			oneshotGroups: updatedGroups,
+		};
+
+		this.editor.scenes.updateScene(currentScene.id, updatedScene);
+		this.notify();
+	}
+
+	deleteGroup(groupId: string): void {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		// Markers on the group go with it; its definitions stay
+		const updatedScene = {
+			...currentScene,
+			oneshotGroups: (currentScene.oneshotGroups || []).filter(
+				(g) => g.id !== groupId,
+			),
+			oneshotMarkers: (currentScene.oneshotMarkers || []).filter(
+				(m) => m.oneshotId !== groupId,
+			),
 		};
 
+		this.editor.scenes.updateScene(currentScene.id, updatedScene);
+		this.notify();
+	}
+
+	getGroups(): OneshotVariationGroup[] {
+		const currentScene = this.editor.scenes.getActiveScene();
+		return currentScene?.oneshotGroups || [];
+	}
+
+	getGroup(groupId: string): OneshotVariationGroup | undefined {
+		return this.getGroups().find((g) => g.id === groupId);
+	}
+
+	// ---- Marker CRUD ----
+
+	addMarker(data: CreateOneshotMarkerInput): string {
+		return this.addMarkers([data])[0];
+	}
+
+	// Several markers in one scene update, e.g. one per detected transient
+	addMarkers(data: CreateOneshotMarkerInput[]): string[] {
+		const now = Date.now();
+
+		const newMarkers: OneshotMarker[] = data.map((marker) => ({
+			id: nanoid(),
+			seed: createVariationSeed(),
+			...marker,
+			createdAt: now,
+		}));
+
 		const currentScene = this.editor.scenes.getActiveScene();
 		if (!currentScene) {
 			throw new Error("No active scene");
@@ -149,13 +275,13 @@ export class OneshotManager {
 
 		const updatedScene = {
 			...currentScene,
-			oneshotMarkers: [...(currentScene.oneshotMarkers || []), newMarker],
+			oneshotMarkers: [...(currentScene.oneshotMarkers || []), ...newMarkers],
 		};
 
 		this.editor.scenes.updateScene(currentScene.id, updatedScene);
 		this.notify();
 
-		return markerId;
+		return newMarkers.map((m) => m.id);
 	}
 
 	removeMarker(markerId: string): void {
@@ -182,24 +308,51 @@ export class OneshotManager {
 		return currentScene?.oneshotMarkers || [];
 	}
 
+	// Markers placed with this definition or group as their target
 	getMarkersForDefinition(definitionId: string): OneshotMarker[] {
 		const markers = this.getMarkers();
 		return markers.filter((m) => m.oneshotId === definitionId);
 	}
 
+	// ---- Variation resolution ----
+
+	/**
+	 * Every marker with the definition it plays. Group markers pick theirs from
+	 * the group, so playback, export and sidechains all read from here.
+	 */
+	getResolvedMarkers(): ResolvedOneshotMarker[] {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) return [];
+		if (this.resolvedMarkers?.scene === currentScene) {
+			return this.resolvedMarkers.markers;
+		}
+
+		const markers = resolveOneshotMarkers({
+			markers: currentScene.oneshotMarkers || [],
+			definitions: currentScene.oneshotDefinitions || [],
+			groups: currentScene.oneshotGroups || [],
+		});
+		this.resolvedMarkers = { scene: currentScene, markers };
+		return markers;
+	}
+
+	resolveMarker(markerId: string): ResolvedOneshotMarker | undefined {
+		return this.getResolvedMarkers().find((r) => r.marker.id === markerId);
+	}
+
 	// ---- Playback timing calculation ----
 
 	/**
 	 * Calculate the actual audio start time for a marker.
 	 * For marker at time `t`: audio plays from `t - (cuePoint - trimStart)`
-	 * so that cuePoint aligns with `t`.
+	 * so that cuePoint aligns with `t`. A detuned variation plays the cue
+	 * offset faster or slower.
 	 */
 	getAudioStartTimeForMarker(marker: OneshotMarker): number | null {
-		const definition = this.getDefinition(marker.oneshotId);
-		if (!definition) return null;
+		const resolved = this.resolveMarker(marker.id);
+		if (!resolved) return null;
 
-		const cueOffset = definition.cuePoint - definition.trimStart;
-		return marker.time - cueOffset;
+		return this.toScheduledOneshot(resolved).audioStartTime;
 	}
 
 	/**
@@ -209,38 +362,54 @@ export class OneshotManager {
 	getMarkersInTimeWindow(
 		startTime: number,
 		endTime: number,
-	): Array<{ marker: OneshotMarker; definition: OneshotDefinition; audioStartTime: number }> {
+	): ScheduledOneshot[] {
 		// Fast path: use sorted index with binary search during playback
 		if (this.sortedMarkerIndex) {
 			return this.getMarkersInTimeWindowFast(startTime, endTime);
 		}
 
 		// Slow path fallback: read from scene each time
-		const markers = this.getMarkers();
-		const results: Array<{
-			marker: OneshotMarker;
-			definition: OneshotDefinition;
-			audioStartTime: number;
-		}> = [];
-
-		for (const marker of markers) {
-			const definition = this.getDefinition(marker.oneshotId);
-			if (!definition) continue;
+		const results: ScheduledOneshot[] = [];
 
-			const audioStartTime = this.getAudioStartTimeForMarker(marker);
-			if (audioStartTime === null) continue;
+		for (const resolved of this.getResolvedMarkers()) {
+			const scheduled = this.toScheduledOneshot(resolved);
 
 			// Check if the audio would be playing during this window
-			const audioEndTime = audioStartTime + (definition.trimEnd - definition.trimStart);
+			const audioEndTime =
+				scheduled.audioStartTime + this.getSliceDuration(scheduled);
 
-			if (audioStartTime < endTime && audioEndTime > startTime) {
-				results.push({ marker, definition, audioStartTime });
+			if (scheduled.audioStartTime < endTime && audioEndTime > startTime) {
+				results.push(scheduled);
 			}
 		}
 
 		return results;
 	}
 
+	private toScheduledOneshot({
+		marker,
+		definition,
+		playbackRate,
+		gain,
+	}: ResolvedOneshotMarker): ScheduledOneshot {
+		const cueOffset = definition.cuePoint - definition.trimStart;
+		return {
+			marker,
+			definition,
+			audioStartTime: marker.time - cueOffset / playbackRate,
+			playbackRate,
+			gain,
+		};
+	}
+
+	// Timeline seconds the slice plays for
+	private getSliceDuration({
+		definition,
+		playbackRate,
+	}: ScheduledOneshot): number {
+		return (definition.trimEnd - definition.trimStart) / playbackRate;
+	}
+
 	// ---- Playback cache ----
 
 	/**
@@ -248,37 +417,14 @@ export class OneshotManager {
 	 * Pre-resolves all definitions and computes audio time ranges once.
 	 */
 	prepareForPlayback(): void {
-		const markers = this.getMarkers();
-		const definitions = this.getDefinitions();
-
-		// Build definition lookup map to avoid O(n) .find() per marker
-		const defMap = new Map<string, OneshotDefinition>();
-		for (const def of definitions) {
-			defMap.set(def.id, def);
-		}
-
-		const index: Array<{
-			marker: OneshotMarker;
-			definition: OneshotDefinition;
-			audioStartTime: number;
-			audioEndTime: number;
-		}> = [];
-
-		for (const marker of markers) {
-			const definition = defMap.get(marker.oneshotId);
-			if (!definition) continue;
-
-			const cueOffset = definition.cuePoint - definition.trimStart;
-			const audioStartTime = marker.time - cueOffset;
-			const sliceDuration = definition.trimEnd - definition.trimStart;
-
-			index.push({
-				marker,
-				definition,
-				audioStartTime,
-				audioEndTime: audioStartTime + sliceDuration,
-			});
-		}
+		const index = this.getResolvedMarkers().map((resolved) => {
+			const scheduled = this.toScheduledOneshot(resolved);
+			return {
+				...scheduled,
+				audioEndTime:
+					scheduled.audioStartTime + this.getSliceDuration(scheduled),
+			};
+		});
 
 		// Sort by audioStartTime for binary search
 		index.sort((a, b) => a.audioStartTime - b.audioStartTime);
@@ -297,13 +443,9 @@ export class OneshotManager {
 	private getMarkersInTimeWindowFast(
 		startTime: number,
 		endTime: number,
-	): Array<{ marker: OneshotMarker; definition: OneshotDefinition; audioStartTime: number }> {
+	): ScheduledOneshot[] {
 		const index = this.sortedMarkerIndex!;
-		const results: Array<{
-			marker: OneshotMarker;
-			definition: OneshotDefinition;
-			audioStartTime: number;
-		}> = [];
+		const results: ScheduledOneshot[] = [];
 
 		if (index.length === 0) return results;
 
@@ -337,6 +479,8 @@ export class OneshotManager {
 					marker: entry.marker,
 					definition: entry.definition,
 					audioStartTime: entry.audioStartTime,
+					playbackRate: entry.playbackRate,
+					gain: entry.gain,
 				});
 			}
 		}
@@ -376,6 +520,26 @@ export class OneshotManager {
 		}
 	}
 
+	/**
+	 * Decode every marker's slice for offline mixdown. Timing is resolved by the
+	 * mixer so remapped exports can move triggers without reloading audio.
+	 */
+	async collectMixSources(): Promise<OneshotMixSource[]> {
+		const pendingSources = this.getResolvedMarkers().map(
+			async ({ marker, definition, playbackRate, gain }) => {
+				const buffer = await this.loadAudioBuffer(definition.id);
+				if (!buffer) return null;
+
+				return { marker, definition, buffer, playbackRate, gain };
+			},
+		);
+
+		const resolvedSources = await Promise.all(pendingSources);
+		return resolvedSources.filter(
+			(source): source is OneshotMixSource => source !== null,
+		);
+	}
+
 	private resolveAudioUrl(definition: OneshotDefinition): string | null {
 		const { audioSource } = definition;
 
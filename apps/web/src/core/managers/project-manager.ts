@@ -604,6 +604,8 @@ export class ProjectManager {
 			duration,
 			canvasSize,
 			background,
+			transitions: this.editor.transitions.getTransitions(),
+			scenes: this.editor.scenes.getScenes(),
 		});
 
 		const renderer = new CanvasRenderer({
@@ -1,12 +1,45 @@
 import type { EditorCore } from "@/core";
 import type { RootNode } from "@/services/renderer/nodes/root-node";
-import type { ExportOptions, ExportResult } from "@/types/export";
+import type {
+	AudioExportFormat,
+	ExportOptions,
+	ExportResult,
+} from "@/types/export";
+import type { LoudnessOptions, LoudnessReport } from "@/types/loudness";
 import type { SidechainEnvelope } from "@/types/sidechain";
+import type { TimeRemapConfig } from "@/types/time-remap";
+import type {
+	SubtitleExportOptions,
+	SubtitleFile,
+} from "@/types/subtitles";
+import type { TextTrack, TimelineTrack } from "@/types/timeline";
 import { SceneExporter } from "@/services/renderer/scene-exporter";
 import { buildScene } from "@/services/renderer/scene-builder";
+import { encodeAudioFile } from "@/services/renderer/audio-exporter";
 import { createTimelineAudioBuffer } from "@/lib/media/audio";
 import { createTimelineAudioBufferWithRemap } from "@/lib/media/audio-remap";
-import { getRemappedDuration } from "@/lib/time-remap";
+import { applyLoudnessOptions } from "@/lib/media/loudness";
+import { getNestedSceneAudioTracks } from "@/lib/scenes";
+import { getAudioStems, isAudioExportFormat } from "@/lib/export";
+import { type ZipEntry, createZip } from "@/lib/zip";
+import { getTextTrackSubtitleCues, serializeSubtitles } from "@/lib/subtitles";
+import {
+	getRemappedDuration,
+	getTrackBehavior,
+	remapTimelineElement,
+} from "@/lib/time-remap";
+import {
+	DEFAULT_LOUDNESS_OPTIONS,
+	DEFAULT_WAV_BIT_DEPTH,
+} from "@/constants/export-constants";
+
+type MixRenderer = ({
+	tracks,
+	includeOneshots,
+}: {
+	tracks: TimelineTrack[];
+	includeOneshots: boolean;
+}) => Promise<AudioBuffer | null>;
 
 export class RendererManager {
 	private renderTree: RootNode | null = null;
@@ -28,8 +61,17 @@ export class RendererManager {
 	}: {
 		options: ExportOptions;
 	}): Promise<ExportResult> {
-		const { format, quality, fps, includeAudio, timeRemapConfig, onProgress, onCancel } =
-			options;
+		const {
+			format,
+			quality,
+			fps,
+			includeAudio,
+			loudness = DEFAULT_LOUDNESS_OPTIONS,
+			subtitles,
+			timeRemapConfig,
+			onProgress,
+			onCancel,
+		} = options;
 
 		try {
 			const tracks = this.editor.timeline.getTracks();
@@ -50,30 +92,45 @@ export class RendererManager {
 				? getRemappedDuration(originalDuration, timeRemapConfig.timeScale)
 				: originalDuration;
 
+			const scenes = this.editor.scenes.getScenes();
+			const nestedTracks = getNestedSceneAudioTracks({ tracks, scenes });
+
+			if (isAudioExportFormat(format)) {
+				return await this.exportAudio({
+					options: { ...options, format },
+					tracks,
+					nestedTracks,
+					renderMix: await this.createMixRenderer({
+						originalDuration,
+						duration,
+						timeRemapConfig,
+					}),
+				});
+			}
+
 			const exportFps = fps || activeProject.settings.fps;
 			const canvasSize = activeProject.settings.canvasSize;
 
 			let audioBuffer: AudioBuffer | null = null;
+			let loudnessReport: LoudnessReport | undefined;
 			if (includeAudio) {
 				onProgress?.({ progress: 0.05 });
 
-				// Compute sidechain envelopes for export
-				await this.editor.sidechain.computeAllEnvelopes();
-				const sidechainEnvelopes = this.buildSidechainEnvelopeMap();
+				const renderMix = await this.createMixRenderer({
+					originalDuration,
+					duration,
+					timeRemapConfig,
+				});
+				audioBuffer = await renderMix({
+					tracks: [...tracks, ...nestedTracks],
+					includeOneshots: true,
+				});
 
-				if (timeRemapConfig) {
-					audioBuffer = await createTimelineAudioBufferWithRemap({
-						tracks,
-						mediaAssets,
-						originalDuration,
-						timeRemapConfig,
-					});
-				} else {
-					audioBuffer = await createTimelineAudioBuffer({
-						tracks,
-						mediaAssets,
-						duration,
-						sidechainEnvelopes,
+				// the mix is a float buffer, so overs are still intact to be tamed here
+				if (audioBuffer) {
+					loudnessReport = applyBufferLoudness({
+						buffer: audioBuffer,
+						options: loudness,
 					});
 				}
 			}
@@ -85,8 +142,19 @@ export class RendererManager {
 				canvasSize,
 				background: activeProject.settings.background,
 				timeRemapConfig,
+				transitions: this.editor.transitions.getTransitions(),
+				scenes,
+				automation: this.editor.automation.getSnapshot(),
 			});
 
+			const subtitleFile = subtitles
+				? this.buildSubtitleFile({ subtitles, tracks, timeRemapConfig })
+				: null;
+			const subtitleTrack =
+				subtitles?.mode === "embed" && subtitleFile
+					? { name: subtitleFile.name, webVtt: subtitleFile.content }
+					: undefined;
+
 			const exporter = new SceneExporter({
 				width: canvasSize.width,
 				height: canvasSize.height,
@@ -95,6 +163,7 @@ export class RendererManager {
 				quality,
 				shouldIncludeAudio: !!includeAudio,
 				audioBuffer: audioBuffer || undefined,
+				subtitleTrack,
 			});
 
 			exporter.on("progress", (progress) => {
@@ -129,6 +198,11 @@ export class RendererManager {
 				return {
 					success: true,
 					buffer,
+					loudness: loudnessReport,
+					subtitles:
+						subtitles?.mode === "sidecar" && subtitleFile
+							? { format: subtitleFile.format, content: subtitleFile.content }
+							: undefined,
 				};
 			} finally {
 				clearInterval(cancelInterval);
@@ -142,34 +216,276 @@ export class RendererManager {
 		}
 	}
 
+	/**
+	 * Audio-only export: the full mix as one file, or with stems on, each stem
+	 * rendered through the same mix path and zipped. Stems skip loudness
+	 * processing so they still sum to the unprocessed mix.
+	 */
+	private async exportAudio({
+		options,
+		tracks,
+		nestedTracks,
+		renderMix,
+	}: {
+		options: ExportOptions & { format: AudioExportFormat };
+		tracks: TimelineTrack[];
+		nestedTracks: TimelineTrack[];
+		renderMix: MixRenderer;
+	}): Promise<ExportResult> {
+		const {
+			format,
+			quality,
+			wavBitDepth = DEFAULT_WAV_BIT_DEPTH,
+			loudness = DEFAULT_LOUDNESS_OPTIONS,
+			onProgress,
+			onCancel,
+		} = options;
+
+		if (!options.stems) {
+			onProgress?.({ progress: 0.05 });
+			const mix = await renderMix({
+				tracks: [...tracks, ...nestedTracks],
+				includeOneshots: true,
+			});
+			if (!mix) return { success: false, error: "Project has no audio" };
+			if (onCancel?.()) return { success: false, cancelled: true };
+
+			const loudnessReport = applyBufferLoudness({
+				buffer: mix,
+				options: loudness,
+			});
+			onProgress?.({ progress: 0.5 });
+			const buffer = await encodeAudioFile({
+				buffer: mix,
+				format,
+				quality,
+				wavBitDepth,
+			});
+			onProgress?.({ progress: 1 });
+			return { success: true, buffer, loudness: loudnessReport };
+		}
+
+		const stems = getAudioStems({ tracks, nestedTracks });
+		const entries: ZipEntry[] = [];
+		const usedNames = new Set<string>();
+		for (const [index, stem] of stems.entries()) {
+			if (onCancel?.()) return { success: false, cancelled: true };
+			onProgress?.({ progress: index / stems.length });
+
+			const mix = await renderMix(stem);
+			// a stem with nothing on it would just be a file of silence
+			if (!mix) continue;
+
+			const encoded = await encodeAudioFile({
+				buffer: mix,
+				format,
+				quality,
+				wavBitDepth,
+			});
+			entries.push({
+				name: getStemFileName({
+					index: entries.length,
+					name: stem.name,
+					format,
+					usedNames,
+				}),
+				data: new Uint8Array(encoded),
+			});
+		}
+
+		if (entries.length === 0) {
+			return { success: false, error: "Project has no audio" };
+		}
+
+		const buffer = createZip({ entries });
+		onProgress?.({ progress: 1 });
+		return { success: true, buffer };
+	}
+
+	/**
+	 * The chosen text track as a subtitle file, timed like the export. Null
+	 * when the track is gone or shows no text.
+	 */
+	private buildSubtitleFile({
+		subtitles,
+		tracks,
+		timeRemapConfig,
+	}: {
+		subtitles: SubtitleExportOptions;
+		tracks: TimelineTrack[];
+		timeRemapConfig?: TimeRemapConfig;
+	}): (SubtitleFile & { name: string }) | null {
+		const track = tracks.find(
+			(candidate): candidate is TextTrack =>
+				candidate.id === subtitles.trackId && candidate.type === "text",
+		);
+		if (!track) return null;
+
+		const timedTrack = timeRemapConfig
+			? {
+					...track,
+					elements: track.elements.map((element) =>
+						remapTimelineElement(
+							element,
+							timeRemapConfig.timeScale,
+							getTrackBehavior(track.id, timeRemapConfig),
+						),
+					),
+				}
+			: track;
+		const cues = getTextTrackSubtitleCues({ track: timedTrack });
+		if (cues.length === 0) return null;
+
+		const format = subtitles.mode === "embed" ? "vtt" : subtitles.format;
+		return {
+			name: track.name,
+			format,
+			content: serializeSubtitles({ cues, format }),
+		};
+	}
+
+	/**
+	 * Renders mixes of any subset of the timeline with the export's timing,
+	 * sidechain envelopes and oneshot sources, which are gathered once up front
+	 * so every stem hears the same ducking and the same oneshot variations.
+	 */
+	private async createMixRenderer({
+		originalDuration,
+		duration,
+		timeRemapConfig,
+	}: {
+		originalDuration: number;
+		duration: number;
+		timeRemapConfig?: TimeRemapConfig;
+	}): Promise<MixRenderer> {
+		const mediaAssets = this.editor.media.getAssets();
+
+		// Compute sidechain envelopes for export
+		if (!timeRemapConfig) {
+			await this.editor.sidechain.computeAllEnvelopes();
+		}
+		const { trackEnvelopes, oneshotEnvelopes } =
+			await this.buildSidechainEnvelopeMap(timeRemapConfig);
+		const oneshots = await this.editor.oneshot.collectMixSources();
+
+		return ({ tracks, includeOneshots }) => {
+			if (timeRemapConfig) {
+				return createTimelineAudioBufferWithRemap({
+					tracks,
+					mediaAssets,
+					originalDuration,
+					timeRemapConfig,
+					sidechainEnvelopes: trackEnvelopes,
+					oneshots: includeOneshots ? oneshots : [],
+					oneshotSidechainEnvelopes: oneshotEnvelopes,
+					transitions: this.editor.transitions.getTransitions(),
+					automation: this.editor.automation.getSnapshot(),
+				});
+			}
+			return createTimelineAudioBuffer({
+				tracks,
+				mediaAssets,
+				duration,
+				sidechainEnvelopes: trackEnvelopes,
+				oneshots: includeOneshots ? oneshots : [],
+				oneshotSidechainEnvelopes: oneshotEnvelopes,
+				automation: this.editor.automation.getSnapshot(),
+				transitions: this.editor.transitions.getResolvedTransitions(),
+			});
+		};
+	}
+
 	subscribe(listener: () => void): () => void {
 		this.listeners.add(listener);
 		return () => this.listeners.delete(listener);
 	}
 
 	/**
-	 * Build a map of trackId -> SidechainEnvelope[] for all enabled sidechain configs.
+	 * Build trackId -> SidechainEnvelope[] and definitionId -> SidechainEnvelope[]
+	 * maps for all enabled sidechain configs.
 	 * Used during export to apply sidechain gain per-sample.
+	 * With a time remap config the envelopes are recomputed on the remapped
+	 * timeline, since the cached ones follow the original timing.
 	 */
-	private buildSidechainEnvelopeMap(): Map<string, SidechainEnvelope[]> {
-		const envelopeMap = new Map<string, SidechainEnvelope[]>();
-		const configs = this.editor.sidechain.getConfigs().filter((c) => c.enabled);
+	private async buildSidechainEnvelopeMap(
+		timeRemapConfig?: TimeRemapConfig,
+	): Promise<{
+		trackEnvelopes: Map<string, SidechainEnvelope[]>;
+		oneshotEnvelopes: Map<string, SidechainEnvelope[]>;
+	}> {
+		const trackEnvelopes = new Map<string, SidechainEnvelope[]>();
+		const oneshotEnvelopes = new Map<string, SidechainEnvelope[]>();
+		const configs = this.editor.sidechain.getAudibleConfigs();
+		const automation = this.editor.automation.getSnapshot();
 
 		for (const config of configs) {
-			const envelope = this.editor.sidechain.getCachedEnvelope(config.id);
+			const envelope = timeRemapConfig
+				? await this.editor.sidechain.computeRemappedEnvelope(
+						config.id,
+						timeRemapConfig,
+					)
+				: this.editor.sidechain.getAutomatedEnvelope(config, automation);
 			if (!envelope) continue;
 
 			for (const targetTrackId of config.targetTrackIds) {
-				const existing = envelopeMap.get(targetTrackId) || [];
+				const existing = trackEnvelopes.get(targetTrackId) || [];
 				existing.push(envelope);
-				envelopeMap.set(targetTrackId, existing);
+				trackEnvelopes.set(targetTrackId, existing);
+			}
+
+			for (const definitionId of config.targetOneshotDefinitionIds) {
+				const existing = oneshotEnvelopes.get(definitionId) || [];
+				existing.push(envelope);
+				oneshotEnvelopes.set(definitionId, existing);
 			}
 		}
 
-		return envelopeMap;
+		return { trackEnvelopes, oneshotEnvelopes };
 	}
 
 	private notify(): void {
 		this.listeners.forEach((fn) => fn());
 	}
 }
+
+function applyBufferLoudness({
+	buffer,
+	options,
+}: {
+	buffer: AudioBuffer;
+	options: LoudnessOptions;
+}): LoudnessReport | undefined {
+	// nothing to process, and nobody looks at the report
+	if (options.targetLufs === null && options.truePeakCeiling === null) {
+		return undefined;
+	}
+	return applyLoudnessOptions({
+		channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+			buffer.getChannelData(channel),
+		),
+		sampleRate: buffer.sampleRate,
+		options,
+	});
+}
+
+// "01 Drums.wav"; numbered so the files sort in mix order
+function getStemFileName({
+	index,
+	name,
+	format,
+	usedNames,
+}: {
+	index: number;
+	name: string;
+	format: AudioExportFormat;
+	usedNames: Set<string>;
+}): string {
+	const safeName = name.replace(/[\\/:*?"<>|]/g, "_").trim() || "Stem";
+	const prefix = String(index + 1).padStart(2, "0");
+	let fileName = `${prefix} ${safeName}.${format}`;
+	for (let copy = 2; usedNames.has(fileName); copy++) {
+		fileName = `${prefix} ${safeName} ${copy}.${format}`;
+	}
+	usedNames.add(fileName);
+	return fileName;
+}
@@ -2,19 +2,48 @@ import type { EditorCore } from "..";
 import type {
 	SidechainConfig,
 	SidechainEnvelope,
+	SidechainSource,
+	SidechainTarget,
 	CreateSidechainInput,
 	UpdateSidechainInput,
 } from "@/types/sidechain";
 import {
+	ORIGINAL_MARKER_REMAP_CONFIG,
+	type TimeRemapConfig,
+} from "@/types/time-remap";
+import {
+	composeSourceTrackBuffer,
 	computeSidechainEnvelope,
 	getEnvelopeGainAtTime,
+	multiplyEnvelopes,
+	type SidechainSourceElement,
 } from "@/lib/sidechain/compute-envelope";
 import { collectAudioElements } from "@/lib/media/audio";
+import {
+	applySidechainAutomation,
+	hasAutomationForTarget,
+	type AutomationSnapshot,
+} from "@/lib/automation/apply-automation";
+import {
+	calculateOneshotAudioTiming,
+	getRemappedDuration,
+	getTrackBehavior,
+	remapAutomationSnapshot,
+	remapTime,
+} from "@/lib/time-remap";
 import { nanoid } from "nanoid";
 
 export class SidechainManager {
 	private listeners = new Set<() => void>();
 	private envelopeCache = new Map<string, SidechainEnvelope>();
+	// bumped on invalidation so envelopes finishing afterwards are dropped
+	private cacheGeneration = 0;
+	private pendingEnvelopes: {
+		generation: number;
+		promise: Promise<void>;
+	} | null = null;
+	// combined, automated envelope per target for the timeline overlay
+	private targetEnvelopeCache = new Map<string, SidechainEnvelope | null>();
 	private unsubscribers: Array<() => void> = [];
 	private decodeContext: AudioContext | null = null;
 
@@ -143,67 +172,34 @@ export class SidechainManager {
 		return this.getConfigs().find((c) => c.id === configId);
 	}
 
+	/**
+	 * Configs that duck somewhere on the timeline: switched on, or switched on
+	 * by automation.
+	 */
+	getAudibleConfigs(): SidechainConfig[] {
+		const states = this.editor.automation.getStates();
+		return this.getConfigs().filter(
+			(c) =>
+				c.enabled ||
+				hasAutomationForTarget({
+					target: { type: "sidechain-enabled", configId: c.id },
+					states,
+				}),
+		);
+	}
+
 	// ---- Envelope computation ----
 
 	async computeEnvelope(configId: string): Promise<SidechainEnvelope | null> {
-		const config = this.getConfig(configId);
-		if (!config || !config.enabled) return null;
+		const config = this.getAudibleConfigs().find((c) => c.id === configId);
+		if (!config) return null;
 
 		const duration = this.editor.timeline.getTotalDuration();
+		const generation = this.cacheGeneration;
 
 		try {
-			let elements: Array<{
-				buffer: AudioBuffer;
-				startTime: number;
-				trimStart: number;
-				duration: number;
-				loop: boolean;
-			}>;
-
-			const { source } = config;
-			if (source.type === "track") {
-				const tracks = this.editor.timeline.getTracks();
-				const sourceTrack = tracks.find((t) => t.id === source.trackId);
-				if (!sourceTrack) return null;
-
-				const mediaAssets = this.editor.media.getAssets();
-				const audioContext = this.getDecodeContext();
-				const allElements = await collectAudioElements({
-					tracks: [sourceTrack],
-					mediaAssets,
-					audioContext,
-				});
-
-				elements = allElements.map((el) => ({
-					buffer: el.buffer,
-					startTime: el.startTime,
-					trimStart: el.trimStart,
-					duration: el.duration,
-					loop: el.loop ?? false,
-				}));
-			} else {
-				// Oneshot source
-				const defId = source.definitionId;
-				const buffer = await this.editor.oneshot.loadAudioBuffer(defId);
-				if (!buffer) return null;
-
-				const markers = this.editor.oneshot.getMarkersForDefinition(defId);
-				const definition = this.editor.oneshot.getDefinition(defId);
-				if (!definition) return null;
-
-				const sliceDuration = definition.trimEnd - definition.trimStart;
-
-				elements = markers.map((marker) => {
-					const audioStartTime = this.editor.oneshot.getAudioStartTimeForMarker(marker);
-					return {
-						buffer,
-						startTime: audioStartTime ?? marker.time,
-						trimStart: definition.trimStart,
-						duration: sliceDuration,
-						loop: false,
-					};
-				});
-			}
+			const elements = await this.collectSourceElements(config.source);
+			if (!elements) return null;
 
 			const envelope = computeSidechainEnvelope(
 				elements,
@@ -211,7 +207,10 @@ export class SidechainManager {
 				config.params,
 			);
 
-			this.envelopeCache.set(configId, envelope);
+			if (generation === this.cacheGeneration) {
+				this.envelopeCache.set(configId, envelope);
+				this.targetEnvelopeCache.clear();
+			}
 			return envelope;
 		} catch (error) {
 			console.error(
@@ -222,11 +221,208 @@ export class SidechainManager {
 		}
 	}
 
+	/**
+	 * Compute an envelope for a time-remapped export. The source is re-laid out
+	 * on the remapped timeline using its own track behavior (or the oneshot
+	 * marker config), so ducking follows the source as it will actually sound.
+	 * Enable/bypass automation is applied on the remapped timeline too.
+	 * Not cached: the result depends on the remap config.
+	 */
+	async computeRemappedEnvelope(
+		configId: string,
+		timeRemapConfig: TimeRemapConfig,
+	): Promise<SidechainEnvelope | null> {
+		const config = this.getAudibleConfigs().find((c) => c.id === configId);
+		if (!config) return null;
+
+		const duration = getRemappedDuration(
+			this.editor.timeline.getTotalDuration(),
+			timeRemapConfig.timeScale,
+		);
+
+		try {
+			const elements = await this.collectSourceElements(
+				config.source,
+				timeRemapConfig,
+			);
+			if (!elements) return null;
+
+			return applySidechainAutomation({
+				envelope: computeSidechainEnvelope(elements, duration, config.params),
+				configId: config.id,
+				enabled: config.enabled,
+				snapshot: remapAutomationSnapshot(
+					this.editor.automation.getSnapshot(),
+					timeRemapConfig,
+				),
+			});
+		} catch (error) {
+			console.error(
+				`Failed to compute remapped sidechain envelope for ${configId}:`,
+				error,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * The source laid out on the timeline as one mono signal, so the config
+	 * dialog can preview envelopes on the real audio as params change.
+	 */
+	async composeSourceSignal(
+		source: SidechainSource,
+	): Promise<{ samples: Float32Array; sampleRate: number } | null> {
+		const elements = await this.collectSourceElements(source);
+		if (!elements || elements.length === 0) return null;
+
+		const sampleRate = elements[0].buffer.sampleRate;
+		return {
+			samples: composeSourceTrackBuffer(
+				elements,
+				this.editor.timeline.getTotalDuration(),
+				sampleRate,
+			),
+			sampleRate,
+		};
+	}
+
+	private async collectSourceElements(
+		source: SidechainSource,
+		timeRemapConfig?: TimeRemapConfig,
+	): Promise<SidechainSourceElement[] | null> {
+		const timeScale = timeRemapConfig?.timeScale ?? 1;
+
+		if (source.type === "track") {
+			const tracks = this.editor.timeline.getTracks();
+			const sourceTrack = tracks.find((t) => t.id === source.trackId);
+			if (!sourceTrack) return null;
+
+			const mediaAssets = this.editor.media.getAssets();
+			const audioContext = this.getDecodeContext();
+			const allElements = await collectAudioElements({
+				tracks: [sourceTrack],
+				mediaAssets,
+				audioContext,
+			});
+
+			if (!timeRemapConfig) {
+				return allElements.map((el) => ({
+					buffer: el.buffer,
+					startTime: el.startTime,
+					trimStart: el.trimStart,
+					duration: el.duration,
+					loop: el.loop ?? false,
+				}));
+			}
+
+			// mirror the remapped mixer: stretched clips keep their timeline
+			// length but read the source at timeScale, loop fills to the end
+			const behavior = getTrackBehavior(source.trackId, timeRemapConfig);
+			const isStretched =
+				behavior === "stretch" || behavior === "pitch-preserve";
+
+			return allElements.map((el) => ({
+				buffer: el.buffer,
+				startTime: remapTime(el.startTime, timeScale),
+				trimStart: el.trimStart,
+				duration: el.duration,
+				loop: behavior === "loop",
+				playbackRate: isStretched ? timeScale : 1,
+			}));
+		}
+
+		// Oneshot source
+		const defId = source.definitionId;
+		const buffer = await this.editor.oneshot.loadAudioBuffer(defId);
+		if (!buffer) return null;
+
+		const definition = this.editor.oneshot.getDefinition(defId);
+		if (!definition) return null;
+		// group markers key the sidechain only on hits that picked this definition
+		const hits = this.editor.oneshot
+			.getResolvedMarkers()
+			.filter((hit) => hit.definition.id === defId);
+
+		const markerConfig =
+			timeRemapConfig?.oneshotMarkerConfig ?? ORIGINAL_MARKER_REMAP_CONFIG;
+
+		return hits.map((hit) => {
+			const { startTime, playbackRate } = calculateOneshotAudioTiming(
+				hit.marker,
+				definition,
+				markerConfig,
+				timeScale,
+				hit.playbackRate,
+			);
+			return {
+				buffer,
+				startTime,
+				trimStart: definition.trimStart,
+				duration: (definition.trimEnd - definition.trimStart) / playbackRate,
+				loop: false,
+				playbackRate,
+			};
+		});
+	}
+
 	async computeAllEnvelopes(): Promise<void> {
-		const configs = this.getConfigs().filter((c) => c.enabled);
+		const configs = this.getAudibleConfigs();
 		await Promise.all(configs.map((c) => this.computeEnvelope(c.id)));
 	}
 
+	/**
+	 * Compute only the envelopes missing from the cache. Concurrent callers
+	 * share one pass, so every timeline row can ask without redoing the work.
+	 */
+	ensureEnvelopes(): Promise<void> {
+		if (this.pendingEnvelopes?.generation === this.cacheGeneration) {
+			return this.pendingEnvelopes.promise;
+		}
+
+		const generation = this.cacheGeneration;
+		const missing = this.getAudibleConfigs().filter(
+			(c) => !this.envelopeCache.has(c.id),
+		);
+		const promise = Promise.all(
+			missing.map((c) => this.computeEnvelope(c.id)),
+		).then(() => {
+			if (this.pendingEnvelopes?.generation === generation) {
+				this.pendingEnvelopes = null;
+			}
+		});
+
+		this.pendingEnvelopes = { generation, promise };
+		return promise;
+	}
+
+	/**
+	 * Everything ducking a target multiplied into one envelope, with
+	 * enable/bypass automation applied. Reads the cache only, so call
+	 * ensureEnvelopes() first. Null when nothing ducks the target.
+	 */
+	getTargetEnvelope(target: SidechainTarget): SidechainEnvelope | null {
+		const key =
+			target.type === "track"
+				? `track:${target.trackId}`
+				: `oneshot:${target.definitionId}`;
+		const cached = this.targetEnvelopeCache.get(key);
+		if (cached !== undefined) return cached;
+
+		const snapshot = this.editor.automation.getSnapshot();
+		const envelopes = this.getAudibleConfigs()
+			.filter((c) =>
+				target.type === "track"
+					? c.targetTrackIds.includes(target.trackId)
+					: c.targetOneshotDefinitionIds.includes(target.definitionId),
+			)
+			.map((c) => this.getAutomatedEnvelope(c, snapshot))
+			.filter((envelope) => envelope !== undefined);
+
+		const combined = multiplyEnvelopes(envelopes);
+		this.targetEnvelopeCache.set(key, combined);
+		return combined;
+	}
+
 	/**
 	 * Build lookup tables mapping targetId -> envelope[] for O(1) access during playback.
 	 * Call after computeAllEnvelopes() and before the playback tick loop starts.
@@ -235,9 +431,9 @@ export class SidechainManager {
 		const trackLookup = new Map<string, SidechainEnvelope[]>();
 		const oneshotLookup = new Map<string, SidechainEnvelope[]>();
 
-		const configs = this.getConfigs().filter((c) => c.enabled);
-		for (const config of configs) {
-			const envelope = this.envelopeCache.get(config.id);
+		const snapshot = this.editor.automation.getSnapshot();
+		for (const config of this.getAudibleConfigs()) {
+			const envelope = this.getAutomatedEnvelope(config, snapshot);
 			if (!envelope) continue;
 
 			for (const trackId of config.targetTrackIds) {
@@ -342,8 +538,29 @@ export class SidechainManager {
 		return this.envelopeCache.get(configId);
 	}
 
+	/**
+	 * The cached envelope with the config's enable/bypass automation applied,
+	 * as both playback and export duck with it.
+	 */
+	getAutomatedEnvelope(
+		config: SidechainConfig,
+		snapshot: AutomationSnapshot,
+	): SidechainEnvelope | undefined {
+		const envelope = this.envelopeCache.get(config.id);
+		if (!envelope) return undefined;
+
+		return applySidechainAutomation({
+			envelope,
+			configId: config.id,
+			enabled: config.enabled,
+			snapshot,
+		});
+	}
+
 	invalidateCache(): void {
+		this.cacheGeneration++;
 		this.envelopeCache.clear();
+		this.targetEnvelopeCache.clear();
 	}
 
 	// ---- Observer pattern ----
@@ -2,16 +2,24 @@ import type { EditorCore } from "@/core";
 import type {
 	TrackType,
 	TimelineTrack,
-	TextElement,
 	TimelineElement,
 	ClipboardItem,
+	Transform,
 } from "@/types/timeline";
+import type {
+	AnimatableProperty,
+	BezierCurve,
+	KeyframeEasing,
+} from "@/types/keyframe";
 import { calculateTotalDuration } from "@/lib/timeline";
+import type { RippleOptions } from "@/lib/timeline/ripple";
 import {
 	AddTrackCommand,
 	RemoveTrackCommand,
 	ToggleTrackMuteCommand,
+	ToggleTrackSidechainOverlayCommand,
 	ToggleTrackVisibilityCommand,
+	UpdateTrackMixCommand,
 	InsertElementCommand,
 	UpdateElementTrimCommand,
 	UpdateElementDurationCommand,
@@ -21,12 +29,26 @@ import {
 	ToggleElementsMutedCommand,
 	ToggleAudioLoopCommand,
 	UpdateTextElementCommand,
+	UpdateAudioElementCommand,
+	UpdateMediaElementCommand,
+	UpdateElementSpeedCommand,
+	UpdateElementTransformCommand,
 	SplitElementsCommand,
 	PasteCommand,
 	UpdateElementStartTimeCommand,
 	MoveElementCommand,
+	CloseGapsCommand,
+	AddKeyframesCommand,
+	MoveKeyframesCommand,
+	RemoveKeyframesCommand,
+	UpdateKeyframeEasingCommand,
 } from "@/lib/commands/timeline";
 import type { InsertElementParams } from "@/lib/commands/timeline/element/insert-element";
+import type { MediaElementUpdates } from "@/lib/commands/timeline/element/update-media-element";
+import type { TextElementUpdates } from "@/lib/commands/timeline/element/update-text-element";
+import type { AudioElementUpdates } from "@/lib/commands/timeline/element/update-audio-element";
+import type { ElementSpeedUpdates } from "@/lib/commands/timeline/element/update-element-speed";
+import type { TrackMixUpdates } from "@/lib/commands/timeline/track/update-track-mix";
 
 export class TimelineManager {
 	private listeners = new Set<() => void>();
@@ -53,14 +75,27 @@ export class TimelineManager {
 		elementId,
 		trimStart,
 		trimEnd,
+		startTime,
+		duration,
+		ripple,
 		pushHistory = true,
 	}: {
 		elementId: string;
 		trimStart: number;
 		trimEnd: number;
+		startTime?: number;
+		duration?: number;
+		ripple?: RippleOptions;
 		pushHistory?: boolean;
 	}): void {
-		const command = new UpdateElementTrimCommand(elementId, trimStart, trimEnd);
+		const command = new UpdateElementTrimCommand(
+			elementId,
+			trimStart,
+			trimEnd,
+			startTime,
+			duration,
+			ripple,
+		);
 		if (pushHistory) {
 			this.editor.command.execute(command);
 		} else {
@@ -108,12 +143,14 @@ export class TimelineManager {
 		elementId,
 		newStartTime,
 		createTrack,
+		ripple,
 	}: {
 		sourceTrackId: string;
 		targetTrackId: string;
 		elementId: string;
 		newStartTime: number;
 		createTrack?: { type: TrackType; index: number };
+		ripple?: RippleOptions;
 	}): void {
 		const command = new MoveElementCommand(
 			sourceTrackId,
@@ -121,10 +158,16 @@ export class TimelineManager {
 			elementId,
 			newStartTime,
 			createTrack,
+			ripple,
 		);
 		this.editor.command.execute(command);
 	}
 
+	closeGaps({ allTracks }: RippleOptions): void {
+		const command = new CloseGapsCommand({ allTracks });
+		this.editor.command.execute(command);
+	}
+
 	toggleTrackMute({ trackId }: { trackId: string }): void {
 		const command = new ToggleTrackMuteCommand(trackId);
 		this.editor.command.execute(command);
@@ -135,6 +178,22 @@ export class TimelineManager {
 		this.editor.command.execute(command);
 	}
 
+	toggleTrackSidechainOverlay({ trackId }: { trackId: string }): void {
+		const command = new ToggleTrackSidechainOverlayCommand(trackId);
+		this.editor.command.execute(command);
+	}
+
+	updateTrackMix({
+		trackId,
+		updates,
+	}: {
+		trackId: string;
+		updates: TrackMixUpdates;
+	}): void {
+		const command = new UpdateTrackMixCommand(trackId, updates);
+		this.editor.command.execute(command);
+	}
+
 	splitElements({
 		elements,
 		splitTime,
@@ -193,10 +252,12 @@ export class TimelineManager {
 
 	deleteElements({
 		elements,
+		ripple,
 	}: {
 		elements: { trackId: string; elementId: string }[];
+		ripple?: RippleOptions;
 	}): void {
-		const command = new DeleteElementsCommand(elements);
+		const command = new DeleteElementsCommand(elements, ripple);
 		this.editor.command.execute(command);
 	}
 
@@ -207,27 +268,80 @@ export class TimelineManager {
 	}: {
 		trackId: string;
 		elementId: string;
-		updates: Partial<
-			Pick<
-				TextElement,
-				| "content"
-				| "fontSize"
-				| "fontFamily"
-				| "color"
-				| "backgroundColor"
-				| "textAlign"
-				| "fontWeight"
-				| "fontStyle"
-				| "textDecoration"
-				| "transform"
-				| "opacity"
-			>
-		>;
+		updates: TextElementUpdates;
 	}): void {
 		const command = new UpdateTextElementCommand(trackId, elementId, updates);
 		this.editor.command.execute(command);
 	}
 
+	updateAudioElement({
+		trackId,
+		elementId,
+		updates,
+	}: {
+		trackId: string;
+		elementId: string;
+		updates: AudioElementUpdates;
+	}): void {
+		const command = new UpdateAudioElementCommand(trackId, elementId, updates);
+		this.editor.command.execute(command);
+	}
+
+	updateMediaElement({
+		trackId,
+		elementId,
+		updates,
+	}: {
+		trackId: string;
+		elementId: string;
+		updates: MediaElementUpdates;
+	}): void {
+		const command = new UpdateMediaElementCommand(trackId, elementId, updates);
+		this.editor.command.execute(command);
+	}
+
+	updateElementSpeed({
+		trackId,
+		elementId,
+		updates,
+	}: {
+		trackId: string;
+		elementId: string;
+		updates: ElementSpeedUpdates;
+	}): void {
+		const command = new UpdateElementSpeedCommand(trackId, elementId, updates);
+		this.editor.command.execute(command);
+	}
+
+	updateElementTransform({
+		trackId,
+		elementId,
+		transform,
+		time,
+		pushHistory = true,
+		baseState,
+	}: {
+		trackId: string;
+		elementId: string;
+		transform: Transform;
+		time: number;
+		pushHistory?: boolean;
+		baseState?: TimelineTrack[];
+	}): void {
+		const command = new UpdateElementTransformCommand(
+			trackId,
+			elementId,
+			transform,
+			time,
+			baseState,
+		);
+		if (pushHistory) {
+			this.editor.command.execute(command);
+		} else {
+			command.execute();
+		}
+	}
+
 	duplicateElements({
 		elements,
 	}: {
@@ -265,6 +379,92 @@ export class TimelineManager {
 		this.editor.command.execute(command);
 	}
 
+	addKeyframes({
+		trackId,
+		elementId,
+		time,
+		values,
+		easing,
+	}: {
+		trackId: string;
+		elementId: string;
+		time: number;
+		values: Partial<Record<AnimatableProperty, number>>;
+		easing?: KeyframeEasing;
+	}): void {
+		const command = new AddKeyframesCommand(
+			trackId,
+			elementId,
+			time,
+			values,
+			easing,
+		);
+		this.editor.command.execute(command);
+	}
+
+	moveKeyframes({
+		trackId,
+		elementId,
+		fromTime,
+		toTime,
+	}: {
+		trackId: string;
+		elementId: string;
+		fromTime: number;
+		toTime: number;
+	}): void {
+		const command = new MoveKeyframesCommand(
+			trackId,
+			elementId,
+			fromTime,
+			toTime,
+		);
+		this.editor.command.execute(command);
+	}
+
+	removeKeyframes({
+		trackId,
+		elementId,
+		time,
+		properties,
+	}: {
+		trackId: string;
+		elementId: string;
+		time: number | null;
+		properties?: AnimatableProperty[];
+	}): void {
+		const command = new RemoveKeyframesCommand(
+			trackId,
+			elementId,
+			time,
+			properties,
+		);
+		this.editor.command.execute(command);
+	}
+
+	updateKeyframeEasing({
+		trackId,
+		elementId,
+		time,
+		easing,
+		bezier,
+	}: {
+		trackId: string;
+		elementId: string;
+		time: number;
+		easing: KeyframeEasing;
+		bezier?: BezierCurve;
+	}): void {
+		const command = new UpdateKeyframeEasingCommand(
+			trackId,
+			elementId,
+			time,
+			easing,
+			bezier,
+		);
+		this.editor.command.execute(command);
+	}
+
 	getTracks(): TimelineTrack[] {
 		return this.editor.scenes.getActiveSceneOrNull()?.tracks ?? [];
 	}
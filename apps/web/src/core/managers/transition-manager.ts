@@ -0,0 +1,103 @@
+import type { EditorCore } from "..";
+import type {
+	CreateTransitionInput,
+	Transition,
+	UpdateTransitionInput,
+} from "@/types/transition";
+import type { TScene } from "@/types/timeline";
+import { type ResolvedTransition, resolveTransitions } from "@/lib/transitions";
+import { nanoid } from "nanoid";
+
+export class TransitionManager {
+	constructor(private editor: EditorCore) {}
+
+	// ---- CRUD ----
+
+	createTransition(data: CreateTransitionInput): string {
+		const transitionId = nanoid();
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		// one transition per cut, a new one replaces the old
+		const transitions = (currentScene.transitions || []).filter(
+			(t) =>
+				!(
+					t.fromElementId === data.fromElementId &&
+					t.toElementId === data.toElementId
+				),
+		);
+
+		this.setTransitions({
+			scene: currentScene,
+			transitions: [...transitions, { id: transitionId, ...data }],
+		});
+
+		return transitionId;
+	}
+
+	updateTransition(transitionId: string, updates: UpdateTransitionInput): void {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		const transitions = currentScene.transitions || [];
+		if (!transitions.some((t) => t.id === transitionId)) {
+			throw new Error(`Transition ${transitionId} not found`);
+		}
+
+		this.setTransitions({
+			scene: currentScene,
+			transitions: transitions.map((t) =>
+				t.id === transitionId ? { ...t, ...updates } : t,
+			),
+		});
+	}
+
+	deleteTransition(transitionId: string): void {
+		const currentScene = this.editor.scenes.getActiveScene();
+		if (!currentScene) {
+			throw new Error("No active scene");
+		}
+
+		this.setTransitions({
+			scene: currentScene,
+			transitions: (currentScene.transitions || []).filter(
+				(t) => t.id !== transitionId,
+			),
+		});
+	}
+
+	getTransitions(): Transition[] {
+		const currentScene = this.editor.scenes.getActiveSceneOrNull();
+		return currentScene?.transitions || [];
+	}
+
+	getTransition(transitionId: string): Transition | undefined {
+		return this.getTransitions().find((t) => t.id === transitionId);
+	}
+
+	// transitions that still sit between two neighbouring clips, with their windows
+	getResolvedTransitions(): ResolvedTransition[] {
+		return resolveTransitions({
+			tracks: this.editor.timeline.getTracks(),
+			transitions: this.getTransitions(),
+		});
+	}
+
+	private setTransitions({
+		scene,
+		transitions,
+	}: {
+		scene: TScene;
+		transitions: Transition[];
+	}): void {
+		this.editor.scenes.updateScene(scene.id, {
+			...scene,
+			transitions,
+			updatedAt: new Date(),
+		});
+	}
+}
@@ -7,13 +7,25 @@ import { useActionHandler } from "@/hooks/actions/use-action-handler";
 import { useEditor } from "../use-editor";
 import { useElementSelection } from "../timeline/element/use-element-selection";
 import { getElementsAtTime } from "@/lib/timeline";
+import { snapToBeatGrid } from "@/lib/timeline/beat-grid";
 import { AddAutomationMarkerCommand, CreateOneshotMarkerCommand } from "@/lib/commands";
 
 export function useEditorActions() {
 	const editor = useEditor();
 	const activeProject = editor.project.getActive();
 	const { selectedElements, setElementSelection } = useElementSelection();
-	const { clipboard, setClipboard, toggleSnapping } = useTimelineStore();
+	const { clipboard, setClipboard, snappingEnabled, toggleSnapping } =
+		useTimelineStore();
+
+	// points placed at the playhead land on a nearby beat while snapping is on
+	const getPlacementTime = () => {
+		const currentTime = editor.playback.getCurrentTime();
+		if (!snappingEnabled) return currentTime;
+		return snapToBeatGrid({
+			grid: editor.scenes.getActiveSceneOrNull()?.beatGrid,
+			time: currentTime,
+		});
+	};
 
 	useActionHandler(
 		"toggle-play",
@@ -201,11 +213,21 @@ export function useEditorActions() {
 			}
 			editor.timeline.deleteElements({
 				elements: selectedElements,
+				ripple: useTimelineStore.getState().getRippleOptions(),
 			});
 		},
 		undefined,
 	);
 
+	useActionHandler(
+		"close-all-gaps",
+		() => {
+			const { rippleAllTracksEnabled } = useTimelineStore.getState();
+			editor.timeline.closeGaps({ allTracks: rippleAllTracksEnabled });
+		},
+		undefined,
+	);
+
 	useActionHandler(
 		"select-all",
 		() => {
@@ -257,7 +279,13 @@ export function useEditorActions() {
 	useActionHandler(
 		"toggle-bookmark",
 		() => {
-			editor.scenes.toggleBookmark({ time: editor.playback.getCurrentTime() });
+			// a bookmark under the playhead is removed rather than snapped past
+			const currentTime = editor.playback.getCurrentTime();
+			editor.scenes.toggleBookmark({
+				time: editor.scenes.isBookmarked({ time: currentTime })
+					? currentTime
+					: getPlacementTime(),
+			});
 		},
 		undefined,
 	);
@@ -317,11 +345,10 @@ export function useEditorActions() {
 			}
 
 			// Place marker at current playhead time
-			const currentTime = editor.playback.getCurrentTime();
 			editor.command.execute(
 				new CreateOneshotMarkerCommand({
 					oneshotId: activeOneshotId,
-					time: currentTime,
+					time: getPlacementTime(),
 				}),
 			);
 
@@ -335,18 +362,22 @@ export function useEditorActions() {
 			const { isMarkModeActive, activeOneshotId, enterMarkMode } =
 				useOneshotStore.getState();
 
-			const definitions = editor.oneshot.getDefinitions();
-			if (definitions.length === 0) return;
+			// variation groups come after the oneshots in the cycle
+			const oneshotIds = [
+				...editor.oneshot.getDefinitions(),
+				...editor.oneshot.getGroups(),
+			].map((oneshot) => oneshot.id);
+			if (oneshotIds.length === 0) return;
 
 			if (!isMarkModeActive || !activeOneshotId) {
 				// Not in mark mode — enter with first oneshot
-				enterMarkMode(definitions[0].id);
+				enterMarkMode(oneshotIds[0]);
 				return;
 			}
 
-			const currentIndex = definitions.findIndex((d) => d.id === activeOneshotId);
-			const nextIndex = (currentIndex + 1) % definitions.length;
-			enterMarkMode(definitions[nextIndex].id);
+			const currentIndex = oneshotIds.indexOf(activeOneshotId);
+			const nextIndex = (currentIndex + 1) % oneshotIds.length;
+			enterMarkMode(oneshotIds[nextIndex]);
 		},
 		undefined,
 	);
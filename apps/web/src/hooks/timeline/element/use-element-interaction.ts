@@ -13,6 +13,7 @@ import { snapTimeToFrame } from "@/lib/time";
 import { computeDropTarget } from "@/lib/timeline/drop-utils";
 import { generateUUID } from "@/utils/id";
 import { useTimelineSnapping } from "@/hooks/timeline/use-timeline-snapping";
+import { useTimelineStore } from "@/stores/timeline-store";
 import type {
 	DropTarget,
 	ElementDragState,
@@ -236,6 +237,7 @@ export function useElementInteraction({
 
 			const elementDuration = movingElement.duration;
 			const playheadTime = editor.playback.getCurrentTime();
+			const beatGrid = editor.scenes.getActiveSceneOrNull()?.beatGrid;
 
 			const startSnap = snapElementEdge({
 				targetTime: frameSnappedTime,
@@ -245,6 +247,7 @@ export function useElementInteraction({
 				zoomLevel,
 				excludeElementId: movingElement.id,
 				snapToStart: true,
+				beatGrid,
 			});
 
 			const endSnap = snapElementEdge({
@@ -255,6 +258,7 @@ export function useElementInteraction({
 				zoomLevel,
 				excludeElementId: movingElement.id,
 				snapToStart: false,
+				beatGrid,
 			});
 
 			const snapResult =
@@ -268,7 +272,14 @@ export function useElementInteraction({
 				snapPoint: snapResult.snapPoint,
 			};
 		},
-		[snappingEnabled, editor.playback, snapElementEdge, tracks, zoomLevel],
+		[
+			snappingEnabled,
+			editor.playback,
+			editor.scenes,
+			snapElementEdge,
+			tracks,
+			zoomLevel,
+		],
 	);
 
 	useEffect(() => {
@@ -453,6 +464,8 @@ export function useElementInteraction({
 				return;
 			}
 
+			const ripple = useTimelineStore.getState().getRippleOptions();
+
 			if (dropTarget.isNewTrack) {
 				const newTrackId = generateUUID();
 
@@ -462,6 +475,7 @@ export function useElementInteraction({
 					elementId: dragState.elementId,
 					newStartTime: snappedTime,
 					createTrack: { type: sourceTrack.type, index: dropTarget.trackIndex },
+					ripple,
 				});
 			} else {
 				const targetTrack = tracks[dropTarget.trackIndex];
@@ -471,6 +485,7 @@ export function useElementInteraction({
 						targetTrackId: targetTrack.id,
 						elementId: dragState.elementId,
 						newStartTime: snappedTime,
+						ripple,
 					});
 				}
 			}
@@ -7,6 +7,7 @@ import {
 	type SnapPoint,
 } from "@/hooks/timeline/use-timeline-snapping";
 import { useTimelineStore } from "@/stores/timeline-store";
+import { getElementSpeed, isMainTrack } from "@/lib/timeline";
 
 export interface ResizeState {
 	elementId: string;
@@ -98,10 +99,13 @@ export function useTimelineElementResize({
 
 		const projectFps = activeProject.settings.fps;
 		const minDurationSeconds = 1 / projectFps;
+		// trims are in source seconds, which run at the clip's speed
+		const speed = getElementSpeed(element);
 		const canSnap = snappingEnabled;
 		if (canSnap) {
 			const tracks = editor.timeline.getTracks();
 			const playheadTime = editor.playback.getCurrentTime();
+			const beatGrid = editor.scenes.getActiveSceneOrNull()?.beatGrid;
 			const snapPoints = findSnapPoints({
 				tracks,
 				playheadTime,
@@ -113,6 +117,7 @@ export function useTimelineElementResize({
 					targetTime: targetStartTime,
 					snapPoints,
 					zoomLevel,
+					beatGrid,
 				});
 				resizeSnapPoint = snapResult.snapPoint;
 				if (snapResult.snapPoint) {
@@ -126,6 +131,7 @@ export function useTimelineElementResize({
 					targetTime: targetEndTime,
 					snapPoints,
 					zoomLevel,
+					beatGrid,
 				});
 				resizeSnapPoint = snapResult.snapPoint;
 				if (snapResult.snapPoint) {
@@ -135,21 +141,22 @@ export function useTimelineElementResize({
 		}
 		onSnapPointChange?.(resizeSnapPoint);
 
+		const sourceDuration =
+			resizing.initialTrimStart +
+			resizing.initialDuration * speed +
+			resizing.initialTrimEnd;
+
 		if (resizing.side === "left") {
-			const sourceDuration =
-				resizing.initialTrimStart +
-				resizing.initialDuration +
-				resizing.initialTrimEnd;
 			const maxAllowed =
-				sourceDuration - resizing.initialTrimEnd - minDurationSeconds;
-			const calculated = resizing.initialTrimStart + deltaTime;
+				sourceDuration - resizing.initialTrimEnd - minDurationSeconds * speed;
+			const calculated = resizing.initialTrimStart + deltaTime * speed;
 
 			if (calculated >= 0 && calculated <= maxAllowed) {
 				const newTrimStart = snapTimeToFrame({
 					time: Math.min(maxAllowed, calculated),
 					fps: projectFps,
 				});
-				const trimDelta = newTrimStart - resizing.initialTrimStart;
+				const trimDelta = (newTrimStart - resizing.initialTrimStart) / speed;
 				const newStartTime = snapTimeToFrame({
 					time: resizing.initialStartTime + trimDelta,
 					fps: projectFps,
@@ -186,7 +193,7 @@ export function useTimelineElementResize({
 					currentStartTimeRef.current = newStartTime;
 					currentDurationRef.current = newDuration;
 				} else {
-					const trimDelta = 0 - resizing.initialTrimStart;
+					const trimDelta = -resizing.initialTrimStart / speed;
 					const newStartTime = snapTimeToFrame({
 						time: resizing.initialStartTime + trimDelta,
 						fps: projectFps,
@@ -205,11 +212,7 @@ export function useTimelineElementResize({
 				}
 			}
 		} else {
-			const sourceDuration =
-				resizing.initialTrimStart +
-				resizing.initialDuration +
-				resizing.initialTrimEnd;
-			const newTrimEnd = resizing.initialTrimEnd - deltaTime;
+			const newTrimEnd = resizing.initialTrimEnd - deltaTime * speed;
 
 			if (newTrimEnd < 0) {
 				if (canExtendElementDuration()) {
@@ -226,7 +229,7 @@ export function useTimelineElementResize({
 					currentDurationRef.current = newDuration;
 					currentTrimEndRef.current = 0;
 				} else {
-					const extensionToLimit = resizing.initialTrimEnd;
+					const extensionToLimit = resizing.initialTrimEnd / speed;
 					const newDuration = snapTimeToFrame({
 						time: resizing.initialDuration + extensionToLimit,
 						fps: projectFps,
@@ -239,13 +242,13 @@ export function useTimelineElementResize({
 				}
 			} else {
 				const maxTrimEnd =
-					sourceDuration - resizing.initialTrimStart - minDurationSeconds;
+					sourceDuration - resizing.initialTrimStart - minDurationSeconds * speed;
 				const clampedTrimEnd = Math.min(maxTrimEnd, Math.max(0, newTrimEnd));
 				const finalTrimEnd = snapTimeToFrame({
 					time: clampedTrimEnd,
 					fps: projectFps,
 				});
-				const trimDelta = finalTrimEnd - resizing.initialTrimEnd;
+				const trimDelta = (finalTrimEnd - resizing.initialTrimEnd) / speed;
 				const newDuration = snapTimeToFrame({
 					time: resizing.initialDuration - trimDelta,
 					fps: projectFps,
@@ -257,7 +260,7 @@ export function useTimelineElementResize({
 				currentDurationRef.current = newDuration;
 			}
 		}
-	}, [resizing, zoomLevel, activeProject.settings.fps, snappingEnabled, editor, findSnapPoints, snapToNearestPoint, element.id, onSnapPointChange, canExtendElementDuration]);
+	}, [resizing, zoomLevel, activeProject.settings.fps, snappingEnabled, editor, findSnapPoints, snapToNearestPoint, element, onSnapPointChange, canExtendElementDuration]);
 
 	const handleResizeEnd = useCallback(() => {
 		if (!resizing) return;
@@ -270,34 +273,52 @@ export function useTimelineElementResize({
 		const trimEndChanged = finalTrimEnd !== resizing.initialTrimEnd;
 		const startTimeChanged = finalStartTime !== resizing.initialStartTime;
 		const durationChanged = finalDuration !== resizing.initialDuration;
+		// only the main track ripples, elsewhere a trim stays a plain trim
+		const ripple = isMainTrack(track)
+			? useTimelineStore.getState().getRippleOptions()
+			: undefined;
+
+		if (ripple) {
+			// ripple trims keep the clip's start and push what follows instead,
+			// all as one undo step
+			if (trimStartChanged || trimEndChanged || durationChanged) {
+				editor.timeline.updateElementTrim({
+					elementId: element.id,
+					trimStart: finalTrimStart,
+					trimEnd: finalTrimEnd,
+					duration: finalDuration,
+					ripple,
+				});
+			}
+		} else {
+			if (trimStartChanged || trimEndChanged) {
+				editor.timeline.updateElementTrim({
+					elementId: element.id,
+					trimStart: finalTrimStart,
+					trimEnd: finalTrimEnd,
+				});
+			}
 
-		if (trimStartChanged || trimEndChanged) {
-			editor.timeline.updateElementTrim({
-				elementId: element.id,
-				trimStart: finalTrimStart,
-				trimEnd: finalTrimEnd,
-			});
-		}
-
-		if (startTimeChanged) {
-			editor.timeline.updateElementStartTime({
-				elements: [{ trackId: track.id, elementId: element.id }],
-				startTime: finalStartTime,
-			});
-		}
+			if (startTimeChanged) {
+				editor.timeline.updateElementStartTime({
+					elements: [{ trackId: track.id, elementId: element.id }],
+					startTime: finalStartTime,
+				});
+			}
 
-		if (durationChanged) {
-			editor.timeline.updateElementDuration({
-				trackId: track.id,
-				elementId: element.id,
-				duration: finalDuration,
-			});
+			if (durationChanged) {
+				editor.timeline.updateElementDuration({
+					trackId: track.id,
+					elementId: element.id,
+					duration: finalDuration,
+				});
+			}
 		}
 
 		setResizing(null);
 		onResizeStateChange?.({ isResizing: false });
 		onSnapPointChange?.(null);
-	}, [resizing, editor.timeline, element.id, track.id, onResizeStateChange, onSnapPointChange]);
+	}, [resizing, editor.timeline, element.id, track, onResizeStateChange, onSnapPointChange]);
 
 	useEffect(() => {
 		if (!resizing) return;
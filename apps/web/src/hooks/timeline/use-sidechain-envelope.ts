@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useEditor } from "@/hooks/use-editor";
+import type { SidechainEnvelope, SidechainTarget } from "@/types/sidechain";
+
+// envelopes cover the whole timeline, so wait for edits to settle
+const RECOMPUTE_DEBOUNCE_MS = 300;
+
+/**
+ * The combined ducking envelope for a target, recomputed when the scene
+ * (configs, source clips, automation) changes. Keeps showing the previous
+ * envelope while a new one is computed.
+ */
+export function useSidechainEnvelope({
+	target,
+}: {
+	target: SidechainTarget | null;
+}): SidechainEnvelope | null {
+	const editor = useEditor();
+	const [envelope, setEnvelope] = useState<SidechainEnvelope | null>(null);
+	const scene = editor.scenes.getActiveSceneOrNull();
+
+	const targetType = target?.type ?? null;
+	const targetId = !target
+		? null
+		: target.type === "track"
+			? target.trackId
+			: target.definitionId;
+
+	useEffect(() => {
+		if (!targetType || !targetId || !scene) {
+			setEnvelope(null);
+			return;
+		}
+
+		const resolvedTarget: SidechainTarget =
+			targetType === "track"
+				? { type: "track", trackId: targetId }
+				: { type: "oneshot", definitionId: targetId };
+
+		let isCancelled = false;
+		const timeout = setTimeout(() => {
+			editor.sidechain
+				.ensureEnvelopes()
+				.then(() => {
+					if (isCancelled) return;
+					setEnvelope(editor.sidechain.getTargetEnvelope(resolvedTarget));
+				})
+				.catch((error) => {
+					console.error("Failed to compute sidechain overlay:", error);
+				});
+		}, RECOMPUTE_DEBOUNCE_MS);
+
+		return () => {
+			isCancelled = true;
+			clearTimeout(timeout);
+		};
+	}, [editor, targetType, targetId, scene]);
+
+	return envelope;
+}
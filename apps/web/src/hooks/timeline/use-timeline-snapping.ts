@@ -1,10 +1,12 @@
 import { useCallback } from "react";
 import type { TimelineTrack } from "@/types/timeline";
+import type { BeatGrid } from "@/types/beat-grid";
 import { TIMELINE_CONSTANTS } from "@/constants/timeline-constants";
+import { getNearestBeat } from "@/lib/timeline/beat-grid";
 
 export interface SnapPoint {
 	time: number;
-	type: "element-start" | "element-end" | "playhead";
+	type: "element-start" | "element-end" | "playhead" | "beat" | "bar";
 	elementId?: string;
 	trackId?: string;
 }
@@ -19,12 +21,14 @@ export interface UseTimelineSnappingOptions {
 	snapThreshold?: number;
 	enableElementSnapping?: boolean;
 	enablePlayheadSnapping?: boolean;
+	enableBeatSnapping?: boolean;
 }
 
 export function useTimelineSnapping({
 	snapThreshold = 10,
 	enableElementSnapping = true,
 	enablePlayheadSnapping = true,
+	enableBeatSnapping = true,
 }: UseTimelineSnappingOptions = {}) {
 	const findSnapPoints = useCallback(
 		({
@@ -81,10 +85,12 @@ export function useTimelineSnapping({
 			targetTime,
 			snapPoints,
 			zoomLevel,
+			beatGrid,
 		}: {
 			targetTime: number;
 			snapPoints: Array<SnapPoint>;
 			zoomLevel: number;
+			beatGrid?: BeatGrid;
 		}): SnapResult => {
 			const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
 			const thresholdInSeconds = snapThreshold / pixelsPerSecond;
@@ -92,7 +98,19 @@ export function useTimelineSnapping({
 			let closestSnapPoint: SnapPoint | null = null;
 			let closestDistance = Infinity;
 
-			for (const snapPoint of snapPoints) {
+			// the grid is unbounded, so only the beat nearest the target is a candidate
+			const candidates = [...snapPoints];
+			if (enableBeatSnapping && beatGrid?.enabled) {
+				const beat = getNearestBeat({ grid: beatGrid, time: targetTime });
+				if (beat) {
+					candidates.push({
+						time: beat.time,
+						type: beat.isDownbeat ? "bar" : "beat",
+					});
+				}
+			}
+
+			for (const snapPoint of candidates) {
 				const distance = Math.abs(targetTime - snapPoint.time);
 				if (distance < thresholdInSeconds && distance < closestDistance) {
 					closestDistance = distance;
@@ -106,7 +124,7 @@ export function useTimelineSnapping({
 				snapDistance: closestDistance,
 			};
 		},
-		[snapThreshold],
+		[snapThreshold, enableBeatSnapping],
 	);
 
 	const snapElementEdge = useCallback(
@@ -118,6 +136,7 @@ export function useTimelineSnapping({
 			zoomLevel,
 			excludeElementId,
 			snapToStart = true,
+			beatGrid,
 		}: {
 			targetTime: number;
 			elementDuration: number;
@@ -126,6 +145,7 @@ export function useTimelineSnapping({
 			zoomLevel: number;
 			excludeElementId?: string;
 			snapToStart?: boolean;
+			beatGrid?: BeatGrid;
 		}): SnapResult => {
 			const snapPoints = findSnapPoints({
 				tracks,
@@ -140,6 +160,7 @@ export function useTimelineSnapping({
 				targetTime: effectiveTargetTime,
 				snapPoints,
 				zoomLevel,
+				beatGrid,
 			});
 
 			if (!snapToStart && snapResult.snapPoint) {
@@ -0,0 +1,207 @@
+import { describe, expect, test } from "bun:test";
+import { parseSubtitles, serializeSubtitles } from "../subtitles";
+import type { SubtitleCue } from "@/types/subtitles";
+
+const srt = `1
+00:00:01,000 --> 00:00:02,500
+Hello there
+
+2
+00:00:03,250 --> 00:00:05,000
+First line
+Second line
+`;
+
+const vtt = `WEBVTT - Episode one
+Kind: captions
+
+NOTE written by hand
+
+STYLE
+::cue { color: white; }
+
+intro
+00:01.000 --> 00:02.500 align:start position:10% line:0
+Hello there
+
+00:00:03.250 --> 00:00:05.000
+First line
+Second line
+`;
+
+const plainCue = {
+	bold: false,
+	italic: false,
+	underline: false,
+};
+
+describe("parseSubtitles", () => {
+	test("reads SRT timestamps with a comma separator", () => {
+		const cues = parseSubtitles({ content: srt });
+
+		expect(cues).toHaveLength(2);
+		expect(cues[0].startTime).toBeCloseTo(1);
+		expect(cues[0].endTime).toBeCloseTo(2.5);
+		expect(cues[1].startTime).toBeCloseTo(3.25);
+	});
+
+	test("reads WebVTT timestamps with a dot separator and no hours", () => {
+		const cues = parseSubtitles({ content: vtt });
+
+		expect(cues[0].startTime).toBeCloseTo(1);
+		expect(cues[0].endTime).toBeCloseTo(2.5);
+		expect(cues[1].startTime).toBeCloseTo(3.25);
+		expect(cues[1].endTime).toBeCloseTo(5);
+	});
+
+	test("reads hours and short fractions", () => {
+		const [cue] = parseSubtitles({
+			content: "01:02:03.5 --> 01:02:04.25\nLate cue",
+		});
+
+		expect(cue.startTime).toBeCloseTo(3723.5);
+		expect(cue.endTime).toBeCloseTo(3724.25);
+	});
+
+	test("keeps every line of a multi-line cue", () => {
+		const cues = parseSubtitles({ content: srt });
+
+		expect(cues[1].text).toBe("First line\nSecond line");
+	});
+
+	test("skips the header, NOTE and STYLE blocks and ignores cue settings", () => {
+		const cues = parseSubtitles({ content: vtt });
+
+		expect(cues.map((cue) => cue.text)).toEqual([
+			"Hello there",
+			"First line\nSecond line",
+		]);
+	});
+
+	test("handles a byte order mark and CRLF line endings", () => {
+		const cues = parseSubtitles({
+			content: `\uFEFF${srt.replace(/\n/g, "\r\n")}`,
+		});
+
+		expect(cues).toHaveLength(2);
+		expect(cues[1].text).toBe("First line\nSecond line");
+	});
+
+	test("skips cues that can't be timed", () => {
+		const cues = parseSubtitles({
+			content:
+				"00:00:02,000 --> 00:00:01,000\nBackwards\n\nnot a time --> 00:00:03,000\nBroken",
+		});
+
+		expect(cues).toHaveLength(0);
+	});
+
+	test("turns wrapping tags into style and strips the rest", () => {
+		const [styled, partial, ass] = parseSubtitles({
+			content: `00:00:01,000 --> 00:00:02,000
+<b><i><font color="#FF0000">Loud</font></i></b>
+
+00:00:03,000 --> 00:00:04,000
+<v Roger>Some <b>bold</b> &amp; plain
+
+00:00:05,000 --> 00:00:06,000
+{\\an8}On top`,
+		});
+
+		expect(styled).toMatchObject({
+			text: "Loud",
+			bold: true,
+			italic: true,
+			underline: false,
+			color: "#ff0000",
+		});
+		expect(partial).toMatchObject({
+			text: "Some bold & plain",
+			...plainCue,
+		});
+		expect(ass.text).toBe("On top");
+	});
+
+	test("maps WebVTT color classes to colors", () => {
+		const [cue] = parseSubtitles({
+			content: "WEBVTT\n\n00:01.000 --> 00:02.000\n<c.yellow>Warning</c>",
+		});
+
+		expect(cue.text).toBe("Warning");
+		expect(cue.color).toBe("#ffff00");
+	});
+
+	test("sorts cues by start time", () => {
+		const cues = parseSubtitles({
+			content:
+				"00:00:05,000 --> 00:00:06,000\nSecond\n\n00:00:01,000 --> 00:00:02,000\nFirst",
+		});
+
+		expect(cues.map((cue) => cue.text)).toEqual(["First", "Second"]);
+	});
+});
+
+describe("serializeSubtitles", () => {
+	const cues: SubtitleCue[] = [
+		{ startTime: 1, endTime: 2.5, text: "Hello there", ...plainCue },
+		{
+			startTime: 3723.25,
+			endTime: 3725,
+			text: "Tom & Jerry\n<not a tag>",
+			...plainCue,
+			bold: true,
+			color: "#ff0000",
+		},
+	];
+
+	test("writes numbered SRT blocks with comma timestamps", () => {
+		const content = serializeSubtitles({ cues, format: "srt" });
+
+		expect(content).toStartWith(
+			"1\n00:00:01,000 --> 00:00:02,500\nHello there",
+		);
+		expect(content).toContain(
+			'2\n01:02:03,250 --> 01:02:05,000\n<font color="#ff0000"><b>Tom & Jerry\n<not a tag></b></font>',
+		);
+	});
+
+	test("writes a WebVTT header, dot timestamps and escaped text", () => {
+		const content = serializeSubtitles({ cues, format: "vtt" });
+
+		expect(content).toStartWith("WEBVTT\n\n00:00:01.000 --> 00:00:02.500");
+		expect(content).toContain("<b>Tom &amp; Jerry\n&lt;not a tag&gt;</b>");
+		expect(content).not.toContain("<font");
+	});
+
+	test("round-trips through SRT", () => {
+		const parsed = parseSubtitles({
+			content: serializeSubtitles({ cues, format: "srt" }),
+		});
+
+		expect(parsed).toHaveLength(2);
+		expect(parsed[0]).toMatchObject(cues[0]);
+		// the literal angle brackets can't survive SRT, which has no escaping
+		expect(parsed[1]).toMatchObject({
+			startTime: cues[1].startTime,
+			endTime: cues[1].endTime,
+			text: "Tom & Jerry",
+			bold: true,
+			color: "#ff0000",
+		});
+	});
+
+	test("round-trips through WebVTT", () => {
+		const parsed = parseSubtitles({
+			content: serializeSubtitles({ cues, format: "vtt" }),
+		});
+
+		expect(parsed).toHaveLength(2);
+		expect(parsed[0]).toMatchObject(cues[0]);
+		expect(parsed[1]).toMatchObject({
+			startTime: cues[1].startTime,
+			endTime: cues[1].endTime,
+			text: cues[1].text,
+			bold: true,
+		});
+	});
+});
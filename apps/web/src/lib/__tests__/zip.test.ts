@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { createZip } from "../zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// the standard CRC-32 check value
+const CHECK_DATA = encoder.encode("123456789");
+const CHECK_CRC = 0xcbf43926;
+
+const modifiedAt = new Date(2024, 4, 17, 13, 45, 31);
+const DOS_TIME = (13 << 11) | (45 << 5) | 15;
+const DOS_DATE = (44 << 9) | (5 << 5) | 17;
+
+function findEndRecord(view: DataView): number {
+	return view.byteLength - 22;
+}
+
+describe("createZip", () => {
+	const entries = [
+		{ name: "check.txt", data: CHECK_DATA },
+		{ name: "stems/voix é.wav", data: new Uint8Array([1, 2, 3, 4]) },
+	];
+	const output = new Uint8Array(createZip({ entries, modifiedAt }));
+	const view = new DataView(output.buffer);
+	const names = entries.map((entry) => encoder.encode(entry.name));
+	const localOffsets = [0, 30 + names[0].length + CHECK_DATA.length];
+	const centralStart = localOffsets[1] + 30 + names[1].length + 4;
+
+	test("writes a stored local header before each entry", () => {
+		for (const [index, entry] of entries.entries()) {
+			const offset = localOffsets[index];
+			const nameLength = names[index].length;
+
+			expect(view.getUint32(offset, true)).toBe(0x04034b50);
+			expect(view.getUint16(offset + 4, true)).toBe(20);
+			expect(view.getUint16(offset + 6, true)).toBe(0x0800);
+			expect(view.getUint16(offset + 8, true)).toBe(0);
+			expect(view.getUint16(offset + 10, true)).toBe(DOS_TIME);
+			expect(view.getUint16(offset + 12, true)).toBe(DOS_DATE);
+			expect(view.getUint32(offset + 18, true)).toBe(entry.data.length);
+			expect(view.getUint32(offset + 22, true)).toBe(entry.data.length);
+			expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+			expect(view.getUint16(offset + 28, true)).toBe(0);
+			expect(
+				decoder.decode(output.subarray(offset + 30, offset + 30 + nameLength)),
+			).toBe(entry.name);
+			expect(
+				Array.from(
+					output.subarray(
+						offset + 30 + nameLength,
+						offset + 30 + nameLength + entry.data.length,
+					),
+				),
+			).toEqual(Array.from(entry.data));
+		}
+	});
+
+	test("writes the CRC-32 of each entry's data", () => {
+		expect(view.getUint32(14, true)).toBe(CHECK_CRC);
+		expect(view.getUint32(localOffsets[1] + 14, true)).toBe(0xb63cfbcd);
+	});
+
+	test("writes a central header pointing at each local header", () => {
+		let offset = centralStart;
+		for (const [index, entry] of entries.entries()) {
+			const nameLength = names[index].length;
+
+			expect(view.getUint32(offset, true)).toBe(0x02014b50);
+			expect(view.getUint16(offset + 8, true)).toBe(0x0800);
+			expect(view.getUint16(offset + 10, true)).toBe(0);
+			expect(view.getUint16(offset + 12, true)).toBe(DOS_TIME);
+			expect(view.getUint16(offset + 14, true)).toBe(DOS_DATE);
+			expect(view.getUint32(offset + 16, true)).toBe(
+				view.getUint32(localOffsets[index] + 14, true),
+			);
+			expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+			expect(view.getUint32(offset + 24, true)).toBe(entry.data.length);
+			expect(view.getUint16(offset + 28, true)).toBe(nameLength);
+			expect(view.getUint32(offset + 42, true)).toBe(localOffsets[index]);
+			expect(
+				decoder.decode(output.subarray(offset + 46, offset + 46 + nameLength)),
+			).toBe(entry.name);
+			offset += 46 + nameLength;
+		}
+		expect(offset).toBe(findEndRecord(view));
+	});
+
+	test("ends with a record locating the central directory", () => {
+		const offset = findEndRecord(view);
+
+		expect(view.getUint32(offset, true)).toBe(0x06054b50);
+		expect(view.getUint16(offset + 4, true)).toBe(0);
+		expect(view.getUint16(offset + 6, true)).toBe(0);
+		expect(view.getUint16(offset + 8, true)).toBe(2);
+		expect(view.getUint16(offset + 10, true)).toBe(2);
+		expect(view.getUint32(offset + 12, true)).toBe(offset - centralStart);
+		expect(view.getUint32(offset + 16, true)).toBe(centralStart);
+		expect(view.getUint16(offset + 20, true)).toBe(0);
+	});
+
+	test("writes only the end record for an empty archive", () => {
+		const empty = createZip({ entries: [], modifiedAt });
+		const emptyView = new DataView(empty);
+
+		expect(empty.byteLength).toBe(22);
+		expect(emptyView.getUint32(0, true)).toBe(0x06054b50);
+		expect(emptyView.getUint32(12, true)).toBe(0);
+		expect(emptyView.getUint32(16, true)).toBe(0);
+	});
+
+	test("clamps dates before 1980 to the DOS epoch", () => {
+		const early = createZip({
+			entries: [{ name: "a", data: new Uint8Array(0) }],
+			modifiedAt: new Date(1975, 0, 1, 0, 0, 0),
+		});
+		const earlyView = new DataView(early);
+
+		expect(earlyView.getUint16(12, true) >> 9).toBe(0);
+		// an empty entry's CRC is zero
+		expect(earlyView.getUint32(14, true)).toBe(0);
+	});
+});
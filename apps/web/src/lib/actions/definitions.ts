@@ -90,6 +90,10 @@ export const ACTIONS = {
 		category: "editing",
 		defaultShortcuts: ["backspace", "delete"],
 	},
+	"close-all-gaps": {
+		description: "Close all gaps on the main track",
+		category: "editing",
+	},
 	"copy-selected": {
 		description: "Copy selected elements",
 		category: "editing",
@@ -0,0 +1,168 @@
+import { describe, expect, test } from "bun:test";
+import {
+	NO_AUTOMATION,
+	buildAutomationSegments,
+	resolveAutomationBlend,
+	type AutomationSnapshot,
+	type AutomationTarget,
+} from "../apply-automation";
+import type {
+	AutomationMarker,
+	AutomationRamp,
+	AutomationState,
+} from "@/types/automation";
+
+const createdAt = new Date(0);
+const target: AutomationTarget = { type: "audio-volume", trackId: "music" };
+
+function volumeState({
+	id,
+	value,
+}: {
+	id: string;
+	value: number;
+}): AutomationState {
+	return {
+		id,
+		name: id,
+		operations: [{ id, type: "audio-volume", trackId: "music", value }],
+		createdAt,
+		updatedAt: createdAt,
+	};
+}
+
+function pointMarker({
+	stateId,
+	time,
+	ramp,
+}: {
+	stateId: string;
+	time: number;
+	ramp?: AutomationRamp;
+}): AutomationMarker {
+	return {
+		id: `${stateId}-${time}`,
+		stateId,
+		type: "point",
+		time,
+		ramp,
+		createdAt,
+	};
+}
+
+const states = [
+	volumeState({ id: "quiet", value: 20 }),
+	volumeState({ id: "loud", value: 80 }),
+	volumeState({ id: "muted", value: 0 }),
+];
+
+function snapshot(markers: AutomationMarker[]): AutomationSnapshot {
+	return {
+		markers,
+		states,
+		elementTimeRanges: [
+			{ trackId: "voice", elementId: "line", startTime: 4, endTime: 6 },
+		],
+	};
+}
+
+function valueAt({
+	time,
+	automation,
+}: {
+	time: number;
+	automation: AutomationSnapshot;
+}): number {
+	const blend = resolveAutomationBlend({ target, time, snapshot: automation });
+	return blend.fixed + blend.baseWeight * 50;
+}
+
+describe("resolveAutomationBlend", () => {
+	test("leaves the parameter alone before any marker", () => {
+		expect(
+			resolveAutomationBlend({
+				target,
+				time: 1,
+				snapshot: snapshot([pointMarker({ stateId: "quiet", time: 2 })]),
+			}),
+		).toEqual(NO_AUTOMATION);
+	});
+
+	test("lets the most recent point marker win", () => {
+		const automation = snapshot([
+			pointMarker({ stateId: "quiet", time: 2 }),
+			pointMarker({ stateId: "loud", time: 3 }),
+		]);
+
+		expect(valueAt({ time: 2.5, automation })).toBe(20);
+		expect(valueAt({ time: 8, automation })).toBe(80);
+	});
+
+	test("lets a range marker win over point markers while its clip plays", () => {
+		const automation = snapshot([
+			pointMarker({ stateId: "loud", time: 2 }),
+			{
+				id: "range",
+				stateId: "muted",
+				type: "range",
+				trackId: "voice",
+				elementId: "line",
+				createdAt,
+			},
+		]);
+
+		expect(valueAt({ time: 3, automation })).toBe(80);
+		expect(valueAt({ time: 5, automation })).toBe(0);
+		expect(valueAt({ time: 6, automation })).toBe(80);
+	});
+
+	test("ramps from where the parameter was", () => {
+		const automation = snapshot([
+			pointMarker({ stateId: "quiet", time: 2 }),
+			pointMarker({
+				stateId: "loud",
+				time: 4,
+				ramp: { duration: 2, curve: "linear" },
+			}),
+		]);
+
+		expect(valueAt({ time: 4, automation })).toBe(20);
+		expect(valueAt({ time: 5, automation })).toBe(50);
+		expect(valueAt({ time: 6, automation })).toBe(80);
+	});
+
+	test("ramps in from the unautomated value", () => {
+		const automation = snapshot([
+			pointMarker({
+				stateId: "muted",
+				time: 0,
+				ramp: { duration: 2, curve: "linear" },
+			}),
+		]);
+
+		expect(
+			resolveAutomationBlend({ target, time: 1, snapshot: automation }),
+		).toEqual({ fixed: 0, baseWeight: 0.5 });
+	});
+});
+
+describe("buildAutomationSegments", () => {
+	test("steps where markers change the value and merges the rest", () => {
+		const segments = buildAutomationSegments({
+			target,
+			startTime: 0,
+			endTime: 10,
+			snapshot: snapshot([
+				pointMarker({ stateId: "quiet", time: 2 }),
+				pointMarker({ stateId: "quiet", time: 3 }),
+				pointMarker({ stateId: "loud", time: 7 }),
+			]),
+		});
+
+		expect(segments).toEqual([
+			{ time: 0, blend: NO_AUTOMATION },
+			{ time: 2, blend: { fixed: 20, baseWeight: 0 } },
+			{ time: 7, blend: { fixed: 80, baseWeight: 0 } },
+		]);
+	});
+});
@@ -1,4 +1,11 @@
-import type { AutomationMarker, AutomationState } from "@/types/automation";
+import type {
+	AutomationMarker,
+	AutomationOperation,
+	AutomationState,
+	PointMarker,
+} from "@/types/automation";
+import type { SidechainEnvelope } from "@/types/sidechain";
+import { applyEasing } from "@/lib/keyframes";
 
 export interface ElementTimeRange {
 	trackId: string;
@@ -7,6 +14,42 @@ export interface ElementTimeRange {
 	endTime: number;
 }
 
+export interface AutomationSnapshot {
+	markers: AutomationMarker[];
+	states: AutomationState[];
+	elementTimeRanges: ElementTimeRange[];
+}
+
+// the parameter one operation drives
+export type AutomationTarget =
+	| {
+			type: "audio-volume" | "track-pan" | "video-opacity";
+			trackId: string;
+	  }
+	| { type: "sidechain-enabled"; configId: string }
+	| { type: "oneshot-gain"; definitionId: string };
+
+/**
+ * An automated value as fixed + baseWeight * base, where base is whatever the
+ * parameter is without automation (a clip's keyframed volume, a track's pan).
+ * Ramps into or out of automation blend the two, so glides start from
+ * wherever the parameter already was.
+ */
+export interface AutomationBlend {
+	fixed: number;
+	baseWeight: number;
+}
+
+export interface AutomationSegment {
+	time: number;
+	blend: AutomationBlend;
+}
+
+export const NO_AUTOMATION: AutomationBlend = { fixed: 0, baseWeight: 1 };
+
+// ramps are resolved at this step when mixing offline
+const RAMP_SEGMENT_SECONDS = 0.01;
+
 /**
  * Get active automation states at a given time from range markers
  * Range markers activate their state during the time range of the element they're attached to
@@ -73,41 +116,297 @@ export function getActiveAutomationAtTime(
 	return activeStates;
 }
 
+function matchesTarget({
+	operation,
+	target,
+}: {
+	operation: AutomationOperation;
+	target: AutomationTarget;
+}): boolean {
+	if (operation.type !== target.type) return false;
+
+	switch (operation.type) {
+		case "sidechain-enabled":
+			return "configId" in target && operation.configId === target.configId;
+		case "oneshot-gain":
+			return (
+				"definitionId" in target &&
+				operation.definitionId === target.definitionId
+			);
+		default:
+			return "trackId" in target && operation.trackId === target.trackId;
+	}
+}
+
+// switches resolve to 1 (on) or 0 (off) so they can ramp like any other value
+function getOperationValue({
+	operation,
+}: {
+	operation: AutomationOperation;
+}): number {
+	if (operation.type === "sidechain-enabled") {
+		return operation.enabled ? 1 : 0;
+	}
+	return operation.value;
+}
+
+function stateTouchesTarget({
+	state,
+	target,
+}: {
+	state: AutomationState;
+	target: AutomationTarget;
+}): boolean {
+	return state.operations.some((operation) =>
+		matchesTarget({ operation, target }),
+	);
+}
+
+export function hasAutomationForTarget({
+	target,
+	states,
+}: {
+	target: AutomationTarget;
+	states: AutomationState[];
+}): boolean {
+	return states.some((state) => stateTouchesTarget({ state, target }));
+}
+
 /**
- * Calculate effective volume for an audio track considering automation
+ * Value set by automation for a target at a given time, ignoring ramps, or
+ * null when no active automation touches it. The most recent point marker
+ * wins, and range markers win over point markers.
  */
-export function getEffectiveVolume(
-	trackId: string,
-	_elementId: string,
-	time: number,
-	baseVolume: number,
-	markers: AutomationMarker[],
-	states: AutomationState[],
-	elementTimeRanges: ElementTimeRange[] = [],
-): number {
-	// Get automation from range markers (time-based, not element-specific)
+function getStepValue({
+	target,
+	time,
+	snapshot,
+}: {
+	target: AutomationTarget;
+	time: number;
+	snapshot: AutomationSnapshot;
+}): number | null {
+	const { markers, states, elementTimeRanges } = snapshot;
 	const rangeAutomation = getActiveAutomationFromRangeMarkers(
 		time,
 		markers,
 		states,
 		elementTimeRanges,
 	);
-
-	// Get automation from point markers (timeline-wide)
+	// most recent first, so reversed for last-one-wins
 	const timeAutomation = getActiveAutomationAtTime(time, markers, states);
 
-	// Combine all active automation (range automation takes precedence)
-	const allAutomation = [...rangeAutomation, ...timeAutomation];
-
-	// Apply volume operations (last one wins)
-	let effectiveVolume = baseVolume;
-	for (const state of allAutomation) {
-		for (const op of state.operations) {
-			if (op.trackId === trackId) {
-				effectiveVolume = op.value;
+	let value: number | null = null;
+	for (const state of [...timeAutomation.reverse(), ...rangeAutomation]) {
+		for (const operation of state.operations) {
+			if (matchesTarget({ operation, target })) {
+				value = getOperationValue({ operation });
 			}
 		}
 	}
 
-	return effectiveVolume;
+	return value;
+}
+
+// the latest point marker touching the target, if its ramp is still running
+function getActiveRampMarker({
+	target,
+	time,
+	snapshot,
+}: {
+	target: AutomationTarget;
+	time: number;
+	snapshot: AutomationSnapshot;
+}): PointMarker | null {
+	let latest: PointMarker | null = null;
+	for (const marker of snapshot.markers) {
+		if (marker.type !== "point" || marker.time > time) continue;
+		if (latest && latest.time >= marker.time) continue;
+
+		const state = snapshot.states.find((s) => s.id === marker.stateId);
+		if (state && stateTouchesTarget({ state, target })) {
+			latest = marker;
+		}
+	}
+
+	if (!latest?.ramp || latest.ramp.duration <= 0) return null;
+	return time < latest.time + latest.ramp.duration ? latest : null;
+}
+
+/**
+ * Resolve automation for a target at a given time, gliding through the ramp
+ * of the point marker that last changed it. The ramp starts from the value
+ * the target had without that marker, so consecutive ramps chain smoothly.
+ */
+export function resolveAutomationBlend({
+	target,
+	time,
+	snapshot,
+}: {
+	target: AutomationTarget;
+	time: number;
+	snapshot: AutomationSnapshot;
+}): AutomationBlend {
+	const stepValue = getStepValue({ target, time, snapshot });
+	const to: AutomationBlend =
+		stepValue === null ? NO_AUTOMATION : { fixed: stepValue, baseWeight: 0 };
+
+	const rampMarker = getActiveRampMarker({ target, time, snapshot });
+	if (!rampMarker?.ramp) return to;
+
+	const from = resolveAutomationBlend({
+		target,
+		time: rampMarker.time,
+		snapshot: {
+			...snapshot,
+			markers: snapshot.markers.filter((marker) => marker !== rampMarker),
+		},
+	});
+	const progress = applyEasing({
+		easing: rampMarker.ramp.curve,
+		progress: (time - rampMarker.time) / rampMarker.ramp.duration,
+	});
+
+	return {
+		fixed: from.fixed + (to.fixed - from.fixed) * progress,
+		baseWeight: from.baseWeight + (to.baseWeight - from.baseWeight) * progress,
+	};
+}
+
+export function applyAutomationBlend({
+	blend,
+	base,
+}: {
+	blend: AutomationBlend;
+	base: number;
+}): number {
+	return blend.fixed + blend.baseWeight * base;
+}
+
+/**
+ * Resolve automation for a target over [startTime, endTime) as a step
+ * function. Automation only changes at point marker times, element boundaries
+ * and inside ramps, which are cut into short steps, so the offline mixer stays
+ * out of the per-sample marker scan while matching live playback.
+ */
+export function buildAutomationSegments({
+	target,
+	startTime,
+	endTime,
+	snapshot,
+}: {
+	target: AutomationTarget;
+	startTime: number;
+	endTime: number;
+	snapshot: AutomationSnapshot;
+}): AutomationSegment[] {
+	const boundaries = new Set<number>([startTime]);
+
+	for (const marker of snapshot.markers) {
+		if (marker.type !== "point") continue;
+		boundaries.add(marker.time);
+
+		const rampDuration = marker.ramp?.duration ?? 0;
+		for (
+			let offset = RAMP_SEGMENT_SECONDS;
+			offset < rampDuration;
+			offset += RAMP_SEGMENT_SECONDS
+		) {
+			boundaries.add(marker.time + offset);
+		}
+		if (rampDuration > 0) {
+			boundaries.add(marker.time + rampDuration);
+		}
+	}
+	for (const range of snapshot.elementTimeRanges) {
+		boundaries.add(range.startTime);
+		boundaries.add(range.endTime);
+	}
+
+	const segmentStarts = [...boundaries]
+		.filter((time) => time >= startTime && time < endTime)
+		.sort((a, b) => a - b);
+
+	const segments: AutomationSegment[] = [];
+	for (const time of segmentStarts) {
+		const blend = resolveAutomationBlend({ target, time, snapshot });
+
+		const previous = segments[segments.length - 1];
+		if (
+			previous &&
+			previous.blend.fixed === blend.fixed &&
+			previous.blend.baseWeight === blend.baseWeight
+		) {
+			continue;
+		}
+
+		segments.push({ time, blend });
+	}
+
+	return segments;
+}
+
+/**
+ * Index of the segment holding a time, starting the search from a previous
+ * index. Mixers walk forward through time, so this stays amortized O(1).
+ */
+export function advanceSegmentIndex({
+	segments,
+	index,
+	time,
+}: {
+	segments: AutomationSegment[];
+	index: number;
+	time: number;
+}): number {
+	let next = index;
+	while (next < segments.length - 1 && segments[next + 1].time <= time) {
+		next++;
+	}
+	return next;
+}
+
+/**
+ * Fold a config's enable/bypass automation into its envelope. Bypassed
+ * stretches are pushed back to unity gain, and ramps fade the ducking in or
+ * out instead of switching it.
+ */
+export function applySidechainAutomation({
+	envelope,
+	configId,
+	enabled,
+	snapshot,
+}: {
+	envelope: SidechainEnvelope;
+	configId: string;
+	enabled: boolean;
+	snapshot: AutomationSnapshot;
+}): SidechainEnvelope {
+	const target: AutomationTarget = { type: "sidechain-enabled", configId };
+	if (!hasAutomationForTarget({ target, states: snapshot.states })) {
+		return envelope;
+	}
+
+	const segments = buildAutomationSegments({
+		target,
+		startTime: 0,
+		endTime: envelope.duration,
+		snapshot,
+	});
+	const gainValues = new Float32Array(envelope.gainValues.length);
+	let segmentIndex = 0;
+	for (let i = 0; i < gainValues.length; i++) {
+		segmentIndex = advanceSegmentIndex({
+			segments,
+			index: segmentIndex,
+			time: i / envelope.sampleRate,
+		});
+		const amount = applyAutomationBlend({
+			blend: segments[segmentIndex]?.blend ?? NO_AUTOMATION,
+			base: enabled ? 1 : 0,
+		});
+		gainValues[i] = 1 + amount * (envelope.gainValues[i] - 1);
+	}
+
+	return { ...envelope, gainValues };
 }
@@ -0,0 +1,86 @@
+import type { ParsedCubeLut } from "@/types/color";
+import { MAX_LUT_SIZE } from "@/constants/color-constants";
+
+/**
+ * Parse an Adobe/Resolve .cube file. Only 3D tables are supported, 1D shaper
+ * tables are rejected rather than silently ignored.
+ */
+export function parseCubeLut({ text }: { text: string }): ParsedCubeLut {
+	let title: string | null = null;
+	let size = 0;
+	let domainMin: [number, number, number] = [0, 0, 0];
+	let domainMax: [number, number, number] = [1, 1, 1];
+	const data: number[] = [];
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (line.length === 0 || line.startsWith("#")) continue;
+
+		const [keyword, ...rest] = line.split(/\s+/);
+		switch (keyword) {
+			case "TITLE":
+				title = line
+					.slice(keyword.length)
+					.trim()
+					.replace(/^"(.*)"$/, "$1");
+				continue;
+			case "LUT_3D_SIZE":
+				size = Number.parseInt(rest[0] ?? "", 10);
+				if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+					throw new Error(`Invalid LUT size: ${rest[0]}`);
+				}
+				continue;
+			case "LUT_1D_SIZE":
+				throw new Error("1D LUTs are not supported");
+			case "DOMAIN_MIN":
+				domainMin = parseTriplet({ values: rest, line });
+				continue;
+			case "DOMAIN_MAX":
+				domainMax = parseTriplet({ values: rest, line });
+				continue;
+			case "LUT_3D_INPUT_RANGE": {
+				const [min, max] = rest.map(Number);
+				if (!Number.isFinite(min) || !Number.isFinite(max)) {
+					throw new Error(`Invalid input range: ${line}`);
+				}
+				domainMin = [min, min, min];
+				domainMax = [max, max, max];
+				continue;
+			}
+		}
+
+		// anything else must be a table row
+		data.push(...parseTriplet({ values: [keyword, ...rest], line }));
+	}
+
+	if (size === 0) {
+		throw new Error("Missing LUT_3D_SIZE");
+	}
+	if (data.length !== size * size * size * 3) {
+		throw new Error(
+			`Expected ${size ** 3} table rows, found ${data.length / 3}`,
+		);
+	}
+	if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+		throw new Error("DOMAIN_MIN must be below DOMAIN_MAX");
+	}
+
+	return { title, size, data, domainMin, domainMax };
+}
+
+function parseTriplet({
+	values,
+	line,
+}: {
+	values: string[];
+	line: string;
+}): [number, number, number] {
+	const numbers = values.map(Number);
+	if (
+		numbers.length !== 3 ||
+		numbers.some((value) => !Number.isFinite(value))
+	) {
+		throw new Error(`Invalid line in LUT: ${line}`);
+	}
+	return [numbers[0], numbers[1], numbers[2]];
+}
@@ -0,0 +1,236 @@
+import type { ColorFilter, LutFilter } from "@/types/color";
+import {
+	VIGNETTE_START,
+	WHITE_BALANCE_STRENGTH,
+} from "@/constants/color-constants";
+
+// rec. 709 luma weights
+const LUMA = { r: 0.2126, g: 0.7152, b: 0.0722 };
+
+// one step of the stack, working in place on 0-1 rgb at a 0-1 position in the frame
+type ColorStage = (rgb: Float32Array, u: number, v: number) => void;
+
+const lutTables = new WeakMap<number[], Float32Array>();
+
+export function isColorFilterActive(filter: ColorFilter): boolean {
+	if (filter.enabled === false) return false;
+	return filter.amount !== 0;
+}
+
+export function hasActiveColorFilters({
+	filters,
+}: {
+	filters: ColorFilter[] | undefined;
+}): boolean {
+	return filters?.some(isColorFilterActive) ?? false;
+}
+
+/**
+ * Run a filter stack over a frame in place, in stack order. Every stage clamps
+ * to the displayable range, so each filter sees what the previous one would
+ * have shown on screen.
+ */
+export function applyColorFilters({
+	imageData,
+	filters,
+}: {
+	imageData: ImageData;
+	filters: ColorFilter[];
+}): void {
+	const stages = filters.filter(isColorFilterActive).map(compileFilter);
+	if (stages.length === 0) return;
+
+	const { data, width, height } = imageData;
+	const rgb = new Float32Array(3);
+
+	for (let y = 0; y < height; y++) {
+		const v = height > 1 ? y / (height - 1) : 0.5;
+		for (let x = 0; x < width; x++) {
+			const u = width > 1 ? x / (width - 1) : 0.5;
+			const index = (y * width + x) * 4;
+			rgb[0] = data[index] / 255;
+			rgb[1] = data[index + 1] / 255;
+			rgb[2] = data[index + 2] / 255;
+
+			for (const stage of stages) {
+				stage(rgb, u, v);
+				rgb[0] = clampUnit(rgb[0]);
+				rgb[1] = clampUnit(rgb[1]);
+				rgb[2] = clampUnit(rgb[2]);
+			}
+
+			data[index] = rgb[0] * 255;
+			data[index + 1] = rgb[1] * 255;
+			data[index + 2] = rgb[2] * 255;
+		}
+	}
+}
+
+function compileFilter(filter: ColorFilter): ColorStage {
+	switch (filter.type) {
+		case "brightness": {
+			const offset = filter.amount;
+			return (rgb) => {
+				rgb[0] += offset;
+				rgb[1] += offset;
+				rgb[2] += offset;
+			};
+		}
+		case "contrast": {
+			const factor = 1 + filter.amount;
+			return (rgb) => {
+				rgb[0] = (rgb[0] - 0.5) * factor + 0.5;
+				rgb[1] = (rgb[1] - 0.5) * factor + 0.5;
+				rgb[2] = (rgb[2] - 0.5) * factor + 0.5;
+			};
+		}
+		case "exposure": {
+			const gain = 2 ** filter.amount;
+			return (rgb) => {
+				rgb[0] *= gain;
+				rgb[1] *= gain;
+				rgb[2] *= gain;
+			};
+		}
+		case "saturation": {
+			const factor = 1 + filter.amount;
+			return (rgb) => {
+				const luma = LUMA.r * rgb[0] + LUMA.g * rgb[1] + LUMA.b * rgb[2];
+				rgb[0] = luma + (rgb[0] - luma) * factor;
+				rgb[1] = luma + (rgb[1] - luma) * factor;
+				rgb[2] = luma + (rgb[2] - luma) * factor;
+			};
+		}
+		case "temperature": {
+			// warmer pushes red up and blue down
+			const shift = filter.amount * WHITE_BALANCE_STRENGTH;
+			return (rgb) => {
+				rgb[0] += shift;
+				rgb[2] -= shift;
+			};
+		}
+		case "tint": {
+			// positive tint goes magenta, negative goes green
+			const shift = filter.amount * WHITE_BALANCE_STRENGTH;
+			return (rgb) => {
+				rgb[1] -= shift;
+			};
+		}
+		case "hue":
+			return compileHueRotation({ degrees: filter.amount });
+		case "vignette": {
+			const strength = filter.amount;
+			const maxDistance = Math.SQRT1_2;
+			return (rgb, u, v) => {
+				const distance = Math.hypot(u - 0.5, v - 0.5) / maxDistance;
+				const factor = 1 - strength * smoothstep(VIGNETTE_START, 1, distance);
+				rgb[0] *= factor;
+				rgb[1] *= factor;
+				rgb[2] *= factor;
+			};
+		}
+		case "lut":
+			return compileLut({ filter });
+	}
+}
+
+// same matrix as the css hue-rotate() filter
+function compileHueRotation({ degrees }: { degrees: number }): ColorStage {
+	const radians = (degrees * Math.PI) / 180;
+	const cos = Math.cos(radians);
+	const sin = Math.sin(radians);
+	const m = [
+		0.213 + cos * 0.787 - sin * 0.213,
+		0.715 - cos * 0.715 - sin * 0.715,
+		0.072 - cos * 0.072 + sin * 0.928,
+		0.213 - cos * 0.213 + sin * 0.143,
+		0.715 + cos * 0.285 + sin * 0.14,
+		0.072 - cos * 0.072 - sin * 0.283,
+		0.213 - cos * 0.213 - sin * 0.787,
+		0.715 - cos * 0.715 + sin * 0.715,
+		0.072 + cos * 0.928 + sin * 0.072,
+	];
+
+	return (rgb) => {
+		const [r, g, b] = rgb;
+		rgb[0] = m[0] * r + m[1] * g + m[2] * b;
+		rgb[1] = m[3] * r + m[4] * g + m[5] * b;
+		rgb[2] = m[6] * r + m[7] * g + m[8] * b;
+	};
+}
+
+// trilinear lookup, mixed with the input by the filter amount
+function compileLut({ filter }: { filter: LutFilter }): ColorStage {
+	const { size, domainMin, domainMax } = filter;
+	const amount = Math.min(1, Math.max(0, filter.amount));
+	const table = getLutTable({ data: filter.data });
+	const last = size - 1;
+	const graded = new Float32Array(3);
+
+	const coordinate = (value: number, channel: number) =>
+		clampUnit(
+			(value - domainMin[channel]) / (domainMax[channel] - domainMin[channel]),
+		) * last;
+
+	const index = (ri: number, gi: number, bi: number) =>
+		((bi * size + gi) * size + ri) * 3;
+
+	return (rgb) => {
+		const r = coordinate(rgb[0], 0);
+		const g = coordinate(rgb[1], 1);
+		const b = coordinate(rgb[2], 2);
+		const r0 = Math.floor(r);
+		const g0 = Math.floor(g);
+		const b0 = Math.floor(b);
+		const r1 = Math.min(r0 + 1, last);
+		const g1 = Math.min(g0 + 1, last);
+		const b1 = Math.min(b0 + 1, last);
+		const fr = r - r0;
+		const fg = g - g0;
+		const fb = b - b0;
+
+		const i000 = index(r0, g0, b0);
+		const i100 = index(r1, g0, b0);
+		const i010 = index(r0, g1, b0);
+		const i110 = index(r1, g1, b0);
+		const i001 = index(r0, g0, b1);
+		const i101 = index(r1, g0, b1);
+		const i011 = index(r0, g1, b1);
+		const i111 = index(r1, g1, b1);
+
+		for (let channel = 0; channel < 3; channel++) {
+			const c00 = lerp(table[i000 + channel], table[i100 + channel], fr);
+			const c10 = lerp(table[i010 + channel], table[i110 + channel], fr);
+			const c01 = lerp(table[i001 + channel], table[i101 + channel], fr);
+			const c11 = lerp(table[i011 + channel], table[i111 + channel], fr);
+			graded[channel] = lerp(lerp(c00, c10, fg), lerp(c01, c11, fg), fb);
+		}
+
+		rgb[0] = lerp(rgb[0], graded[0], amount);
+		rgb[1] = lerp(rgb[1], graded[1], amount);
+		rgb[2] = lerp(rgb[2], graded[2], amount);
+	};
+}
+
+// tables are stored as plain arrays so they serialize, lookups want typed ones
+function getLutTable({ data }: { data: number[] }): Float32Array {
+	let table = lutTables.get(data);
+	if (!table) {
+		table = Float32Array.from(data);
+		lutTables.set(data, table);
+	}
+	return table;
+}
+
+function clampUnit(value: number): number {
+	return value < 0 ? 0 : value > 1 ? 1 : value;
+}
+
+function lerp(from: number, to: number, t: number): number {
+	return from + (to - from) * t;
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+	const t = clampUnit((value - edge0) / (edge1 - edge0));
+	return t * t * (3 - 2 * t);
+}
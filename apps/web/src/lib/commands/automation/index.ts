@@ -3,3 +3,4 @@ export * from "./update-automation-state";
 export * from "./delete-automation-state";
 export * from "./add-automation-marker";
 export * from "./remove-automation-marker";
+export * from "./update-automation-marker-ramp";
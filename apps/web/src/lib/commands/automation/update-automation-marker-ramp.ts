@@ -0,0 +1,30 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { AutomationRamp } from "@/types/automation";
+
+export class UpdateAutomationMarkerRampCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(
+		private markerId: string,
+		private ramp: AutomationRamp | undefined,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		editor.automation.updatePointMarkerRamp(this.markerId, this.ramp);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
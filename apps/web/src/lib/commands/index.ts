@@ -7,3 +7,4 @@ export * from "./project";
 export * from "./automation";
 export * from "./oneshot";
 export * from "./sidechain";
+export * from "./transition";
@@ -0,0 +1,32 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { CreateOneshotGroupInput } from "@/types/oneshot";
+
+export class CreateOneshotGroupCommand extends Command {
+	private groupId: string | null = null;
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private data: CreateOneshotGroupInput) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		this.groupId = editor.oneshot.createGroup(this.data);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+
+	getGroupId(): string | null {
+		return this.groupId;
+	}
+}
@@ -0,0 +1,31 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+
+export class CreateOneshotMarkersCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(
+		private oneshotId: string,
+		private times: number[],
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		editor.oneshot.addMarkers(
+			this.times.map((time) => ({ oneshotId: this.oneshotId, time })),
+		);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
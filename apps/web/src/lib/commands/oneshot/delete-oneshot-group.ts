@@ -0,0 +1,26 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+
+export class DeleteOneshotGroupCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private groupId: string) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		editor.oneshot.deleteGroup(this.groupId);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
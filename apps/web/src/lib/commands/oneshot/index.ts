@@ -2,4 +2,8 @@ export * from "./create-oneshot";
 export * from "./update-oneshot";
 export * from "./delete-oneshot";
 export * from "./create-oneshot-marker";
+export * from "./create-oneshot-markers";
 export * from "./delete-oneshot-marker";
+export * from "./create-oneshot-group";
+export * from "./update-oneshot-group";
+export * from "./delete-oneshot-group";
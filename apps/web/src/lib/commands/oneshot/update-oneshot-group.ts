@@ -0,0 +1,30 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { UpdateOneshotGroupInput } from "@/types/oneshot";
+
+export class UpdateOneshotGroupCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(
+		private groupId: string,
+		private updates: UpdateOneshotGroupInput,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		editor.oneshot.updateGroup(this.groupId, this.updates);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
@@ -0,0 +1,48 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import { updateSceneInArray } from "@/lib/scenes";
+import { addBookmarksToArray, getFrameTime } from "@/lib/timeline/bookmarks";
+
+export class AddBookmarksCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private times: number[]) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const activeScene = editor.scenes.getActiveScene();
+		const activeProject = editor.project.getActive();
+
+		if (!activeScene || !activeProject) {
+			return;
+		}
+
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		const updatedBookmarks = addBookmarksToArray({
+			bookmarks: activeScene.bookmarks,
+			frameTimes: this.times.map((time) =>
+				getFrameTime({ time, fps: activeProject.settings.fps }),
+			),
+		});
+
+		const updatedScenes = updateSceneInArray({
+			scenes,
+			sceneId: activeScene.id,
+			updates: { bookmarks: updatedBookmarks },
+		});
+
+		editor.scenes.setScenes({ scenes: updatedScenes });
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
@@ -1,7 +1,11 @@
 import { Command } from "@/lib/commands/base-command";
 import { EditorCore } from "@/core";
 import type { TScene } from "@/types/timeline";
-import { canDeleteScene, getFallbackSceneAfterDelete } from "@/lib/scenes";
+import {
+	canDeleteScene,
+	getFallbackSceneAfterDelete,
+	removeSceneReferences,
+} from "@/lib/scenes";
 
 export class DeleteSceneCommand extends Command {
 	private savedScenes: TScene[] | null = null;
@@ -33,7 +37,10 @@ export class DeleteSceneCommand extends Command {
 			return;
 		}
 
-		const updatedScenes = scenes.filter((s) => s.id !== this.sceneId);
+		const updatedScenes = removeSceneReferences({
+			scenes: scenes.filter((s) => s.id !== this.sceneId),
+			sceneId: this.sceneId,
+		});
 
 		const newActiveScene = getFallbackSceneAfterDelete({
 			scenes: updatedScenes,
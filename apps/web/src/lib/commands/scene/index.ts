@@ -2,4 +2,6 @@ export { CreateSceneCommand } from "./create-scene";
 export { DeleteSceneCommand } from "./delete-scene";
 export { RenameSceneCommand } from "./rename-scene";
 export { ToggleBookmarkCommand } from "./toggle-bookmark";
+export { AddBookmarksCommand } from "./add-bookmarks";
 export { RemoveBookmarkCommand } from "./remove-bookmark";
+export { SetBeatGridCommand } from "./set-beat-grid";
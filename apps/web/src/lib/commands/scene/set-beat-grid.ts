@@ -0,0 +1,41 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { BeatGrid } from "@/types/beat-grid";
+import { updateSceneInArray } from "@/lib/scenes";
+
+// null removes the grid from the scene
+export class SetBeatGridCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private beatGrid: BeatGrid | null) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const activeScene = editor.scenes.getActiveScene();
+
+		if (!activeScene) {
+			return;
+		}
+
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		const updatedScenes = updateSceneInArray({
+			scenes,
+			sceneId: activeScene.id,
+			updates: { beatGrid: this.beatGrid ?? undefined },
+		});
+
+		editor.scenes.setScenes({ scenes: updatedScenes });
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
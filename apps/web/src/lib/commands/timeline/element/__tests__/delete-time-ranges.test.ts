@@ -0,0 +1,366 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { EditorCore } from "@/core";
+import {
+	DEFAULT_CANVAS_SIZE,
+	DEFAULT_COLOR,
+	DEFAULT_FPS,
+} from "@/constants/project-constants";
+import { DeleteTimeRangesCommand } from "../delete-time-ranges";
+import type {
+	AudioElement,
+	AudioTrack,
+	TimelineTrack,
+	TScene,
+	VideoElement,
+	VideoTrack,
+} from "@/types/timeline";
+
+const createdAt = new Date(0);
+
+function videoClip(): VideoElement {
+	return {
+		id: "video",
+		name: "video",
+		type: "video",
+		mediaId: "interview",
+		startTime: 0,
+		duration: 10,
+		trimStart: 0,
+		trimEnd: 0,
+		transform: { scale: 1, position: { x: 0, y: 0 }, rotate: 0 },
+		opacity: 1,
+	};
+}
+
+function audioClip({
+	id,
+	mediaId,
+	startTime,
+	duration,
+	trimStart = 0,
+}: {
+	id: string;
+	mediaId: string;
+	startTime: number;
+	duration: number;
+	trimStart?: number;
+}): AudioElement {
+	return {
+		id,
+		name: id,
+		type: "audio",
+		sourceType: "upload",
+		mediaId,
+		volume: 1,
+		startTime,
+		duration,
+		trimStart,
+		trimEnd: 0,
+	};
+}
+
+function mainTrack(): VideoTrack {
+	return {
+		id: "main",
+		name: "Main",
+		type: "video",
+		isMain: true,
+		muted: false,
+		hidden: false,
+		elements: [videoClip()],
+	};
+}
+
+function audioTrack({
+	id,
+	elements,
+}: {
+	id: string;
+	elements: AudioElement[];
+}): AudioTrack {
+	return { id, name: id, type: "audio", muted: false, elements };
+}
+
+function loadTracks(tracks: TimelineTrack[]): EditorCore {
+	const editor = EditorCore.getInstance();
+	const scene: TScene = {
+		id: "scene",
+		name: "Scene",
+		isMain: true,
+		tracks,
+		bookmarks: [],
+		createdAt,
+		updatedAt: createdAt,
+	};
+	editor.project.setActiveProject({
+		project: {
+			metadata: {
+				id: "project",
+				name: "Project",
+				duration: 0,
+				createdAt,
+				updatedAt: createdAt,
+			},
+			scenes: [scene],
+			currentSceneId: scene.id,
+			settings: {
+				fps: DEFAULT_FPS,
+				canvasSize: DEFAULT_CANVAS_SIZE,
+				background: { type: "color", color: DEFAULT_COLOR },
+			},
+			version: 1,
+		},
+	});
+	editor.scenes.setScenes({ scenes: [scene], activeSceneId: scene.id });
+	return editor;
+}
+
+// start, duration and trimStart of every clip on a track, in timeline order
+function getLayout({
+	editor,
+	trackId,
+}: {
+	editor: EditorCore;
+	trackId: string;
+}): [number, number, number][] {
+	const track = editor.timeline.getTrackById({ trackId });
+	return (track?.elements ?? [])
+		.map((element): [number, number, number] => [
+			element.startTime,
+			element.duration,
+			element.trimStart,
+		])
+		.sort((a, b) => a[0] - b[0]);
+}
+
+describe("DeleteTimeRangesCommand", () => {
+	let editor: EditorCore;
+
+	beforeEach(() => {
+		editor = loadTracks([mainTrack()]);
+		editor.selection.setSelectedElements({ elements: [] });
+	});
+
+	test("cuts several spans out of one clip and closes the gaps", () => {
+		new DeleteTimeRangesCommand(
+			[
+				{ trackId: "main", elementId: "video", start: 2, end: 3 },
+				{ trackId: "main", elementId: "video", start: 5, end: 7 },
+			],
+			{ allTracks: false },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "main" })).toEqual([
+			[0, 2, 0],
+			[2, 2, 3],
+			[4, 3, 7],
+		]);
+	});
+
+	test("leaves gaps without a ripple", () => {
+		new DeleteTimeRangesCommand([
+			{ trackId: "main", elementId: "video", start: 0, end: 1 },
+			{ trackId: "main", elementId: "video", start: 8, end: 10 },
+		]).execute();
+
+		expect(getLayout({ editor, trackId: "main" })).toEqual([[1, 7, 1]]);
+	});
+
+	test("undoes every cut in one step", () => {
+		const tracks = [
+			mainTrack(),
+			audioTrack({
+				id: "voice",
+				elements: [
+					audioClip({
+						id: "voice",
+						mediaId: "interview",
+						startTime: 0,
+						duration: 10,
+					}),
+				],
+			}),
+		];
+		editor = loadTracks(tracks);
+		const selection = [{ trackId: "main", elementId: "video" }];
+		editor.selection.setSelectedElements({ elements: selection });
+
+		const command = new DeleteTimeRangesCommand(
+			[
+				{ trackId: "main", elementId: "video", start: 1, end: 2 },
+				{ trackId: "main", elementId: "video", start: 4, end: 6 },
+			],
+			{ allTracks: false },
+		);
+		command.execute();
+		command.undo();
+
+		expect(editor.timeline.getTracks()).toEqual(tracks);
+		expect(editor.selection.getSelectedElements()).toEqual(selection);
+	});
+
+	test("keeps what's left of the selected clip selected", () => {
+		editor.selection.setSelectedElements({
+			elements: [{ trackId: "main", elementId: "video" }],
+		});
+		new DeleteTimeRangesCommand(
+			[{ trackId: "main", elementId: "video", start: 4, end: 6 }],
+			{ allTracks: false },
+		).execute();
+
+		const selected = editor.selection.getSelectedElements();
+		expect(selected).toHaveLength(2);
+		expect(selected.every((element) => element.trackId === "main")).toBe(true);
+	});
+
+	test("cuts and ripples linked audio on its own track", () => {
+		editor = loadTracks([
+			mainTrack(),
+			audioTrack({
+				id: "voice",
+				elements: [
+					audioClip({
+						id: "voice",
+						mediaId: "interview",
+						startTime: 0,
+						duration: 10,
+					}),
+				],
+			}),
+			audioTrack({
+				id: "music",
+				elements: [
+					audioClip({
+						id: "music",
+						mediaId: "song",
+						startTime: 8,
+						duration: 4,
+					}),
+				],
+			}),
+		]);
+
+		new DeleteTimeRangesCommand(
+			[
+				{ trackId: "main", elementId: "video", start: 2, end: 3 },
+				{ trackId: "main", elementId: "video", start: 5, end: 7 },
+			],
+			{ allTracks: false },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "voice" })).toEqual(
+			getLayout({ editor, trackId: "main" }),
+		);
+		expect(getLayout({ editor, trackId: "music" })).toEqual([[8, 4, 0]]);
+	});
+
+	test("cuts a video and its selected audio only once", () => {
+		editor = loadTracks([
+			mainTrack(),
+			audioTrack({
+				id: "voice",
+				elements: [
+					audioClip({
+						id: "voice",
+						mediaId: "interview",
+						startTime: 0,
+						duration: 10,
+					}),
+				],
+			}),
+		]);
+
+		new DeleteTimeRangesCommand(
+			[
+				{ trackId: "main", elementId: "video", start: 2, end: 4 },
+				{ trackId: "voice", elementId: "voice", start: 2, end: 4 },
+			],
+			{ allTracks: false },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "main" })).toEqual([
+			[0, 2, 0],
+			[2, 6, 4],
+		]);
+		expect(getLayout({ editor, trackId: "voice" })).toEqual(
+			getLayout({ editor, trackId: "main" }),
+		);
+	});
+
+	test("closes the gap on a clip off the main track", () => {
+		editor = loadTracks([
+			mainTrack(),
+			audioTrack({
+				id: "narration",
+				elements: [
+					audioClip({
+						id: "narration",
+						mediaId: "narration",
+						startTime: 0,
+						duration: 10,
+					}),
+				],
+			}),
+		]);
+
+		new DeleteTimeRangesCommand(
+			[{ trackId: "narration", elementId: "narration", start: 2, end: 4 }],
+			{ allTracks: false },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "narration" })).toEqual([
+			[0, 2, 0],
+			[2, 6, 4],
+		]);
+		expect(getLayout({ editor, trackId: "main" })).toEqual([[0, 10, 0]]);
+	});
+
+	test("ripples every track when asked", () => {
+		editor = loadTracks([
+			mainTrack(),
+			audioTrack({
+				id: "music",
+				elements: [
+					audioClip({
+						id: "music",
+						mediaId: "song",
+						startTime: 8,
+						duration: 4,
+					}),
+				],
+			}),
+		]);
+
+		new DeleteTimeRangesCommand(
+			[{ trackId: "main", elementId: "video", start: 2, end: 5 }],
+			{ allTracks: true },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "music" })).toEqual([[5, 4, 0]]);
+	});
+
+	test("leaves the same media alone when it plays out of step", () => {
+		editor = loadTracks([
+			mainTrack(),
+			audioTrack({
+				id: "voice",
+				elements: [
+					audioClip({
+						id: "voice",
+						mediaId: "interview",
+						startTime: 0,
+						duration: 10,
+						trimStart: 1,
+					}),
+				],
+			}),
+		]);
+
+		new DeleteTimeRangesCommand(
+			[{ trackId: "main", elementId: "video", start: 2, end: 3 }],
+			{ allTracks: false },
+		).execute();
+
+		expect(getLayout({ editor, trackId: "voice" })).toEqual([[0, 10, 1]]);
+	});
+});
@@ -0,0 +1,50 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack, TScene } from "@/types/timeline";
+import { EditorCore } from "@/core";
+import {
+	type RippleOptions,
+	getMainTrackGapEdits,
+	rippleTracks,
+} from "@/lib/timeline/ripple";
+import { rippleActiveSceneMarkers } from "./ripple-markers";
+
+export class CloseGapsCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private options: RippleOptions) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+		this.savedScenes = null;
+
+		const edits = getMainTrackGapEdits({ tracks: this.savedState });
+		if (edits.length === 0) {
+			return;
+		}
+
+		const updatedTracks = rippleTracks({
+			tracks: this.savedState,
+			edits,
+			allTracks: this.options.allTracks,
+		});
+		if (this.options.allTracks) {
+			this.savedScenes = rippleActiveSceneMarkers({ edits });
+		}
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			if (this.savedScenes) {
+				editor.scenes.setScenes({ scenes: this.savedScenes });
+			}
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
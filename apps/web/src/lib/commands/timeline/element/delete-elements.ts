@@ -1,20 +1,42 @@
 import { Command } from "@/lib/commands/base-command";
-import type { TimelineTrack } from "@/types/timeline";
+import type { TimelineTrack, TScene } from "@/types/timeline";
 import { EditorCore } from "@/core";
 import { isMainTrack } from "@/lib/timeline";
+import {
+	type RippleOptions,
+	getRemovalEdits,
+	rippleTracks,
+} from "@/lib/timeline/ripple";
+import { rippleActiveSceneMarkers } from "./ripple-markers";
 
 export class DeleteElementsCommand extends Command {
 	private savedState: TimelineTrack[] | null = null;
+	private savedScenes: TScene[] | null = null;
 
-	constructor(private elements: { trackId: string; elementId: string }[]) {
+	constructor(
+		private elements: { trackId: string; elementId: string }[],
+		private ripple?: RippleOptions,
+	) {
 		super();
 	}
 
 	execute(): void {
 		const editor = EditorCore.getInstance();
 		this.savedState = editor.timeline.getTracks();
+		this.savedScenes = null;
 
-		const updatedTracks = this.savedState
+		const isDeleted = ({
+			trackId,
+			elementId,
+		}: {
+			trackId: string;
+			elementId: string;
+		}) =>
+			this.elements.some(
+				(el) => el.trackId === trackId && el.elementId === elementId,
+			);
+
+		let updatedTracks = this.savedState
 			.map((track) => {
 				const hasElementsToDelete = this.elements.some(
 					(el) => el.trackId === track.id,
@@ -28,20 +50,56 @@ export class DeleteElementsCommand extends Command {
 					...track,
 					elements: track.elements.filter(
 						(element) =>
-							!this.elements.some(
-								(el) => el.trackId === track.id && el.elementId === element.id,
-							),
+							!isDeleted({ trackId: track.id, elementId: element.id }),
 					),
 				} as typeof track;
 			})
 			.filter((track) => track.elements.length > 0 || isMainTrack(track));
 
+		if (this.ripple) {
+			const { trackIds = [] } = this.ripple;
+			// gaps close on the main track and on the tracks moving with it
+			const getDeletedElements = (track: TimelineTrack) =>
+				track.elements.filter((element) =>
+					isDeleted({ trackId: track.id, elementId: element.id }),
+				);
+			const edits = getRemovalEdits({
+				spans: this.savedState
+					.filter((track) => isMainTrack(track) || trackIds.includes(track.id))
+					.flatMap(getDeletedElements)
+					.map((element) => ({
+						start: element.startTime,
+						end: element.startTime + element.duration,
+					})),
+			});
+			// a main track that lost nothing has no gap, and would overlap itself
+			const mainTrack = this.savedState.find((track) => isMainTrack(track));
+			const keptMainElements =
+				mainTrack && getDeletedElements(mainTrack).length === 0
+					? mainTrack.elements.map((element) => element.id)
+					: [];
+
+			updatedTracks = rippleTracks({
+				tracks: updatedTracks,
+				edits,
+				allTracks: this.ripple.allTracks,
+				trackIds,
+				excludeElementIds: keptMainElements,
+			});
+			if (this.ripple.allTracks) {
+				this.savedScenes = rippleActiveSceneMarkers({ edits });
+			}
+		}
+
 		editor.timeline.updateTracks(updatedTracks);
 	}
 
 	undo(): void {
 		if (this.savedState) {
 			const editor = EditorCore.getInstance();
+			if (this.savedScenes) {
+				editor.scenes.setScenes({ scenes: this.savedScenes });
+			}
 			editor.timeline.updateTracks(this.savedState);
 		}
 	}
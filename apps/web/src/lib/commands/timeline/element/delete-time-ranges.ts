@@ -0,0 +1,191 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import {
+	canElementHaveAudio,
+	getClipSourceTime,
+	hasMediaId,
+} from "@/lib/timeline";
+import type { RippleOptions } from "@/lib/timeline/ripple";
+import type { TimelineTrack } from "@/types/timeline";
+import { DeleteElementsCommand } from "./delete-elements";
+import { SplitElementsCommand } from "./split-elements";
+
+type ElementRef = { trackId: string; elementId: string };
+type TimeRange = ElementRef & { start: number; end: number };
+
+// how far apart two clips can play the same source and still count as linked
+const LINKED_SOURCE_TOLERANCE = 0.001; // seconds
+
+// cuts spans out of clips, splitting at both ends, as a single undo step
+export class DeleteTimeRangesCommand extends Command {
+	private executed: Command[] = [];
+	private previousSelection: ElementRef[] = [];
+
+	constructor(
+		private ranges: TimeRange[],
+		private ripple?: RippleOptions,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.previousSelection = editor.selection.getSelectedElements();
+		this.executed = [];
+
+		const run = <T extends Command>(command: T): T => {
+			command.execute();
+			this.executed.push(command);
+			return command;
+		};
+
+		const pieces: ElementRef[] = [];
+		const deletedIds = new Set<string>();
+		// spans already cut along with another clip, like a selected video's audio
+		const linkedCuts = new Set<string>();
+		// latest first, so a ripple never moves a span still to be cut
+		for (const range of [...this.ranges].sort((a, b) => b.start - a.start)) {
+			if (linkedCuts.has(getRangeKey(range))) continue;
+
+			// the left piece keeps the id, which earlier spans of the clip target
+			const target = { trackId: range.trackId, elementId: range.elementId };
+			// the same span goes from linked clips, or they'd drift out of sync
+			const linked = getLinkedClips({
+				tracks: editor.timeline.getTracks(),
+				range,
+			});
+
+			const removed: ElementRef[] = [];
+			for (const clip of [target, ...linked]) {
+				const endSplit = run(new SplitElementsCommand([clip], range.end));
+				const endPieces = endSplit.getRightSideElements();
+				pieces.push(...endPieces);
+				const startSplit = run(new SplitElementsCommand([clip], range.start));
+				const [piece] = startSplit.getRightSideElements();
+				if (piece) {
+					removed.push(piece);
+					continue;
+				}
+				// nothing splits off when the span starts with the clip, which then
+				// goes whole, but only if the span reaches its end too
+				if (
+					isClipInRange({
+						editor,
+						clip,
+						range,
+						endSplit: endPieces.length > 0,
+					})
+				) {
+					removed.push(clip);
+				}
+			}
+			for (const clip of linked) {
+				linkedCuts.add(getRangeKey({ ...range, ...clip }));
+			}
+			if (removed.length === 0) continue;
+
+			run(
+				new DeleteElementsCommand(
+					removed,
+					this.ripple && {
+						...this.ripple,
+						trackIds: removed.map((piece) => piece.trackId),
+					},
+				),
+			);
+			for (const piece of removed) deletedIds.add(piece.elementId);
+		}
+
+		// what's left of the selected clips stays selected
+		const remaining = [...this.previousSelection, ...pieces].filter(
+			(element) =>
+				!deletedIds.has(element.elementId) &&
+				editor.timeline
+					.getTrackById({ trackId: element.trackId })
+					?.elements.some((candidate) => candidate.id === element.elementId),
+		);
+		editor.selection.setSelectedElements({ elements: remaining });
+	}
+
+	undo(): void {
+		for (const command of [...this.executed].reverse()) {
+			command.undo();
+		}
+		EditorCore.getInstance().selection.setSelectedElements({
+			elements: this.previousSelection,
+		});
+	}
+}
+
+function getRangeKey({ trackId, elementId, start, end }: TimeRange): string {
+	return `${trackId}:${elementId}:${start}:${end}`;
+}
+
+function isClipInRange({
+	editor,
+	clip,
+	range,
+	endSplit,
+}: {
+	editor: EditorCore;
+	clip: ElementRef;
+	range: TimeRange;
+	// a split at the range's end leaves the clip ending exactly there
+	endSplit: boolean;
+}): boolean {
+	const element = editor.timeline
+		.getTrackById({ trackId: clip.trackId })
+		?.elements.find((candidate) => candidate.id === clip.elementId);
+	if (!element || element.startTime < range.start) return false;
+	return endSplit || element.startTime + element.duration <= range.end;
+}
+
+/**
+ * Clips on other tracks that play the same media in step with the range's
+ * clip where they overlap it, like a video's audio placed on its own track.
+ */
+function getLinkedClips({
+	tracks,
+	range,
+}: {
+	tracks: TimelineTrack[];
+	range: TimeRange;
+}): ElementRef[] {
+	const clip = tracks
+		.find((track) => track.id === range.trackId)
+		?.elements.find((element) => element.id === range.elementId);
+	if (!clip || !canElementHaveAudio(clip) || !hasMediaId(clip)) return [];
+
+	const linked: ElementRef[] = [];
+	for (const track of tracks) {
+		if (track.id === range.trackId) continue;
+		for (const element of track.elements) {
+			if (
+				!canElementHaveAudio(element) ||
+				!hasMediaId(element) ||
+				element.mediaId !== clip.mediaId ||
+				(element.speed ?? 1) !== (clip.speed ?? 1) ||
+				Boolean(element.reversed) !== Boolean(clip.reversed)
+			) {
+				continue;
+			}
+
+			const start = Math.max(range.start, element.startTime);
+			const end = Math.min(range.end, element.startTime + element.duration);
+			if (end <= start) continue;
+
+			const sourceTime = getClipSourceTime({
+				clip,
+				offset: start - clip.startTime,
+			});
+			const elementSourceTime = getClipSourceTime({
+				clip: element,
+				offset: start - element.startTime,
+			});
+			if (Math.abs(sourceTime - elementSourceTime) <= LINKED_SOURCE_TOLERANCE) {
+				linked.push({ trackId: track.id, elementId: element.id });
+			}
+		}
+	}
+	return linked;
+}
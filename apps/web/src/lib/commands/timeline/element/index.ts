@@ -5,8 +5,19 @@ export { UpdateElementTrimCommand } from "./update-element-trim";
 export { UpdateElementDurationCommand } from "./update-element-duration";
 export { UpdateElementStartTimeCommand } from "./update-element-start-time";
 export { SplitElementsCommand } from "./split-elements";
+export { SplitElementAtTimesCommand } from "./split-element-at-times";
+export { DeleteTimeRangesCommand } from "./delete-time-ranges";
 export { UpdateTextElementCommand } from "./update-text-element";
+export { UpdateAudioElementCommand } from "./update-audio-element";
+export { UpdateMediaElementCommand } from "./update-media-element";
+export { UpdateElementSpeedCommand } from "./update-element-speed";
+export { UpdateElementTransformCommand } from "./update-element-transform";
 export { ToggleElementsVisibilityCommand } from "./toggle-elements-visibility";
 export { ToggleElementsMutedCommand } from "./toggle-elements-muted";
 export { ToggleAudioLoopCommand } from "./toggle-audio-loop";
 export { MoveElementCommand } from "./move-elements";
+export { CloseGapsCommand } from "./close-gaps";
+export { AddKeyframesCommand } from "./add-keyframes";
+export { MoveKeyframesCommand } from "./move-keyframes";
+export { RemoveKeyframesCommand } from "./remove-keyframes";
+export { UpdateKeyframeEasingCommand } from "./update-keyframe-easing";
@@ -303,7 +303,11 @@ export class InsertElementCommand extends Command {
 	}: {
 		element: { type: ElementType };
 	}): TrackType {
-		if (element.type === "video" || element.type === "image") {
+		if (
+			element.type === "video" ||
+			element.type === "image" ||
+			element.type === "scene"
+		) {
 			return "video";
 		}
 		return element.type;
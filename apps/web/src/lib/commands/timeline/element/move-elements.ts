@@ -4,15 +4,25 @@ import type {
 	TimelineTrack,
 	TimelineElement,
 	TrackType,
+	TScene,
 } from "@/types/timeline";
 import {
 	buildEmptyTrack,
 	isMainTrack,
 	validateElementTrackCompatibility,
 } from "@/lib/timeline/track-utils";
+import {
+	type RippleEdit,
+	type RippleOptions,
+	getMainTrackInsertTime,
+	rippleTime,
+	rippleTracks,
+} from "@/lib/timeline/ripple";
+import { rippleActiveSceneMarkers } from "./ripple-markers";
 
 export class MoveElementCommand extends Command {
 	private savedState: TimelineTrack[] | null = null;
+	private savedScenes: TScene[] | null = null;
 
 	constructor(
 		private sourceTrackId: string,
@@ -20,6 +30,7 @@ export class MoveElementCommand extends Command {
 		private elementId: string,
 		private newStartTime: number,
 		private createTrack?: { type: TrackType; index: number },
+		private ripple?: RippleOptions,
 	) {
 		super();
 	}
@@ -27,6 +38,7 @@ export class MoveElementCommand extends Command {
 	execute(): void {
 		const editor = EditorCore.getInstance();
 		this.savedState = editor.timeline.getTracks();
+		this.savedScenes = null;
 
 		const sourceTrack = this.savedState.find(
 			(t) => t.id === this.sourceTrackId,
@@ -66,9 +78,17 @@ export class MoveElementCommand extends Command {
 			return;
 		}
 
+		const edits = this.ripple
+			? this.getRippleEdits({ sourceTrack, targetTrack, element })
+			: [];
+		// a drop onto the main track always ends with the edit that opens its slot
+		const lastEdit = edits[edits.length - 1];
 		const movedElement: TimelineElement = {
 			...element,
-			startTime: this.newStartTime,
+			startTime:
+				lastEdit && isMainTrack(targetTrack)
+					? lastEdit.time
+					: this.newStartTime,
 		};
 
 		const isSameTrack = this.sourceTrackId === this.targetTrackId;
@@ -115,13 +135,59 @@ export class MoveElementCommand extends Command {
 			}
 		}
 
+		if (this.ripple && edits.length > 0) {
+			updatedTracks = rippleTracks({
+				tracks: updatedTracks,
+				edits,
+				allTracks: this.ripple.allTracks,
+				excludeElementIds: [this.elementId],
+			});
+			if (this.ripple.allTracks) {
+				this.savedScenes = rippleActiveSceneMarkers({ edits });
+			}
+		}
+
 		editor.timeline.updateTracks(updatedTracks);
 	}
 
 	undo(): void {
 		if (this.savedState) {
 			const editor = EditorCore.getInstance();
+			if (this.savedScenes) {
+				editor.scenes.setScenes({ scenes: this.savedScenes });
+			}
 			editor.timeline.updateTracks(this.savedState);
 		}
 	}
+
+	// the main track is magnetic: lifting a clip closes its slot, dropping one
+	// opens a slot at the nearest clip edge
+	private getRippleEdits({
+		sourceTrack,
+		targetTrack,
+		element,
+	}: {
+		sourceTrack: TimelineTrack;
+		targetTrack: TimelineTrack;
+		element: TimelineElement;
+	}): RippleEdit[] {
+		const edits: RippleEdit[] = [];
+		if (isMainTrack(sourceTrack)) {
+			edits.push({ time: element.startTime, delta: -element.duration });
+		}
+		if (isMainTrack(targetTrack)) {
+			const [closedTrack] = rippleTracks({
+				tracks: [targetTrack],
+				edits,
+				allTracks: false,
+			});
+			const insertTime = getMainTrackInsertTime({
+				track: closedTrack,
+				time: rippleTime({ time: this.newStartTime, edits }),
+				excludeElementId: element.id,
+			});
+			edits.push({ time: insertTime, delta: element.duration });
+		}
+		return edits;
+	}
 }
@@ -0,0 +1,53 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack } from "@/types/timeline";
+import type { AnimatableProperty } from "@/types/keyframe";
+import { removeKeyframesAtTime } from "@/lib/keyframes";
+import { EditorCore } from "@/core";
+
+export class RemoveKeyframesCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	/**
+	 * Removes the keyframes at a time, or every keyframe of the element when
+	 * time is null. Limited to the given properties when provided.
+	 */
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private time: number | null,
+		private properties?: AnimatableProperty[],
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const updatedTracks = this.savedState.map((t) => {
+			if (t.id !== this.trackId) return t;
+			const newElements = t.elements.map((el) => {
+				if (el.id !== this.elementId) return el;
+				if (this.time === null) return { ...el, keyframes: {} };
+				return {
+					...el,
+					keyframes: removeKeyframesAtTime({
+						keyframes: el.keyframes,
+						time: this.time,
+						properties: this.properties,
+					}),
+				};
+			});
+			return { ...t, elements: newElements } as typeof t;
+		});
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
@@ -0,0 +1,29 @@
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import { updateSceneInArray } from "@/lib/scenes";
+import { type RippleEdit, rippleSceneMarkers } from "@/lib/timeline/ripple";
+
+/**
+ * Shift the active scene's markers and bookmarks along with a ripple. Returns
+ * the scenes from before the shift so the calling command can restore them on
+ * undo, or null when nothing moved.
+ */
+export function rippleActiveSceneMarkers({
+	edits,
+}: {
+	edits: RippleEdit[];
+}): TScene[] | null {
+	const editor = EditorCore.getInstance();
+	const scene = editor.scenes.getActiveSceneOrNull();
+	if (!scene || edits.length === 0) return null;
+
+	const scenes = editor.scenes.getScenes();
+	editor.scenes.setScenes({
+		scenes: updateSceneInArray({
+			scenes,
+			sceneId: scene.id,
+			updates: rippleSceneMarkers({ scene, edits }),
+		}),
+	});
+	return scenes;
+}
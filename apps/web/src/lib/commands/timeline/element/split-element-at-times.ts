@@ -0,0 +1,49 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack } from "@/types/timeline";
+import { EditorCore } from "@/core";
+import { SplitElementsCommand } from "./split-elements";
+
+// cuts one clip into pieces at every time, as a single undo step
+export class SplitElementAtTimesCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+	private previousSelection: { trackId: string; elementId: string }[] = [];
+
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private times: number[],
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+		this.previousSelection = editor.selection.getSelectedElements();
+
+		// latest cut first, so the left piece keeps the id the next cut targets
+		const pieces: { trackId: string; elementId: string }[] = [];
+		for (const time of [...this.times].sort((a, b) => b - a)) {
+			const split = new SplitElementsCommand(
+				[{ trackId: this.trackId, elementId: this.elementId }],
+				time,
+			);
+			split.execute();
+			pieces.push(...split.getRightSideElements());
+		}
+
+		if (pieces.length > 0) {
+			editor.selection.setSelectedElements({ elements: pieces });
+		}
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+			editor.selection.setSelectedElements({
+				elements: this.previousSelection,
+			});
+		}
+	}
+}
@@ -1,7 +1,8 @@
 import { Command } from "@/lib/commands/base-command";
-import type { TimelineTrack } from "@/types/timeline";
+import type { TimelineElement, TimelineTrack } from "@/types/timeline";
 import { generateUUID } from "@/utils/id";
 import { EditorCore } from "@/core";
+import { getElementSpeed } from "@/lib/timeline";
 
 export class SplitElementsCommand extends Command {
 	private savedState: TimelineTrack[] | null = null;
@@ -59,13 +60,15 @@ export class SplitElementsCommand extends Command {
 					const relativeTime = this.splitTime - element.startTime;
 					const leftVisibleDuration = relativeTime;
 					const rightVisibleDuration = element.duration - relativeTime;
+					// trims are in source seconds, which run at the clip's speed
+					const speed = getElementSpeed(element);
 
 					if (this.retainSide === "left") {
 						return [
 							{
-								...element,
+								...withoutFade({ element, side: "fadeOut" }),
 								duration: leftVisibleDuration,
-								trimEnd: element.trimEnd + rightVisibleDuration,
+								trimEnd: element.trimEnd + rightVisibleDuration * speed,
 								name: `${element.name} (left)`,
 							},
 						];
@@ -79,11 +82,11 @@ export class SplitElementsCommand extends Command {
 						});
 						return [
 							{
-								...element,
+								...withoutFade({ element, side: "fadeIn" }),
 								id: newId,
 								startTime: this.splitTime,
 								duration: rightVisibleDuration,
-								trimStart: element.trimStart + leftVisibleDuration,
+								trimStart: element.trimStart + leftVisibleDuration * speed,
 								name: `${element.name} (right)`,
 							},
 						];
@@ -98,17 +101,17 @@ export class SplitElementsCommand extends Command {
 
 					return [
 						{
-							...element,
+							...withoutFade({ element, side: "fadeOut" }),
 							duration: leftVisibleDuration,
-							trimEnd: element.trimEnd + rightVisibleDuration,
+							trimEnd: element.trimEnd + rightVisibleDuration * speed,
 							name: `${element.name} (left)`,
 						},
 						{
-							...element,
+							...withoutFade({ element, side: "fadeIn" }),
 							id: secondElementId,
 							startTime: this.splitTime,
 							duration: rightVisibleDuration,
-							trimStart: element.trimStart + leftVisibleDuration,
+							trimStart: element.trimStart + leftVisibleDuration * speed,
 							name: `${element.name} (right)`,
 						},
 					];
@@ -131,3 +134,15 @@ export class SplitElementsCommand extends Command {
 		}
 	}
 }
+
+// a fade belongs to the clip edge it sits on, which only one piece keeps
+function withoutFade<T extends TimelineElement>({
+	element,
+	side,
+}: {
+	element: T;
+	side: "fadeIn" | "fadeOut";
+}): T {
+	if (element.type !== "audio" || !element[side]) return element;
+	return { ...element, [side]: undefined };
+}
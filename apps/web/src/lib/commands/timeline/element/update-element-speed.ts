@@ -0,0 +1,59 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack, VideoElement } from "@/types/timeline";
+import { EditorCore } from "@/core";
+import { canElementChangeSpeed, getDurationAtSpeed } from "@/lib/timeline";
+
+export type ElementSpeedUpdates = Partial<
+	Pick<VideoElement, "speed" | "reversed" | "preservePitch">
+>;
+
+/**
+ * Change a clip's speed or direction. The clip keeps playing the same part of
+ * its source, so a new speed rescales its duration and reversing swaps the
+ * trims, which are counted in play order.
+ */
+export class UpdateElementSpeedCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private updates: ElementSpeedUpdates,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const updatedTracks = this.savedState.map((t) => {
+			if (t.id !== this.trackId) return t;
+			const newElements = t.elements.map((el) => {
+				if (el.id !== this.elementId || !canElementChangeSpeed(el)) return el;
+
+				const speed = this.updates.speed ?? el.speed ?? 1;
+				const reversed = this.updates.reversed ?? el.reversed ?? false;
+				const isFlipped = reversed !== (el.reversed ?? false);
+
+				return {
+					...el,
+					...this.updates,
+					duration: getDurationAtSpeed({ element: el, speed }),
+					trimStart: isFlipped ? el.trimEnd : el.trimStart,
+					trimEnd: isFlipped ? el.trimStart : el.trimEnd,
+				};
+			});
+			return { ...t, elements: newElements } as typeof t;
+		});
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
@@ -0,0 +1,92 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack, Transform } from "@/types/timeline";
+import type { AnimatableProperty } from "@/types/keyframe";
+import { hasKeyframes, upsertKeyframes } from "@/lib/keyframes";
+import { EditorCore } from "@/core";
+
+/**
+ * Set an element's transform. Properties that are keyframed get a keyframe at
+ * the given content time, the rest are written to the static transform.
+ *
+ * Pass baseState when the edit was already previewed without history, so undo
+ * returns to the state before the preview started.
+ */
+export class UpdateElementTransformCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private transform: Transform,
+		private time: number,
+		private baseState?: TimelineTrack[],
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const currentTracks = editor.timeline.getTracks();
+		this.savedState = this.baseState ?? currentTracks;
+
+		const values: Record<
+			Exclude<AnimatableProperty, "opacity" | "volume">,
+			number
+		> = {
+			"position.x": this.transform.position.x,
+			"position.y": this.transform.position.y,
+			scale: this.transform.scale,
+			rotate: this.transform.rotate,
+		};
+
+		const updatedTracks = currentTracks.map((t) => {
+			if (t.id !== this.trackId) return t;
+			const newElements = t.elements.map((el) => {
+				if (el.id !== this.elementId || el.type === "audio") return el;
+
+				const animated: Partial<Record<AnimatableProperty, number>> = {};
+				const transform = {
+					...el.transform,
+					position: { ...el.transform.position },
+				};
+				for (const [property, value] of Object.entries(values) as [
+					keyof typeof values,
+					number,
+				][]) {
+					if (hasKeyframes({ keyframes: el.keyframes, property })) {
+						animated[property] = value;
+					} else if (property === "position.x") {
+						transform.position.x = value;
+					} else if (property === "position.y") {
+						transform.position.y = value;
+					} else {
+						transform[property] = value;
+					}
+				}
+
+				return {
+					...el,
+					transform,
+					keyframes:
+						Object.keys(animated).length > 0
+							? upsertKeyframes({
+									keyframes: el.keyframes,
+									time: this.time,
+									values: animated,
+								})
+							: el.keyframes,
+				};
+			});
+			return { ...t, elements: newElements } as typeof t;
+		});
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
@@ -1,9 +1,17 @@
 import { Command } from "@/lib/commands/base-command";
-import type { TimelineTrack } from "@/types/timeline";
+import type { TimelineTrack, TScene } from "@/types/timeline";
 import { EditorCore } from "@/core";
+import { isMainTrack } from "@/lib/timeline";
+import {
+	type RippleEdit,
+	type RippleOptions,
+	rippleTracks,
+} from "@/lib/timeline/ripple";
+import { rippleActiveSceneMarkers } from "./ripple-markers";
 
 export class UpdateElementTrimCommand extends Command {
 	private savedState: TimelineTrack[] | null = null;
+	private savedScenes: TScene[] | null = null;
 
 	constructor(
 		private elementId: string,
@@ -11,6 +19,7 @@ export class UpdateElementTrimCommand extends Command {
 		private trimEnd: number,
 		private startTime?: number,
 		private duration?: number,
+		private ripple?: RippleOptions,
 	) {
 		super();
 	}
@@ -18,30 +27,60 @@ export class UpdateElementTrimCommand extends Command {
 	execute(): void {
 		const editor = EditorCore.getInstance();
 		this.savedState = editor.timeline.getTracks();
+		this.savedScenes = null;
 
-		const updatedTracks = this.savedState.map((track) => {
+		let edits: RippleEdit[] = [];
+		let updatedTracks = this.savedState.map((track) => {
 			const newElements = track.elements.map((element) => {
 				if (element.id !== this.elementId) {
 					return element;
 				}
 
-				return {
+				const updatedElement = {
 					...element,
 					trimStart: this.trimStart,
 					trimEnd: this.trimEnd,
 					startTime: this.startTime ?? element.startTime,
 					duration: this.duration ?? element.duration,
 				};
+
+				if (this.ripple && isMainTrack(track)) {
+					// everything after the old end follows the new end
+					const oldEnd = element.startTime + element.duration;
+					const newEnd = updatedElement.startTime + updatedElement.duration;
+					if (newEnd !== oldEnd) {
+						edits = [
+							{ time: Math.min(oldEnd, newEnd), delta: newEnd - oldEnd },
+						];
+					}
+				}
+
+				return updatedElement;
 			});
 			return { ...track, elements: newElements } as typeof track;
 		});
 
+		if (this.ripple && edits.length > 0) {
+			updatedTracks = rippleTracks({
+				tracks: updatedTracks,
+				edits,
+				allTracks: this.ripple.allTracks,
+				excludeElementIds: [this.elementId],
+			});
+			if (this.ripple.allTracks) {
+				this.savedScenes = rippleActiveSceneMarkers({ edits });
+			}
+		}
+
 		editor.timeline.updateTracks(updatedTracks);
 	}
 
 	undo(): void {
 		if (this.savedState) {
 			const editor = EditorCore.getInstance();
+			if (this.savedScenes) {
+				editor.scenes.setScenes({ scenes: this.savedScenes });
+			}
 			editor.timeline.updateTracks(this.savedState);
 		}
 	}
@@ -0,0 +1,51 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TimelineTrack } from "@/types/timeline";
+import type { BezierCurve, KeyframeEasing } from "@/types/keyframe";
+import { setKeyframeEasingAtTime } from "@/lib/keyframes";
+import { EditorCore } from "@/core";
+
+export class UpdateKeyframeEasingCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private time: number,
+		private easing: KeyframeEasing,
+		private bezier?: BezierCurve,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const updatedTracks = this.savedState.map((t) => {
+			if (t.id !== this.trackId) return t;
+			const newElements = t.elements.map((el) =>
+				el.id === this.elementId
+					? {
+							...el,
+							keyframes: setKeyframeEasingAtTime({
+								keyframes: el.keyframes,
+								time: this.time,
+								easing: this.easing,
+								bezier: this.bezier,
+							}),
+						}
+					: el,
+			);
+			return { ...t, elements: newElements } as typeof t;
+		});
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
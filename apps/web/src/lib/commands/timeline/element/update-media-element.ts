@@ -0,0 +1,50 @@
+import { Command } from "@/lib/commands/base-command";
+import type {
+	ImageElement,
+	TimelineTrack,
+	VideoElement,
+} from "@/types/timeline";
+import { EditorCore } from "@/core";
+
+export type MediaElementUpdates = Partial<
+	Pick<
+		VideoElement | ImageElement,
+		"transform" | "opacity" | "crop" | "fitMode" | "blendMode" | "filters"
+	>
+>;
+
+export class UpdateMediaElementCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private trackId: string,
+		private elementId: string,
+		private updates: MediaElementUpdates,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const updatedTracks = this.savedState.map((t) => {
+			if (t.id !== this.trackId) return t;
+			const newElements = t.elements.map((el) =>
+				el.id === this.elementId && (el.type === "video" || el.type === "image")
+					? { ...el, ...this.updates }
+					: el,
+			);
+			return { ...t, elements: newElements } as typeof t;
+		});
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
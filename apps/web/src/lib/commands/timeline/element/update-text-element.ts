@@ -2,26 +2,42 @@ import { Command } from "@/lib/commands/base-command";
 import type { TextElement, TimelineTrack } from "@/types/timeline";
 import { EditorCore } from "@/core";
 
+export type TextElementUpdates = Partial<
+	Pick<
+		TextElement,
+		| "content"
+		| "fontSize"
+		| "fontFamily"
+		| "color"
+		| "backgroundColor"
+		| "textAlign"
+		| "fontWeight"
+		| "fontStyle"
+		| "textDecoration"
+		| "transform"
+		| "opacity"
+		| "boxWidth"
+		| "autoWrap"
+		| "lineHeight"
+		| "letterSpacing"
+		| "strokeColor"
+		| "strokeWidth"
+		| "shadow"
+		| "backgroundPadding"
+		| "backgroundRadius"
+		| "captionHighlight"
+		| "animationIn"
+		| "animationOut"
+	>
+>;
+
 export class UpdateTextElementCommand extends Command {
 	private savedState: TimelineTrack[] | null = null;
 
 	constructor(
 		private trackId: string,
 		private elementId: string,
-		private updates: Partial<
-			Pick<
-				TextElement,
-				| "content"
-				| "fontSize"
-				| "fontFamily"
-				| "color"
-				| "backgroundColor"
-				| "textAlign"
-				| "fontWeight"
-				| "fontStyle"
-				| "textDecoration"
-			>
-		>,
+		private updates: TextElementUpdates,
 	) {
 		super();
 	}
@@ -0,0 +1,53 @@
+import { Command } from "@/lib/commands/base-command";
+import type { TextElement, TextTrack, TimelineTrack } from "@/types/timeline";
+import { generateUUID } from "@/utils/id";
+import { EditorCore } from "@/core";
+
+/**
+ * A text track already filled with elements, such as imported subtitles or
+ * generated captions, added in one step so a single undo takes it away.
+ */
+export class AddTextTrackCommand extends Command {
+	private trackId: string;
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private elements: Omit<TextElement, "id">[],
+		private name?: string,
+		private index = 0,
+	) {
+		super();
+		this.trackId = generateUUID();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const newTrack: TextTrack = {
+			id: this.trackId,
+			name: this.name ?? "Text track",
+			type: "text",
+			elements: this.elements.map((element) => ({
+				...element,
+				id: generateUUID(),
+			})),
+			hidden: false,
+		};
+
+		const updatedTracks = [...this.savedState];
+		updatedTracks.splice(this.index, 0, newTrack);
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+
+	getTrackId(): string {
+		return this.trackId;
+	}
+}
@@ -1,5 +1,8 @@
 export { AddTrackCommand } from "./add-track";
+export { AddTextTrackCommand } from "./add-text-track";
 export { RemoveTrackCommand } from "./remove-track";
 export { RenameTrackCommand } from "./rename-track";
 export { ToggleTrackMuteCommand } from "./toggle-track-mute";
+export { ToggleTrackSidechainOverlayCommand } from "./toggle-track-sidechain-overlay";
 export { ToggleTrackVisibilityCommand } from "./toggle-track-visibility";
+export { UpdateTrackMixCommand } from "./update-track-mix";
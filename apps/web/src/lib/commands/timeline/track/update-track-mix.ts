@@ -0,0 +1,39 @@
+import { Command } from "@/lib/commands/base-command";
+import type { AudioTrack, TimelineTrack } from "@/types/timeline";
+import { EditorCore } from "@/core";
+import { canTracktHaveAudio } from "@/lib/timeline";
+
+export type TrackMixUpdates = Partial<
+	Pick<AudioTrack, "volume" | "pan" | "solo">
+>;
+
+export class UpdateTrackMixCommand extends Command {
+	private savedState: TimelineTrack[] | null = null;
+
+	constructor(
+		private trackId: string,
+		private updates: TrackMixUpdates,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		this.savedState = editor.timeline.getTracks();
+
+		const updatedTracks = this.savedState.map((track) =>
+			track.id === this.trackId && canTracktHaveAudio(track)
+				? { ...track, ...this.updates }
+				: track,
+		);
+
+		editor.timeline.updateTracks(updatedTracks);
+	}
+
+	undo(): void {
+		if (this.savedState) {
+			const editor = EditorCore.getInstance();
+			editor.timeline.updateTracks(this.savedState);
+		}
+	}
+}
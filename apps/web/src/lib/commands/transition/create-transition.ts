@@ -0,0 +1,32 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { CreateTransitionInput } from "@/types/transition";
+
+export class CreateTransitionCommand extends Command {
+	private transitionId: string | null = null;
+	private savedScenes: TScene[] | null = null;
+
+	constructor(private data: CreateTransitionInput) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		this.transitionId = editor.transitions.createTransition(this.data);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+
+	getTransitionId(): string | null {
+		return this.transitionId;
+	}
+}
@@ -0,0 +1,3 @@
+export * from "./create-transition";
+export * from "./update-transition";
+export * from "./delete-transition";
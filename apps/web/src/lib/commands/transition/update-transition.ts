@@ -0,0 +1,30 @@
+import { Command } from "@/lib/commands/base-command";
+import { EditorCore } from "@/core";
+import type { TScene } from "@/types/timeline";
+import type { UpdateTransitionInput } from "@/types/transition";
+
+export class UpdateTransitionCommand extends Command {
+	private savedScenes: TScene[] | null = null;
+
+	constructor(
+		private transitionId: string,
+		private updates: UpdateTransitionInput,
+	) {
+		super();
+	}
+
+	execute(): void {
+		const editor = EditorCore.getInstance();
+		const scenes = editor.scenes.getScenes();
+		this.savedScenes = [...scenes];
+
+		editor.transitions.updateTransition(this.transitionId, this.updates);
+	}
+
+	undo(): void {
+		if (this.savedScenes) {
+			const editor = EditorCore.getInstance();
+			editor.scenes.setScenes({ scenes: this.savedScenes });
+		}
+	}
+}
@@ -1,18 +1,81 @@
-import { EXPORT_MIME_TYPES } from "@/constants/export-constants";
-import type { ExportFormat } from "@/types/export";
+import {
+	EXPORT_MIME_TYPES,
+	STEMS_MIME_TYPE,
+} from "@/constants/export-constants";
+import { isTrackSilenced } from "@/lib/timeline";
+import {
+	AUDIO_EXPORT_FORMAT_VALUES,
+	type AudioExportFormat,
+	type ExportFormat,
+} from "@/types/export";
+import type { TimelineTrack } from "@/types/timeline";
 
 export function getExportMimeType({
 	format,
+	stems = false,
 }: {
 	format: ExportFormat;
+	stems?: boolean;
 }): string {
-	return EXPORT_MIME_TYPES[format];
+	return stems ? STEMS_MIME_TYPE : EXPORT_MIME_TYPES[format];
 }
 
 export function getExportFileExtension({
 	format,
+	stems = false,
 }: {
 	format: ExportFormat;
+	stems?: boolean;
 }): string {
-	return `.${format}`;
+	return stems ? ".zip" : `.${format}`;
+}
+
+export function isAudioExportFormat(
+	format: ExportFormat,
+): format is AudioExportFormat {
+	return AUDIO_EXPORT_FORMAT_VALUES.some((value) => value === format);
+}
+
+export interface AudioStem {
+	name: string;
+	tracks: TimelineTrack[];
+	includeOneshots: boolean;
+}
+
+/**
+ * How the mix splits into stems: every audio track on its own, the oneshot
+ * bus, and everything playing from the video tracks. Nested scenes sit on
+ * video tracks, so their audio rides with the video. Tracks the full mix
+ * leaves silent (muted, or not soloed while others are) are left out.
+ */
+export function getAudioStems({
+	tracks,
+	nestedTracks,
+}: {
+	tracks: TimelineTrack[];
+	nestedTracks: TimelineTrack[];
+}): AudioStem[] {
+	const allTracks = [...tracks, ...nestedTracks];
+	const isAudible = (track: TimelineTrack) =>
+		!isTrackSilenced({ track, tracks: allTracks });
+
+	const stems: AudioStem[] = tracks
+		.filter((track) => track.type === "audio" && isAudible(track))
+		.map((track) => ({
+			name: track.name,
+			tracks: [track],
+			includeOneshots: false,
+		}));
+
+	stems.push({ name: "Oneshots", tracks: [], includeOneshots: true });
+
+	const videoTracks = [
+		...tracks.filter((track) => track.type === "video"),
+		...nestedTracks,
+	].filter(isAudible);
+	if (videoTracks.length > 0) {
+		stems.push({ name: "Video", tracks: videoTracks, includeOneshots: false });
+	}
+
+	return stems;
 }
@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getContentTimelineTime,
+	getElementContentTime,
+	resolveAnimatedVolume,
+} from "../index";
+import { getClipSourceTime, type ClipTiming } from "@/lib/timeline";
+import type { ElementKeyframes } from "@/types/keyframe";
+
+// plays source 2s to 10s of a 12s file
+const clip: ClipTiming = {
+	duration: 8,
+	trimStart: 2,
+	trimEnd: 2,
+};
+
+const volumeKeyframes: ElementKeyframes = {
+	volume: [
+		{ id: "a", time: 4, value: 0, easing: "linear" },
+		{ id: "b", time: 6, value: 1, easing: "linear" },
+	],
+};
+
+describe("getClipSourceTime", () => {
+	test("counts from the trimmed start", () => {
+		expect(getClipSourceTime({ clip, offset: 0 })).toBe(2);
+		expect(getClipSourceTime({ clip, offset: 3 })).toBe(5);
+	});
+
+	test("runs through the source at the clip's speed", () => {
+		const fast = { ...clip, duration: 4, speed: 2 };
+
+		expect(getClipSourceTime({ clip: fast, offset: 1 })).toBe(4);
+		expect(getClipSourceTime({ clip: fast, offset: 4 })).toBe(10);
+	});
+
+	test("plays a reversed clip from the end of its range", () => {
+		const reversed = { ...clip, trimStart: 1, trimEnd: 3, reversed: true };
+
+		// trims are in play order, so the range is source 3s to 11s
+		expect(getClipSourceTime({ clip: reversed, offset: 0 })).toBe(11);
+		expect(getClipSourceTime({ clip: reversed, offset: 8 })).toBe(3);
+	});
+});
+
+describe("getElementContentTime", () => {
+	test("is the source time shown at a timeline time", () => {
+		const element = { ...clip, startTime: 10, speed: 2, duration: 4 };
+
+		expect(getElementContentTime({ element, time: 11 })).toBe(4);
+	});
+
+	test("is inverted by getContentTimelineTime", () => {
+		for (const element of [
+			{ ...clip, startTime: 10 },
+			{ ...clip, startTime: 10, speed: 0.5, duration: 16 },
+			{ ...clip, startTime: 10, reversed: true },
+		]) {
+			const contentTime = getElementContentTime({ element, time: 13 });
+			expect(getContentTimelineTime({ element, contentTime })).toBeCloseTo(
+				13,
+				10,
+			);
+		}
+	});
+});
+
+describe("resolveAnimatedVolume", () => {
+	test("falls back to the static volume without keyframes", () => {
+		expect(
+			resolveAnimatedVolume({ volume: 0.7, keyframes: undefined, time: 5 }),
+		).toBe(0.7);
+	});
+
+	test("keeps keyframes on the same content when the speed changes", () => {
+		const volumeAt = ({ speed, time }: { speed: number; time: number }) =>
+			resolveAnimatedVolume({
+				volume: 1,
+				keyframes: volumeKeyframes,
+				time: getElementContentTime({
+					element: { ...clip, duration: 8 / speed, speed, startTime: 0 },
+					time,
+				}),
+			});
+
+		// source 5s sits halfway between the keyframes at either speed
+		expect(volumeAt({ speed: 1, time: 3 })).toBe(0.5);
+		expect(volumeAt({ speed: 2, time: 1.5 })).toBe(0.5);
+		expect(volumeAt({ speed: 2, time: 0 })).toBe(0);
+		expect(volumeAt({ speed: 2, time: 4 })).toBe(1);
+	});
+});
@@ -0,0 +1,458 @@
+import type {
+	AnimatableProperty,
+	BezierCurve,
+	ElementKeyframes,
+	Keyframe,
+	KeyframeEasing,
+} from "@/types/keyframe";
+import { DEFAULT_BEZIER_CURVE } from "@/types/keyframe";
+import type { TimelineElement, Transform } from "@/types/timeline";
+import {
+	type ClipTiming,
+	getClipSourceRange,
+	getClipSourceTime,
+} from "@/lib/timeline";
+import { generateUUID } from "@/utils/id";
+
+// keyframes closer than this are treated as the same position
+export const KEYFRAME_TIME_EPSILON = 1 / 1000;
+
+const VISUAL_PROPERTIES: AnimatableProperty[] = [
+	"position.x",
+	"position.y",
+	"scale",
+	"rotate",
+	"opacity",
+];
+
+const EASING_CURVES: Record<
+	Exclude<KeyframeEasing, "linear" | "bezier" | "hold">,
+	BezierCurve
+> = {
+	"ease-in": [0.42, 0, 1, 1],
+	"ease-out": [0, 0, 0.58, 1],
+	"ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Convert a timeline time into the element's content clock, the source time
+ * it shows. Keyframes live on this clock so trimming, splitting or changing
+ * the speed of a clip keeps them on the same content.
+ */
+export function getElementContentTime({
+	element,
+	time,
+}: {
+	element: ClipTiming & Pick<TimelineElement, "startTime">;
+	time: number;
+}): number {
+	return getClipSourceTime({ clip: element, offset: time - element.startTime });
+}
+
+// where on the timeline a content time plays, the inverse of the above
+export function getContentTimelineTime({
+	element,
+	contentTime,
+}: {
+	element: ClipTiming & Pick<TimelineElement, "startTime">;
+	contentTime: number;
+}): number {
+	const { start, end } = getClipSourceRange({ clip: element });
+	const sourceOffset = element.reversed
+		? end - contentTime
+		: contentTime - start;
+	return element.startTime + sourceOffset / (element.speed ?? 1);
+}
+
+export function getAnimatableProperties({
+	element,
+}: {
+	element: TimelineElement;
+}): AnimatableProperty[] {
+	return element.type === "audio" ? ["volume"] : VISUAL_PROPERTIES;
+}
+
+export function hasKeyframes({
+	keyframes,
+	property,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	property?: AnimatableProperty;
+}): boolean {
+	if (!keyframes) return false;
+	if (property) return (keyframes[property]?.length ?? 0) > 0;
+	return Object.values(keyframes).some((list) => list && list.length > 0);
+}
+
+/**
+ * Distinct keyframe times across all properties, sorted. The timeline lane
+ * shows one diamond per time.
+ */
+export function getKeyframeTimes({
+	keyframes,
+}: {
+	keyframes: ElementKeyframes | undefined;
+}): number[] {
+	if (!keyframes) return [];
+
+	const times: number[] = [];
+	for (const list of Object.values(keyframes)) {
+		for (const keyframe of list ?? []) {
+			if (!times.some((t) => isSameTime(t, keyframe.time))) {
+				times.push(keyframe.time);
+			}
+		}
+	}
+
+	return times.sort((a, b) => a - b);
+}
+
+export function applyEasing({
+	easing,
+	progress,
+	bezier,
+}: {
+	easing: KeyframeEasing;
+	progress: number;
+	bezier?: BezierCurve;
+}): number {
+	if (easing === "hold") return 0;
+	if (easing === "linear") return progress;
+
+	const curve =
+		easing === "bezier"
+			? (bezier ?? DEFAULT_BEZIER_CURVE)
+			: EASING_CURVES[easing];
+	return solveCubicBezier({ curve, x: progress });
+}
+
+/**
+ * Value of a keyframed property at a content time, or null when the property
+ * has no keyframes. Before the first and after the last keyframe the value
+ * holds.
+ */
+export function evaluateKeyframes({
+	keyframes,
+	time,
+}: {
+	keyframes: Keyframe[] | undefined;
+	time: number;
+}): number | null {
+	if (!keyframes || keyframes.length === 0) return null;
+
+	const first = keyframes[0];
+	const last = keyframes[keyframes.length - 1];
+	if (time <= first.time) return first.value;
+	if (time >= last.time) return last.value;
+
+	// binary search for the segment containing time
+	let low = 0;
+	let high = keyframes.length - 1;
+	while (high - low > 1) {
+		const mid = (low + high) >> 1;
+		if (keyframes[mid].time <= time) {
+			low = mid;
+		} else {
+			high = mid;
+		}
+	}
+
+	const from = keyframes[low];
+	const to = keyframes[high];
+	const span = to.time - from.time;
+	if (span <= 0) return to.value;
+
+	const eased = applyEasing({
+		easing: from.easing,
+		progress: (time - from.time) / span,
+		bezier: from.bezier,
+	});
+	return from.value + (to.value - from.value) * eased;
+}
+
+export function getStaticPropertyValue({
+	element,
+	property,
+}: {
+	element: TimelineElement;
+	property: AnimatableProperty;
+}): number {
+	if (element.type === "audio") {
+		return property === "volume" ? (element.volume ?? 1) : 0;
+	}
+
+	switch (property) {
+		case "position.x":
+			return element.transform.position.x;
+		case "position.y":
+			return element.transform.position.y;
+		case "scale":
+			return element.transform.scale;
+		case "rotate":
+			return element.transform.rotate;
+		case "opacity":
+			return element.opacity;
+		default:
+			return 0;
+	}
+}
+
+export function getAnimatedValue({
+	element,
+	property,
+	time,
+}: {
+	element: TimelineElement;
+	property: AnimatableProperty;
+	time: number;
+}): number {
+	return (
+		evaluateKeyframes({ keyframes: element.keyframes?.[property], time }) ??
+		getStaticPropertyValue({ element, property })
+	);
+}
+
+export function resolveAnimatedTransform({
+	transform,
+	opacity,
+	keyframes,
+	time,
+}: {
+	transform: Transform;
+	opacity: number;
+	keyframes: ElementKeyframes | undefined;
+	time: number;
+}): { transform: Transform; opacity: number } {
+	if (!hasKeyframes({ keyframes })) {
+		return { transform, opacity };
+	}
+
+	const resolve = (property: AnimatableProperty, fallback: number) =>
+		evaluateKeyframes({ keyframes: keyframes?.[property], time }) ?? fallback;
+
+	return {
+		transform: {
+			scale: resolve("scale", transform.scale),
+			position: {
+				x: resolve("position.x", transform.position.x),
+				y: resolve("position.y", transform.position.y),
+			},
+			rotate: resolve("rotate", transform.rotate),
+		},
+		opacity: resolve("opacity", opacity),
+	};
+}
+
+export function resolveAnimatedVolume({
+	volume,
+	keyframes,
+	time,
+}: {
+	volume: number;
+	keyframes: ElementKeyframes | undefined;
+	time: number;
+}): number {
+	return evaluateKeyframes({ keyframes: keyframes?.volume, time }) ?? volume;
+}
+
+/**
+ * Insert keyframes at a time, replacing any existing keyframe of the same
+ * property at that time. Returns a new keyframes object.
+ */
+export function upsertKeyframes({
+	keyframes,
+	time,
+	values,
+	easing,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	time: number;
+	values: Partial<Record<AnimatableProperty, number>>;
+	easing?: KeyframeEasing;
+}): ElementKeyframes {
+	const next: ElementKeyframes = { ...keyframes };
+
+	for (const [property, value] of Object.entries(values) as [
+		AnimatableProperty,
+		number | undefined,
+	][]) {
+		if (value === undefined) continue;
+
+		const list = next[property] ?? [];
+		const existing = list.find((keyframe) => isSameTime(keyframe.time, time));
+		const keyframe: Keyframe = existing
+			? { ...existing, value, easing: easing ?? existing.easing }
+			: { id: generateUUID(), time, value, easing: easing ?? "linear" };
+
+		next[property] = sortKeyframes([
+			...list.filter((k) => k !== existing),
+			keyframe,
+		]);
+	}
+
+	return next;
+}
+
+/**
+ * Move every keyframe at fromTime to toTime. A keyframe already sitting at
+ * toTime for the same property is replaced.
+ */
+export function moveKeyframes({
+	keyframes,
+	fromTime,
+	toTime,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	fromTime: number;
+	toTime: number;
+}): ElementKeyframes {
+	return mapKeyframeLists({
+		keyframes,
+		map: (list) => {
+			const moving = list.filter((k) => isSameTime(k.time, fromTime));
+			if (moving.length === 0) return list;
+
+			const staying = list.filter(
+				(k) => !isSameTime(k.time, fromTime) && !isSameTime(k.time, toTime),
+			);
+			return sortKeyframes([
+				...staying,
+				...moving.map((k) => ({ ...k, time: toTime })),
+			]);
+		},
+	});
+}
+
+export function removeKeyframesAtTime({
+	keyframes,
+	time,
+	properties,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	time: number;
+	properties?: AnimatableProperty[];
+}): ElementKeyframes {
+	return mapKeyframeLists({
+		keyframes,
+		map: (list, property) =>
+			properties && !properties.includes(property)
+				? list
+				: list.filter((k) => !isSameTime(k.time, time)),
+	});
+}
+
+export function setKeyframeEasingAtTime({
+	keyframes,
+	time,
+	easing,
+	bezier,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	time: number;
+	easing: KeyframeEasing;
+	bezier?: BezierCurve;
+}): ElementKeyframes {
+	return mapKeyframeLists({
+		keyframes,
+		map: (list) =>
+			list.map((k) =>
+				isSameTime(k.time, time)
+					? { ...k, easing, bezier: easing === "bezier" ? bezier : undefined }
+					: k,
+			),
+	});
+}
+
+/**
+ * Rescale keyframe times around the start of the source range, used when an
+ * element is stretched by a time remap so its animation stretches with it.
+ */
+export function scaleKeyframeTimes({
+	keyframes,
+	origin,
+	factor,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	origin: number;
+	factor: number;
+}): ElementKeyframes | undefined {
+	if (!keyframes || factor === 1) return keyframes;
+
+	return mapKeyframeLists({
+		keyframes,
+		map: (list) =>
+			list.map((k) => ({ ...k, time: origin + (k.time - origin) * factor })),
+	});
+}
+
+function mapKeyframeLists({
+	keyframes,
+	map,
+}: {
+	keyframes: ElementKeyframes | undefined;
+	map: (list: Keyframe[], property: AnimatableProperty) => Keyframe[];
+}): ElementKeyframes {
+	const next: ElementKeyframes = {};
+	if (!keyframes) return next;
+
+	for (const [property, list] of Object.entries(keyframes) as [
+		AnimatableProperty,
+		Keyframe[] | undefined,
+	][]) {
+		if (!list) continue;
+		const mapped = map(list, property);
+		if (mapped.length > 0) next[property] = mapped;
+	}
+
+	return next;
+}
+
+function sortKeyframes(list: Keyframe[]): Keyframe[] {
+	return list.sort((a, b) => a.time - b.time);
+}
+
+function isSameTime(a: number, b: number): boolean {
+	return Math.abs(a - b) < KEYFRAME_TIME_EPSILON;
+}
+
+// y for a given x on a css-style cubic-bezier curve
+function solveCubicBezier({
+	curve,
+	x,
+}: {
+	curve: BezierCurve;
+	x: number;
+}): number {
+	const [x1, y1, x2, y2] = curve;
+	const sample = (a: number, b: number, t: number) =>
+		3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t;
+	const slope = (a: number, b: number, t: number) =>
+		3 * a * (1 - t) * (1 - t) + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t * t;
+
+	// newton first, it converges in a few steps for most curves
+	let t = x;
+	for (let i = 0; i < 8; i++) {
+		const error = sample(x1, x2, t) - x;
+		if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+		const derivative = slope(x1, x2, t);
+		if (Math.abs(derivative) < 1e-6) break;
+		t = Math.min(1, Math.max(0, t - error / derivative));
+	}
+
+	// fall back to bisection for flat regions
+	let low = 0;
+	let high = 1;
+	t = x;
+	for (let i = 0; i < 30; i++) {
+		const value = sample(x1, x2, t);
+		if (Math.abs(value - x) < 1e-6) break;
+		if (value < x) {
+			low = t;
+		} else {
+			high = t;
+		}
+		t = (low + high) / 2;
+	}
+
+	return sample(y1, y2, t);
+}
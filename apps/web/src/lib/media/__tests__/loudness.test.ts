@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import { applyLoudnessOptions, measureLoudness } from "../loudness";
+
+const SAMPLE_RATE = 48000;
+
+function sine({
+	decibels,
+	frequency = 1000,
+	seconds,
+	phase = 0,
+}: {
+	decibels: number;
+	frequency?: number;
+	seconds: number;
+	phase?: number;
+}): Float32Array {
+	const amplitude = 10 ** (decibels / 20);
+	const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+	for (let i = 0; i < samples.length; i++) {
+		samples[i] =
+			amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase);
+	}
+	return samples;
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+	const output = new Float32Array(
+		parts.reduce((length, part) => length + part.length, 0),
+	);
+	let offset = 0;
+	for (const part of parts) {
+		output.set(part, offset);
+		offset += part.length;
+	}
+	return output;
+}
+
+function samplePeak(channels: Float32Array[]): number {
+	let peak = 0;
+	for (const channel of channels) {
+		for (const sample of channel) peak = Math.max(peak, Math.abs(sample));
+	}
+	return peak;
+}
+
+describe("measureLoudness", () => {
+	test("reads a -20 dBFS 1kHz sine on one channel as -23 LUFS", () => {
+		const report = measureLoudness({
+			channels: [sine({ decibels: -20, seconds: 5 })],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		expect(Math.abs(report.integrated + 23)).toBeLessThan(0.1);
+		expect(Math.abs(report.shortTermMax + 23)).toBeLessThan(0.1);
+		expect(report.loudnessRange).toBeLessThan(0.1);
+		expect(Math.abs(report.truePeak + 20)).toBeLessThan(0.1);
+	});
+
+	test("sums the power of both channels", () => {
+		const report = measureLoudness({
+			channels: [
+				sine({ decibels: -20, seconds: 5 }),
+				sine({ decibels: -20, seconds: 5 }),
+			],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		expect(Math.abs(report.integrated + 20)).toBeLessThan(0.1);
+	});
+
+	test("gates silence out of the integrated loudness", () => {
+		const report = measureLoudness({
+			channels: [
+				concat([
+					sine({ decibels: -20, seconds: 10 }),
+					new Float32Array(10 * SAMPLE_RATE),
+				]),
+			],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		expect(Math.abs(report.integrated + 23)).toBeLessThan(0.2);
+	});
+
+	test("gates passages more than 10 LU under the mix out", () => {
+		const channel = concat([
+			sine({ decibels: -20, seconds: 10 }),
+			sine({ decibels: -40, seconds: 10 }),
+		]);
+		const report = measureLoudness({
+			channels: [channel],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		// averaged without the gate, the quiet half would pull this to about -26
+		expect(Math.abs(report.integrated + 23)).toBeLessThan(0.2);
+		expect(report.loudnessRange).toBeGreaterThan(15);
+	});
+
+	test("reports silence as -Infinity", () => {
+		const report = measureLoudness({
+			channels: [new Float32Array(5 * SAMPLE_RATE)],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		expect(report.integrated).toBe(-Infinity);
+		expect(report.truePeak).toBe(-Infinity);
+		expect(report.loudnessRange).toBe(0);
+	});
+
+	test("finds peaks between samples", () => {
+		// at a quarter of the sample rate and 45 degrees, every sample lands
+		// 3dB under the crest
+		const channel = sine({
+			decibels: 0,
+			frequency: SAMPLE_RATE / 4,
+			seconds: 1,
+			phase: Math.PI / 4,
+		});
+		const report = measureLoudness({
+			channels: [channel],
+			sampleRate: SAMPLE_RATE,
+		});
+
+		expect(samplePeak([channel])).toBeCloseTo(Math.SQRT1_2, 5);
+		expect(Math.abs(report.truePeak)).toBeLessThan(0.5);
+	});
+});
+
+describe("applyLoudnessOptions", () => {
+	test("gains the mix to the target loudness", () => {
+		const channels = [sine({ decibels: -20, seconds: 5 })];
+		const report = applyLoudnessOptions({
+			channels,
+			sampleRate: SAMPLE_RATE,
+			options: { targetLufs: -16, truePeakCeiling: null },
+		});
+
+		expect(Math.abs(report.integrated + 16)).toBeLessThan(0.1);
+		expect(
+			Math.abs(
+				measureLoudness({ channels, sampleRate: SAMPLE_RATE }).integrated + 16,
+			),
+		).toBeLessThan(0.1);
+	});
+
+	test("never lets the limited output past the ceiling", () => {
+		const channels = [
+			concat([
+				sine({ decibels: -20, seconds: 2 }),
+				sine({ decibels: 0, seconds: 1, phase: 0.3 }),
+				sine({
+					decibels: 0,
+					frequency: SAMPLE_RATE / 4,
+					seconds: 1,
+					phase: Math.PI / 4,
+				}),
+				sine({ decibels: -20, seconds: 2 }),
+			]),
+			sine({ decibels: -3, frequency: 440, seconds: 6 }),
+		];
+		const ceiling = -1;
+		const report = applyLoudnessOptions({
+			channels,
+			sampleRate: SAMPLE_RATE,
+			options: { targetLufs: -10, truePeakCeiling: ceiling },
+		});
+		const measured = measureLoudness({ channels, sampleRate: SAMPLE_RATE });
+
+		expect(report.truePeak).toBeLessThanOrEqual(ceiling + 1e-4);
+		expect(measured.truePeak).toBeLessThanOrEqual(ceiling + 1e-4);
+		expect(report.truePeak).toBeCloseTo(measured.truePeak, 4);
+		expect(samplePeak(channels)).toBeLessThanOrEqual(10 ** (ceiling / 20));
+	});
+
+	test("leaves audio under the ceiling untouched", () => {
+		const original = sine({ decibels: -20, seconds: 2 });
+		const channel = original.slice();
+		applyLoudnessOptions({
+			channels: [channel],
+			sampleRate: SAMPLE_RATE,
+			options: { targetLufs: null, truePeakCeiling: -1 },
+		});
+
+		expect(Array.from(channel)).toEqual(Array.from(original));
+	});
+
+	test("leaves silence silent", () => {
+		const channels = [new Float32Array(2 * SAMPLE_RATE)];
+		const report = applyLoudnessOptions({
+			channels,
+			sampleRate: SAMPLE_RATE,
+			options: { targetLufs: -14, truePeakCeiling: -1 },
+		});
+
+		expect(report.integrated).toBe(-Infinity);
+		expect(samplePeak(channels)).toBe(0);
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { encodeWav } from "../wav";
+
+function readString({
+	view,
+	offset,
+	length,
+}: {
+	view: DataView;
+	offset: number;
+	length: number;
+}): string {
+	let str = "";
+	for (let i = 0; i < length; i++) {
+		str += String.fromCharCode(view.getUint8(offset + i));
+	}
+	return str;
+}
+
+describe("encodeWav", () => {
+	const channels = [
+		new Float32Array([0, 1, -1]),
+		new Float32Array([0.5, -0.5, 0]),
+	];
+
+	test("writes the RIFF, fmt and data headers", () => {
+		const buffer = encodeWav({ channels, sampleRate: 48000 });
+		const view = new DataView(buffer);
+		// 3 frames of 2 channels at 2 bytes each
+		const dataSize = 12;
+
+		expect(buffer.byteLength).toBe(44 + dataSize);
+		expect(readString({ view, offset: 0, length: 4 })).toBe("RIFF");
+		expect(view.getUint32(4, true)).toBe(36 + dataSize);
+		expect(readString({ view, offset: 8, length: 4 })).toBe("WAVE");
+		expect(readString({ view, offset: 12, length: 4 })).toBe("fmt ");
+		expect(view.getUint32(16, true)).toBe(16);
+		expect(view.getUint16(20, true)).toBe(1);
+		expect(view.getUint16(22, true)).toBe(2);
+		expect(view.getUint32(24, true)).toBe(48000);
+		expect(view.getUint32(28, true)).toBe(48000 * 4);
+		expect(view.getUint16(32, true)).toBe(4);
+		expect(view.getUint16(34, true)).toBe(16);
+		expect(readString({ view, offset: 36, length: 4 })).toBe("data");
+		expect(view.getUint32(40, true)).toBe(dataSize);
+	});
+
+	test("interleaves 16-bit samples scaled to full range", () => {
+		const view = new DataView(encodeWav({ channels, sampleRate: 48000 }));
+		const samples = Array.from({ length: 6 }, (_, index) =>
+			view.getInt16(44 + index * 2, true),
+		);
+
+		expect(samples).toEqual([0, 16384, 32767, -16384, -32768, 0]);
+	});
+
+	test("writes 24-bit samples as three little-endian bytes", () => {
+		const buffer = encodeWav({
+			channels: [new Float32Array([1, -1, 0.25])],
+			sampleRate: 44100,
+			bitDepth: 24,
+		});
+		const view = new DataView(buffer);
+		const readInt24 = (offset: number) =>
+			view.getUint16(offset, true) + (view.getInt8(offset + 2) << 16);
+
+		expect(buffer.byteLength).toBe(44 + 9);
+		expect(view.getUint16(32, true)).toBe(3);
+		expect(view.getUint32(28, true)).toBe(44100 * 3);
+		expect(view.getUint16(34, true)).toBe(24);
+		expect(readInt24(44)).toBe(8388607);
+		expect(readInt24(47)).toBe(-8388608);
+		expect(readInt24(50)).toBe(Math.round(0.25 * 8388607));
+	});
+
+	test("clips samples past full scale", () => {
+		const view = new DataView(
+			encodeWav({
+				channels: [new Float32Array([1.5, -3])],
+				sampleRate: 48000,
+			}),
+		);
+
+		expect(view.getInt16(44, true)).toBe(32767);
+		expect(view.getInt16(46, true)).toBe(-32768);
+	});
+
+	test("writes only a header when there are no samples", () => {
+		const buffer = encodeWav({
+			channels: [new Float32Array(0)],
+			sampleRate: 48000,
+		});
+		const view = new DataView(buffer);
+
+		expect(buffer.byteLength).toBe(44);
+		expect(view.getUint32(4, true)).toBe(36);
+		expect(view.getUint32(40, true)).toBe(0);
+	});
+});
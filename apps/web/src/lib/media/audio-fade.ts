@@ -0,0 +1,97 @@
+import type { AudioFade, FadeCurve } from "@/types/timeline";
+
+/**
+ * Gain of a fade-in curve at a 0-1 progress. Fade-outs read the same curve
+ * backwards, so both ends of a clip sound alike.
+ */
+export function getFadeCurveGain({
+	curve,
+	progress,
+}: {
+	curve: FadeCurve;
+	progress: number;
+}): number {
+	const t = Math.min(1, Math.max(0, progress));
+	switch (curve) {
+		case "linear":
+			return t;
+		case "equal-power":
+			return Math.sin((t * Math.PI) / 2);
+		case "logarithmic":
+			// rises quickly, then settles into full level
+			return Math.log10(1 + 9 * t);
+	}
+}
+
+/**
+ * Combined fade gain at a timeline time for a clip heard from start to end.
+ * Fades that overlap on a short clip are scaled down to share its length.
+ */
+export function getAudioFadeGain({
+	fadeIn,
+	fadeOut,
+	start,
+	end,
+	time,
+}: {
+	fadeIn?: AudioFade;
+	fadeOut?: AudioFade;
+	start: number;
+	end: number;
+	time: number;
+}): number {
+	const { fadeInDuration, fadeOutDuration } = getEffectiveFadeDurations({
+		fadeIn,
+		fadeOut,
+		length: end - start,
+	});
+	let gain = 1;
+
+	if (fadeIn && fadeInDuration > 0 && time < start + fadeInDuration) {
+		gain *= getFadeCurveGain({
+			curve: fadeIn.curve,
+			progress: (time - start) / fadeInDuration,
+		});
+	}
+
+	if (fadeOut && fadeOutDuration > 0 && time > end - fadeOutDuration) {
+		gain *= getFadeCurveGain({
+			curve: fadeOut.curve,
+			progress: (end - time) / fadeOutDuration,
+		});
+	}
+
+	return gain;
+}
+
+export function getEffectiveFadeDurations({
+	fadeIn,
+	fadeOut,
+	length,
+}: {
+	fadeIn?: AudioFade;
+	fadeOut?: AudioFade;
+	length: number;
+}): { fadeInDuration: number; fadeOutDuration: number } {
+	const fadeInDuration = Math.max(0, fadeIn?.duration ?? 0);
+	const fadeOutDuration = Math.max(0, fadeOut?.duration ?? 0);
+	const total = fadeInDuration + fadeOutDuration;
+	if (length <= 0) return { fadeInDuration: 0, fadeOutDuration: 0 };
+	if (total <= length) return { fadeInDuration, fadeOutDuration };
+
+	const scale = length / total;
+	return {
+		fadeInDuration: fadeInDuration * scale,
+		fadeOutDuration: fadeOutDuration * scale,
+	};
+}
+
+export function hasAudioFades({
+	fadeIn,
+	fadeOut,
+}: {
+	fadeIn?: AudioFade;
+	fadeOut?: AudioFade;
+}): boolean {
+	return (fadeIn?.duration ?? 0) > 0 || (fadeOut?.duration ?? 0) > 0;
+}
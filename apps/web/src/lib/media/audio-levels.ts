@@ -0,0 +1,28 @@
+export interface AudioLevels {
+	peak: number;
+	rms: number;
+}
+
+export const SILENT_LEVELS: AudioLevels = { peak: 0, rms: 0 };
+
+export function measureLevels({
+	samples,
+}: {
+	samples: Float32Array;
+}): AudioLevels {
+	if (samples.length === 0) return SILENT_LEVELS;
+
+	let peak = 0;
+	let sumOfSquares = 0;
+	for (const sample of samples) {
+		const magnitude = Math.abs(sample);
+		if (magnitude > peak) peak = magnitude;
+		sumOfSquares += sample * sample;
+	}
+
+	return { peak, rms: Math.sqrt(sumOfSquares / samples.length) };
+}
+
+export function gainToDb({ gain }: { gain: number }): number {
+	return gain > 0 ? 20 * Math.log10(gain) : Number.NEGATIVE_INFINITY;
+}
@@ -1,22 +1,176 @@
 import type { TimelineTrack } from "@/types/timeline";
 import type { MediaAsset } from "@/types/assets";
 import type { TimeRemapConfig, TrackTimeBehavior } from "@/types/time-remap";
-import type { OneshotDefinition, OneshotMarker } from "@/types/oneshot";
+import type { SidechainEnvelope } from "@/types/sidechain";
+import type { Transition } from "@/types/transition";
 import {
 	createAudioContext,
 	collectAudioElements,
+	mixOneshotChannels,
 	type CollectedAudioElement,
+	type OneshotMixSource,
 } from "./audio";
 import {
+	calculateOneshotAudioTiming,
 	getTrackBehavior,
 	remapTime,
 	getRemappedDuration,
+	remapAutomationSnapshot,
 } from "@/lib/time-remap";
-import { SoundTouch, SimpleFilter } from "soundtouchjs";
+import { getCombinedEnvelopeGainAtTime } from "@/lib/sidechain/compute-envelope";
+import { resolveAnimatedVolume } from "@/lib/keyframes";
+import { stretchInterleaved } from "./clip-speed";
+import { getAudioFadeGain } from "./audio-fade";
+import { getStereoPanMatrix, type StereoPanMatrix } from "./stereo-pan";
+import { getClipSourceTime } from "@/lib/timeline";
+import {
+	type ResolvedTransition,
+	getTransitionAudioGain,
+	resolveTrackTransitions,
+} from "@/lib/transitions";
+import {
+	applyAutomationBlend,
+	buildAutomationSegments,
+	type AutomationSegment,
+	type AutomationSnapshot,
+	type AutomationTarget,
+} from "@/lib/automation/apply-automation";
 
 export interface RemappedAudioElement extends CollectedAudioElement {
 	behavior: TrackTimeBehavior;
 	playbackRate: number;
+	sidechainEnvelopes?: SidechainEnvelope[];
+	transitions?: ResolvedTransition[];
+	// track automation, already on the remapped timeline
+	volumeSegments?: AutomationSegment[];
+	panSegments?: { time: number; panMatrix: StereoPanMatrix }[];
+}
+
+// the segment holding a time, by bisection since samples are gained one by one
+function findSegment<T extends { time: number }>({
+	segments,
+	time,
+}: {
+	segments: T[];
+	time: number;
+}): T | undefined {
+	if (segments.length === 0 || segments[0].time > time) return undefined;
+
+	let low = 0;
+	let high = segments.length - 1;
+	while (low < high) {
+		const middle = (low + high + 1) >> 1;
+		if (segments[middle].time <= time) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return segments[low];
+}
+
+/**
+ * Clip volume (keyframed and automated), fades and sidechain gain at an output
+ * time. Keyframes are read on the source clock, which runs at playbackRate on
+ * the remapped timeline, while fades and automation stay on the output clock
+ * like the clip's edges.
+ */
+function getRemappedSampleGain({
+	element,
+	outputTime,
+	fadeEnd = element.startTime + element.duration,
+}: {
+	element: RemappedAudioElement;
+	outputTime: number;
+	// where the clip's audio stops, later than its end when it loops
+	fadeEnd?: number;
+}): number {
+	const clipVolume = resolveAnimatedVolume({
+		volume: element.volume,
+		keyframes: element.keyframes,
+		time: getClipSourceTime({
+			clip: element,
+			offset: (outputTime - element.startTime) * element.playbackRate,
+		}),
+	});
+	// automation overrides the clip volume, as in live playback
+	const segment =
+		element.volumeSegments &&
+		findSegment({ segments: element.volumeSegments, time: outputTime });
+	const volume = segment
+		? applyAutomationBlend({ blend: segment.blend, base: clipVolume * 100 }) /
+			100
+		: clipVolume;
+
+	return (
+		volume *
+		(element.trackVolume ?? 1) *
+		getAudioFadeGain({
+			fadeIn: element.fadeIn,
+			fadeOut: element.fadeOut,
+			start: element.startTime,
+			end: fadeEnd,
+			time: outputTime,
+		}) *
+		getCombinedEnvelopeGainAtTime(element.sidechainEnvelopes, outputTime) *
+		(element.transitions && element.transitions.length > 0
+			? getTransitionAudioGain({
+					elementId: element.id,
+					transitions: element.transitions,
+					time: outputTime,
+				})
+			: 1)
+	);
+}
+
+// the track pan at an output time, switching matrices where automation moves it
+function getPanMatrixLookup({
+	element,
+}: {
+	element: RemappedAudioElement;
+}): (outputTime: number) => StereoPanMatrix {
+	const panMatrix = getStereoPanMatrix({ pan: element.trackPan ?? 0 });
+	const segments = element.panSegments;
+	if (!segments) return () => panMatrix;
+
+	return (outputTime) =>
+		findSegment({ segments, time: outputTime })?.panMatrix ?? panMatrix;
+}
+
+// the clip's source channels and the track pan that routes them to the output
+function getPannedSource({ element }: { element: RemappedAudioElement }) {
+	const { buffer } = element;
+	return {
+		leftData: buffer.getChannelData(0),
+		rightData: buffer.getChannelData(Math.min(1, buffer.numberOfChannels - 1)),
+		getPanMatrix: getPanMatrixLookup({ element }),
+	};
+}
+
+/**
+ * Automation for an element's track from where the clip starts to the end of
+ * the mix, which covers clips that loop or stretch past their original length.
+ */
+function getRemappedAutomationSegments({
+	element,
+	type,
+	endTime,
+	automation,
+}: {
+	element: RemappedAudioElement;
+	type: Extract<AutomationTarget, { trackId: string }>["type"];
+	endTime: number;
+	automation?: AutomationSnapshot;
+}): AutomationSegment[] | undefined {
+	if (!automation || !element.trackId) return undefined;
+
+	const segments = buildAutomationSegments({
+		target: { type, trackId: element.trackId },
+		startTime: element.startTime,
+		endTime,
+		snapshot: automation,
+	});
+	return segments.length > 0 ? segments : undefined;
 }
 
 /**
@@ -39,29 +193,8 @@ export async function collectAudioElementsWithRemap({
 		audioContext,
 	});
 
-	// Build track ID to track map for looking up track info
-	const trackMap = new Map<string, TimelineTrack>();
-	for (const track of tracks) {
-		trackMap.set(track.id, track);
-		for (const element of track.elements) {
-			// Map element to track for lookup
-			trackMap.set(`element:${element.id}`, track);
-		}
-	}
-
 	return baseElements.map((element) => {
-		// Find which track this element belongs to
-		let trackId: string | undefined;
-		for (const track of tracks) {
-			for (const el of track.elements) {
-				if (el.startTime === element.startTime && el.duration === element.duration) {
-					trackId = track.id;
-					break;
-				}
-			}
-			if (trackId) break;
-		}
-
+		const trackId = element.trackId;
 		const behavior = trackId
 			? getTrackBehavior(trackId, timeRemapConfig)
 			: "stretch";
@@ -90,6 +223,11 @@ export async function createTimelineAudioBufferWithRemap({
 	timeRemapConfig,
 	sampleRate = 44100,
 	audioContext,
+	sidechainEnvelopes,
+	oneshots = [],
+	oneshotSidechainEnvelopes,
+	transitions = [],
+	automation,
 }: {
 	tracks: TimelineTrack[];
 	mediaAssets: MediaAsset[];
@@ -97,6 +235,13 @@ export async function createTimelineAudioBufferWithRemap({
 	timeRemapConfig: TimeRemapConfig;
 	sampleRate?: number;
 	audioContext?: AudioContext;
+	// envelopes must already be laid out on the remapped timeline
+	sidechainEnvelopes?: Map<string, SidechainEnvelope[]>;
+	oneshots?: OneshotMixSource[];
+	oneshotSidechainEnvelopes?: Map<string, SidechainEnvelope[]>;
+	transitions?: Transition[];
+	// on the original timeline, remapped here like the clips
+	automation?: AutomationSnapshot;
 }): Promise<AudioBuffer | null> {
 	const context = audioContext ?? createAudioContext();
 	const newDuration = getRemappedDuration(originalDuration, timeRemapConfig.timeScale);
@@ -108,17 +253,57 @@ export async function createTimelineAudioBufferWithRemap({
 		timeRemapConfig,
 	});
 
-	if (remappedElements.length === 0) return null;
+	if (remappedElements.length === 0 && oneshots.length === 0) return null;
 
 	const outputChannels = 2;
 	const outputLength = Math.ceil(newDuration * sampleRate);
 	const outputBuffer = context.createBuffer(outputChannels, outputLength, sampleRate);
+	const resolvedTransitions = resolveRemappedTransitions({
+		tracks,
+		transitions,
+		timeRemapConfig,
+	});
+	const remappedAutomation =
+		automation && remapAutomationSnapshot(automation, timeRemapConfig);
 
 	for (const element of remappedElements) {
 		if (element.muted) continue;
 
-		mixRemappedAudioElement({
+		const panSegments = getRemappedAutomationSegments({
 			element,
+			type: "track-pan",
+			endTime: newDuration,
+			automation: remappedAutomation,
+		});
+
+		mixRemappedAudioElement({
+			element: {
+				...element,
+				sidechainEnvelopes: element.trackId
+					? sidechainEnvelopes?.get(element.trackId)
+					: undefined,
+				transitions: resolvedTransitions.filter(
+					({ transition }) =>
+						transition.fromElementId === element.id ||
+						transition.toElementId === element.id,
+				),
+				volumeSegments: getRemappedAutomationSegments({
+					element,
+					type: "audio-volume",
+					endTime: newDuration,
+					automation: remappedAutomation,
+				}),
+				panSegments: panSegments?.map(({ time, blend }) => ({
+					time,
+					panMatrix: getStereoPanMatrix({
+						pan:
+							applyAutomationBlend({
+								blend,
+								base: (element.trackPan ?? 0) * 100,
+							}) / 100,
+					}),
+				})),
+			},
 			outputBuffer,
 			outputLength,
 			sampleRate,
@@ -126,9 +311,81 @@ export async function createTimelineAudioBufferWithRemap({
 		});
 	}
 
+	for (const oneshot of oneshots) {
+		const { startTime, playbackRate } = calculateOneshotAudioTiming(
+			oneshot.marker,
+			oneshot.definition,
+			timeRemapConfig.oneshotMarkerConfig,
+			timeRemapConfig.timeScale,
+			oneshot.playbackRate,
+		);
+
+		mixOneshotChannels({
+			oneshot,
+			startTime,
+			playbackRate,
+			outputBuffer,
+			outputLength,
+			sampleRate,
+			sidechainEnvelopes: oneshotSidechainEnvelopes?.get(
+				oneshot.definition.id,
+			),
+			gainSegments: remappedAutomation
+				? buildAutomationSegments({
+						target: {
+							type: "oneshot-gain",
+							definitionId: oneshot.definition.id,
+						},
+						startTime: Math.max(0, startTime),
+						endTime: newDuration,
+						snapshot: remappedAutomation,
+					})
+				: undefined,
+		});
+	}
+
 	return outputBuffer;
 }
 
+/**
+ * Transition windows on the remapped timeline, resolved on each clip's
+ * remapped timing so the crossfade lines up with where the clips now play.
+ */
+function resolveRemappedTransitions({
+	tracks,
+	transitions,
+	timeRemapConfig,
+}: {
+	tracks: TimelineTrack[];
+	transitions: Transition[];
+	timeRemapConfig: TimeRemapConfig;
+}): ResolvedTransition[] {
+	if (transitions.length === 0) return [];
+	const { timeScale } = timeRemapConfig;
+
+	return tracks.flatMap((track) => {
+		const behavior = getTrackBehavior(track.id, timeRemapConfig);
+		// the same tracks that play at playbackRate stretch their clips
+		const stretches = behavior === "stretch" || behavior === "pitch-preserve";
+		const remap = (time: number) => (stretches ? remapTime(time, timeScale) : time);
+
+		return resolveTrackTransitions({
+			track: {
+				...track,
+				elements: track.elements.map((element) => ({
+					...element,
+					startTime: remapTime(element.startTime, timeScale),
+					duration: remap(element.duration),
+				})),
+			} as TimelineTrack,
+			transitions: transitions.map((transition) => ({
+				...transition,
+				duration: remap(transition.duration),
+			})),
+		});
+	});
+}
+
 /**
  * Mix a single remapped audio element into the output buffer
  */
@@ -177,9 +434,9 @@ function mixAudioStretched({
 	outputLength: number;
 	sampleRate: number;
 }): void {
-	const { buffer, startTime, trimStart, duration: elementDuration, playbackRate } = element;
+	const { buffer, startTime, bufferStart, duration: elementDuration, playbackRate } = element;
 
-	const sourceStartSample = Math.floor(trimStart * buffer.sampleRate);
+	const sourceStartSample = Math.floor(bufferStart * buffer.sampleRate);
 	const sourceLengthSamples = Math.floor(elementDuration * playbackRate * buffer.sampleRate);
 	const outputStartSample = Math.floor(startTime * sampleRate);
 
@@ -187,11 +444,11 @@ function mixAudioStretched({
 	const stretchedDuration = elementDuration;
 	const outputSamplesToWrite = Math.floor(stretchedDuration * sampleRate);
 
+	const { leftData, rightData, getPanMatrix } = getPannedSource({ element });
+
 	const outputChannels = 2;
 	for (let channel = 0; channel < outputChannels; channel++) {
 		const outputData = outputBuffer.getChannelData(channel);
-		const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
-		const sourceData = buffer.getChannelData(sourceChannel);
 
 		for (let i = 0; i < outputSamplesToWrite; i++) {
 			const outputIndex = outputStartSample + i;
@@ -200,9 +457,16 @@ function mixAudioStretched({
 			// Map output position to source position with playback rate
 			const sourcePosition = (i / sampleRate) * playbackRate * buffer.sampleRate;
 			const sourceIndex = sourceStartSample + Math.floor(sourcePosition);
-			if (sourceIndex >= sourceData.length) break;
-
-			outputData[outputIndex] += sourceData[sourceIndex];
+			if (sourceIndex >= leftData.length) break;
+
+			const outputTime = outputIndex / sampleRate;
+			const [fromLeft, fromRight] = getPanMatrix(outputTime)[channel];
+			outputData[outputIndex] +=
+				(leftData[sourceIndex] * fromLeft + rightData[sourceIndex] * fromRight) *
+				getRemappedSampleGain({
+					element,
+					outputTime,
+				});
 		}
 	}
 }
@@ -222,9 +486,9 @@ function mixAudioPitchPreserve({
 	outputLength: number;
 	sampleRate: number;
 }): void {
-	const { buffer, startTime, trimStart, duration: elementDuration, playbackRate } = element;
+	const { buffer, startTime, bufferStart, duration: elementDuration, playbackRate } = element;
 
-	const sourceStartSample = Math.floor(trimStart * buffer.sampleRate);
+	const sourceStartSample = Math.floor(bufferStart * buffer.sampleRate);
 	const sourceSamples = Math.floor(elementDuration * playbackRate * buffer.sampleRate);
 	const sourceEnd = Math.min(sourceStartSample + sourceSamples, buffer.getChannelData(0).length);
 	const actualSourceSamples = sourceEnd - sourceStartSample;
@@ -242,51 +506,30 @@ function mixAudioPitchPreserve({
 		interleaved[i * 2 + 1] = srcCh1[si];
 	}
 
-	// Set up SoundTouch processing
-	const st = new SoundTouch();
-	st.tempo = playbackRate;
-
-	let sourcePosition = 0;
-	const sourceFrameCount = actualSourceSamples;
-
-	const source = {
-		extract(target: Float32Array, numFrames: number, position: number): number {
-			const framesToRead = Math.min(numFrames, sourceFrameCount - sourcePosition);
-			if (framesToRead <= 0) return 0;
-
-			for (let i = 0; i < framesToRead * 2; i++) {
-				target[i] = interleaved[sourcePosition * 2 + i];
-			}
-			sourcePosition += framesToRead;
-			return framesToRead;
-		},
-	};
-
-	const filter = new SimpleFilter(source, st);
-
-	// Extract processed samples
 	const outputStartSample = Math.floor(startTime * sampleRate);
 	const expectedOutputFrames = Math.floor(elementDuration * sampleRate);
-	const chunkSize = 4096;
-	const chunkBuffer = new Float32Array(chunkSize * 2);
+	const stretched = stretchInterleaved({
+		interleaved,
+		tempo: playbackRate,
+		outputFrames: expectedOutputFrames,
+	});
 
 	const outCh0 = outputBuffer.getChannelData(0);
 	const outCh1 = outputBuffer.getChannelData(1);
-
-	let framesWritten = 0;
-	while (framesWritten < expectedOutputFrames) {
-		const framesToExtract = Math.min(chunkSize, expectedOutputFrames - framesWritten);
-		const extracted = filter.extract(chunkBuffer, framesToExtract);
-		if (extracted === 0) break;
-
-		for (let i = 0; i < extracted; i++) {
-			const outIdx = outputStartSample + framesWritten + i;
-			if (outIdx >= outputLength) break;
-
-			outCh0[outIdx] += chunkBuffer[i * 2];
-			outCh1[outIdx] += chunkBuffer[i * 2 + 1];
-		}
-		framesWritten += extracted;
+	const getPanMatrix = getPanMatrixLookup({ element });
+
+	for (let i = 0; i < expectedOutputFrames; i++) {
+		const outIdx = outputStartSample + i;
+		if (outIdx >= outputLength) break;
+
+		const outputTime = outIdx / sampleRate;
+		const gain = getRemappedSampleGain({ element, outputTime });
+		const [[leftFromLeft, leftFromRight], [rightFromLeft, rightFromRight]] =
+			getPanMatrix(outputTime);
+		const left = stretched[i * 2];
+		const right = stretched[i * 2 + 1];
+		outCh0[outIdx] += (left * leftFromLeft + right * leftFromRight) * gain;
+		outCh1[outIdx] += (left * rightFromLeft + right * rightFromRight) * gain;
 	}
 }
 
@@ -306,9 +549,9 @@ function mixAudioLooping({
 	sampleRate: number;
 	newDuration: number;
 }): void {
-	const { buffer, startTime, trimStart, duration: elementDuration } = element;
+	const { buffer, startTime, bufferStart, duration: elementDuration } = element;
 
-	const sourceStartSample = Math.floor(trimStart * buffer.sampleRate);
+	const sourceStartSample = Math.floor(bufferStart * buffer.sampleRate);
 	const sourceLengthSamples = Math.floor(elementDuration * buffer.sampleRate);
 	const outputStartSample = Math.floor(startTime * sampleRate);
 
@@ -319,11 +562,11 @@ function mixAudioLooping({
 
 	if (resampledLoopLength <= 0) return;
 
+	const { leftData, rightData, getPanMatrix } = getPannedSource({ element });
+
 	const outputChannels = 2;
 	for (let channel = 0; channel < outputChannels; channel++) {
 		const outputData = outputBuffer.getChannelData(channel);
-		const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
-		const sourceData = buffer.getChannelData(sourceChannel);
 
 		for (let i = 0; i < samplesToFill; i++) {
 			const outputIndex = outputStartSample + i;
@@ -332,9 +575,17 @@ function mixAudioLooping({
 			// Loop within the source segment
 			const loopPosition = i % resampledLoopLength;
 			const sourceIndex = sourceStartSample + Math.floor(loopPosition / resampleRatio);
-			if (sourceIndex >= sourceData.length) continue;
-
-			outputData[outputIndex] += sourceData[sourceIndex];
+			if (sourceIndex >= leftData.length) continue;
+
+			const outputTime = outputIndex / sampleRate;
+			const [fromLeft, fromRight] = getPanMatrix(outputTime)[channel];
+			outputData[outputIndex] +=
+				(leftData[sourceIndex] * fromLeft + rightData[sourceIndex] * fromRight) *
+				getRemappedSampleGain({
+					element,
+					outputTime,
+					fadeEnd: newDuration,
+				});
 		}
 	}
 }
@@ -353,29 +604,36 @@ function mixAudioFixed({
 	outputLength: number;
 	sampleRate: number;
 }): void {
-	const { buffer, startTime, trimStart, duration: elementDuration } = element;
+	const { buffer, startTime, bufferStart, duration: elementDuration } = element;
 
-	const sourceStartSample = Math.floor(trimStart * buffer.sampleRate);
+	const sourceStartSample = Math.floor(bufferStart * buffer.sampleRate);
 	const sourceLengthSamples = Math.floor(elementDuration * buffer.sampleRate);
 	const outputStartSample = Math.floor(startTime * sampleRate);
 
 	const resampleRatio = sampleRate / buffer.sampleRate;
 	const resampledLength = Math.floor(sourceLengthSamples * resampleRatio);
 
+	const { leftData, rightData, getPanMatrix } = getPannedSource({ element });
+
 	const outputChannels = 2;
 	for (let channel = 0; channel < outputChannels; channel++) {
 		const outputData = outputBuffer.getChannelData(channel);
-		const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
-		const sourceData = buffer.getChannelData(sourceChannel);
 
 		for (let i = 0; i < resampledLength; i++) {
 			const outputIndex = outputStartSample + i;
 			if (outputIndex >= outputLength) break;
 
 			const sourceIndex = sourceStartSample + Math.floor(i / resampleRatio);
-			if (sourceIndex >= sourceData.length) break;
-
-			outputData[outputIndex] += sourceData[sourceIndex];
+			if (sourceIndex >= leftData.length) break;
+
+			const outputTime = outputIndex / sampleRate;
+			const [fromLeft, fromRight] = getPanMatrix(outputTime)[channel];
+			outputData[outputIndex] +=
+				(leftData[sourceIndex] * fromLeft + rightData[sourceIndex] * fromRight) *
+				getRemappedSampleGain({
+					element,
+					outputTime,
+				});
 		}
 	}
 }
@@ -1,20 +1,70 @@
 import type {
 	AudioElement,
+	AudioFade,
 	LibraryAudioElement,
 	TimelineElement,
 	TimelineTrack,
+	VideoElement,
 } from "@/types/timeline";
 import type { MediaAsset } from "@/types/assets";
+import type { ElementKeyframes } from "@/types/keyframe";
 import type { SidechainEnvelope } from "@/types/sidechain";
-import { canElementHaveAudio } from "@/lib/timeline/element-utils";
-import { canTracktHaveAudio } from "@/lib/timeline";
+import type { OneshotDefinition, OneshotMarker } from "@/types/oneshot";
+import { ORIGINAL_MARKER_REMAP_CONFIG } from "@/types/time-remap";
+import {
+	NO_AUTOMATION,
+	advanceSegmentIndex,
+	applyAutomationBlend,
+	buildAutomationSegments,
+	type AutomationSegment,
+	type AutomationSnapshot,
+	type AutomationTarget,
+} from "@/lib/automation/apply-automation";
+import {
+	canElementHaveAudio,
+	getClipSourceRange,
+	hasMediaId,
+	hasSpeedChange,
+} from "@/lib/timeline/element-utils";
+import {
+	canTracktHaveAudio,
+	getTrackMix,
+	isTrackSilenced,
+} from "@/lib/timeline";
 import { mediaSupportsAudio } from "@/lib/media/media-utils";
 import { getEnvelopeGainAtTime } from "@/lib/sidechain/compute-envelope";
+import { calculateOneshotAudioTiming } from "@/lib/time-remap";
+import { getElementContentTime, resolveAnimatedVolume } from "@/lib/keyframes";
+import {
+	type ResolvedTransition,
+	getTransitionAudioGain,
+} from "@/lib/transitions";
+import { renderClipAtSpeed } from "./clip-speed";
+import { getAudioFadeGain, hasAudioFades } from "./audio-fade";
+import { getStereoPanMatrix } from "./stereo-pan";
 
 export type CollectedAudioElement = Omit<
 	AudioElement,
-	"type" | "mediaId" | "volume" | "id" | "name" | "sourceType" | "sourceUrl"
-> & { buffer: AudioBuffer; loop?: boolean; trackId?: string };
+	"type" | "mediaId" | "name" | "sourceType" | "sourceUrl"
+> & {
+	buffer: AudioBuffer;
+	// where the clip's audio starts in buffer, in seconds
+	bufferStart: number;
+	loop?: boolean;
+	trackId?: string;
+	// the track's mixer fader and pan
+	trackVolume?: number;
+	trackPan?: number;
+};
+
+export interface OneshotMixSource {
+	marker: OneshotMarker;
+	definition: OneshotDefinition;
+	buffer: AudioBuffer;
+	// detune and gain drawn for this hit by its variation group
+	playbackRate: number;
+	gain: number;
+}
 
 export function createAudioContext(): AudioContext {
 	const AudioContextConstructor =
@@ -55,6 +105,29 @@ export async function decodeAudioToFloat32({
 	return { samples, sampleRate: audioBuffer.sampleRate };
 }
 
+// the encoded audio behind a clip: its uploaded file or the library download
+export async function loadElementAudioBlob({
+	element,
+	mediaAssets,
+}: {
+	element: AudioElement | VideoElement;
+	mediaAssets: MediaAsset[];
+}): Promise<Blob> {
+	if (hasMediaId(element)) {
+		const asset = mediaAssets.find(
+			(candidate) => candidate.id === element.mediaId,
+		);
+		if (!asset) throw new Error(`Media ${element.mediaId} not found`);
+		return asset.file;
+	}
+
+	const response = await fetch(element.sourceUrl);
+	if (!response.ok) {
+		throw new Error(`Library audio fetch failed: ${response.status}`);
+	}
+	return response.blob();
+}
+
 export async function collectAudioElements({
 	tracks,
 	mediaAssets,
@@ -70,30 +143,56 @@ export async function collectAudioElements({
 	const pendingElements: Array<Promise<CollectedAudioElement | null>> = [];
 
 	for (const track of tracks) {
-		if (canTracktHaveAudio(track) && track.muted) continue;
+		if (isTrackSilenced({ track, tracks })) continue;
+		const { volume: trackVolume, pan: trackPan } = getTrackMix(track);
 
 		for (const element of track.elements) {
-			if (element.type !== "audio") continue;
+			if (!canElementHaveAudio(element)) continue;
 			if (element.duration <= 0) continue;
+			// video audio is mixed like live playback, where it has no volume of its own
+			if (
+				element.type === "video" &&
+				!mediaSupportsAudio({ media: mediaMap.get(element.mediaId) })
+			) {
+				continue;
+			}
 
-			const isTrackMuted = canTracktHaveAudio(track) && track.muted;
 			const trackId = track.id;
 			pendingElements.push(
 				resolveAudioBufferForElement({
 					element,
 					mediaMap,
 					audioContext,
-				}).then((audioBuffer) => {
+				}).then((sourceBuffer) => {
+					if (!sourceBuffer) return null;
+					const audioBuffer = hasSpeedChange(element)
+						? renderElementAtSpeed({
+								element,
+								buffer: sourceBuffer,
+								audioContext,
+							})
+						: sourceBuffer;
 					if (!audioBuffer) return null;
 					return {
+						id: element.id,
 						buffer: audioBuffer,
+						bufferStart:
+							audioBuffer === sourceBuffer ? element.trimStart : 0,
+						volume: element.type === "audio" ? (element.volume ?? 1) : 1,
+						keyframes: element.keyframes,
 						startTime: element.startTime,
 						duration: element.duration,
 						trimStart: element.trimStart,
 						trimEnd: element.trimEnd,
-						muted: element.muted || isTrackMuted,
-						loop: element.loop ?? false,
+						speed: element.speed,
+						reversed: element.reversed,
+						muted: element.muted ?? false,
+						loop: element.type === "audio" ? (element.loop ?? false) : false,
+						fadeIn: element.type === "audio" ? element.fadeIn : undefined,
+						fadeOut: element.type === "audio" ? element.fadeOut : undefined,
 						trackId,
+						trackVolume,
+						trackPan,
 					};
 				}),
 			);
@@ -108,16 +207,46 @@ export async function collectAudioElements({
 	return audioElements;
 }
 
+// the clip's audio at timeline speed, so mixing can read it like a plain clip
+function renderElementAtSpeed({
+	element,
+	buffer,
+	audioContext,
+}: {
+	element: AudioElement | VideoElement;
+	buffer: AudioBuffer;
+	audioContext: BaseAudioContext;
+}): AudioBuffer | null {
+	const { start, end } = getClipSourceRange({ clip: element });
+	return renderClipAtSpeed({
+		context: audioContext,
+		buffer,
+		sourceStart: start,
+		sourceEnd: end,
+		speed: element.speed ?? 1,
+		reversed: element.reversed,
+		preservePitch: element.preservePitch,
+	});
+}
+
 async function resolveAudioBufferForElement({
 	element,
 	mediaMap,
 	audioContext,
 }: {
-	element: AudioElement;
+	element: AudioElement | VideoElement;
 	mediaMap: Map<string, MediaAsset>;
 	audioContext: AudioContext;
 }): Promise<AudioBuffer | null> {
 	try {
+		if (element.type === "video") {
+			const asset = mediaMap.get(element.mediaId);
+			if (!asset) return null;
+
+			const arrayBuffer = await asset.file.arrayBuffer();
+			return await audioContext.decodeAudioData(arrayBuffer.slice(0));
+		}
+
 		if (element.sourceType === "upload") {
 			const asset = mediaMap.get(element.mediaId);
 			if (!asset || asset.type !== "audio") return null;
@@ -161,6 +290,12 @@ export interface AudioClipSource {
 	muted: boolean;
 	loop?: boolean;
 	baseVolume: number;
+	keyframes?: ElementKeyframes;
+	speed?: number;
+	reversed?: boolean;
+	preservePitch?: boolean;
+	fadeIn?: AudioFade;
+	fadeOut?: AudioFade;
 }
 
 async function fetchLibraryAudioSource({
@@ -228,6 +363,12 @@ async function fetchLibraryAudioClip({
 			muted,
 			loop,
 			baseVolume,
+			keyframes: element.keyframes,
+			speed: element.speed,
+			reversed: element.reversed,
+			preservePitch: element.preservePitch,
+			fadeIn: element.fadeIn,
+			fadeOut: element.fadeOut,
 		};
 	} catch (error) {
 		console.warn("Failed to fetch library audio:", error);
@@ -259,7 +400,7 @@ function collectMediaAudioClip({
 	loop = false,
 	baseVolume,
 }: {
-	element: TimelineElement;
+	element: AudioElement | VideoElement;
 	trackId: string;
 	mediaAsset: MediaAsset;
 	muted: boolean;
@@ -278,6 +419,12 @@ function collectMediaAudioClip({
 		muted,
 		loop,
 		baseVolume,
+		keyframes: element.keyframes,
+		speed: element.speed,
+		reversed: element.reversed,
+		preservePitch: element.preservePitch,
+		fadeIn: element.type === "audio" ? element.fadeIn : undefined,
+		fadeOut: element.type === "audio" ? element.fadeOut : undefined,
 	};
 }
 
@@ -295,7 +442,7 @@ export async function collectAudioMixSources({
 	const pendingLibrarySources: Array<Promise<AudioMixSource | null>> = [];
 
 	for (const track of tracks) {
-		if (canTracktHaveAudio(track) && track.muted) continue;
+		if (isTrackSilenced({ track, tracks })) continue;
 
 		for (const element of track.elements) {
 			if (!canElementHaveAudio(element)) continue;
@@ -349,7 +496,8 @@ export async function collectAudioClips({
 	const pendingLibraryClips: Array<Promise<AudioClipSource | null>> = [];
 
 	for (const track of tracks) {
-		const isTrackMuted = canTracktHaveAudio(track) && track.muted;
+		const isTrackMuted =
+			canTracktHaveAudio(track) && isTrackSilenced({ track, tracks });
 
 		for (const element of track.elements) {
 			if (!canElementHaveAudio(element)) continue;
@@ -422,6 +570,10 @@ export async function createTimelineAudioBuffer({
 	sampleRate = 44100,
 	audioContext,
 	sidechainEnvelopes,
+	oneshots = [],
+	oneshotSidechainEnvelopes,
+	automation,
+	transitions = [],
 }: {
 	tracks: TimelineTrack[];
 	mediaAssets: MediaAsset[];
@@ -429,6 +581,10 @@ export async function createTimelineAudioBuffer({
 	sampleRate?: number;
 	audioContext?: AudioContext;
 	sidechainEnvelopes?: Map<string, SidechainEnvelope[]>;
+	oneshots?: OneshotMixSource[];
+	oneshotSidechainEnvelopes?: Map<string, SidechainEnvelope[]>;
+	automation?: AutomationSnapshot;
+	transitions?: ResolvedTransition[];
 }): Promise<AudioBuffer | null> {
 	const context = audioContext ?? createAudioContext();
 
@@ -438,7 +594,7 @@ export async function createTimelineAudioBuffer({
 		audioContext: context,
 	});
 
-	if (audioElements.length === 0) return null;
+	if (audioElements.length === 0 && oneshots.length === 0) return null;
 
 	const outputChannels = 2;
 	const outputLength = Math.ceil(duration * sampleRate);
@@ -459,28 +615,119 @@ export async function createTimelineAudioBuffer({
 			sidechainEnvelopes: element.trackId
 				? sidechainEnvelopes?.get(element.trackId)
 				: undefined,
+			volumeSegments: getElementAutomationSegments({
+				element,
+				type: "audio-volume",
+				outputLength,
+				sampleRate,
+				automation,
+			}),
+			panSegments: getElementAutomationSegments({
+				element,
+				type: "track-pan",
+				outputLength,
+				sampleRate,
+				automation,
+			}),
+			transitions: transitions.filter(
+				({ transition }) =>
+					transition.fromElementId === element.id ||
+					transition.toElementId === element.id,
+			),
+		});
+	}
+
+	for (const oneshot of oneshots) {
+		const { startTime, playbackRate } = calculateOneshotAudioTiming(
+			oneshot.marker,
+			oneshot.definition,
+			ORIGINAL_MARKER_REMAP_CONFIG,
+			1,
+			oneshot.playbackRate,
+		);
+
+		mixOneshotChannels({
+			oneshot,
+			startTime,
+			playbackRate,
+			outputBuffer,
+			outputLength,
+			sampleRate,
+			sidechainEnvelopes: oneshotSidechainEnvelopes?.get(
+				oneshot.definition.id,
+			),
+			gainSegments: automation
+				? buildAutomationSegments({
+						target: {
+							type: "oneshot-gain",
+							definitionId: oneshot.definition.id,
+						},
+						startTime: Math.max(0, startTime),
+						endTime: outputLength / sampleRate,
+						snapshot: automation,
+					})
+				: undefined,
 		});
 	}
 
 	return outputBuffer;
 }
 
+function getElementAutomationSegments({
+	element,
+	type,
+	outputLength,
+	sampleRate,
+	automation,
+}: {
+	element: CollectedAudioElement;
+	type: Extract<AutomationTarget, { trackId: string }>["type"];
+	outputLength: number;
+	sampleRate: number;
+	automation?: AutomationSnapshot;
+}): AutomationSegment[] {
+	const fallback = [{ time: element.startTime, blend: NO_AUTOMATION }];
+
+	if (!automation || !element.trackId) {
+		return fallback;
+	}
+
+	const endTime = element.loop
+		? outputLength / sampleRate
+		: element.startTime + element.duration;
+
+	const segments = buildAutomationSegments({
+		target: { type, trackId: element.trackId },
+		startTime: element.startTime,
+		endTime,
+		snapshot: automation,
+	});
+
+	return segments.length > 0 ? segments : fallback;
+}
+
 function mixAudioChannels({
 	element,
 	outputBuffer,
 	outputLength,
 	sampleRate,
 	sidechainEnvelopes,
+	volumeSegments,
+	panSegments,
+	transitions,
 }: {
 	element: CollectedAudioElement;
 	outputBuffer: AudioBuffer;
 	outputLength: number;
 	sampleRate: number;
 	sidechainEnvelopes?: SidechainEnvelope[];
+	volumeSegments: AutomationSegment[];
+	panSegments: AutomationSegment[];
+	transitions: ResolvedTransition[];
 }): void {
-	const { buffer, startTime, trimStart, duration: elementDuration, loop } = element;
+	const { buffer, startTime, bufferStart, duration: elementDuration, loop } = element;
 
-	const sourceStartSample = Math.floor(trimStart * buffer.sampleRate);
+	const sourceStartSample = Math.floor(bufferStart * buffer.sampleRate);
 	const sourceLengthSamples = Math.floor(elementDuration * buffer.sampleRate);
 	const outputStartSample = Math.floor(startTime * sampleRate);
 
@@ -489,12 +736,26 @@ function mixAudioChannels({
 
 	// For looping clips, write until end of timeline; otherwise just the clip duration
 	const maxOutputSamples = loop ? (outputLength - outputStartSample) : resampledLength;
+	const hasFades = hasAudioFades(element);
+	const fadeEnd = loop ? outputLength / sampleRate : startTime + elementDuration;
+	const trackVolume = element.trackVolume ?? 1;
+	const getPanRow = ({ segment, channel }: { segment: AutomationSegment; channel: number }) =>
+		getStereoPanMatrix({
+			pan:
+				applyAutomationBlend({
+					blend: segment.blend,
+					base: (element.trackPan ?? 0) * 100,
+				}) / 100,
+		})[channel];
+	const leftData = buffer.getChannelData(0);
+	const rightData = buffer.getChannelData(Math.min(1, buffer.numberOfChannels - 1));
 
 	const outputChannels = 2;
 	for (let channel = 0; channel < outputChannels; channel++) {
 		const outputData = outputBuffer.getChannelData(channel);
-		const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
-		const sourceData = buffer.getChannelData(sourceChannel);
+		let segmentIndex = 0;
+		let panSegmentIndex = 0;
+		let [fromLeft, fromRight] = getPanRow({ segment: panSegments[0], channel });
 
 		for (let i = 0; i < maxOutputSamples; i++) {
 			const outputIndex = outputStartSample + i;
@@ -505,11 +766,148 @@ function mixAudioChannels({
 				? i % resampledLength
 				: i;
 			const sourceIndex = sourceStartSample + Math.floor(sourceOffset / resampleRatio);
-			if (sourceIndex >= sourceData.length) break;
+			if (sourceIndex >= leftData.length) break;
+
+			const timeAtSample = outputIndex / sampleRate;
+			segmentIndex = advanceSegmentIndex({
+				segments: volumeSegments,
+				index: segmentIndex,
+				time: timeAtSample,
+			});
+			const nextPanSegmentIndex = advanceSegmentIndex({
+				segments: panSegments,
+				index: panSegmentIndex,
+				time: timeAtSample,
+			});
+			if (nextPanSegmentIndex !== panSegmentIndex) {
+				panSegmentIndex = nextPanSegmentIndex;
+				[fromLeft, fromRight] = getPanRow({
+					segment: panSegments[panSegmentIndex],
+					channel,
+				});
+			}
+
+			// automation overrides the clip volume, as in live playback
+			const { blend } = volumeSegments[segmentIndex];
+			const volume =
+				applyAutomationBlend({
+					blend,
+					base:
+						blend.baseWeight > 0
+							? resolveAnimatedVolume({
+									volume: element.volume,
+									keyframes: element.keyframes,
+									time: getElementContentTime({ element, time: timeAtSample }),
+								}) * 100
+							: 0,
+				}) / 100;
+
+			let sample =
+				(leftData[sourceIndex] * fromLeft + rightData[sourceIndex] * fromRight) *
+				volume *
+				trackVolume;
+
+			if (hasFades) {
+				sample *= getAudioFadeGain({
+					fadeIn: element.fadeIn,
+					fadeOut: element.fadeOut,
+					start: startTime,
+					end: fadeEnd,
+					time: timeAtSample,
+				});
+			}
 
-			let sample = sourceData[sourceIndex];
+			if (transitions.length > 0) {
+				sample *= getTransitionAudioGain({
+					elementId: element.id,
+					transitions,
+					time: timeAtSample,
+				});
+			}
 
 			// Apply sidechain gain if envelopes are provided
+			if (sidechainEnvelopes && sidechainEnvelopes.length > 0) {
+				for (const envelope of sidechainEnvelopes) {
+					sample *= getEnvelopeGainAtTime(envelope, timeAtSample);
+				}
+			}
+
+			outputData[outputIndex] += sample;
+		}
+	}
+}
+
+/**
+ * Mix one oneshot slice into the output. Oneshots bypass track automation in
+ * live playback, so only the marker volume, the definition's gain automation
+ * and oneshot sidechain targets apply.
+ */
+export function mixOneshotChannels({
+	oneshot,
+	startTime,
+	playbackRate = 1,
+	outputBuffer,
+	outputLength,
+	sampleRate,
+	sidechainEnvelopes,
+	gainSegments,
+}: {
+	oneshot: OneshotMixSource;
+	startTime: number;
+	playbackRate?: number;
+	outputBuffer: AudioBuffer;
+	outputLength: number;
+	sampleRate: number;
+	sidechainEnvelopes?: SidechainEnvelope[];
+	gainSegments?: AutomationSegment[];
+}): void {
+	const { buffer, marker, definition } = oneshot;
+	const volume = (marker.volume ?? 1) * oneshot.gain;
+
+	const sourceStartSample = Math.floor(definition.trimStart * buffer.sampleRate);
+	const sourceEndSample = Math.min(
+		buffer.length,
+		Math.floor(definition.trimEnd * buffer.sampleRate),
+	);
+	const outputStartSample = Math.floor(startTime * sampleRate);
+	const resampleRatio = sampleRate / buffer.sampleRate;
+	const sliceOutputSamples = Math.floor(
+		((sourceEndSample - sourceStartSample) * resampleRatio) / playbackRate,
+	);
+
+	// slices that start before 0 play from the matching offset, like a late start
+	const firstSample = Math.max(0, -outputStartSample);
+
+	const outputChannels = 2;
+	for (let channel = 0; channel < outputChannels; channel++) {
+		const outputData = outputBuffer.getChannelData(channel);
+		const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
+		const sourceData = buffer.getChannelData(sourceChannel);
+		let segmentIndex = 0;
+
+		for (let i = firstSample; i < sliceOutputSamples; i++) {
+			const outputIndex = outputStartSample + i;
+			if (outputIndex >= outputLength) break;
+
+			const sourceIndex =
+				sourceStartSample + Math.floor((i * playbackRate) / resampleRatio);
+			if (sourceIndex >= sourceEndSample) break;
+
+			let sample = sourceData[sourceIndex] * volume;
+
+			if (gainSegments && gainSegments.length > 0) {
+				segmentIndex = advanceSegmentIndex({
+					segments: gainSegments,
+					index: segmentIndex,
+					time: outputIndex / sampleRate,
+				});
+				sample *=
+					applyAutomationBlend({
+						blend: gainSegments[segmentIndex].blend,
+						base: 100,
+					}) / 100;
+			}
+
 			if (sidechainEnvelopes && sidechainEnvelopes.length > 0) {
 				const timeAtSample = outputIndex / sampleRate;
 				for (const envelope of sidechainEnvelopes) {
@@ -0,0 +1,131 @@
+import { SoundTouch, SimpleFilter } from "soundtouchjs";
+
+const STRETCH_CHUNK_FRAMES = 4096;
+
+/**
+ * Time-stretch interleaved stereo samples with SoundTouch's WSOLA, keeping the
+ * pitch. A tempo above 1 shortens the audio.
+ */
+export function stretchInterleaved({
+	interleaved,
+	tempo,
+	outputFrames,
+}: {
+	interleaved: Float32Array;
+	tempo: number;
+	outputFrames: number;
+}): Float32Array {
+	const st = new SoundTouch();
+	st.tempo = tempo;
+
+	const sourceFrameCount = interleaved.length / 2;
+	let sourcePosition = 0;
+
+	const source = {
+		extract(target: Float32Array, numFrames: number): number {
+			const framesToRead = Math.min(
+				numFrames,
+				sourceFrameCount - sourcePosition,
+			);
+			if (framesToRead <= 0) return 0;
+
+			target.set(
+				interleaved.subarray(
+					sourcePosition * 2,
+					(sourcePosition + framesToRead) * 2,
+				),
+			);
+			sourcePosition += framesToRead;
+			return framesToRead;
+		},
+	};
+
+	const filter = new SimpleFilter(source, st);
+	const output = new Float32Array(outputFrames * 2);
+	const chunkBuffer = new Float32Array(STRETCH_CHUNK_FRAMES * 2);
+
+	let framesWritten = 0;
+	while (framesWritten < outputFrames) {
+		const framesToExtract = Math.min(
+			STRETCH_CHUNK_FRAMES,
+			outputFrames - framesWritten,
+		);
+		const extracted = filter.extract(chunkBuffer, framesToExtract);
+		if (extracted === 0) break;
+
+		output.set(chunkBuffer.subarray(0, extracted * 2), framesWritten * 2);
+		framesWritten += extracted;
+	}
+
+	return output;
+}
+
+/**
+ * Render the source range a clip plays into a buffer that runs at timeline
+ * speed, reversed if needed. Pitch-preserving clips are time-stretched,
+ * the rest are resampled and change pitch with speed.
+ */
+export function renderClipAtSpeed({
+	context,
+	buffer,
+	sourceStart,
+	sourceEnd,
+	speed,
+	reversed = false,
+	preservePitch = true,
+}: {
+	context: BaseAudioContext;
+	buffer: AudioBuffer;
+	sourceStart: number;
+	sourceEnd: number;
+	speed: number;
+	reversed?: boolean;
+	preservePitch?: boolean;
+}): AudioBuffer | null {
+	const { sampleRate } = buffer;
+	const startSample = Math.max(0, Math.floor(sourceStart * sampleRate));
+	const endSample = Math.min(buffer.length, Math.floor(sourceEnd * sampleRate));
+	const sourceFrames = endSample - startSample;
+	const outputFrames = Math.floor(sourceFrames / speed);
+	if (sourceFrames <= 0 || outputFrames <= 0) return null;
+
+	const left = buffer.getChannelData(0).slice(startSample, endSample);
+	const right =
+		buffer.numberOfChannels > 1
+			? buffer.getChannelData(1).slice(startSample, endSample)
+			: left.slice();
+	if (reversed) {
+		left.reverse();
+		right.reverse();
+	}
+
+	const output = context.createBuffer(2, outputFrames, sampleRate);
+	const outLeft = output.getChannelData(0);
+	const outRight = output.getChannelData(1);
+
+	if (preservePitch && speed !== 1) {
+		const interleaved = new Float32Array(sourceFrames * 2);
+		for (let i = 0; i < sourceFrames; i++) {
+			interleaved[i * 2] = left[i];
+			interleaved[i * 2 + 1] = right[i];
+		}
+
+		const stretched = stretchInterleaved({
+			interleaved,
+			tempo: speed,
+			outputFrames,
+		});
+		for (let i = 0; i < outputFrames; i++) {
+			outLeft[i] = stretched[i * 2];
+			outRight[i] = stretched[i * 2 + 1];
+		}
+		return output;
+	}
+
+	for (let i = 0; i < outputFrames; i++) {
+		const sourceIndex = Math.min(sourceFrames - 1, Math.floor(i * speed));
+		outLeft[i] = left[sourceIndex];
+		outRight[i] = right[sourceIndex];
+	}
+	return output;
+}
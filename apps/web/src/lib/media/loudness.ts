@@ -0,0 +1,404 @@
+import type { LoudnessOptions, LoudnessReport } from "@/types/loudness";
+
+const SEGMENT_SECONDS = 0.1; // blocks and windows hop in 100ms steps
+const MOMENTARY_SEGMENTS = 4; // 400ms gating blocks
+const SHORT_TERM_SEGMENTS = 30; // 3s windows
+const ABSOLUTE_GATE = -70; // LUFS
+const INTEGRATED_RELATIVE_GATE = -10; // LU
+const RANGE_RELATIVE_GATE = -20; // LU
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+
+const OVERSAMPLING = 4;
+// samples either side of an interpolated point; 48 taps in all, as in the spec
+const INTERPOLATION_HALF_TAPS = 6;
+const LIMITER_LOOKAHEAD = 0.005; // seconds
+const LIMITER_RELEASE = 0.08; // seconds
+
+interface Biquad {
+	b0: number;
+	b1: number;
+	b2: number;
+	a1: number;
+	a2: number;
+}
+
+/**
+ * Loudness of the mix as BS.1770 defines it: K-weighted, gated at -70 LUFS
+ * and again 10 LU under the ungated level, plus the EBU loudness range and a
+ * 4x oversampled true peak.
+ */
+export function measureLoudness({
+	channels,
+	sampleRate,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+}): LoudnessReport {
+	return getLoudnessReport({
+		channels,
+		sampleRate,
+		truePeak: getTruePeak({ channels }),
+	});
+}
+
+/**
+ * Gain the mix to the target loudness, then hold its true peak under the
+ * ceiling. Works in place and reports the processed audio, which can land
+ * under the target when the limiter has to work hard.
+ */
+export function applyLoudnessOptions({
+	channels,
+	sampleRate,
+	options,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+	options: LoudnessOptions;
+}): LoudnessReport {
+	const { targetLufs, truePeakCeiling } = options;
+
+	if (targetLufs !== null) {
+		const integrated = getIntegratedLoudness({
+			segmentPowers: getSegmentPowers({ channels, sampleRate }),
+		});
+		// silence has no loudness to move
+		if (Number.isFinite(integrated)) {
+			applyGain({ channels, gain: fromDecibels(targetLufs - integrated) });
+		}
+	}
+
+	if (truePeakCeiling === null) {
+		return measureLoudness({ channels, sampleRate });
+	}
+
+	// the oversampled peak scan is the slow part, so the limiter's last one
+	// is reused for the report
+	const truePeak = limitTruePeak({
+		channels,
+		sampleRate,
+		ceiling: fromDecibels(truePeakCeiling),
+	});
+	return getLoudnessReport({ channels, sampleRate, truePeak });
+}
+
+function getLoudnessReport({
+	channels,
+	sampleRate,
+	truePeak,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+	truePeak: number;
+}): LoudnessReport {
+	const segmentPowers = getSegmentPowers({ channels, sampleRate });
+	const shortTerm = getWindowLoudness({
+		segmentPowers,
+		segments: SHORT_TERM_SEGMENTS,
+	});
+
+	return {
+		integrated: getIntegratedLoudness({ segmentPowers }),
+		shortTermMax: shortTerm.reduce(
+			(loudest, loudness) => Math.max(loudest, loudness),
+			-Infinity,
+		),
+		loudnessRange: getLoudnessRange({ shortTerm }),
+		truePeak: toDecibels(truePeak),
+	};
+}
+
+/**
+ * Lookahead limiter keyed on the oversampled peak. The gain drops ahead of
+ * each over, so no sample is ever hit by a sudden change, and recovers over
+ * the release time. Returns the true peak of the limited audio.
+ */
+function limitTruePeak({
+	channels,
+	sampleRate,
+	ceiling,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+	ceiling: number;
+}): number {
+	const peaks = getTruePeaks({ channels });
+	const length = peaks.length;
+	const inputPeak = peaks.reduce((loudest, peak) => Math.max(loudest, peak), 0);
+	if (inputPeak <= ceiling) return inputPeak;
+
+	const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+	const releaseStep = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+
+	// lowest gain needed anywhere in the next `lookahead` samples
+	const required = new Float32Array(length);
+	for (let i = 0; i < length; i++) {
+		required[i] = peaks[i] > ceiling ? ceiling / peaks[i] : 1;
+	}
+	const upcoming = getForwardMinimum({ values: required, window: lookahead });
+
+	// instant attack, smooth release
+	let released = 1;
+	for (let i = 0; i < length; i++) {
+		released = Math.min(upcoming[i], released + (1 - released) * releaseStep);
+		upcoming[i] = released;
+	}
+
+	// averaging over the lookahead ramps the gain in without overshooting it,
+	// since every sample averaged already saw the over coming
+	let sum = 0;
+	for (let i = 0; i < length; i++) {
+		sum += upcoming[i];
+		if (i >= lookahead) sum -= upcoming[i - lookahead];
+		const gain = sum / Math.min(i + 1, lookahead);
+		for (const channel of channels) channel[i] *= gain;
+	}
+
+	// the gain curve itself can nudge a few inter-sample peaks back over
+	const truePeak = getTruePeak({ channels });
+	if (truePeak <= ceiling) return truePeak;
+	applyGain({ channels, gain: ceiling / truePeak });
+	return ceiling;
+}
+
+function getTruePeak({ channels }: { channels: Float32Array[] }): number {
+	return getTruePeaks({ channels }).reduce(
+		(loudest, peak) => Math.max(loudest, peak),
+		0,
+	);
+}
+
+// per sample, the loudest point up to the next sample across all channels
+function getTruePeaks({
+	channels,
+}: {
+	channels: Float32Array[];
+}): Float32Array {
+	const length = channels[0]?.length ?? 0;
+	const peaks = new Float32Array(length);
+	const kernels = getInterpolationKernels();
+
+	for (const channel of channels) {
+		for (let i = 0; i < length; i++) {
+			let peak = Math.abs(channel[i]);
+			for (const kernel of kernels) {
+				let value = 0;
+				for (let tap = 0; tap < kernel.length; tap++) {
+					const index = i + tap - INTERPOLATION_HALF_TAPS + 1;
+					if (index >= 0 && index < length) {
+						value += channel[index] * kernel[tap];
+					}
+				}
+				peak = Math.max(peak, Math.abs(value));
+			}
+			peaks[i] = Math.max(peaks[i], peak);
+		}
+	}
+	return peaks;
+}
+
+// Hann-windowed sinc taps for each point between two samples
+function getInterpolationKernels(): Float32Array[] {
+	const kernels: Float32Array[] = [];
+	for (let phase = 1; phase < OVERSAMPLING; phase++) {
+		const fraction = phase / OVERSAMPLING;
+		const kernel = new Float32Array(INTERPOLATION_HALF_TAPS * 2);
+		for (let tap = 0; tap < kernel.length; tap++) {
+			const distance = tap - INTERPOLATION_HALF_TAPS + 1 - fraction;
+			const sinc = Math.sin(Math.PI * distance) / (Math.PI * distance);
+			const window =
+				0.5 * (1 + Math.cos((Math.PI * distance) / INTERPOLATION_HALF_TAPS));
+			kernel[tap] = sinc * window;
+		}
+		kernels.push(kernel);
+	}
+	return kernels;
+}
+
+// minimum of values[i..i+window-1] for every i, with a monotonic queue
+function getForwardMinimum({
+	values,
+	window,
+}: {
+	values: Float32Array;
+	window: number;
+}): Float32Array {
+	const result = new Float32Array(values.length);
+	const queue = new Int32Array(values.length);
+	let head = 0;
+	let tail = 0;
+	for (let i = values.length - 1; i >= 0; i--) {
+		while (tail > head && values[queue[tail - 1]] >= values[i]) tail--;
+		queue[tail++] = i;
+		if (queue[head] >= i + window) head++;
+		result[i] = values[queue[head]];
+	}
+	return result;
+}
+
+// K-weighted power summed over channels, per 100ms segment
+function getSegmentPowers({
+	channels,
+	sampleRate,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+}): Float64Array {
+	const segmentLength = Math.round(SEGMENT_SECONDS * sampleRate);
+	const length = channels[0]?.length ?? 0;
+	const segmentPowers = new Float64Array(Math.floor(length / segmentLength));
+	const filters = getKWeightingFilters({ sampleRate });
+
+	for (const channel of channels) {
+		const states = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+		for (let i = 0; i < segmentPowers.length * segmentLength; i++) {
+			let value = channel[i];
+			for (let stage = 0; stage < filters.length; stage++) {
+				const filter = filters[stage];
+				const state = states[stage];
+				const output =
+					filter.b0 * value +
+					filter.b1 * state.x1 +
+					filter.b2 * state.x2 -
+					filter.a1 * state.y1 -
+					filter.a2 * state.y2;
+				state.x2 = state.x1;
+				state.x1 = value;
+				state.y2 = state.y1;
+				state.y1 = output;
+				value = output;
+			}
+			segmentPowers[Math.floor(i / segmentLength)] +=
+				(value * value) / segmentLength;
+		}
+	}
+	return segmentPowers;
+}
+
+// loudness of each window of `segments` segments, hopping one segment
+function getWindowLoudness({
+	segmentPowers,
+	segments,
+}: {
+	segmentPowers: Float64Array;
+	segments: number;
+}): number[] {
+	const loudness: number[] = [];
+	let sum = 0;
+	for (let i = 0; i < segmentPowers.length; i++) {
+		sum += segmentPowers[i];
+		if (i >= segments) sum -= segmentPowers[i - segments];
+		if (i >= segments - 1) {
+			loudness.push(toLoudness(Math.max(0, sum) / segments));
+		}
+	}
+	return loudness;
+}
+
+function getIntegratedLoudness({
+	segmentPowers,
+}: {
+	segmentPowers: Float64Array;
+}): number {
+	const blocks = getWindowLoudness({
+		segmentPowers,
+		segments: MOMENTARY_SEGMENTS,
+	});
+	const aboveAbsolute = blocks.filter((block) => block > ABSOLUTE_GATE);
+	if (aboveAbsolute.length === 0) return -Infinity;
+
+	const threshold = averageLoudness(aboveAbsolute) + INTEGRATED_RELATIVE_GATE;
+	const gated = aboveAbsolute.filter((block) => block > threshold);
+	return gated.length > 0 ? averageLoudness(gated) : -Infinity;
+}
+
+// spread between the quiet and loud ends of the short-term loudness, in LU
+function getLoudnessRange({ shortTerm }: { shortTerm: number[] }): number {
+	const aboveAbsolute = shortTerm.filter((value) => value > ABSOLUTE_GATE);
+	if (aboveAbsolute.length === 0) return 0;
+
+	const threshold = averageLoudness(aboveAbsolute) + RANGE_RELATIVE_GATE;
+	const gated = aboveAbsolute
+		.filter((value) => value > threshold)
+		.sort((a, b) => a - b);
+	if (gated.length === 0) return 0;
+
+	const percentile = (fraction: number) =>
+		gated[
+			Math.min(gated.length - 1, Math.round((gated.length - 1) * fraction))
+		];
+	return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+}
+
+// blocks are averaged as power, not as LUFS
+function averageLoudness(values: number[]): number {
+	let power = 0;
+	for (const value of values) power += 10 ** ((value + 0.691) / 10);
+	return toLoudness(power / values.length);
+}
+
+function toLoudness(power: number): number {
+	return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * The two K-weighting stages, a high shelf for the head's acoustic boost and
+ * a high-pass for the low end, designed for any sample rate rather than only
+ * the 48kHz table in the spec.
+ */
+function getKWeightingFilters({
+	sampleRate,
+}: {
+	sampleRate: number;
+}): Biquad[] {
+	const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+	const shelfQ = 0.7071752369554196;
+	const shelfGain = 10 ** (3.999843853973347 / 20);
+	const shelfBand = shelfGain ** 0.4996667741545416;
+	const shelfNorm = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+	const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+	const passQ = 0.5003270373238773;
+	const passNorm = 1 + passK / passQ + passK * passK;
+
+	return [
+		{
+			b0:
+				(shelfGain + (shelfBand * shelfK) / shelfQ + shelfK * shelfK) /
+				shelfNorm,
+			b1: (2 * (shelfK * shelfK - shelfGain)) / shelfNorm,
+			b2:
+				(shelfGain - (shelfBand * shelfK) / shelfQ + shelfK * shelfK) /
+				shelfNorm,
+			a1: (2 * (shelfK * shelfK - 1)) / shelfNorm,
+			a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfNorm,
+		},
+		{
+			b0: 1,
+			b1: -2,
+			b2: 1,
+			a1: (2 * (passK * passK - 1)) / passNorm,
+			a2: (1 - passK / passQ + passK * passK) / passNorm,
+		},
+	];
+}
+
+function applyGain({
+	channels,
+	gain,
+}: {
+	channels: Float32Array[];
+	gain: number;
+}): void {
+	for (const channel of channels) {
+		for (let i = 0; i < channel.length; i++) channel[i] *= gain;
+	}
+}
+
+function toDecibels(gain: number): number {
+	return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+function fromDecibels(decibels: number): number {
+	return 10 ** (decibels / 20);
+}
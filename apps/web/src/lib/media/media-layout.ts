@@ -0,0 +1,82 @@
+import type { CropRect, MediaFitMode } from "@/types/timeline";
+import {
+	DEFAULT_CROP_RECT,
+	DEFAULT_FIT_MODE,
+	MIN_CROP_SIZE,
+} from "@/constants/media-constants";
+import { clamp } from "@/utils/math";
+
+export interface MediaDrawRects {
+	source: { x: number; y: number; width: number; height: number };
+	destination: { x: number; y: number; width: number; height: number };
+}
+
+export function normalizeCropRect({
+	crop,
+}: {
+	crop: CropRect | undefined;
+}): CropRect {
+	if (!crop) return DEFAULT_CROP_RECT;
+
+	const x = clamp({ value: crop.x, min: 0, max: 1 - MIN_CROP_SIZE });
+	const y = clamp({ value: crop.y, min: 0, max: 1 - MIN_CROP_SIZE });
+	return {
+		x,
+		y,
+		width: clamp({ value: crop.width, min: MIN_CROP_SIZE, max: 1 - x }),
+		height: clamp({ value: crop.height, min: MIN_CROP_SIZE, max: 1 - y }),
+	};
+}
+
+/**
+ * Source and destination rectangles for drawing media onto the canvas. The
+ * cropped region is fitted to the canvas and centered; element transforms are
+ * applied on top of this layout.
+ */
+export function getMediaDrawRects({
+	mediaWidth,
+	mediaHeight,
+	canvasWidth,
+	canvasHeight,
+	crop,
+	fitMode = DEFAULT_FIT_MODE,
+}: {
+	mediaWidth: number;
+	mediaHeight: number;
+	canvasWidth: number;
+	canvasHeight: number;
+	crop?: CropRect;
+	fitMode?: MediaFitMode;
+}): MediaDrawRects {
+	const rect = normalizeCropRect({ crop });
+	const source = {
+		x: rect.x * mediaWidth,
+		y: rect.y * mediaHeight,
+		width: rect.width * mediaWidth,
+		height: rect.height * mediaHeight,
+	};
+
+	if (fitMode === "stretch" || source.width <= 0 || source.height <= 0) {
+		return {
+			source,
+			destination: { x: 0, y: 0, width: canvasWidth, height: canvasHeight },
+		};
+	}
+
+	const scaleX = canvasWidth / source.width;
+	const scaleY = canvasHeight / source.height;
+	const scale =
+		fitMode === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+	const width = source.width * scale;
+	const height = source.height * scale;
+
+	return {
+		source,
+		destination: {
+			x: (canvasWidth - width) / 2,
+			y: (canvasHeight - height) / 2,
+			width,
+			height,
+		},
+	};
+}
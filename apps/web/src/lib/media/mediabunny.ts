@@ -1,5 +1,6 @@
 import { Input, ALL_FORMATS, BlobSource, AudioBufferSink } from "mediabunny";
 import { collectAudioMixSources } from "@/lib/media/audio";
+import { encodeWav } from "@/lib/media/wav";
 import type { TimelineTrack } from "@/types/timeline";
 import type { MediaAsset } from "@/types/assets";
 
@@ -51,7 +52,7 @@ export const extractTimelineAudio = async ({
 	onProgress?: (progress: number) => void;
 }): Promise<Blob> => {
 	if (totalDuration === 0) {
-		return createWavBlob({ samples: new Float32Array(SAMPLE_RATE * 0.1) });
+		return createWavBlob({ channels: createSilence({ duration: 0.05 }) });
 	}
 
 	const audioMixSources = await collectAudioMixSources({
@@ -60,11 +61,9 @@ export const extractTimelineAudio = async ({
 	});
 
 	if (audioMixSources.length === 0) {
-		const silentDuration = Math.max(1, totalDuration);
-		const silentSamples = new Float32Array(
-			Math.ceil(silentDuration * SAMPLE_RATE) * NUM_CHANNELS,
-		);
-		return createWavBlob({ samples: silentSamples });
+		return createWavBlob({
+			channels: createSilence({ duration: Math.max(1, totalDuration) }),
+		});
 	}
 
 	const totalSamples = Math.ceil(totalDuration * SAMPLE_RATE);
@@ -94,25 +93,12 @@ export const extractTimelineAudio = async ({
 		}
 	}
 
-	// clamp to prevent clipping
-	for (const channel of mixBuffers) {
-		for (let i = 0; i < channel.length; i++) {
-			channel[i] = Math.max(-1, Math.min(1, channel[i]));
-		}
-	}
-
-	// interleave channels for wav output
-	const interleavedSamples = new Float32Array(totalSamples * NUM_CHANNELS);
-	for (let i = 0; i < totalSamples; i++) {
-		interleavedSamples[i * 2] = mixBuffers[0][i];
-		interleavedSamples[i * 2 + 1] = mixBuffers[1][i];
-	}
-
 	if (onProgress) {
 		onProgress(100);
 	}
 
-	return createWavBlob({ samples: interleavedSamples });
+	// the encoder clamps, which keeps overs from wrapping around
+	return createWavBlob({ channels: mixBuffers });
 };
 
 async function decodeAndMixAudioSource({
@@ -171,56 +157,16 @@ async function decodeAndMixAudioSource({
 	}
 }
 
-function createWavBlob({ samples }: { samples: Float32Array }): Blob {
-	const numChannels = NUM_CHANNELS;
-	const bitsPerSample = 16;
-	const bytesPerSample = bitsPerSample / 8;
-	const numSamples = samples.length / numChannels;
-	const dataSize = numSamples * numChannels * bytesPerSample;
-	const buffer = new ArrayBuffer(44 + dataSize);
-	const view = new DataView(buffer);
-
-	// riff header
-	writeString({ view, offset: 0, str: "RIFF" });
-	view.setUint32(4, 36 + dataSize, true);
-	writeString({ view, offset: 8, str: "WAVE" });
-
-	// fmt chunk
-	writeString({ view, offset: 12, str: "fmt " });
-	view.setUint32(16, 16, true);
-	view.setUint16(20, 1, true);
-	view.setUint16(22, numChannels, true);
-	view.setUint32(24, SAMPLE_RATE, true);
-	view.setUint32(28, SAMPLE_RATE * numChannels * bytesPerSample, true);
-	view.setUint16(32, numChannels * bytesPerSample, true);
-	view.setUint16(34, bitsPerSample, true);
-
-	// data chunk
-	writeString({ view, offset: 36, str: "data" });
-	view.setUint32(40, dataSize, true);
-
-	// convert float32 to int16 and write
-	let offset = 44;
-	for (let i = 0; i < samples.length; i++) {
-		const sample = Math.max(-1, Math.min(1, samples[i]));
-		const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-		view.setInt16(offset, int16, true);
-		offset += 2;
-	}
-
-	return new Blob([buffer], { type: "audio/wav" });
+function createWavBlob({ channels }: { channels: Float32Array[] }): Blob {
+	return new Blob([encodeWav({ channels, sampleRate: SAMPLE_RATE })], {
+		type: "audio/wav",
+	});
 }
 
-function writeString({
-	view,
-	offset,
-	str,
-}: {
-	view: DataView;
-	offset: number;
-	str: string;
-}): void {
-	for (let i = 0; i < str.length; i++) {
-		view.setUint8(offset + i, str.charCodeAt(i));
-	}
+function createSilence({ duration }: { duration: number }): Float32Array[] {
+	const frameCount = Math.ceil(duration * SAMPLE_RATE);
+	return Array.from(
+		{ length: NUM_CHANNELS },
+		() => new Float32Array(frameCount),
+	);
 }
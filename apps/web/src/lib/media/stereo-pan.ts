@@ -0,0 +1,32 @@
+import { clamp } from "@/utils/math";
+
+export type StereoPanMatrix = [[number, number], [number, number]];
+
+/**
+ * Gains from the left and right source channels into each output channel,
+ * following StereoPannerNode on stereo input so exports sound like playback.
+ * Mono sources are up-mixed to both sides first.
+ */
+export function getStereoPanMatrix({ pan }: { pan: number }): StereoPanMatrix {
+	const clamped = clamp({ value: pan, min: -1, max: 1 });
+	if (clamped === 0) {
+		return [
+			[1, 0],
+			[0, 1],
+		];
+	}
+
+	if (clamped < 0) {
+		const x = ((clamped + 1) * Math.PI) / 2;
+		return [
+			[1, Math.cos(x)],
+			[0, Math.sin(x)],
+		];
+	}
+
+	const x = (clamped * Math.PI) / 2;
+	return [
+		[Math.cos(x), 0],
+		[Math.sin(x), 1],
+	];
+}
@@ -0,0 +1,236 @@
+import {
+	DETECTION_MAX_BPM,
+	DETECTION_MIN_BPM,
+} from "@/constants/beat-grid-constants";
+import {
+	computeOnsetStrength,
+	getClipOnsetTimes,
+	getOnsetTime,
+} from "@/lib/media/transient-detection";
+import { normalizeBeatOffset } from "@/lib/timeline/beat-grid";
+import { type ClipTiming, getClipSourceRange } from "@/lib/timeline";
+import type { BeatGrid } from "@/types/beat-grid";
+
+// most music sits near this, so it breaks ties between half and double time
+const PRIOR_CENTER_BPM = 120;
+const PRIOR_WIDTH_OCTAVES = 1;
+// the period is re-measured at this multiple of itself, where a frame of
+// error is spread over several beats
+const PERIOD_REFINE_MULTIPLE = 4;
+// frames either side a beat may land and still count toward the phase
+const PHASE_TOLERANCE_FRAMES = 2;
+
+export interface DetectedTempo {
+	bpm: number;
+	downbeat: number; // source seconds
+}
+
+/**
+ * Tempo from the autocorrelation of the onset strength, then the beat phase
+ * that lines up with the most onsets and the bar position whose beats hit
+ * hardest as the downbeat. Null when there is nothing rhythmic to go on.
+ */
+export function detectTempo({
+	samples,
+	sampleRate,
+	beatsPerBar,
+}: {
+	samples: Float32Array;
+	sampleRate: number;
+	beatsPerBar: number;
+}): DetectedTempo | null {
+	const onsetStrength = computeOnsetStrength({ samples, sampleRate });
+	const { frameRate, strength } = onsetStrength;
+
+	let mean = 0;
+	for (const value of strength) mean += value;
+	mean /= strength.length || 1;
+	if (mean === 0) return null;
+	const novelty = strength.map((value) => value - mean);
+
+	const minLag = Math.floor((60 / DETECTION_MAX_BPM) * frameRate);
+	const maxLag = Math.ceil((60 / DETECTION_MIN_BPM) * frameRate);
+	if (novelty.length < maxLag * 2) return null;
+
+	let bestLag = 0;
+	let bestScore = 0;
+	for (let lag = minLag; lag <= maxLag; lag++) {
+		const bpm = (60 * frameRate) / lag;
+		const octaves = Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_WIDTH_OCTAVES;
+		const score =
+			autocorrelate({ values: novelty, lag }) * Math.exp(-0.5 * octaves ** 2);
+		if (score > bestScore) {
+			bestScore = score;
+			bestLag = lag;
+		}
+	}
+	if (bestLag === 0) return null;
+
+	const period = refinePeriod({ values: novelty, lag: bestLag });
+	const phase = findBeatPhase({ strength, period });
+
+	// the bar position whose beats carry the most energy is taken as beat one
+	let downbeatFrame = phase;
+	let loudestBar = -Infinity;
+	for (let position = 0; position < beatsPerBar; position++) {
+		const start = phase + position * period;
+		const energy = sumAtBeats({
+			values: strength,
+			start,
+			period: period * beatsPerBar,
+		});
+		if (energy > loudestBar) {
+			loudestBar = energy;
+			downbeatFrame = start;
+		}
+	}
+
+	return {
+		bpm: Math.round(((60 * frameRate) / period) * 100) / 100,
+		downbeat: getOnsetTime({ onsetStrength, frame: downbeatFrame }),
+	};
+}
+
+/**
+ * A grid lined up with a detected tempo as a clip plays it on the timeline:
+ * the tempo follows the clip's speed and the offset is a downbeat the clip
+ * actually plays.
+ */
+export function getClipBeatGrid({
+	clip,
+	startTime,
+	tempo,
+	beatsPerBar,
+}: {
+	clip: ClipTiming;
+	startTime: number;
+	tempo: DetectedTempo;
+	beatsPerBar: number;
+}): BeatGrid {
+	const speed = clip.speed ?? 1;
+	const bpm = tempo.bpm * speed;
+	const barDuration = (60 / tempo.bpm) * beatsPerBar;
+
+	// the downbeats within the source range the clip plays
+	const { start, end } = getClipSourceRange({ clip });
+	const firstBar = Math.ceil((start - tempo.downbeat) / barDuration);
+	const downbeats: number[] = [];
+	for (
+		let time = tempo.downbeat + firstBar * barDuration;
+		time <= end;
+		time += barDuration
+	) {
+		downbeats.push(time);
+	}
+	const [firstDownbeat] = getClipOnsetTimes({
+		clip,
+		startTime,
+		onsets: downbeats,
+	});
+
+	return {
+		bpm,
+		offset: normalizeBeatOffset({
+			offset: firstDownbeat ?? startTime,
+			bpm,
+			beatsPerBar,
+		}),
+		beatsPerBar,
+		enabled: true,
+	};
+}
+
+function autocorrelate({
+	values,
+	lag,
+}: {
+	values: Float32Array;
+	lag: number;
+}): number {
+	const count = values.length - lag;
+	if (count <= 0) return 0;
+	let sum = 0;
+	for (let i = 0; i < count; i++) {
+		sum += values[i] * values[i + lag];
+	}
+	return sum / count;
+}
+
+// sub-frame period from a parabola through the peak at a multiple of the lag
+function refinePeriod({
+	values,
+	lag,
+}: {
+	values: Float32Array;
+	lag: number;
+}): number {
+	let multiple = PERIOD_REFINE_MULTIPLE;
+	while (multiple > 1 && lag * multiple * 2 > values.length) multiple--;
+
+	// the multiple's peak can sit a frame or two off the exact multiple
+	let peakLag = lag * multiple;
+	let peakScore = -Infinity;
+	for (
+		let candidate = (lag - 1) * multiple;
+		candidate <= (lag + 1) * multiple;
+		candidate++
+	) {
+		const score = autocorrelate({ values, lag: candidate });
+		if (score > peakScore) {
+			peakScore = score;
+			peakLag = candidate;
+		}
+	}
+
+	const before = autocorrelate({ values, lag: peakLag - 1 });
+	const peak = peakScore;
+	const after = autocorrelate({ values, lag: peakLag + 1 });
+	const curvature = before - 2 * peak + after;
+	const shift = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+	return (peakLag + shift) / multiple;
+}
+
+// frame of the first beat, from the phase that lines up with the most onsets
+function findBeatPhase({
+	strength,
+	period,
+}: {
+	strength: Float32Array;
+	period: number;
+}): number {
+	let bestPhase = 0;
+	let bestScore = -Infinity;
+	for (let phase = 0; phase < period; phase++) {
+		const score = sumAtBeats({ values: strength, start: phase, period });
+		if (score > bestScore) {
+			bestScore = score;
+			bestPhase = phase;
+		}
+	}
+	return bestPhase;
+}
+
+function sumAtBeats({
+	values,
+	start,
+	period,
+}: {
+	values: Float32Array;
+	start: number;
+	period: number;
+}): number {
+	let sum = 0;
+	for (let position = start; position < values.length; position += period) {
+		const center = Math.round(position);
+		let peak = 0;
+		for (
+			let i = Math.max(0, center - PHASE_TOLERANCE_FRAMES);
+			i <= Math.min(values.length - 1, center + PHASE_TOLERANCE_FRAMES);
+			i++
+		) {
+			peak = Math.max(peak, values[i]);
+		}
+		sum += peak;
+	}
+	return sum;
+}
@@ -0,0 +1,132 @@
+import { TRANSIENT_MIN_GAP } from "@/constants/transient-constants";
+import { computeRmsEnvelope } from "@/lib/sidechain/compute-envelope";
+import { type ClipTiming, getClipSourceRange } from "@/lib/timeline";
+
+const FRAME_RATE = 200; // 5ms frames
+const RISE_FRAMES = 2; // level rise is measured over 10ms
+const LEVEL_FLOOR_DB = -80;
+// hits quieter than this are noise, whatever the sensitivity
+const SILENCE_DB = -50;
+// frames either side averaged into the adaptive threshold
+const THRESHOLD_WINDOW_FRAMES = 40;
+// dB the rise has to clear above its surroundings, at sensitivity 0 and 1
+const LEAST_SENSITIVE_RISE_DB = 18;
+const MOST_SENSITIVE_RISE_DB = 3;
+
+/**
+ * How sharply the level rises at each frame. Computing it is the slow part
+ * of detection, so it is kept apart from peak picking and a sensitivity
+ * change only has to re-pick.
+ */
+export interface OnsetStrength {
+	frameRate: number;
+	levels: Float32Array; // dB
+	strength: Float32Array; // dB of rise, 0 when falling
+}
+
+export function computeOnsetStrength({
+	samples,
+	sampleRate,
+}: {
+	samples: Float32Array;
+	sampleRate: number;
+}): OnsetStrength {
+	const rms = computeRmsEnvelope(samples, sampleRate, FRAME_RATE);
+	const levels = new Float32Array(rms.length);
+	for (let i = 0; i < rms.length; i++) {
+		levels[i] =
+			rms[i] > 0
+				? Math.max(LEVEL_FLOOR_DB, 20 * Math.log10(rms[i]))
+				: LEVEL_FLOOR_DB;
+	}
+
+	const strength = new Float32Array(levels.length);
+	for (let i = RISE_FRAMES; i < levels.length; i++) {
+		strength[i] = Math.max(0, levels[i] - levels[i - RISE_FRAMES]);
+	}
+
+	return { frameRate: FRAME_RATE, levels, strength };
+}
+
+// the rise peaks a little after the hit starts
+export function getOnsetTime({
+	onsetStrength,
+	frame,
+}: {
+	onsetStrength: OnsetStrength;
+	frame: number;
+}): number {
+	return Math.max(0, (frame - RISE_FRAMES / 2) / onsetStrength.frameRate);
+}
+
+/**
+ * Onset times in seconds: peaks of the rise that clear the local average by
+ * a margin set by the sensitivity, so a busy passage needs a bigger jump to
+ * count than a hit out of silence.
+ */
+export function pickOnsets({
+	onsetStrength,
+	sensitivity,
+	minGap = TRANSIENT_MIN_GAP,
+}: {
+	onsetStrength: OnsetStrength;
+	sensitivity: number;
+	minGap?: number;
+}): number[] {
+	const { levels, strength } = onsetStrength;
+	const margin =
+		LEAST_SENSITIVE_RISE_DB +
+		(MOST_SENSITIVE_RISE_DB - LEAST_SENSITIVE_RISE_DB) * sensitivity;
+
+	const prefixSums = new Float64Array(strength.length + 1);
+	for (let i = 0; i < strength.length; i++) {
+		prefixSums[i + 1] = prefixSums[i] + strength[i];
+	}
+
+	const onsets: number[] = [];
+	let lastOnset = -Infinity;
+	for (let i = 1; i < strength.length; i++) {
+		const value = strength[i];
+		if (value < strength[i - 1] || value <= (strength[i + 1] ?? 0)) continue;
+		if (levels[i] < SILENCE_DB) continue;
+
+		const from = Math.max(0, i - THRESHOLD_WINDOW_FRAMES);
+		const to = Math.min(strength.length, i + THRESHOLD_WINDOW_FRAMES + 1);
+		const localMean = (prefixSums[to] - prefixSums[from]) / (to - from);
+		if (value < localMean + margin) continue;
+
+		const time = getOnsetTime({ onsetStrength, frame: i });
+		if (time - lastOnset < minGap) continue;
+		onsets.push(time);
+		lastOnset = time;
+	}
+
+	return onsets;
+}
+
+/**
+ * Timeline times of source onsets a clip actually plays, in timeline order.
+ * Hits on the clip's first frame are dropped since nothing can be placed
+ * before the clip starts there anyway.
+ */
+export function getClipOnsetTimes({
+	clip,
+	startTime,
+	onsets,
+}: {
+	clip: ClipTiming;
+	startTime: number;
+	onsets: number[];
+}): number[] {
+	const { start, end } = getClipSourceRange({ clip });
+	const speed = clip.speed ?? 1;
+
+	return onsets
+		.filter((onset) => onset > start && onset < end)
+		.map((onset) =>
+			clip.reversed
+				? startTime + (end - onset) / speed
+				: startTime + (onset - start) / speed,
+		)
+		.sort((a, b) => a - b);
+}
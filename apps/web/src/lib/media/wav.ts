@@ -0,0 +1,79 @@
+import type { WavBitDepth } from "@/types/export";
+
+const HEADER_SIZE = 44;
+
+/**
+ * Interleaved integer PCM in a RIFF/WAVE container. Samples past full scale
+ * are clipped, so anything that can go over should be limited first.
+ */
+export function encodeWav({
+	channels,
+	sampleRate,
+	bitDepth = 16,
+}: {
+	channels: Float32Array[];
+	sampleRate: number;
+	bitDepth?: WavBitDepth;
+}): ArrayBuffer {
+	const numChannels = channels.length;
+	const bytesPerSample = bitDepth / 8;
+	const frameCount = channels[0]?.length ?? 0;
+	const blockAlign = numChannels * bytesPerSample;
+	const dataSize = frameCount * blockAlign;
+	const buffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+	const view = new DataView(buffer);
+
+	// riff header
+	writeString({ view, offset: 0, str: "RIFF" });
+	view.setUint32(4, 36 + dataSize, true);
+	writeString({ view, offset: 8, str: "WAVE" });
+
+	// fmt chunk
+	writeString({ view, offset: 12, str: "fmt " });
+	view.setUint32(16, 16, true);
+	view.setUint16(20, 1, true);
+	view.setUint16(22, numChannels, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * blockAlign, true);
+	view.setUint16(32, blockAlign, true);
+	view.setUint16(34, bitDepth, true);
+
+	// data chunk
+	writeString({ view, offset: 36, str: "data" });
+	view.setUint32(40, dataSize, true);
+
+	const fullScale = 2 ** (bitDepth - 1);
+	let offset = HEADER_SIZE;
+	for (let i = 0; i < frameCount; i++) {
+		for (const channel of channels) {
+			const sample = Math.max(-1, Math.min(1, channel[i]));
+			const value = Math.round(
+				sample < 0 ? sample * fullScale : sample * (fullScale - 1),
+			);
+			if (bitDepth === 16) {
+				view.setInt16(offset, value, true);
+			} else {
+				// 24-bit has no DataView setter: low 16 bits, then the signed top byte
+				view.setUint16(offset, value & 0xffff, true);
+				view.setInt8(offset + 2, value >> 16);
+			}
+			offset += bytesPerSample;
+		}
+	}
+
+	return buffer;
+}
+
+function writeString({
+	view,
+	offset,
+	str,
+}: {
+	view: DataView;
+	offset: number;
+	str: string;
+}): void {
+	for (let i = 0; i < str.length; i++) {
+		view.setUint8(offset + i, str.charCodeAt(i));
+	}
+}
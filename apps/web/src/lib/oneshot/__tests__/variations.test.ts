@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { resolveOneshotMarkers } from "../variations";
+import type {
+	OneshotDefinition,
+	OneshotMarker,
+	OneshotVariationGroup,
+} from "@/types/oneshot";
+
+function definition(id: string): OneshotDefinition {
+	return {
+		id,
+		name: id,
+		color: "#fff",
+		audioSource: { type: "upload", fileId: id, url: `${id}.wav`, name: id },
+		trimStart: 0,
+		trimEnd: 1,
+		cuePoint: 0,
+		audioDuration: 1,
+		createdAt: 0,
+		updatedAt: 0,
+	};
+}
+
+const definitions = ["kick-1", "kick-2", "kick-3"].map(definition);
+
+function group(
+	overrides: Partial<OneshotVariationGroup> = {},
+): OneshotVariationGroup {
+	return {
+		id: "kicks",
+		name: "Kicks",
+		color: "#fff",
+		definitionIds: definitions.map(({ id }) => id),
+		mode: "random",
+		pitchRange: 2,
+		gainRange: 3,
+		createdAt: 0,
+		updatedAt: 0,
+		...overrides,
+	};
+}
+
+function markers(count: number): OneshotMarker[] {
+	return Array.from({ length: count }, (_, index) => ({
+		id: `hit-${index}`,
+		oneshotId: "kicks",
+		time: index,
+		seed: index * 7919,
+		createdAt: 0,
+	}));
+}
+
+describe("resolveOneshotMarkers", () => {
+	test("plays plain definitions as they are", () => {
+		const [resolved] = resolveOneshotMarkers({
+			markers: [{ id: "hit", oneshotId: "kick-1", time: 0, createdAt: 0 }],
+			definitions,
+			groups: [group()],
+		});
+
+		expect(resolved.definition.id).toBe("kick-1");
+		expect(resolved.group).toBeNull();
+		expect(resolved.playbackRate).toBe(1);
+		expect(resolved.gain).toBe(1);
+	});
+
+	test("picks the same variations from the same seeds", () => {
+		const resolve = () =>
+			resolveOneshotMarkers({
+				markers: markers(16),
+				definitions,
+				groups: [group()],
+			}).map(({ definition, playbackRate, gain }) => [
+				definition.id,
+				playbackRate,
+				gain,
+			]);
+
+		expect(resolve()).toEqual(resolve());
+	});
+
+	test("never plays the same variation twice in a row at random", () => {
+		const picks = resolveOneshotMarkers({
+			markers: markers(64),
+			definitions,
+			groups: [group()],
+		}).map(({ definition }) => definition.id);
+
+		for (let i = 1; i < picks.length; i++) {
+			expect(picks[i]).not.toBe(picks[i - 1]);
+		}
+		expect(new Set(picks).size).toBe(definitions.length);
+	});
+
+	test("cycles through the group in timeline order for round-robin", () => {
+		const picks = resolveOneshotMarkers({
+			markers: markers(6).reverse(),
+			definitions,
+			groups: [group({ mode: "round-robin" })],
+		}).map(({ definition }) => definition.id);
+
+		expect(picks).toEqual([
+			"kick-1",
+			"kick-2",
+			"kick-3",
+			"kick-1",
+			"kick-2",
+			"kick-3",
+		]);
+	});
+
+	test("keeps detune and gain inside their ranges and across modes", () => {
+		const random = resolveOneshotMarkers({
+			markers: markers(32),
+			definitions,
+			groups: [group()],
+		});
+		const roundRobin = resolveOneshotMarkers({
+			markers: markers(32),
+			definitions,
+			groups: [group({ mode: "round-robin" })],
+		});
+
+		for (const [index, resolved] of random.entries()) {
+			const semitones = 12 * Math.log2(resolved.playbackRate);
+			const decibels = 20 * Math.log10(resolved.gain);
+			expect(Math.abs(semitones)).toBeLessThanOrEqual(2);
+			expect(Math.abs(decibels)).toBeLessThanOrEqual(3);
+			expect(roundRobin[index].playbackRate).toBe(resolved.playbackRate);
+			expect(roundRobin[index].gain).toBe(resolved.gain);
+		}
+	});
+
+	test("draws from the marker id when it has no seed", () => {
+		const unseeded = markers(8).map(({ seed: _seed, ...marker }) => marker);
+		const resolve = () =>
+			resolveOneshotMarkers({
+				markers: unseeded,
+				definitions,
+				groups: [group()],
+			}).map(({ definition, playbackRate }) => [definition.id, playbackRate]);
+
+		expect(resolve()).toEqual(resolve());
+		expect(new Set(resolve().map(([, rate]) => rate)).size).toBeGreaterThan(1);
+	});
+});
@@ -0,0 +1,133 @@
+import type {
+	OneshotDefinition,
+	OneshotMarker,
+	OneshotVariationGroup,
+} from "@/types/oneshot";
+
+// the slice one marker plays, after its variation group has been resolved
+export interface ResolvedOneshotMarker {
+	marker: OneshotMarker;
+	definition: OneshotDefinition;
+	group: OneshotVariationGroup | null;
+	playbackRate: number;
+	gain: number;
+}
+
+export function createVariationSeed(): number {
+	return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Resolve every marker to the definition it plays. Group markers are walked in
+ * timeline order so round-robin cycles through the group hit by hit; every
+ * random draw comes from the marker's own seed, which keeps preview playback
+ * and exports picking the same variation.
+ */
+export function resolveOneshotMarkers({
+	markers,
+	definitions,
+	groups,
+}: {
+	markers: OneshotMarker[];
+	definitions: OneshotDefinition[];
+	groups: OneshotVariationGroup[];
+}): ResolvedOneshotMarker[] {
+	const definitionMap = new Map(
+		definitions.map((definition) => [definition.id, definition]),
+	);
+	const groupMap = new Map(groups.map((group) => [group.id, group]));
+	const previousPicks = new Map<string, number>();
+	const hitCounts = new Map<string, number>();
+	const resolved: ResolvedOneshotMarker[] = [];
+
+	const ordered = [...markers].sort(
+		(a, b) => a.time - b.time || a.id.localeCompare(b.id),
+	);
+	for (const marker of ordered) {
+		const definition = definitionMap.get(marker.oneshotId);
+		if (definition) {
+			resolved.push({
+				marker,
+				definition,
+				group: null,
+				playbackRate: 1,
+				gain: 1,
+			});
+			continue;
+		}
+
+		const group = groupMap.get(marker.oneshotId);
+		if (!group) continue;
+		const members = group.definitionIds
+			.map((id) => definitionMap.get(id))
+			.filter((member): member is OneshotDefinition => member !== undefined);
+		if (members.length === 0) continue;
+
+		// draws happen in a fixed order so changing the mode keeps pitch and gain
+		const random = createSeededRandom(marker.seed ?? hashString(marker.id));
+		const pickDraw = random();
+		const pitchDraw = random();
+		const gainDraw = random();
+
+		const hitIndex = hitCounts.get(group.id) ?? 0;
+		hitCounts.set(group.id, hitIndex + 1);
+		const pick =
+			group.mode === "round-robin"
+				? hitIndex % members.length
+				: pickRandomMember({
+						draw: pickDraw,
+						count: members.length,
+						previous: previousPicks.get(group.id),
+					});
+		previousPicks.set(group.id, pick);
+
+		const semitones = (pitchDraw * 2 - 1) * group.pitchRange;
+		const decibels = (gainDraw * 2 - 1) * group.gainRange;
+		resolved.push({
+			marker,
+			definition: members[pick],
+			group,
+			playbackRate: 2 ** (semitones / 12),
+			gain: 10 ** (decibels / 20),
+		});
+	}
+
+	return resolved;
+}
+
+// never repeats the previous hit, the way samplers avoid machine-gunning
+function pickRandomMember({
+	draw,
+	count,
+	previous,
+}: {
+	draw: number;
+	count: number;
+	previous: number | undefined;
+}): number {
+	if (count === 1 || previous === undefined) {
+		return Math.floor(draw * count);
+	}
+	const pick = Math.floor(draw * (count - 1));
+	return pick >= previous ? pick + 1 : pick;
+}
+
+// mulberry32
+function createSeededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+	};
+}
+
+function hashString(value: string): number {
+	let hash = 0;
+	for (let i = 0; i < value.length; i++) {
+		hash = (Math.imul(hash, 31) + value.charCodeAt(i)) >>> 0;
+	}
+	return hash;
+}
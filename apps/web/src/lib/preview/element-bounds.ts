@@ -0,0 +1,269 @@
+import type { MediaAsset } from "@/types/assets";
+import type { TCanvasSize } from "@/types/project";
+import type {
+	ImageElement,
+	SceneElement,
+	StickerElement,
+	TextElement,
+	TimelineElement,
+	TimelineTrack,
+	VideoElement,
+} from "@/types/timeline";
+import {
+	getElementContentTime,
+	resolveAnimatedTransform,
+} from "@/lib/keyframes";
+import { getMediaDrawRects } from "@/lib/media/media-layout";
+import { isMainTrack } from "@/lib/timeline";
+import {
+	applyTextFont,
+	hasTextBackground,
+	layoutText,
+	resolveTextStyle,
+} from "@/lib/text-layout";
+
+// matches the size StickerNode rasterizes icons at
+const STICKER_SIZE = 200;
+
+export type VisualElement =
+	| VideoElement
+	| ImageElement
+	| TextElement
+	| StickerElement
+	| SceneElement;
+
+/**
+ * A rotated rectangle in canvas pixels. Width and height already include the
+ * element scale, rotation is in degrees around the center.
+ */
+export interface ElementBounds {
+	center: { x: number; y: number };
+	width: number;
+	height: number;
+	rotation: number;
+}
+
+export function isVisualElement(
+	element: TimelineElement,
+): element is VisualElement {
+	return element.type !== "audio";
+}
+
+export function isElementVisibleAtTime({
+	element,
+	time,
+}: {
+	element: TimelineElement;
+	time: number;
+}): boolean {
+	if ("hidden" in element && element.hidden) return false;
+	return (
+		time >= element.startTime && time < element.startTime + element.duration
+	);
+}
+
+/**
+ * Bounds of an element as the renderer draws it at a timeline time, with
+ * keyframed transforms resolved.
+ */
+export function getElementBounds({
+	element,
+	mediaAsset,
+	canvasSize,
+	time,
+}: {
+	element: VisualElement;
+	mediaAsset?: MediaAsset;
+	canvasSize: TCanvasSize;
+	time: number;
+}): ElementBounds {
+	const { transform } = resolveAnimatedTransform({
+		transform: element.transform,
+		opacity: element.opacity,
+		keyframes: element.keyframes,
+		time: getElementContentTime({ element, time }),
+	});
+
+	const base = getUnscaledSize({ element, mediaAsset, canvasSize });
+	const radians = (transform.rotate * Math.PI) / 180;
+	const offsetX = base.offsetX * transform.scale;
+
+	return {
+		center: {
+			x:
+				canvasSize.width / 2 +
+				transform.position.x +
+				offsetX * Math.cos(radians),
+			y:
+				canvasSize.height / 2 +
+				transform.position.y +
+				offsetX * Math.sin(radians),
+		},
+		width: base.width * transform.scale,
+		height: base.height * transform.scale,
+		rotation: transform.rotate,
+	};
+}
+
+export function isPointInBounds({
+	point,
+	bounds,
+}: {
+	point: { x: number; y: number };
+	bounds: ElementBounds;
+}): boolean {
+	const local = toLocalPoint({ point, bounds });
+	return (
+		Math.abs(local.x) <= bounds.width / 2 &&
+		Math.abs(local.y) <= bounds.height / 2
+	);
+}
+
+// axis-aligned box around a rotated bounds, used for snapping
+export function getAxisAlignedBox({ bounds }: { bounds: ElementBounds }): {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+} {
+	const radians = (bounds.rotation * Math.PI) / 180;
+	const cos = Math.abs(Math.cos(radians));
+	const sin = Math.abs(Math.sin(radians));
+	const halfWidth = (bounds.width * cos + bounds.height * sin) / 2;
+	const halfHeight = (bounds.width * sin + bounds.height * cos) / 2;
+
+	return {
+		left: bounds.center.x - halfWidth,
+		top: bounds.center.y - halfHeight,
+		right: bounds.center.x + halfWidth,
+		bottom: bounds.center.y + halfHeight,
+	};
+}
+
+/**
+ * Visual elements drawn at a time, topmost first. Mirrors the draw order of
+ * buildScene: overlay tracks above the main track, later clips above earlier
+ * ones on the same track.
+ */
+export function getVisibleElementsTopToBottom({
+	tracks,
+	time,
+}: {
+	tracks: TimelineTrack[];
+	time: number;
+}): { trackId: string; element: VisualElement }[] {
+	const visibleTracks = tracks.filter(
+		(track) => !("hidden" in track && track.hidden),
+	);
+	const orderedTracks = [
+		...visibleTracks.filter((track) => !isMainTrack(track)),
+		...visibleTracks.filter((track) => isMainTrack(track)),
+	];
+
+	const result: { trackId: string; element: VisualElement }[] = [];
+	for (const track of orderedTracks) {
+		const elements = track.elements
+			.filter(isVisualElement)
+			.filter((element) => isElementVisibleAtTime({ element, time }))
+			.sort((a, b) => {
+				if (a.startTime !== b.startTime) return b.startTime - a.startTime;
+				return b.id.localeCompare(a.id);
+			});
+
+		for (const element of elements) {
+			result.push({ trackId: track.id, element });
+		}
+	}
+
+	return result;
+}
+
+function toLocalPoint({
+	point,
+	bounds,
+}: {
+	point: { x: number; y: number };
+	bounds: ElementBounds;
+}): { x: number; y: number } {
+	const radians = (-bounds.rotation * Math.PI) / 180;
+	const dx = point.x - bounds.center.x;
+	const dy = point.y - bounds.center.y;
+	return {
+		x: dx * Math.cos(radians) - dy * Math.sin(radians),
+		y: dx * Math.sin(radians) + dy * Math.cos(radians),
+	};
+}
+
+// size before scale, plus the horizontal offset of the box from the anchor
+function getUnscaledSize({
+	element,
+	mediaAsset,
+	canvasSize,
+}: {
+	element: VisualElement;
+	mediaAsset?: MediaAsset;
+	canvasSize: TCanvasSize;
+}): { width: number; height: number; offsetX: number } {
+	if (element.type === "sticker") {
+		return { width: STICKER_SIZE, height: STICKER_SIZE, offsetX: 0 };
+	}
+
+	if (element.type === "text") {
+		return measureText({ element });
+	}
+
+	// nested scenes render at the project canvas size
+	if (element.type === "scene") {
+		return { width: canvasSize.width, height: canvasSize.height, offsetX: 0 };
+	}
+
+	const { destination } = getMediaDrawRects({
+		mediaWidth: mediaAsset?.width ?? canvasSize.width,
+		mediaHeight: mediaAsset?.height ?? canvasSize.height,
+		canvasWidth: canvasSize.width,
+		canvasHeight: canvasSize.height,
+		crop: element.crop,
+		fitMode: element.fitMode,
+	});
+	return { width: destination.width, height: destination.height, offsetX: 0 };
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measureText({ element }: { element: TextElement }): {
+	width: number;
+	height: number;
+	offsetX: number;
+} {
+	if (!measureContext) {
+		measureContext = document.createElement("canvas").getContext("2d");
+	}
+
+	const style = resolveTextStyle({ element });
+	let width = element.content.length * element.fontSize * 0.6;
+	let height = element.fontSize;
+
+	if (measureContext) {
+		applyTextFont({ context: measureContext, element, style });
+		const layout = layoutText({ context: measureContext, element, style });
+		width = layout.width;
+		height = layout.height;
+	}
+
+	if (hasTextBackground({ element })) {
+		width += style.backgroundPadding.x * 2;
+		height += style.backgroundPadding.y * 2;
+	}
+	width += style.strokeWidth * 2;
+	height += style.strokeWidth * 2;
+
+	// text is anchored at the position by its alignment
+	const offsetX =
+		element.textAlign === "left"
+			? width / 2
+			: element.textAlign === "right"
+				? -width / 2
+				: 0;
+
+	return { width, height, offsetX };
+}
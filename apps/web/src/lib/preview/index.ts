@@ -0,0 +1,2 @@
+export * from "./element-bounds";
+export * from "./snapping";
@@ -0,0 +1,94 @@
+import type { TCanvasSize } from "@/types/project";
+import { type ElementBounds, getAxisAlignedBox } from "./element-bounds";
+
+export interface SnapGuide {
+	orientation: "vertical" | "horizontal";
+	position: number;
+}
+
+export interface SnapLines {
+	vertical: number[];
+	horizontal: number[];
+}
+
+/**
+ * Lines a moving element snaps to: the canvas edges and center, plus the
+ * edges and centers of the other visible elements.
+ */
+export function getSnapLines({
+	canvasSize,
+	otherBounds,
+}: {
+	canvasSize: TCanvasSize;
+	otherBounds: ElementBounds[];
+}): SnapLines {
+	const vertical = [0, canvasSize.width / 2, canvasSize.width];
+	const horizontal = [0, canvasSize.height / 2, canvasSize.height];
+
+	for (const bounds of otherBounds) {
+		const box = getAxisAlignedBox({ bounds });
+		vertical.push(box.left, bounds.center.x, box.right);
+		horizontal.push(box.top, bounds.center.y, box.bottom);
+	}
+
+	return { vertical, horizontal };
+}
+
+/**
+ * Offset that moves the bounds onto the nearest snap line on each axis, within
+ * threshold canvas pixels, and the guides to draw for it.
+ */
+export function snapBounds({
+	bounds,
+	lines,
+	threshold,
+}: {
+	bounds: ElementBounds;
+	lines: SnapLines;
+	threshold: number;
+}): { offset: { x: number; y: number }; guides: SnapGuide[] } {
+	const box = getAxisAlignedBox({ bounds });
+	const x = findNearestSnap({
+		candidates: [box.left, bounds.center.x, box.right],
+		lines: lines.vertical,
+		threshold,
+	});
+	const y = findNearestSnap({
+		candidates: [box.top, bounds.center.y, box.bottom],
+		lines: lines.horizontal,
+		threshold,
+	});
+
+	const guides: SnapGuide[] = [];
+	if (x) guides.push({ orientation: "vertical", position: x.line });
+	if (y) guides.push({ orientation: "horizontal", position: y.line });
+
+	return {
+		offset: { x: x?.delta ?? 0, y: y?.delta ?? 0 },
+		guides,
+	};
+}
+
+function findNearestSnap({
+	candidates,
+	lines,
+	threshold,
+}: {
+	candidates: number[];
+	lines: number[];
+	threshold: number;
+}): { line: number; delta: number } | null {
+	let best: { line: number; delta: number } | null = null;
+
+	for (const candidate of candidates) {
+		for (const line of lines) {
+			const delta = line - candidate;
+			if (Math.abs(delta) > threshold) continue;
+			if (!best || Math.abs(delta) < Math.abs(best.delta)) {
+				best = { line, delta };
+			}
+		}
+	}
+
+	return best;
+}
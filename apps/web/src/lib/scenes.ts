@@ -1,7 +1,13 @@
-import type { TScene } from "@/types/timeline";
+import type {
+	AudioElement,
+	SceneElement,
+	TimelineElement,
+	TimelineTrack,
+	TScene,
+} from "@/types/timeline";
 import { generateUUID } from "@/utils/id";
-import { calculateTotalDuration } from "@/lib/timeline";
-import { ensureMainTrack } from "@/lib/timeline/track-utils";
+import { calculateTotalDuration, getElementSpeed } from "@/lib/timeline";
+import { ensureMainTrack, isTrackSilenced } from "@/lib/timeline/track-utils";
 
 export function getMainScene({ scenes }: { scenes: TScene[] }): TScene | null {
 	return scenes.find((scene) => scene.isMain) || null;
@@ -101,3 +107,301 @@ export function updateSceneInArray({
 		scene.id === sceneId ? { ...scene, ...updates } : scene,
 	);
 }
+
+export function getSceneDuration({ scene }: { scene: TScene }): number {
+	return calculateTotalDuration({ tracks: scene.tracks ?? [] });
+}
+
+export function getSceneElements({
+	tracks,
+}: {
+	tracks: TimelineTrack[];
+}): SceneElement[] {
+	return tracks.flatMap((track) =>
+		track.type === "video"
+			? track.elements.filter(
+					(element): element is SceneElement => element.type === "scene",
+				)
+			: [],
+	);
+}
+
+// whether a scene shows the target scene, directly or through nested scenes
+export function sceneContainsScene({
+	scenes,
+	sceneId,
+	targetSceneId,
+	visited = new Set(),
+}: {
+	scenes: TScene[];
+	sceneId: string;
+	targetSceneId: string;
+	visited?: Set<string>;
+}): boolean {
+	if (visited.has(sceneId)) return false;
+	visited.add(sceneId);
+
+	const scene = scenes.find((item) => item.id === sceneId);
+	if (!scene) return false;
+
+	return getSceneElements({ tracks: scene.tracks ?? [] }).some(
+		(element) =>
+			element.sceneId === targetSceneId ||
+			sceneContainsScene({
+				scenes,
+				sceneId: element.sceneId,
+				targetSceneId,
+				visited,
+			}),
+	);
+}
+
+export function wouldCreateSceneCycle({
+	scenes,
+	parentSceneId,
+	childSceneId,
+}: {
+	scenes: TScene[];
+	parentSceneId: string;
+	childSceneId: string;
+}): boolean {
+	return (
+		parentSceneId === childSceneId ||
+		sceneContainsScene({
+			scenes,
+			sceneId: childSceneId,
+			targetSceneId: parentSceneId,
+		})
+	);
+}
+
+// drops the clips that place a deleted scene inside the remaining ones
+export function removeSceneReferences({
+	scenes,
+	sceneId,
+}: {
+	scenes: TScene[];
+	sceneId: string;
+}): TScene[] {
+	return scenes.map((scene) => {
+		const hasReference = getSceneElements({ tracks: scene.tracks ?? [] }).some(
+			(element) => element.sceneId === sceneId,
+		);
+		if (!hasReference) return scene;
+
+		return {
+			...scene,
+			tracks: scene.tracks.map((track) =>
+				track.type === "video"
+					? {
+							...track,
+							elements: track.elements.filter(
+								(element) =>
+									element.type !== "scene" || element.sceneId !== sceneId,
+							),
+						}
+					: track,
+			),
+		};
+	});
+}
+
+/**
+ * Drops scene elements that point at a missing scene or close a cycle. Scenes
+ * are checked in order, so of two scenes nesting each other the later one
+ * keeps its clip.
+ */
+export function sanitizeSceneReferences({
+	scenes,
+}: {
+	scenes: TScene[];
+}): TScene[] {
+	let result = scenes;
+
+	for (const scene of scenes) {
+		const invalidIds = new Set(
+			getSceneElements({ tracks: scene.tracks ?? [] })
+				.filter(
+					(element) =>
+						!result.some((item) => item.id === element.sceneId) ||
+						wouldCreateSceneCycle({
+							scenes: result,
+							parentSceneId: scene.id,
+							childSceneId: element.sceneId,
+						}),
+				)
+				.map((element) => element.id),
+		);
+		if (invalidIds.size === 0) continue;
+
+		result = result.map((item) =>
+			item.id === scene.id
+				? {
+						...item,
+						tracks: item.tracks.map((track) =>
+							track.type === "video"
+								? {
+										...track,
+										elements: track.elements.filter(
+											(element) => !invalidIds.has(element.id),
+										),
+									}
+								: track,
+						),
+					}
+				: item,
+		);
+	}
+
+	return result;
+}
+
+/**
+ * Audio of the scenes nested in a set of tracks, flattened into extra tracks
+ * on the parent timeline. Clips are cut to the part of the nested scene each
+ * scene element shows, ids are prefixed with the scene element's id so they
+ * stay unique when a scene is placed more than once.
+ */
+export function getNestedSceneAudioTracks({
+	tracks,
+	scenes,
+	ancestorIds = new Set(),
+}: {
+	tracks: TimelineTrack[];
+	scenes: TScene[];
+	ancestorIds?: Set<string>;
+}): TimelineTrack[] {
+	const result: TimelineTrack[] = [];
+
+	for (const sceneElement of getSceneElements({ tracks })) {
+		if (sceneElement.muted || sceneElement.duration <= 0) continue;
+		if (ancestorIds.has(sceneElement.sceneId)) continue;
+
+		const scene = scenes.find((item) => item.id === sceneElement.sceneId);
+		if (!scene) continue;
+
+		const sceneTracks = scene.tracks ?? [];
+		const nestedTracks = [
+			// the nested scene plays its own mix, solos included
+			...sceneTracks.filter(
+				(track) => !isTrackSilenced({ track, tracks: sceneTracks }),
+			),
+			...getNestedSceneAudioTracks({
+				tracks: sceneTracks,
+				scenes,
+				ancestorIds: new Set([...ancestorIds, scene.id]),
+			}),
+		];
+
+		const sceneDuration = getSceneDuration({ scene });
+		for (const track of nestedTracks) {
+			const placed = placeTrackInSceneWindow({
+				track,
+				sceneElement,
+				sceneDuration,
+			});
+			if (placed) result.push(placed);
+		}
+	}
+
+	return result;
+}
+
+// only tracks that can carry audio are kept; ids stay unique per scene element
+function placeTrackInSceneWindow({
+	track,
+	sceneElement,
+	sceneDuration,
+}: {
+	track: TimelineTrack;
+	sceneElement: SceneElement;
+	sceneDuration: number;
+}): TimelineTrack | null {
+	const id = `${sceneElement.id}:${track.id}`;
+	const place = <T extends TimelineElement>(elements: T[]): T[] =>
+		elements.flatMap((element) => {
+			const placed = placeInSceneWindow({ element, sceneElement });
+			return placed ? [placed] : [];
+		});
+
+	if (track.type === "audio") {
+		const elements = place(
+			track.elements.flatMap((element) =>
+				unrollLoop({ element, until: sceneDuration }),
+			),
+		);
+		return elements.length > 0
+			? { ...track, id, elements, solo: undefined }
+			: null;
+	}
+	if (track.type === "video") {
+		const elements = place(track.elements);
+		return elements.length > 0
+			? { ...track, id, elements, solo: undefined }
+			: null;
+	}
+	return null;
+}
+
+/**
+ * A looping clip repeats to the end of the timeline it sits on. Nested, that
+ * is the end of its own scene, so it is laid out as one clip per pass up to
+ * there; left looping it would run on to the end of the parent timeline.
+ */
+function unrollLoop({
+	element,
+	until,
+}: {
+	element: AudioElement;
+	until: number;
+}): AudioElement[] {
+	if (!element.loop || element.duration <= 0) return [element];
+
+	const speed = getElementSpeed(element);
+	const passes: AudioElement[] = [];
+	for (
+		let index = 0, start = element.startTime;
+		start < until;
+		index++, start += element.duration
+	) {
+		const duration = Math.min(element.duration, until - start);
+		passes.push({
+			...element,
+			id: `${element.id}:${index}`,
+			loop: false,
+			startTime: start,
+			duration,
+			trimEnd: element.trimEnd + (element.duration - duration) * speed,
+			// fades belong to where the loop starts and stops
+			fadeIn: index === 0 ? element.fadeIn : undefined,
+			fadeOut: start + duration >= until ? element.fadeOut : undefined,
+		});
+	}
+	return passes;
+}
+
+// moves a nested scene's clip onto the parent timeline, cut to the shown window
+function placeInSceneWindow<T extends TimelineElement>({
+	element,
+	sceneElement,
+}: {
+	element: T;
+	sceneElement: SceneElement;
+}): T | null {
+	const windowStart = sceneElement.trimStart;
+	const windowEnd = windowStart + sceneElement.duration;
+	const elementEnd = element.startTime + element.duration;
+	const start = Math.max(element.startTime, windowStart);
+	const end = Math.min(elementEnd, windowEnd);
+	if (end <= start) return null;
+
+	const speed = getElementSpeed(element);
+	return {
+		...element,
+		id: `${sceneElement.id}:${element.id}`,
+		startTime: sceneElement.startTime + start - windowStart,
+		duration: end - start,
+		trimStart: element.trimStart + (start - element.startTime) * speed,
+		trimEnd: element.trimEnd + (elementEnd - end) * speed,
+	};
+}
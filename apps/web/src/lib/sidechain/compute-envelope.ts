@@ -3,6 +3,15 @@ import type { SidechainParams, SidechainEnvelope } from "@/types/sidechain";
 const ENVELOPE_SAMPLE_RATE = 200; // 200 Hz = 5ms resolution
 const RMS_WINDOW_SECONDS = 0.01; // 10ms RMS window
 
+export interface SidechainSourceElement {
+	buffer: AudioBuffer;
+	startTime: number;
+	trimStart: number;
+	duration: number; // seconds on the timeline
+	loop?: boolean;
+	playbackRate?: number; // source seconds consumed per timeline second
+}
+
 /**
  * Convert linear amplitude to dB.
  */
@@ -42,14 +51,102 @@ function mixToMono(buffer: AudioBuffer): Float32Array {
 	return mono;
 }
 
+interface BiquadCoefficients {
+	b0: number;
+	b1: number;
+	b2: number;
+	a1: number;
+	a2: number;
+}
+
+/**
+ * Butterworth (Q = 1/sqrt(2)) high- or low-pass coefficients, normalized so
+ * a0 = 1. Same formulas as the Web Audio BiquadFilterNode.
+ */
+function computeBiquadCoefficients(
+	type: "highpass" | "lowpass",
+	frequency: number,
+	sampleRate: number,
+): BiquadCoefficients {
+	const w0 = (2 * Math.PI * frequency) / sampleRate;
+	const cosW0 = Math.cos(w0);
+	const alpha = Math.sin(w0) / Math.SQRT2;
+	const a0 = 1 + alpha;
+
+	const b1 = type === "lowpass" ? 1 - cosW0 : -(1 + cosW0);
+	const b0 = Math.abs(b1) / 2;
+
+	return {
+		b0: b0 / a0,
+		b1: b1 / a0,
+		b2: b0 / a0,
+		a1: (-2 * cosW0) / a0,
+		a2: (1 - alpha) / a0,
+	};
+}
+
+function applyBiquad(
+	samples: Float32Array,
+	{ b0, b1, b2, a1, a2 }: BiquadCoefficients,
+): Float32Array {
+	const output = new Float32Array(samples.length);
+	let x1 = 0;
+	let x2 = 0;
+	let y1 = 0;
+	let y2 = 0;
+
+	for (let i = 0; i < samples.length; i++) {
+		const x0 = samples[i];
+		const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+		output[i] = y0;
+		x2 = x1;
+		x1 = x0;
+		y2 = y1;
+		y1 = y0;
+	}
+
+	return output;
+}
+
+/**
+ * Run the detector signal through the key filter so only the band of
+ * interest triggers ducking, e.g. a low-pass keeps hi-hats from pumping a
+ * kick-driven duck. Returns the input untouched when both filters are off.
+ */
+function applyKeyFilter(
+	samples: Float32Array,
+	sampleRate: number,
+	params: SidechainParams,
+): Float32Array {
+	const nyquist = sampleRate / 2;
+	let filtered = samples;
+
+	if (params.keyHighpass > 0 && params.keyHighpass < nyquist) {
+		filtered = applyBiquad(
+			filtered,
+			computeBiquadCoefficients("highpass", params.keyHighpass, sampleRate),
+		);
+	}
+	if (params.keyLowpass > 0 && params.keyLowpass < nyquist) {
+		filtered = applyBiquad(
+			filtered,
+			computeBiquadCoefficients("lowpass", params.keyLowpass, sampleRate),
+		);
+	}
+
+	return filtered;
+}
+
 /**
  * Compute RMS amplitude envelope at the target sample rate.
- * Uses a sliding window of RMS_WINDOW_SECONDS.
+ * Uses a sliding window of RMS_WINDOW_SECONDS, read offsetSeconds ahead of
+ * each envelope sample (lookahead).
  */
-function computeRmsEnvelope(
+export function computeRmsEnvelope(
 	mono: Float32Array,
 	sourceSampleRate: number,
 	envelopeSampleRate: number,
+	offsetSeconds = 0,
 ): Float32Array {
 	const windowSamples = Math.floor(RMS_WINDOW_SECONDS * sourceSampleRate);
 	const halfWindow = Math.floor(windowSamples / 2);
@@ -61,7 +158,7 @@ function computeRmsEnvelope(
 	for (let i = 0; i < envelopeLength; i++) {
 		// Map envelope sample index to source sample index
 		const centerSample = Math.floor(
-			(i / envelopeSampleRate) * sourceSampleRate,
+			(i / envelopeSampleRate + offsetSeconds) * sourceSampleRate,
 		);
 		const start = Math.max(0, centerSample - halfWindow);
 		const end = Math.min(mono.length, centerSample + halfWindow);
@@ -82,19 +179,39 @@ function computeRmsEnvelope(
 	return rmsEnvelope;
 }
 
+/**
+ * Gain reduction in dB for a detector level. Inside the knee (kneeDb wide,
+ * centered on the threshold) the ratio eases in quadratically; a zero knee is
+ * the classic hard knee.
+ */
+function computeTargetReductionDb(
+	levelDb: number,
+	params: SidechainParams,
+): number {
+	const { threshold, ratio, knee } = params;
+	const overDb = levelDb - threshold;
+	const slope = 1 - 1 / ratio;
+
+	if (knee > 0 && Math.abs(overDb) <= knee / 2) {
+		return (slope * (overDb + knee / 2) ** 2) / (2 * knee);
+	}
+	return overDb > 0 ? overDb * slope : 0;
+}
+
 /**
  * Apply compression to the RMS envelope and produce a gain curve.
  *
  * For each sample:
- * - If RMS (in dB) > threshold, compute gain reduction = (rmsDb - threshold) * (1 - 1/ratio)
+ * - Compute the target gain reduction through the (soft) knee
  * - Clamp reduction to depth
- * - Apply attack/release smoothing via single-pole IIR filter
+ * - Apply attack/release smoothing via single-pole IIR filter, holding the
+ *   reduction for `hold` seconds before releasing
  */
 function computeGainCurve(
 	rmsEnvelope: Float32Array,
 	params: SidechainParams,
 ): Float32Array {
-	const { threshold, ratio, attack, release, depth } = params;
+	const { attack, release, depth, hold } = params;
 	const gainCurve = new Float32Array(rmsEnvelope.length);
 
 	// Single-pole IIR coefficients for attack/release
@@ -106,17 +223,19 @@ function computeGainCurve(
 	// depth is negative dB (e.g. -24), convert to max reduction in positive dB
 	const maxReductionDb = Math.abs(depth);
 
+	const holdSamples = Math.round(hold * ENVELOPE_SAMPLE_RATE);
+
 	let smoothedReductionDb = 0;
+	let holdRemaining = 0;
 
 	for (let i = 0; i < rmsEnvelope.length; i++) {
 		const rmsDb = linearToDb(rmsEnvelope[i]);
 
 		// Compute target gain reduction in dB
-		let targetReductionDb = 0;
-		if (rmsDb > threshold) {
-			targetReductionDb = (rmsDb - threshold) * (1 - 1 / ratio);
-			targetReductionDb = Math.min(targetReductionDb, maxReductionDb);
-		}
+		const targetReductionDb = Math.min(
+			computeTargetReductionDb(rmsDb, params),
+			maxReductionDb,
+		);
 
 		// Apply attack/release smoothing
 		if (targetReductionDb > smoothedReductionDb) {
@@ -124,6 +243,10 @@ function computeGainCurve(
 			smoothedReductionDb =
 				attackCoeff * smoothedReductionDb +
 				(1 - attackCoeff) * targetReductionDb;
+			holdRemaining = holdSamples;
+		} else if (holdRemaining > 0) {
+			// Hold: keep the reduction a little longer before releasing
+			holdRemaining--;
 		} else {
 			// Release: reduction is decreasing (signal below threshold)
 			smoothedReductionDb =
@@ -143,13 +266,7 @@ function computeGainCurve(
  * Handles time offsets, trim, and looping.
  */
 export function composeSourceTrackBuffer(
-	elements: Array<{
-		buffer: AudioBuffer;
-		startTime: number;
-		trimStart: number;
-		duration: number;
-		loop?: boolean;
-	}>,
+	elements: SidechainSourceElement[],
 	timelineDuration: number,
 	targetSampleRate: number,
 ): Float32Array {
@@ -158,6 +275,7 @@ export function composeSourceTrackBuffer(
 
 	for (const element of elements) {
 		const mono = mixToMono(element.buffer);
+		const playbackRate = element.playbackRate ?? 1;
 		const resampleRatio = targetSampleRate / element.buffer.sampleRate;
 		const sourceStartSample = Math.floor(
 			element.trimStart * element.buffer.sampleRate,
@@ -183,7 +301,8 @@ export function composeSourceTrackBuffer(
 					? i % resampledLength
 					: i;
 			const sourceIndex =
-				sourceStartSample + Math.floor(sourceOffset / resampleRatio);
+				sourceStartSample +
+				Math.floor((sourceOffset * playbackRate) / resampleRatio);
 			if (sourceIndex >= mono.length) break;
 
 			output[outputIndex] += mono[sourceIndex];
@@ -194,31 +313,57 @@ export function composeSourceTrackBuffer(
 }
 
 /**
- * Compute a sidechain envelope from a pre-composed mono source buffer.
+ * What the compressor listens to: the key-filtered source as an RMS envelope
+ * at the envelope sample rate, shifted earlier by the lookahead. Only depends
+ * on the key filter and lookahead, so previews can reuse it while the other
+ * params change.
  */
-export function computeEnvelopeFromBuffer(
+export function computeDetectorEnvelope(
 	sourceBuffer: Float32Array,
 	sourceSampleRate: number,
 	params: SidechainParams,
-): SidechainEnvelope {
-	const duration = sourceBuffer.length / sourceSampleRate;
-
-	// Wrap in a minimal object that looks like Float32Array for RMS computation
-	const rmsEnvelope = computeRmsEnvelope(
-		sourceBuffer,
+): Float32Array {
+	return computeRmsEnvelope(
+		applyKeyFilter(sourceBuffer, sourceSampleRate, params),
 		sourceSampleRate,
 		ENVELOPE_SAMPLE_RATE,
+		params.lookahead,
 	);
+}
 
-	const gainValues = computeGainCurve(rmsEnvelope, params);
-
+/**
+ * Compute a sidechain envelope from a detector envelope.
+ */
+export function computeEnvelopeFromDetector(
+	detectorEnvelope: Float32Array,
+	duration: number,
+	params: SidechainParams,
+): SidechainEnvelope {
 	return {
 		sampleRate: ENVELOPE_SAMPLE_RATE,
-		gainValues,
+		gainValues: computeGainCurve(detectorEnvelope, params),
 		duration,
 	};
 }
 
+/**
+ * Compute a sidechain envelope from a pre-composed mono source buffer.
+ */
+export function computeEnvelopeFromBuffer(
+	sourceBuffer: Float32Array,
+	sourceSampleRate: number,
+	params: SidechainParams,
+): SidechainEnvelope {
+	const duration = sourceBuffer.length / sourceSampleRate;
+	const detectorEnvelope = computeDetectorEnvelope(
+		sourceBuffer,
+		sourceSampleRate,
+		params,
+	);
+
+	return computeEnvelopeFromDetector(detectorEnvelope, duration, params);
+}
+
 /**
  * Compute a sidechain envelope from source track AudioBuffer elements.
  *
@@ -227,13 +372,7 @@ export function computeEnvelopeFromBuffer(
  * compression envelope.
  */
 export function computeSidechainEnvelope(
-	sourceElements: Array<{
-		buffer: AudioBuffer;
-		startTime: number;
-		trimStart: number;
-		duration: number;
-		loop?: boolean;
-	}>,
+	sourceElements: SidechainSourceElement[],
 	timelineDuration: number,
 	params: SidechainParams,
 ): SidechainEnvelope {
@@ -279,3 +418,45 @@ export function getEnvelopeGainAtTime(
 
 	return envelope.gainValues[index0] * (1 - frac) + envelope.gainValues[index1] * frac;
 }
+
+/**
+ * Multiply the gain of every envelope targeting the same track or oneshot.
+ */
+export function getCombinedEnvelopeGainAtTime(
+	envelopes: SidechainEnvelope[] | undefined,
+	time: number,
+): number {
+	if (!envelopes) return 1;
+
+	let combinedGain = 1;
+	for (const envelope of envelopes) {
+		combinedGain *= getEnvelopeGainAtTime(envelope, time);
+	}
+	return combinedGain;
+}
+
+/**
+ * Multiply envelopes into one, e.g. every config ducking the same target.
+ * Envelopes share the envelope sample rate; shorter ones count as unity gain
+ * past their end.
+ */
+export function multiplyEnvelopes(
+	envelopes: SidechainEnvelope[],
+): SidechainEnvelope | null {
+	if (envelopes.length === 0) return null;
+	if (envelopes.length === 1) return envelopes[0];
+
+	const length = Math.max(...envelopes.map((e) => e.gainValues.length));
+	const gainValues = new Float32Array(length).fill(1);
+	for (const envelope of envelopes) {
+		for (let i = 0; i < envelope.gainValues.length; i++) {
+			gainValues[i] *= envelope.gainValues[i];
+		}
+	}
+
+	return {
+		sampleRate: envelopes[0].sampleRate,
+		gainValues,
+		duration: Math.max(...envelopes.map((e) => e.duration)),
+	};
+}
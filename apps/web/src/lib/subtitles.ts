@@ -0,0 +1,268 @@
+import { DEFAULT_TEXT_ELEMENT } from "@/constants/text-constants";
+import { CAPTION_FONT_SIZE } from "@/constants/transcription-constants";
+import type { SubtitleCue, SubtitleFormat } from "@/types/subtitles";
+import type { TextElement, TextTrack } from "@/types/timeline";
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+// a tag wrapping the whole cue: <b>, <i>, <u>, SRT's <font> or a WebVTT class
+const WRAPPER_PATTERN = /^<(b|i|u|font|c)([\s.][^>]*)?>([\s\S]*)<\/\1>$/i;
+const FONT_COLOR_PATTERN = /color\s*=\s*["']?([^"'\s>]+)/i;
+// ASS override blocks some SRT files carry, like {\an8}
+const ASS_TAG_PATTERN = /\{\\[^}]*\}/g;
+
+// the WebVTT default color classes, also common in SRT font tags
+const NAMED_COLORS: Record<string, string> = {
+	white: "#ffffff",
+	lime: "#00ff00",
+	cyan: "#00ffff",
+	red: "#ff0000",
+	yellow: "#ffff00",
+	magenta: "#ff00ff",
+	blue: "#0000ff",
+	black: "#000000",
+};
+
+const ENTITIES: Record<string, string> = {
+	"&amp;": "&",
+	"&lt;": "<",
+	"&gt;": ">",
+	"&quot;": '"',
+	"&#39;": "'",
+	"&nbsp;": " ",
+	"&lrm;": "",
+	"&rlm;": "",
+};
+
+/**
+ * Cues from an SRT or WebVTT file, in start order. Both formats are read the
+ * same way: blocks without a timing line (the WEBVTT header, NOTE, STYLE and
+ * REGION blocks) are skipped, and so are cues that can't be timed.
+ */
+export function parseSubtitles({
+	content,
+}: {
+	content: string;
+}): SubtitleCue[] {
+	const blocks = content
+		.replace(/^\uFEFF/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n[ \t]*\n/);
+
+	const cues: SubtitleCue[] = [];
+	for (const block of blocks) {
+		const lines = block.split("\n");
+		const timingIndex = lines.findIndex((line) => line.includes("-->"));
+		if (timingIndex === -1) continue;
+
+		const [startText, endText] = lines[timingIndex].split("-->");
+		const startTime = parseTimestamp(startText);
+		const endTime = parseTimestamp(endText ?? "");
+		if (startTime === null || endTime === null || endTime <= startTime) {
+			continue;
+		}
+
+		const cue = parseCueText(lines.slice(timingIndex + 1).join("\n"));
+		if (!cue.text) continue;
+		cues.push({ startTime, endTime, ...cue });
+	}
+
+	return cues.sort((a, b) => a.startTime - b.startTime);
+}
+
+export function serializeSubtitles({
+	cues,
+	format,
+}: {
+	cues: SubtitleCue[];
+	format: SubtitleFormat;
+}): string {
+	const blocks = cues.map((cue, index) => {
+		const timing = `${formatTimestamp({ time: cue.startTime, format })} --> ${formatTimestamp({ time: cue.endTime, format })}`;
+		const text = formatCueText({ cue, format });
+		return format === "srt"
+			? `${index + 1}\n${timing}\n${text}`
+			: `${timing}\n${text}`;
+	});
+
+	return `${(format === "vtt" ? ["WEBVTT", ...blocks] : blocks).join("\n\n")}\n`;
+}
+
+/**
+ * Text elements for a caption track. A track can't hold overlapping
+ * elements, so each cue ends where the next begins and cues starting
+ * together share one element.
+ */
+export function subtitleCuesToTextElements({
+	cues,
+}: {
+	cues: SubtitleCue[];
+}): Omit<TextElement, "id">[] {
+	const merged: SubtitleCue[] = [];
+	for (const cue of cues) {
+		const previous = merged[merged.length - 1];
+		if (previous && previous.startTime === cue.startTime) {
+			merged[merged.length - 1] = {
+				...previous,
+				endTime: Math.max(previous.endTime, cue.endTime),
+				text: `${previous.text}\n${cue.text}`,
+			};
+			continue;
+		}
+		if (previous && previous.endTime > cue.startTime) {
+			previous.endTime = cue.startTime;
+		}
+		merged.push({ ...cue });
+	}
+
+	return merged.map((cue, index) => ({
+		...DEFAULT_TEXT_ELEMENT,
+		name: `Caption ${index + 1}`,
+		content: cue.text,
+		startTime: cue.startTime,
+		duration: cue.endTime - cue.startTime,
+		fontSize: CAPTION_FONT_SIZE,
+		fontWeight: cue.bold ? "bold" : "normal",
+		fontStyle: cue.italic ? "italic" : "normal",
+		textDecoration: cue.underline ? "underline" : "none",
+		color: cue.color ?? DEFAULT_TEXT_ELEMENT.color,
+	}));
+}
+
+// hidden and empty elements are left out, as they never show on screen
+export function getTextTrackSubtitleCues({
+	track,
+}: {
+	track: TextTrack;
+}): SubtitleCue[] {
+	return track.elements
+		.filter((element) => !element.hidden && element.content.trim())
+		.map((element) => ({
+			startTime: element.startTime,
+			endTime: element.startTime + element.duration,
+			text: element.content.trim(),
+			bold: element.fontWeight === "bold",
+			italic: element.fontStyle === "italic",
+			underline: element.textDecoration === "underline",
+			color:
+				element.color.toLowerCase() === DEFAULT_TEXT_ELEMENT.color
+					? undefined
+					: element.color,
+		}))
+		.sort((a, b) => a.startTime - b.startTime);
+}
+
+function parseTimestamp(value: string): number | null {
+	const match = value.trim().match(TIMESTAMP_PATTERN);
+	if (!match) return null;
+	const [, hours = "0", minutes, seconds, fraction] = match;
+	return (
+		Number(hours) * 3600 +
+		Number(minutes) * 60 +
+		Number(seconds) +
+		Number(`0.${fraction}`)
+	);
+}
+
+function formatTimestamp({
+	time,
+	format,
+}: {
+	time: number;
+	format: SubtitleFormat;
+}): string {
+	const totalMs = Math.max(0, Math.round(time * 1000));
+	const hours = Math.floor(totalMs / 3_600_000);
+	const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+	const seconds = Math.floor((totalMs % 60_000) / 1000);
+	const ms = totalMs % 1000;
+	const pad = (value: number, length = 2) =>
+		String(value).padStart(length, "0");
+	const separator = format === "srt" ? "," : ".";
+	return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms, 3)}`;
+}
+
+function parseCueText(raw: string): Omit<SubtitleCue, "startTime" | "endTime"> {
+	const cue: Omit<SubtitleCue, "startTime" | "endTime"> = {
+		text: "",
+		bold: false,
+		italic: false,
+		underline: false,
+	};
+
+	let text = raw.replace(ASS_TAG_PATTERN, "").trim();
+	for (
+		let wrapper = text.match(WRAPPER_PATTERN);
+		wrapper;
+		wrapper = text.match(WRAPPER_PATTERN)
+	) {
+		const [, tag, attributes = "", inner] = wrapper;
+		// "<b>a</b> <b>b</b>" matches too, but its tags don't wrap the whole cue
+		if (new RegExp(`</${tag}>`, "i").test(inner)) break;
+
+		const name = tag.toLowerCase();
+		if (name === "b") cue.bold = true;
+		if (name === "i") cue.italic = true;
+		if (name === "u") cue.underline = true;
+		if (name === "font") {
+			cue.color = toColor(attributes.match(FONT_COLOR_PATTERN)?.[1]);
+		}
+		if (name === "c") {
+			const [className] = attributes
+				.split(".")
+				.map((part) => part.trim())
+				.filter((part) => part in NAMED_COLORS);
+			cue.color = className ? NAMED_COLORS[className] : cue.color;
+		}
+		text = inner.trim();
+	}
+
+	// partial styling, voices and karaoke timestamps can't be kept
+	cue.text = text
+		.replace(/<[^>]*>/g, "")
+		.replace(
+			/&[a-z0-9#]+;/gi,
+			(entity) => ENTITIES[entity.toLowerCase()] ?? entity,
+		)
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.join("\n");
+	return cue;
+}
+
+function toColor(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	const lower = value.toLowerCase();
+	if (lower in NAMED_COLORS) return NAMED_COLORS[lower];
+	return /^#[0-9a-f]{3}([0-9a-f]{3})?$/.test(lower) ? lower : undefined;
+}
+
+function formatCueText({
+	cue,
+	format,
+}: {
+	cue: SubtitleCue;
+	format: SubtitleFormat;
+}): string {
+	let text = cue.text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.join("\n");
+	// WebVTT reads these as markup
+	if (format === "vtt") {
+		text = text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;");
+	}
+
+	if (cue.underline) text = `<u>${text}</u>`;
+	if (cue.italic) text = `<i>${text}</i>`;
+	if (cue.bold) text = `<b>${text}</b>`;
+	// WebVTT only colors through CSS classes, which players style as they like
+	if (cue.color && format === "srt") {
+		text = `<font color="${cue.color}">${text}</font>`;
+	}
+	return text;
+}
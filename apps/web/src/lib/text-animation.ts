@@ -0,0 +1,183 @@
+import {
+	TEXT_BLUR_MAX_RADIUS,
+	TEXT_SLIDE_DISTANCE,
+} from "@/constants/text-constants";
+import { applyEasing } from "@/lib/keyframes";
+import type { TextLine } from "@/lib/text-layout";
+import type { TextAnimation, TextElement } from "@/types/timeline";
+import { clamp } from "@/utils/math";
+
+/**
+ * What the in and out animations do to the text at one moment. Both can be
+ * under way on a short element, so their effects stack.
+ */
+export interface TextAnimationState {
+	opacity: number;
+	offset: { x: number; y: number }; // canvas pixels
+	scale: number;
+	blur: number; // pixels
+	// share of the characters or words drawn; null draws all of them
+	reveal: { unit: "character" | "word"; amount: number } | null;
+}
+
+const IDLE_STATE: TextAnimationState = {
+	opacity: 1,
+	offset: { x: 0, y: 0 },
+	scale: 1,
+	blur: 0,
+	reveal: null,
+};
+
+/**
+ * The animation state at a time local to the element, where 0 is its start.
+ * The in animation runs from the start and the out animation ends with the
+ * element; neither runs longer than the element itself.
+ */
+export function resolveTextAnimation({
+	element,
+	localTime,
+	canvasSize,
+}: {
+	element: TextElement;
+	localTime: number;
+	canvasSize: { width: number; height: number };
+}): TextAnimationState {
+	let state = IDLE_STATE;
+	const { animationIn, animationOut, duration } = element;
+
+	if (animationIn) {
+		state = applyAnimation({
+			state,
+			animation: animationIn,
+			shown: getShownAmount({
+				animation: animationIn,
+				elapsed: localTime,
+				elementDuration: duration,
+			}),
+			canvasSize,
+		});
+	}
+	if (animationOut) {
+		state = applyAnimation({
+			state,
+			animation: animationOut,
+			shown: getShownAmount({
+				animation: animationOut,
+				elapsed: duration - localTime,
+				elementDuration: duration,
+			}),
+			canvasSize,
+		});
+	}
+	return state;
+}
+
+/**
+ * Lines cut down to the revealed part of the text. Layout is done on the
+ * full text beforehand, so the words that are drawn never reflow as more
+ * of them appear.
+ */
+export function revealTextLines({
+	lines,
+	reveal,
+	measure,
+}: {
+	lines: TextLine[];
+	reveal: TextAnimationState["reveal"];
+	measure: (text: string) => number;
+}): TextLine[] {
+	if (!reveal) return lines;
+
+	// each unit carries the spacing before it, so spaces never count
+	const pattern = reveal.unit === "character" ? /\s*\S/gu : /\s*\S+/g;
+	const lineUnits = lines.map((line) => line.text.match(pattern) ?? []);
+	const total = lineUnits.reduce((sum, units) => sum + units.length, 0);
+
+	let remaining = Math.round(total * reveal.amount);
+	const revealed: TextLine[] = [];
+	for (const [index, line] of lines.entries()) {
+		if (remaining <= 0) break;
+		const units = lineUnits[index];
+		if (units.length <= remaining) {
+			revealed.push(line);
+			remaining -= units.length;
+			continue;
+		}
+		const text = units.slice(0, remaining).join("");
+		revealed.push({ ...line, text, width: measure(text) });
+		remaining = 0;
+	}
+	return revealed;
+}
+
+// eased progress, from 0 (hidden) to 1 (fully shown)
+function getShownAmount({
+	animation,
+	elapsed,
+	elementDuration,
+}: {
+	animation: TextAnimation;
+	elapsed: number;
+	elementDuration: number;
+}): number {
+	const duration = Math.min(animation.duration, elementDuration);
+	if (duration <= 0) return 1;
+	const progress = clamp({ value: elapsed / duration, min: 0, max: 1 });
+	return applyEasing({ easing: animation.easing, progress });
+}
+
+function applyAnimation({
+	state,
+	animation,
+	shown,
+	canvasSize,
+}: {
+	state: TextAnimationState;
+	animation: TextAnimation;
+	shown: number;
+	canvasSize: { width: number; height: number };
+}): TextAnimationState {
+	if (shown >= 1) return state;
+	const hidden = 1 - shown;
+	const slideX = canvasSize.width * TEXT_SLIDE_DISTANCE * hidden;
+	const slideY = canvasSize.height * TEXT_SLIDE_DISTANCE * hidden;
+
+	switch (animation.preset) {
+		case "fade":
+			return { ...state, opacity: state.opacity * shown };
+		case "slide-left":
+		case "slide-right":
+		case "slide-up":
+		case "slide-down": {
+			const offset = {
+				"slide-left": { x: -slideX, y: 0 },
+				"slide-right": { x: slideX, y: 0 },
+				"slide-up": { x: 0, y: -slideY },
+				"slide-down": { x: 0, y: slideY },
+			}[animation.preset];
+			return {
+				...state,
+				opacity: state.opacity * shown,
+				offset: {
+					x: state.offset.x + offset.x,
+					y: state.offset.y + offset.y,
+				},
+			};
+		}
+		case "pop":
+			return { ...state, scale: state.scale * shown };
+		case "blur":
+			return {
+				...state,
+				opacity: state.opacity * shown,
+				blur: state.blur + TEXT_BLUR_MAX_RADIUS * hidden,
+			};
+		case "typewriter":
+		case "word-reveal": {
+			const unit = animation.preset === "typewriter" ? "character" : "word";
+			// with both sides revealing, whichever shows less wins
+			if (state.reveal && state.reveal.amount <= shown) return state;
+			return { ...state, reveal: { unit, amount: shown } };
+		}
+	}
+}
@@ -0,0 +1,224 @@
+import { DEFAULT_TEXT_STYLE } from "@/constants/text-constants";
+import type { TextElement } from "@/types/timeline";
+
+export type TextContext =
+	| CanvasRenderingContext2D
+	| OffscreenCanvasRenderingContext2D;
+
+export interface TextLine {
+	text: string;
+	width: number;
+	x: number; // left edge
+	y: number; // middle
+}
+
+/**
+ * Lines positioned around the element's anchor. The block is anchored by
+ * its alignment the way single-line text always was: centered, or starting
+ * or ending at the anchor.
+ */
+export interface TextLayout {
+	lines: TextLine[];
+	width: number;
+	height: number;
+	lineHeight: number; // pixels
+}
+
+export type ResolvedTextStyle = Required<
+	Pick<
+		TextElement,
+		| "autoWrap"
+		| "lineHeight"
+		| "letterSpacing"
+		| "strokeColor"
+		| "strokeWidth"
+		| "backgroundPadding"
+		| "backgroundRadius"
+	>
+> &
+	Pick<TextElement, "boxWidth" | "shadow">;
+
+export function resolveTextStyle({
+	element,
+}: {
+	element: TextElement;
+}): ResolvedTextStyle {
+	return {
+		autoWrap: element.autoWrap ?? DEFAULT_TEXT_STYLE.autoWrap,
+		lineHeight: element.lineHeight ?? DEFAULT_TEXT_STYLE.lineHeight,
+		letterSpacing: element.letterSpacing ?? DEFAULT_TEXT_STYLE.letterSpacing,
+		strokeColor: element.strokeColor ?? DEFAULT_TEXT_STYLE.strokeColor,
+		strokeWidth: element.strokeWidth ?? DEFAULT_TEXT_STYLE.strokeWidth,
+		backgroundPadding:
+			element.backgroundPadding ?? DEFAULT_TEXT_STYLE.backgroundPadding,
+		backgroundRadius:
+			element.backgroundRadius ?? DEFAULT_TEXT_STYLE.backgroundRadius,
+		boxWidth: element.boxWidth,
+		shadow: element.shadow,
+	};
+}
+
+export function hasTextBackground({
+	element,
+}: {
+	element: TextElement;
+}): boolean {
+	return !!element.backgroundColor && element.backgroundColor !== "transparent";
+}
+
+// font and letter spacing; measuring and drawing both depend on them
+export function applyTextFont({
+	context,
+	element,
+	style,
+}: {
+	context: TextContext;
+	element: TextElement;
+	style: ResolvedTextStyle;
+}): void {
+	const fontWeight = element.fontWeight === "bold" ? "bold" : "normal";
+	const fontStyle = element.fontStyle === "italic" ? "italic" : "normal";
+	context.font = `${fontStyle} ${fontWeight} ${element.fontSize}px ${element.fontFamily}`;
+	if (supportsLetterSpacing(context)) {
+		context.letterSpacing = `${style.letterSpacing}px`;
+	}
+}
+
+export function layoutText({
+	context,
+	element,
+	style,
+}: {
+	context: TextContext;
+	element: TextElement;
+	style: ResolvedTextStyle;
+}): TextLayout {
+	const measure = (text: string) =>
+		measureTextRun({ context, text, letterSpacing: style.letterSpacing });
+	const maxWidth = style.autoWrap && style.boxWidth ? style.boxWidth : Infinity;
+
+	const texts = element.content
+		.split("\n")
+		.flatMap((paragraph) => wrapParagraph({ paragraph, maxWidth, measure }));
+	const widths = texts.map(measure);
+	const width = style.boxWidth ?? Math.max(0, ...widths);
+	const lineHeight = element.fontSize * style.lineHeight;
+	const height = (texts.length - 1) * lineHeight + element.fontSize;
+
+	const blockLeft =
+		element.textAlign === "left"
+			? 0
+			: element.textAlign === "right"
+				? -width
+				: -width / 2;
+	const lines = texts.map((text, index) => {
+		const lineWidth = widths[index];
+		const x =
+			element.textAlign === "left"
+				? blockLeft
+				: element.textAlign === "right"
+					? blockLeft + width - lineWidth
+					: blockLeft + (width - lineWidth) / 2;
+		return {
+			text,
+			width: lineWidth,
+			x,
+			y: (index - (texts.length - 1) / 2) * lineHeight,
+		};
+	});
+
+	return { lines, width, height, lineHeight };
+}
+
+export function measureTextRun({
+	context,
+	text,
+	letterSpacing,
+}: {
+	context: TextContext;
+	text: string;
+	letterSpacing: number;
+}): number {
+	if (supportsLetterSpacing(context) || letterSpacing === 0) {
+		return context.measureText(text).width;
+	}
+	return (
+		context.measureText(text).width + letterSpacing * Array.from(text).length
+	);
+}
+
+/**
+ * Draws with the context's left alignment. Where the canvas has no letter
+ * spacing of its own, characters are placed one at a time instead.
+ */
+export function drawTextRun({
+	context,
+	text,
+	x,
+	y,
+	letterSpacing,
+	mode,
+}: {
+	context: TextContext;
+	text: string;
+	x: number;
+	y: number;
+	letterSpacing: number;
+	mode: "fill" | "stroke";
+}): void {
+	const draw = (run: string, runX: number) =>
+		mode === "fill"
+			? context.fillText(run, runX, y)
+			: context.strokeText(run, runX, y);
+
+	if (supportsLetterSpacing(context) || letterSpacing === 0) {
+		draw(text, x);
+		return;
+	}
+	let cursor = x;
+	for (const character of text) {
+		draw(character, cursor);
+		cursor += context.measureText(character).width + letterSpacing;
+	}
+}
+
+function supportsLetterSpacing(context: TextContext): boolean {
+	return "letterSpacing" in context;
+}
+
+// greedy word wrap; a word wider than the box is broken between characters
+function wrapParagraph({
+	paragraph,
+	maxWidth,
+	measure,
+}: {
+	paragraph: string;
+	maxWidth: number;
+	measure: (text: string) => number;
+}): string[] {
+	if (maxWidth === Infinity || measure(paragraph) <= maxWidth) {
+		return [paragraph];
+	}
+
+	const lines: string[] = [];
+	let line = "";
+	for (const word of paragraph.split(/ +/)) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (measure(candidate) <= maxWidth) {
+			line = candidate;
+			continue;
+		}
+		if (line) lines.push(line);
+
+		line = "";
+		for (const character of word) {
+			if (line && measure(line + character) > maxWidth) {
+				lines.push(line);
+				line = "";
+			}
+			line += character;
+		}
+	}
+	lines.push(line);
+	return lines;
+}
@@ -7,6 +7,7 @@ import type {
 import type { TimelineTrack, TimelineElement } from "@/types/timeline";
 import type { AutomationMarker, PointMarker } from "@/types/automation";
 import type { OneshotMarker, OneshotDefinition } from "@/types/oneshot";
+import type { AutomationSnapshot } from "@/lib/automation/apply-automation";
 
 /**
  * Get the remapped duration based on time scale
@@ -103,6 +104,52 @@ export function remapAutomationMarkers(
 	});
 }
 
+/**
+ * Move an automation snapshot onto the remapped timeline, so remapped mixes
+ * and scenes resolve it on their own clock. Ramps run at the marker playback
+ * speed, and range markers follow their element's remapped span.
+ */
+export function remapAutomationSnapshot(
+	snapshot: AutomationSnapshot,
+	config: TimeRemapConfig,
+): AutomationSnapshot {
+	const { timeScale, automationMarkerConfig } = config;
+	const stretchRamps = automationMarkerConfig.playbackBehavior === "stretch";
+
+	const markers = remapAutomationMarkers(
+		snapshot.markers,
+		automationMarkerConfig,
+		timeScale,
+	).map((marker) =>
+		marker.type === "point" && marker.ramp && stretchRamps
+			? {
+					...marker,
+					ramp: {
+						...marker.ramp,
+						duration: remapTime(marker.ramp.duration, timeScale),
+					},
+				}
+			: marker,
+	);
+
+	const elementTimeRanges = snapshot.elementTimeRanges.map((range) => {
+		const behavior = getTrackBehavior(range.trackId, config);
+		const duration = range.endTime - range.startTime;
+		const startTime = remapTime(range.startTime, timeScale);
+		return {
+			...range,
+			startTime,
+			endTime:
+				startTime +
+				(behavior === "stretch" || behavior === "pitch-preserve"
+					? remapTime(duration, timeScale)
+					: duration),
+		};
+	});
+
+	return { ...snapshot, markers, elementTimeRanges };
+}
+
 /**
  * Remap oneshot marker
  */
@@ -137,7 +184,7 @@ export function remapOneshotMarkers(
  * Calculate oneshot audio timing with remap config
  */
 export interface OneshotAudioTiming {
-	startTime: number; // When audio starts in timeline
+	startTime: number; // When audio starts in timeline (negative if cut off at 0)
 	playbackRate: number; // Playback speed multiplier
 	trimStart: number;
 	trimEnd: number;
@@ -149,6 +196,7 @@ export function calculateOneshotAudioTiming(
 	definition: OneshotDefinition,
 	config: MarkerRemapConfig,
 	timeScale: number,
+	variationRate = 1,
 ): OneshotAudioTiming {
 	// Calculate trigger time
 	const triggerTime =
@@ -156,15 +204,17 @@ export function calculateOneshotAudioTiming(
 			? remapTime(marker.time, timeScale)
 			: marker.time;
 
-	// Calculate playback rate
+	// Calculate playback rate, on top of any detune from a variation group
 	const playbackRate =
-		config.playbackBehavior === "stretch" ? timeScale : 1.0;
+		(config.playbackBehavior === "stretch" ? timeScale : 1.0) * variationRate;
 
-	// Audio starts before trigger time by cuePoint amount (adjusted for playback rate)
-	const audioStartTime = triggerTime - definition.cuePoint / playbackRate;
+	// Audio starts before trigger time by the cue offset within the slice
+	// (adjusted for playback rate), matching OneshotManager's timing
+	const cueOffset = definition.cuePoint - definition.trimStart;
+	const audioStartTime = triggerTime - cueOffset / playbackRate;
 
 	return {
-		startTime: Math.max(0, audioStartTime),
+		startTime: audioStartTime,
 		playbackRate,
 		trimStart: definition.trimStart,
 		trimEnd: definition.trimEnd,
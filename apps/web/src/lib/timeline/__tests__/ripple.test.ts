@@ -0,0 +1,263 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getMainTrackGapEdits,
+	getRemovalEdits,
+	rippleSceneMarkers,
+	rippleTime,
+	rippleTracks,
+} from "../ripple";
+import type {
+	AudioTrack,
+	TimelineTrack,
+	TScene,
+	VideoElement,
+	VideoTrack,
+} from "@/types/timeline";
+
+function videoElement({
+	id,
+	startTime,
+	duration,
+}: {
+	id: string;
+	startTime: number;
+	duration: number;
+}): VideoElement {
+	return {
+		id,
+		name: id,
+		type: "video",
+		mediaId: "media",
+		startTime,
+		duration,
+		trimStart: 0,
+		trimEnd: 0,
+		transform: { scale: 1, position: { x: 0, y: 0 }, rotate: 0 },
+		opacity: 1,
+	};
+}
+
+function buildTracks(): [VideoTrack, AudioTrack] {
+	return [
+		{
+			id: "main",
+			name: "Main",
+			type: "video",
+			isMain: true,
+			muted: false,
+			hidden: false,
+			elements: [
+				videoElement({ id: "a", startTime: 0, duration: 5 }),
+				videoElement({ id: "b", startTime: 5, duration: 5 }),
+				videoElement({ id: "c", startTime: 10, duration: 5 }),
+			],
+		},
+		{
+			id: "music",
+			name: "Music",
+			type: "audio",
+			muted: false,
+			elements: [
+				{
+					id: "song",
+					name: "song",
+					type: "audio",
+					sourceType: "upload",
+					mediaId: "song",
+					volume: 1,
+					startTime: 12,
+					duration: 3,
+					trimStart: 0,
+					trimEnd: 0,
+				},
+			],
+		},
+	];
+}
+
+function startTimes(track: TimelineTrack): number[] {
+	return track.elements.map((element) => element.startTime);
+}
+
+describe("rippleTime", () => {
+	test("pushes times at or after an inserted span later", () => {
+		const edits = [{ time: 5, delta: 2 }];
+
+		expect(rippleTime({ time: 4.9, edits })).toBe(4.9);
+		expect(rippleTime({ time: 5, edits })).toBe(7);
+		expect(rippleTime({ time: 8, edits })).toBe(10);
+	});
+
+	test("pulls times after a removed span earlier", () => {
+		const edits = [{ time: 5, delta: -2 }];
+
+		expect(rippleTime({ time: 5, edits })).toBe(5);
+		expect(rippleTime({ time: 7, edits })).toBe(5);
+		expect(rippleTime({ time: 10, edits })).toBe(8);
+	});
+
+	test("moves times inside a removed span to its start", () => {
+		expect(rippleTime({ time: 6, edits: [{ time: 5, delta: -2 }] })).toBe(5);
+	});
+
+	test("applies edits in order", () => {
+		const edits = [
+			{ time: 10, delta: -2 },
+			{ time: 2, delta: 3 },
+		];
+
+		// 12 closes to 10, then moves past the insert at 2
+		expect(rippleTime({ time: 12, edits })).toBe(13);
+		expect(rippleTime({ time: 1, edits })).toBe(1);
+	});
+});
+
+describe("getRemovalEdits", () => {
+	test("merges overlapping spans and closes the latest first", () => {
+		const edits = getRemovalEdits({
+			spans: [
+				{ start: 1, end: 2 },
+				{ start: 6, end: 8 },
+				{ start: 7, end: 9 },
+			],
+		});
+
+		expect(edits).toEqual([
+			{ time: 6, delta: -3 },
+			{ time: 1, delta: -1 },
+		]);
+		expect(rippleTime({ time: 10, edits })).toBe(6);
+	});
+
+	test("drops empty spans", () => {
+		expect(getRemovalEdits({ spans: [{ start: 3, end: 3 }] })).toEqual([]);
+	});
+});
+
+describe("getMainTrackGapEdits", () => {
+	test("closes every gap on the main track", () => {
+		const [main, music] = buildTracks();
+		main.elements = [
+			videoElement({ id: "a", startTime: 1, duration: 2 }),
+			videoElement({ id: "b", startTime: 5, duration: 2 }),
+		];
+		const tracks = [main, music];
+		const edits = getMainTrackGapEdits({ tracks });
+		const rippled = rippleTracks({ tracks, edits, allTracks: false });
+
+		expect(edits).toEqual([
+			{ time: 0, delta: -1 },
+			{ time: 2, delta: -2 },
+		]);
+		expect(startTimes(rippled[0])).toEqual([0, 2]);
+	});
+});
+
+describe("rippleTracks", () => {
+	test("only moves the main track by default", () => {
+		const tracks = buildTracks();
+		const rippled = rippleTracks({
+			tracks,
+			edits: [{ time: 5, delta: -5 }],
+			allTracks: false,
+		});
+
+		expect(startTimes(rippled[0])).toEqual([0, 5, 5]);
+		expect(rippled[1]).toBe(tracks[1]);
+	});
+
+	test("moves every track when asked", () => {
+		const rippled = rippleTracks({
+			tracks: buildTracks(),
+			edits: [{ time: 5, delta: -5 }],
+			allTracks: true,
+		});
+
+		expect(startTimes(rippled[1])).toEqual([7]);
+	});
+
+	test("moves the listed tracks along with the main track", () => {
+		const rippled = rippleTracks({
+			tracks: buildTracks(),
+			edits: [{ time: 5, delta: -5 }],
+			allTracks: false,
+			trackIds: ["music"],
+		});
+
+		expect(startTimes(rippled[1])).toEqual([7]);
+	});
+
+	test("opens a span for an insert", () => {
+		const rippled = rippleTracks({
+			tracks: buildTracks(),
+			edits: [{ time: 5, delta: 2 }],
+			allTracks: true,
+		});
+
+		expect(startTimes(rippled[0])).toEqual([0, 7, 12]);
+		expect(startTimes(rippled[1])).toEqual([14]);
+	});
+
+	test("leaves excluded elements where they are", () => {
+		const rippled = rippleTracks({
+			tracks: buildTracks(),
+			edits: [{ time: 5, delta: 2 }],
+			allTracks: false,
+			excludeElementIds: ["b"],
+		});
+
+		expect(startTimes(rippled[0])).toEqual([0, 5, 12]);
+	});
+
+	test("returns the same tracks without edits", () => {
+		const tracks = buildTracks();
+
+		expect(rippleTracks({ tracks, edits: [], allTracks: true })).toBe(tracks);
+	});
+});
+
+describe("rippleSceneMarkers", () => {
+	const createdAt = new Date(0);
+	const scene: TScene = {
+		id: "scene",
+		name: "Scene",
+		isMain: true,
+		tracks: [],
+		bookmarks: [2, 6, 7, 12],
+		oneshotMarkers: [{ id: "hit", oneshotId: "kick", time: 12, createdAt: 0 }],
+		automationMarkers: [
+			{ id: "point", stateId: "state", type: "point", time: 9, createdAt },
+			{
+				id: "range",
+				stateId: "state",
+				type: "range",
+				trackId: "main",
+				elementId: "b",
+				createdAt,
+			},
+		],
+		createdAt,
+		updatedAt: createdAt,
+	};
+
+	test("moves bookmarks and point markers, merging collapsed bookmarks", () => {
+		const markers = rippleSceneMarkers({
+			scene,
+			edits: [{ time: 5, delta: -3 }],
+		});
+
+		expect(markers.bookmarks).toEqual([2, 5, 9]);
+		expect(markers.oneshotMarkers?.[0].time).toBe(9);
+		expect(markers.automationMarkers?.[0]).toMatchObject({ time: 6 });
+	});
+
+	test("leaves range markers to their element", () => {
+		const markers = rippleSceneMarkers({
+			scene,
+			edits: [{ time: 0, delta: 4 }],
+		});
+
+		expect(markers.automationMarkers?.[1]).toBe(scene.automationMarkers?.[1]);
+		expect(markers.bookmarks).toEqual([6, 10, 11, 16]);
+	});
+});
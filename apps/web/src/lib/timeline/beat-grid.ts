@@ -0,0 +1,97 @@
+import { BEAT_SNAP_TOLERANCE } from "@/constants/beat-grid-constants";
+import type { BeatGrid } from "@/types/beat-grid";
+
+export interface Beat {
+	time: number;
+	isDownbeat: boolean;
+}
+
+export function getBeatDuration({ grid }: { grid: BeatGrid }): number {
+	return 60 / grid.bpm;
+}
+
+// beats counted from the offset; negative indices lie before it
+function getBeatIndexAt({
+	grid,
+	time,
+}: {
+	grid: BeatGrid;
+	time: number;
+}): number {
+	return (time - grid.offset) / getBeatDuration({ grid });
+}
+
+function getBeat({ grid, index }: { grid: BeatGrid; index: number }): Beat {
+	const barPosition =
+		((index % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar;
+	return {
+		time: grid.offset + index * getBeatDuration({ grid }),
+		isDownbeat: barPosition === 0,
+	};
+}
+
+export function getBeatsInRange({
+	grid,
+	start,
+	end,
+}: {
+	grid: BeatGrid;
+	start: number;
+	end: number;
+}): Beat[] {
+	const first = Math.ceil(getBeatIndexAt({ grid, time: Math.max(0, start) }));
+	const last = Math.floor(getBeatIndexAt({ grid, time: end }));
+	const beats: Beat[] = [];
+	for (let index = first; index <= last; index++) {
+		beats.push(getBeat({ grid, index }));
+	}
+	return beats;
+}
+
+export function getNearestBeat({
+	grid,
+	time,
+}: {
+	grid: BeatGrid;
+	time: number;
+}): Beat | null {
+	const index = Math.round(getBeatIndexAt({ grid, time }));
+	const beat = getBeat({ grid, index });
+	if (beat.time >= 0) return beat;
+	// the grid runs back to zero; nothing before that can be snapped to
+	const firstIndex = Math.ceil(getBeatIndexAt({ grid, time: 0 }));
+	return getBeat({ grid, index: firstIndex });
+}
+
+/**
+ * The nearest beat when it lies within a fraction of a beat of `time`, so
+ * placing a point at the playhead lands on the beat it was meant for without
+ * quantizing off-beat placements too.
+ */
+export function snapToBeatGrid({
+	grid,
+	time,
+}: {
+	grid: BeatGrid | undefined;
+	time: number;
+}): number {
+	if (!grid?.enabled) return time;
+	const beat = getNearestBeat({ grid, time });
+	const threshold = getBeatDuration({ grid }) * BEAT_SNAP_TOLERANCE;
+	if (!beat || Math.abs(beat.time - time) > threshold) return time;
+	return beat.time;
+}
+
+// offsets are kept within the first bar so a nudge doesn't drift the grid
+export function normalizeBeatOffset({
+	offset,
+	bpm,
+	beatsPerBar,
+}: {
+	offset: number;
+	bpm: number;
+	beatsPerBar: number;
+}): number {
+	const barDuration = (60 / bpm) * beatsPerBar;
+	return ((offset % barDuration) + barDuration) % barDuration;
+}
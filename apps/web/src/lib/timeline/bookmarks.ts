@@ -38,6 +38,23 @@ export function toggleBookmarkInArray({
 	return [...bookmarks, frameTime].sort((a, b) => a - b);
 }
 
+// frame times already bookmarked are left as they are
+export function addBookmarksToArray({
+	bookmarks,
+	frameTimes,
+}: {
+	bookmarks: number[];
+	frameTimes: number[];
+}): number[] {
+	const added = [...bookmarks];
+	for (const frameTime of frameTimes) {
+		if (!isBookmarkAtTime({ bookmarks: added, frameTime })) {
+			added.push(frameTime);
+		}
+	}
+	return added.sort((a, b) => a - b);
+}
+
 export function removeBookmarkFromArray({
 	bookmarks,
 	frameTime,
@@ -55,7 +55,11 @@ function isCompatible({
 	if (elementType === "text") return trackType === "text";
 	if (elementType === "audio") return trackType === "audio";
 	if (elementType === "sticker") return trackType === "sticker";
-	if (elementType === "video" || elementType === "image") {
+	if (
+		elementType === "video" ||
+		elementType === "image" ||
+		elementType === "scene"
+	) {
 		return trackType === "video";
 	}
 	return false;
@@ -5,6 +5,7 @@ import type {
 	CreateVideoElement,
 	CreateImageElement,
 	CreateStickerElement,
+	CreateSceneElement,
 	CreateUploadAudioElement,
 	CreateLibraryAudioElement,
 	TextElement,
@@ -23,6 +24,63 @@ export function canElementHaveAudio(
 	return element.type === "audio" || element.type === "video";
 }
 
+export function canElementChangeSpeed(
+	element: TimelineElement,
+): element is AudioElement | VideoElement {
+	return element.type === "audio" || element.type === "video";
+}
+
+export type ClipTiming = Pick<
+	VideoElement,
+	"duration" | "trimStart" | "trimEnd" | "speed" | "reversed"
+>;
+
+export function getElementSpeed(element: TimelineElement): number {
+	return canElementChangeSpeed(element) ? (element.speed ?? 1) : 1;
+}
+
+export function hasSpeedChange(
+	element: Pick<ClipTiming, "speed" | "reversed">,
+) {
+	return (element.speed ?? 1) !== 1 || element.reversed === true;
+}
+
+/**
+ * Source range a clip plays, in source seconds. Trims are counted in play
+ * order, so a reversed clip starts playing at the end of this range.
+ */
+export function getClipSourceRange({ clip }: { clip: ClipTiming }): {
+	start: number;
+	end: number;
+} {
+	const start = clip.reversed ? clip.trimEnd : clip.trimStart;
+	return { start, end: start + clip.duration * (clip.speed ?? 1) };
+}
+
+// source time shown at a timeline offset from the clip start
+export function getClipSourceTime({
+	clip,
+	offset,
+}: {
+	clip: ClipTiming;
+	offset: number;
+}): number {
+	const { start, end } = getClipSourceRange({ clip });
+	const sourceOffset = offset * (clip.speed ?? 1);
+	return clip.reversed ? end - sourceOffset : start + sourceOffset;
+}
+
+// timeline duration of the same source range played at another speed
+export function getDurationAtSpeed({
+	element,
+	speed,
+}: {
+	element: TimelineElement;
+	speed: number;
+}): number {
+	return (element.duration * getElementSpeed(element)) / speed;
+}
+
 export function canElementBeHidden(
 	element: TimelineElement,
 ): element is VideoElement | ImageElement | TextElement | StickerElement {
@@ -218,6 +276,32 @@ export function buildImageElement({
 	};
 }
 
+export function buildSceneElement({
+	sceneId,
+	name,
+	duration,
+	startTime,
+}: {
+	sceneId: string;
+	name: string;
+	duration: number;
+	startTime: number;
+}): CreateSceneElement {
+	return {
+		type: "scene",
+		sceneId,
+		name,
+		duration,
+		startTime,
+		trimStart: 0,
+		trimEnd: 0,
+		muted: false,
+		hidden: false,
+		transform: { scale: 1, position: { x: 0, y: 0 }, rotate: 0 },
+		opacity: 1,
+	};
+}
+
 export function buildUploadAudioElement({
 	mediaId,
 	name,
@@ -0,0 +1,175 @@
+import type { TimelineTrack, TScene } from "@/types/timeline";
+import { isMainTrack } from "./track-utils";
+
+export interface RippleOptions {
+	// also shift elements on other tracks, markers and bookmarks
+	allTracks: boolean;
+	// other tracks that always move with the main track, like linked audio
+	trackIds?: string[];
+}
+
+/**
+ * A span opened (positive delta) or closed (negative delta) at a point of the
+ * main track. Edits are applied in order, each one in the timeline as it looks
+ * after the previous ones.
+ */
+export interface RippleEdit {
+	time: number;
+	delta: number;
+}
+
+export function rippleTime({
+	time,
+	edits,
+}: {
+	time: number;
+	edits: RippleEdit[];
+}): number {
+	return edits.reduce((current, { time: editTime, delta }) => {
+		if (delta >= 0) {
+			return current >= editTime ? current + delta : current;
+		}
+		const removedEnd = editTime - delta;
+		if (current >= removedEnd) return current + delta;
+		// anything inside a closed span lands where the span started
+		if (current > editTime) return editTime;
+		return current;
+	}, time);
+}
+
+export function rippleTracks({
+	tracks,
+	edits,
+	allTracks,
+	trackIds = [],
+	excludeElementIds = [],
+}: {
+	tracks: TimelineTrack[];
+	edits: RippleEdit[];
+	allTracks: boolean;
+	trackIds?: string[];
+	excludeElementIds?: string[];
+}): TimelineTrack[] {
+	if (edits.length === 0) return tracks;
+
+	return tracks.map((track) => {
+		if (!allTracks && !isMainTrack(track) && !trackIds.includes(track.id)) {
+			return track;
+		}
+
+		return {
+			...track,
+			elements: track.elements.map((element) =>
+				excludeElementIds.includes(element.id)
+					? element
+					: {
+							...element,
+							startTime: rippleTime({ time: element.startTime, edits }),
+						},
+			),
+		} as typeof track;
+	});
+}
+
+export function rippleSceneMarkers({
+	scene,
+	edits,
+}: {
+	scene: TScene;
+	edits: RippleEdit[];
+}): Pick<TScene, "bookmarks" | "oneshotMarkers" | "automationMarkers"> {
+	const bookmarks = scene.bookmarks.map((time) => rippleTime({ time, edits }));
+
+	return {
+		// bookmarks inside a closed span collapse onto the same time
+		bookmarks: [...new Set(bookmarks)].sort((a, b) => a - b),
+		oneshotMarkers: scene.oneshotMarkers?.map((marker) => ({
+			...marker,
+			time: rippleTime({ time: marker.time, edits }),
+		})),
+		// range markers follow their element, only point markers hold a time
+		automationMarkers: scene.automationMarkers?.map((marker) =>
+			marker.type === "point"
+				? { ...marker, time: rippleTime({ time: marker.time, edits }) }
+				: marker,
+		),
+	};
+}
+
+/**
+ * Edits that remove the given spans of the main track. Spans are merged and
+ * closed from last to first so each edit can use original times.
+ */
+export function getRemovalEdits({
+	spans,
+}: {
+	spans: { start: number; end: number }[];
+}): RippleEdit[] {
+	const sorted = [...spans].sort((a, b) => a.start - b.start);
+	const merged: { start: number; end: number }[] = [];
+	for (const span of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && span.start <= last.end) {
+			last.end = Math.max(last.end, span.end);
+		} else {
+			merged.push({ ...span });
+		}
+	}
+
+	return merged
+		.reverse()
+		.filter(({ start, end }) => end > start)
+		.map(({ start, end }) => ({ time: start, delta: start - end }));
+}
+
+export function getMainTrackGapEdits({
+	tracks,
+}: {
+	tracks: TimelineTrack[];
+}): RippleEdit[] {
+	const mainTrack = tracks.find((track) => isMainTrack(track));
+	if (!mainTrack) return [];
+
+	const elements = [...mainTrack.elements].sort(
+		(a, b) => a.startTime - b.startTime,
+	);
+	const edits: RippleEdit[] = [];
+	let closed = 0;
+	let cursor = 0;
+
+	for (const element of elements) {
+		const startTime = element.startTime - closed;
+		if (startTime > cursor) {
+			edits.push({ time: cursor, delta: cursor - startTime });
+			closed += startTime - cursor;
+		}
+		cursor = Math.max(cursor, element.startTime - closed + element.duration);
+	}
+
+	return edits;
+}
+
+/**
+ * Where an element dropped at a time lands on the magnetic main track: drops
+ * inside a clip go to whichever of its edges is closer.
+ */
+export function getMainTrackInsertTime({
+	track,
+	time,
+	excludeElementId,
+}: {
+	track: TimelineTrack;
+	time: number;
+	excludeElementId?: string;
+}): number {
+	const target = track.elements.find(
+		(element) =>
+			element.id !== excludeElementId &&
+			time > element.startTime &&
+			time < element.startTime + element.duration,
+	);
+	if (!target) return time;
+
+	const end = target.startTime + target.duration;
+	return time - target.startTime < end - time ? target.startTime : end;
+}
@@ -20,6 +20,30 @@ export function canTracktHaveAudio(
 	return track.type === "audio" || track.type === "video";
 }
 
+export function getTrackMix(track: TimelineTrack): {
+	volume: number;
+	pan: number;
+} {
+	if (!canTracktHaveAudio(track)) return { volume: 1, pan: 0 };
+	return { volume: track.volume ?? 1, pan: track.pan ?? 0 };
+}
+
+// silent through its own mute, or because some other track is soloed
+export function isTrackSilenced({
+	track,
+	tracks,
+}: {
+	track: TimelineTrack;
+	tracks: TimelineTrack[];
+}): boolean {
+	if (!canTracktHaveAudio(track)) return true;
+	if (track.muted) return true;
+	const hasSolo = tracks.some(
+		(other) => canTracktHaveAudio(other) && other.solo === true,
+	);
+	return hasSolo && track.solo !== true;
+}
+
 export function canTrackBeHidden(
 	track: TimelineTrack,
 ): track is VideoTrack | TextTrack | StickerTrack {
@@ -215,7 +239,11 @@ export function canElementGoOnTrack({
 	if (elementType === "text") return trackType === "text";
 	if (elementType === "audio") return trackType === "audio";
 	if (elementType === "sticker") return trackType === "sticker";
-	if (elementType === "video" || elementType === "image") {
+	if (
+		elementType === "video" ||
+		elementType === "image" ||
+		elementType === "scene"
+	) {
 		return trackType === "video";
 	}
 	return false;
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { dropLinkedWords, getClipTranscriptWords } from "../transcript";
+import type { AudioElement, VideoElement } from "@/types/timeline";
+
+const sourceWords = [
+	{ text: "hello", start: 1, end: 1.5 },
+	{ text: "there", start: 2, end: 2.5 },
+	{ text: "again", start: 6, end: 6.5 },
+];
+
+const video: VideoElement = {
+	id: "video",
+	name: "video",
+	type: "video",
+	mediaId: "interview",
+	startTime: 0,
+	duration: 10,
+	trimStart: 0,
+	trimEnd: 0,
+	transform: { scale: 1, position: { x: 0, y: 0 }, rotate: 0 },
+	opacity: 1,
+};
+
+function audioClip({
+	startTime,
+	duration,
+	trimStart,
+}: {
+	startTime: number;
+	duration: number;
+	trimStart: number;
+}): AudioElement {
+	return {
+		id: "voice",
+		name: "voice",
+		type: "audio",
+		sourceType: "upload",
+		mediaId: "interview",
+		volume: 1,
+		startTime,
+		duration,
+		trimStart,
+		trimEnd: 0,
+	};
+}
+
+describe("dropLinkedWords", () => {
+	test("keeps one copy of each word a video and its audio both play", () => {
+		const words = dropLinkedWords({
+			words: [
+				...getClipTranscriptWords({
+					words: sourceWords,
+					clip: video,
+					trackId: "main",
+				}),
+				...getClipTranscriptWords({
+					words: sourceWords,
+					clip: audioClip({ startTime: 0, duration: 10, trimStart: 0 }),
+					trackId: "voice",
+				}),
+			],
+		});
+
+		expect(words.map((word) => word.text)).toEqual(["hello", "there", "again"]);
+		expect(words.every((word) => word.elementId === "video")).toBe(true);
+	});
+
+	test("keeps words the clips play at different times", () => {
+		const words = dropLinkedWords({
+			words: [
+				...getClipTranscriptWords({
+					words: sourceWords,
+					clip: video,
+					trackId: "main",
+				}),
+				// the same file again, later on the timeline
+				...getClipTranscriptWords({
+					words: sourceWords,
+					clip: audioClip({ startTime: 10, duration: 10, trimStart: 0 }),
+					trackId: "voice",
+				}),
+			],
+		});
+
+		expect(words).toHaveLength(6);
+		expect(words.map((word) => word.start)).toEqual([1, 2, 6, 11, 12, 16]);
+	});
+});
@@ -1,49 +1,93 @@
-import type { TranscriptionSegment, CaptionChunk } from "@/types/transcription";
+import type {
+	TranscriptionSegment,
+	TranscriptionWord,
+	CaptionChunk,
+} from "@/types/transcription";
 import {
+	CAPTION_PAUSE_SECONDS,
 	DEFAULT_WORDS_PER_CAPTION,
 	MIN_CAPTION_DURATION_SECONDS,
 } from "@/constants/transcription-constants";
 
+export const SENTENCE_END_PATTERN = /[.!?…]["')\]]*$/;
+
+/**
+ * Captions of up to `wordsPerChunk` words. A caption also ends at a pause or
+ * the end of a sentence, so it never runs across a breath. Without aligned
+ * words, timing is estimated by spreading each segment evenly over its words.
+ */
 export function buildCaptionChunks({
 	segments,
+	words,
 	wordsPerChunk = DEFAULT_WORDS_PER_CAPTION,
 	minDuration = MIN_CAPTION_DURATION_SECONDS,
 }: {
 	segments: TranscriptionSegment[];
+	words?: TranscriptionWord[];
 	wordsPerChunk?: number;
 	minDuration?: number;
 }): CaptionChunk[] {
-	const captions: CaptionChunk[] = [];
-	let globalEndTime = 0;
-
-	for (const segment of segments) {
-		const words = segment.text.trim().split(/\s+/);
-		if (words.length === 0 || (words.length === 1 && words[0] === "")) continue;
+	const runs =
+		words && words.length > 0
+			? [words]
+			: segments.map((segment) => estimateSegmentWords({ segment }));
 
-		const segmentDuration = segment.end - segment.start;
-		const wordsPerSecond = words.length / segmentDuration;
-
-		const chunks: string[] = [];
-		for (let i = 0; i < words.length; i += wordsPerChunk) {
-			chunks.push(words.slice(i, i + wordsPerChunk).join(" "));
+	const groups: TranscriptionWord[][] = [];
+	for (const run of runs) {
+		let group: TranscriptionWord[] = [];
+		for (const [index, word] of run.entries()) {
+			group.push(word);
+			const next = run[index + 1];
+			const isGroupEnd =
+				!next ||
+				group.length >= wordsPerChunk ||
+				next.start - word.end >= CAPTION_PAUSE_SECONDS ||
+				SENTENCE_END_PATTERN.test(word.text);
+			if (isGroupEnd) {
+				groups.push(group);
+				group = [];
+			}
 		}
+	}
 
-		let chunkStartTime = segment.start;
-		for (const chunk of chunks) {
-			const chunkWords = chunk.split(/\s+/).length;
-			const chunkDuration = Math.max(minDuration, chunkWords / wordsPerSecond);
-			const adjustedStartTime = Math.max(chunkStartTime, globalEndTime);
-
-			captions.push({
-				text: chunk,
-				startTime: adjustedStartTime,
-				duration: chunkDuration,
-			});
+	const captions: CaptionChunk[] = [];
+	let globalEndTime = 0;
+	for (const [index, group] of groups.entries()) {
+		const startTime = Math.max(group[0].start, globalEndTime);
+		const nextStart = groups[index + 1]?.[0].start ?? Infinity;
+		// short captions are held up to the minimum, but not over the next one
+		let endTime = Math.max(
+			group[group.length - 1].end,
+			Math.min(startTime + minDuration, nextStart),
+		);
+		if (endTime <= startTime) endTime = startTime + minDuration;
 
-			globalEndTime = adjustedStartTime + chunkDuration;
-			chunkStartTime += chunkDuration;
-		}
+		captions.push({
+			text: group.map((word) => word.text).join(" "),
+			startTime,
+			duration: endTime - startTime,
+			words: group.map((word) => ({
+				text: word.text,
+				start: Math.max(0, word.start - startTime),
+				end: Math.max(0, word.end - startTime),
+			})),
+		});
+		globalEndTime = endTime;
 	}
 
 	return captions;
 }
+
+export function estimateSegmentWords({
+	segment,
+}: {
+	segment: TranscriptionSegment;
+}): TranscriptionWord[] {
+	const texts = segment.text.trim().split(/\s+/).filter(Boolean);
+	const wordDuration = (segment.end - segment.start) / (texts.length || 1);
+	return texts.map((text, index) => ({
+		text,
+		start: segment.start + index * wordDuration,
+		end: segment.start + (index + 1) * wordDuration,
+	}));
+}
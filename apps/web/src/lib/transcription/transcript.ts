@@ -0,0 +1,184 @@
+import type {
+	TranscriptionResult,
+	TranscriptionWord,
+} from "@/types/transcription";
+import type { AudioElement, VideoElement } from "@/types/timeline";
+import { getClipSourceRange, hasMediaId } from "@/lib/timeline";
+import { SENTENCE_END_PATTERN, estimateSegmentWords } from "./caption";
+
+// a transcribed word where a clip plays it, in timeline seconds
+export interface TranscriptWord {
+	text: string;
+	start: number;
+	end: number;
+	trackId: string;
+	elementId: string;
+}
+
+// a span of one clip to cut out, in timeline seconds
+export interface TranscriptCut {
+	trackId: string;
+	elementId: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Transcripts belong to the audio a clip plays rather than to the clip, so
+ * every clip of the same file, and every piece left after a cut, shares one.
+ */
+export function getTranscriptSourceKey({
+	element,
+}: {
+	element: AudioElement | VideoElement;
+}): string {
+	return hasMediaId(element) ? element.mediaId : element.sourceUrl;
+}
+
+// words in source seconds, spread over their segment when not aligned
+export function getTranscriptionWords({
+	result,
+}: {
+	result: TranscriptionResult;
+}): TranscriptionWord[] {
+	if (result.words && result.words.length > 0) return result.words;
+	return result.segments.flatMap((segment) =>
+		estimateSegmentWords({ segment }),
+	);
+}
+
+/**
+ * The words a clip plays, placed on the timeline. A word counts when its
+ * middle is played, and is clamped to the clip so cuts stay inside it.
+ */
+export function getClipTranscriptWords({
+	words,
+	clip,
+	trackId,
+}: {
+	words: TranscriptionWord[];
+	clip: AudioElement | VideoElement;
+	trackId: string;
+}): TranscriptWord[] {
+	const { start, end } = getClipSourceRange({ clip });
+	const speed = clip.speed ?? 1;
+	const clipEnd = clip.startTime + clip.duration;
+	const toTimeline = (sourceTime: number) =>
+		clip.reversed
+			? clip.startTime + (end - sourceTime) / speed
+			: clip.startTime + (sourceTime - start) / speed;
+
+	return words
+		.filter((word) => {
+			const middle = (word.start + word.end) / 2;
+			return middle > start && middle < end;
+		})
+		.map((word) => {
+			const [from, to] = clip.reversed
+				? [toTimeline(word.end), toTimeline(word.start)]
+				: [toTimeline(word.start), toTimeline(word.end)];
+			return {
+				text: word.text,
+				start: Math.max(clip.startTime, from),
+				end: Math.min(clipEnd, to),
+				trackId,
+				elementId: clip.id,
+			};
+		})
+		.sort((a, b) => a.start - b.start);
+}
+
+// how far apart two clips can place the same word and still count as linked
+const LINKED_WORD_TOLERANCE = 0.001; // seconds
+
+/**
+ * Words sorted by time, with the copies linked clips play dropped. A video and
+ * its audio on another track share one transcript, so each word would show up
+ * twice; the first clip's copy is kept and cutting it takes the others along.
+ */
+export function dropLinkedWords({
+	words,
+}: {
+	words: TranscriptWord[];
+}): TranscriptWord[] {
+	const sorted = [...words].sort((a, b) => a.start - b.start);
+	const kept: TranscriptWord[] = [];
+
+	for (const word of sorted) {
+		let isCopy = false;
+		// kept words are in time order, so only the last few can match
+		for (let index = kept.length - 1; index >= 0; index--) {
+			const other = kept[index];
+			if (word.start - other.start > LINKED_WORD_TOLERANCE) break;
+			if (
+				other.elementId !== word.elementId &&
+				other.text === word.text &&
+				Math.abs(other.end - word.end) <= LINKED_WORD_TOLERANCE
+			) {
+				isCopy = true;
+				break;
+			}
+		}
+		if (!isCopy) kept.push(word);
+	}
+
+	return kept;
+}
+
+// first and last index of the sentence a word belongs to
+export function getSentenceBounds({
+	words,
+	index,
+}: {
+	words: TranscriptWord[];
+	index: number;
+}): { start: number; end: number } {
+	let start = index;
+	while (start > 0 && !SENTENCE_END_PATTERN.test(words[start - 1].text)) {
+		start--;
+	}
+	let end = index;
+	while (
+		end < words.length - 1 &&
+		!SENTENCE_END_PATTERN.test(words[end].text)
+	) {
+		end++;
+	}
+	return { start, end };
+}
+
+/**
+ * Spans to remove for the selected words. Neighbouring words of the same
+ * clip make one cut, pauses between them included, while the pauses either
+ * side of the selection are kept so the edit doesn't sound clipped.
+ */
+export function getTranscriptCuts({
+	words,
+	selected,
+}: {
+	words: TranscriptWord[];
+	selected: (index: number) => boolean;
+}): TranscriptCut[] {
+	const cuts: TranscriptCut[] = [];
+	let current: TranscriptCut | null = null;
+
+	for (const [index, word] of words.entries()) {
+		if (!selected(index)) {
+			current = null;
+			continue;
+		}
+		if (current && current.elementId === word.elementId) {
+			current.end = Math.max(current.end, word.end);
+			continue;
+		}
+		current = {
+			trackId: word.trackId,
+			elementId: word.elementId,
+			start: word.start,
+			end: word.end,
+		};
+		cuts.push(current);
+	}
+
+	return cuts.filter((cut) => cut.end > cut.start);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getTransitionAudioGain,
+	getTransitionWindow,
+	type ResolvedTransition,
+} from "../index";
+import type { Transition } from "@/types/transition";
+
+const transition: Transition = {
+	id: "transition",
+	trackId: "main",
+	fromElementId: "from",
+	toElementId: "to",
+	type: "crossfade",
+	duration: 2,
+};
+
+function resolve({
+	from,
+	to,
+}: {
+	from: { startTime: number; duration: number };
+	to: { startTime: number; duration: number };
+}): ResolvedTransition[] {
+	const window = getTransitionWindow({
+		from: { id: "from", ...from },
+		to: { id: "to", ...to },
+		duration: transition.duration,
+	});
+	return window ? [{ ...window, transition }] : [];
+}
+
+function gainAt({
+	elementId,
+	transitions,
+	time,
+}: {
+	elementId: string;
+	transitions: ResolvedTransition[];
+	time: number;
+}): number {
+	return getTransitionAudioGain({ elementId, transitions, time });
+}
+
+describe("getTransitionAudioGain", () => {
+	// the clips overlap from 8s to 10s
+	const overlapping = resolve({
+		from: { startTime: 0, duration: 10 },
+		to: { startTime: 8, duration: 10 },
+	});
+
+	test("crossfades overlapping clips at equal power", () => {
+		for (const time of [8, 8.5, 9, 9.5, 10]) {
+			const from = gainAt({
+				elementId: "from",
+				transitions: overlapping,
+				time,
+			});
+			const to = gainAt({ elementId: "to", transitions: overlapping, time });
+			expect(from ** 2 + to ** 2).toBeCloseTo(1, 10);
+		}
+		expect(
+			gainAt({ elementId: "from", transitions: overlapping, time: 8 }),
+		).toBe(1);
+		expect(
+			gainAt({ elementId: "to", transitions: overlapping, time: 10 }),
+		).toBeCloseTo(1, 10);
+		expect(
+			gainAt({ elementId: "from", transitions: overlapping, time: 9 }),
+		).toBeCloseTo(Math.SQRT1_2, 10);
+	});
+
+	test("leaves clips alone outside the window and other clips throughout", () => {
+		expect(
+			gainAt({ elementId: "from", transitions: overlapping, time: 5 }),
+		).toBe(1);
+		expect(
+			gainAt({ elementId: "other", transitions: overlapping, time: 9 }),
+		).toBe(1);
+	});
+
+	test("dips touching clips to silence at the cut", () => {
+		// a 2s window centered on the cut at 10s
+		const touching = resolve({
+			from: { startTime: 0, duration: 10 },
+			to: { startTime: 10, duration: 10 },
+		});
+
+		expect(
+			gainAt({ elementId: "from", transitions: touching, time: 10 }),
+		).toBeCloseTo(0, 10);
+		expect(gainAt({ elementId: "to", transitions: touching, time: 10 })).toBe(
+			0,
+		);
+		expect(
+			gainAt({ elementId: "from", transitions: touching, time: 9.5 }),
+		).toBeCloseTo(Math.SQRT1_2, 10);
+		expect(
+			gainAt({ elementId: "to", transitions: touching, time: 10.5 }),
+		).toBeCloseTo(Math.SQRT1_2, 10);
+	});
+});
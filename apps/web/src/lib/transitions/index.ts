@@ -0,0 +1,198 @@
+import type { TimelineElement, TimelineTrack } from "@/types/timeline";
+import type { Transition } from "@/types/transition";
+import { MIN_TRANSITION_DURATION } from "@/constants/transition-constants";
+
+// clips closer than this count as touching
+const ADJACENCY_EPSILON = 1 / 1000;
+
+type TimedElement = Pick<TimelineElement, "id" | "startTime" | "duration">;
+
+export interface TransitionWindow {
+	start: number;
+	end: number;
+	fromEnd: number; // where the outgoing clip ends on the timeline
+	toStart: number; // where the incoming clip starts on the timeline
+}
+
+export interface ResolvedTransition extends TransitionWindow {
+	transition: Transition;
+}
+
+export function canTransitionBetween({
+	from,
+	to,
+}: {
+	from: TimedElement;
+	to: TimedElement;
+}): boolean {
+	const fromEnd = from.startTime + from.duration;
+	return (
+		to.startTime > from.startTime &&
+		to.startTime <= fromEnd + ADJACENCY_EPSILON &&
+		fromEnd < to.startTime + to.duration
+	);
+}
+
+/**
+ * Longest transition that fits between two clips. Touching clips split the
+ * transition around the cut, so each half must fit inside its clip.
+ */
+export function getMaxTransitionDuration({
+	from,
+	to,
+}: {
+	from: TimedElement;
+	to: TimedElement;
+}): number {
+	const overlap = from.startTime + from.duration - to.startTime;
+	if (overlap > ADJACENCY_EPSILON) return overlap;
+	return 2 * Math.min(from.duration, to.duration);
+}
+
+/**
+ * Timeline span of a transition. Overlapping clips transition over the
+ * overlap; touching clips transition over a window centered on the cut, with
+ * the outgoing clip holding its last frame past its end and the incoming clip
+ * holding its first frame before its start.
+ */
+export function getTransitionWindow({
+	from,
+	to,
+	duration,
+}: {
+	from: TimedElement;
+	to: TimedElement;
+	duration: number;
+}): TransitionWindow | null {
+	if (!canTransitionBetween({ from, to })) return null;
+
+	const fromEnd = from.startTime + from.duration;
+	const toStart = to.startTime;
+	if (fromEnd - toStart > ADJACENCY_EPSILON) {
+		return { start: toStart, end: fromEnd, fromEnd, toStart };
+	}
+
+	const half =
+		Math.min(
+			Math.max(duration, MIN_TRANSITION_DURATION),
+			getMaxTransitionDuration({ from, to }),
+		) / 2;
+	return { start: toStart - half, end: toStart + half, fromEnd, toStart };
+}
+
+/**
+ * Transitions on a track that still sit between two neighbouring clips.
+ * Transitions left behind by moved or deleted clips are skipped.
+ */
+export function resolveTrackTransitions({
+	track,
+	transitions,
+}: {
+	track: TimelineTrack;
+	transitions: Transition[];
+}): ResolvedTransition[] {
+	const resolved: ResolvedTransition[] = [];
+
+	for (const transition of transitions) {
+		if (transition.trackId !== track.id) continue;
+
+		const from = track.elements.find(
+			(element) => element.id === transition.fromElementId,
+		);
+		const to = track.elements.find(
+			(element) => element.id === transition.toElementId,
+		);
+		if (!from || !to) continue;
+
+		const window = getTransitionWindow({
+			from,
+			to,
+			duration: transition.duration,
+		});
+		if (window) resolved.push({ ...window, transition });
+	}
+
+	return resolved;
+}
+
+export function resolveTransitions({
+	tracks,
+	transitions,
+}: {
+	tracks: TimelineTrack[];
+	transitions: Transition[] | undefined;
+}): ResolvedTransition[] {
+	if (!transitions || transitions.length === 0) return [];
+	return tracks.flatMap((track) =>
+		resolveTrackTransitions({ track, transitions }),
+	);
+}
+
+// the clip that follows an element on its track, if the two can transition
+export function findNextElement({
+	track,
+	elementId,
+}: {
+	track: TimelineTrack;
+	elementId: string;
+}): TimelineElement | null {
+	const from = track.elements.find((element) => element.id === elementId);
+	if (!from) return null;
+
+	const candidates = (track.elements as TimelineElement[])
+		.filter((to) => to.id !== from.id && canTransitionBetween({ from, to }))
+		.sort((a, b) => a.startTime - b.startTime);
+	return candidates[0] ?? null;
+}
+
+export function getTransitionProgress({
+	window,
+	time,
+}: {
+	window: Pick<TransitionWindow, "start" | "end">;
+	time: number;
+}): number {
+	const span = window.end - window.start;
+	if (span <= 0) return 1;
+	return Math.min(1, Math.max(0, (time - window.start) / span));
+}
+
+/**
+ * Equal-power audio gain for an element taking part in transitions. The
+ * outgoing clip fades out until its end and the incoming clip fades in from
+ * its start, so overlapping clips get a true crossfade and touching clips a
+ * short dip around the cut.
+ */
+export function getTransitionAudioGain({
+	elementId,
+	transitions,
+	time,
+}: {
+	elementId: string;
+	transitions: ResolvedTransition[];
+	time: number;
+}): number {
+	let gain = 1;
+
+	for (const resolved of transitions) {
+		if (time < resolved.start || time > resolved.end) continue;
+
+		if (resolved.transition.fromElementId === elementId) {
+			const progress = getTransitionProgress({
+				window: { start: resolved.start, end: resolved.fromEnd },
+				time,
+			});
+			gain *= Math.cos((progress * Math.PI) / 2);
+		}
+
+		if (resolved.transition.toElementId === elementId) {
+			const progress = getTransitionProgress({
+				window: { start: resolved.toStart, end: resolved.end },
+				time,
+			});
+			gain *= Math.sin((progress * Math.PI) / 2);
+		}
+	}
+
+	return gain;
+}
@@ -0,0 +1,123 @@
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const UTF8_NAMES_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * An uncompressed (stored) zip archive. Audio and video are already
+ * compressed or barely compressible, so deflating them isn't worth the time.
+ * Without zip64 the archive has to stay under 4GB.
+ */
+export function createZip({
+	entries,
+	modifiedAt = new Date(),
+}: {
+	entries: ZipEntry[];
+	modifiedAt?: Date;
+}): ArrayBuffer {
+	const encoder = new TextEncoder();
+	const names = entries.map((entry) => encoder.encode(entry.name));
+	const { time, date } = toDosDateTime(modifiedAt);
+
+	const dataSize = entries.reduce(
+		(size, entry, index) =>
+			size + LOCAL_HEADER_SIZE + names[index].length + entry.data.length,
+		0,
+	);
+	const centralSize = names.reduce(
+		(size, name) => size + CENTRAL_HEADER_SIZE + name.length,
+		0,
+	);
+	const output = new Uint8Array(dataSize + centralSize + END_RECORD_SIZE);
+	const view = new DataView(output.buffer);
+
+	let offset = 0;
+	let centralOffset = dataSize;
+	entries.forEach((entry, index) => {
+		const name = names[index];
+		const crc = crc32(entry.data);
+		const localOffset = offset;
+
+		view.setUint32(offset, 0x04034b50, true);
+		view.setUint16(offset + 4, 20, true); // version needed
+		view.setUint16(offset + 6, UTF8_NAMES_FLAG, true);
+		view.setUint16(offset + 8, 0, true); // stored
+		view.setUint16(offset + 10, time, true);
+		view.setUint16(offset + 12, date, true);
+		view.setUint32(offset + 14, crc, true);
+		view.setUint32(offset + 18, entry.data.length, true);
+		view.setUint32(offset + 22, entry.data.length, true);
+		view.setUint16(offset + 26, name.length, true);
+		view.setUint16(offset + 28, 0, true);
+		output.set(name, offset + LOCAL_HEADER_SIZE);
+		offset += LOCAL_HEADER_SIZE + name.length;
+		output.set(entry.data, offset);
+		offset += entry.data.length;
+
+		view.setUint32(centralOffset, 0x02014b50, true);
+		view.setUint16(centralOffset + 4, 20, true); // version made by
+		view.setUint16(centralOffset + 6, 20, true); // version needed
+		view.setUint16(centralOffset + 8, UTF8_NAMES_FLAG, true);
+		view.setUint16(centralOffset + 10, 0, true);
+		view.setUint16(centralOffset + 12, time, true);
+		view.setUint16(centralOffset + 14, date, true);
+		view.setUint32(centralOffset + 16, crc, true);
+		view.setUint32(centralOffset + 20, entry.data.length, true);
+		view.setUint32(centralOffset + 24, entry.data.length, true);
+		view.setUint16(centralOffset + 28, name.length, true);
+		// extra field, comment, disk and attributes all stay zero
+		view.setUint32(centralOffset + 42, localOffset, true);
+		output.set(name, centralOffset + CENTRAL_HEADER_SIZE);
+		centralOffset += CENTRAL_HEADER_SIZE + name.length;
+	});
+
+	view.setUint32(centralOffset, 0x06054b50, true);
+	view.setUint16(centralOffset + 8, entries.length, true);
+	view.setUint16(centralOffset + 10, entries.length, true);
+	view.setUint32(centralOffset + 12, centralSize, true);
+	view.setUint32(centralOffset + 16, dataSize, true);
+
+	return output.buffer;
+}
+
+function crc32(data: Uint8Array): number {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function getCrcTable(): Uint32Array {
+	if (crcTable) return crcTable;
+	crcTable = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		crcTable[n] = c >>> 0;
+	}
+	return crcTable;
+}
+
+// zip stores local time at two-second resolution, from 1980 on
+function toDosDateTime(value: Date): { time: number; date: number } {
+	const year = Math.max(1980, value.getFullYear());
+	return {
+		time:
+			(value.getHours() << 11) |
+			(value.getMinutes() << 5) |
+			Math.floor(value.getSeconds() / 2),
+		date:
+			((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+	};
+}
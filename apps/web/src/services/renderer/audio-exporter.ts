@@ -0,0 +1,73 @@
+import {
+	Output,
+	Mp4OutputFormat,
+	OggOutputFormat,
+	BufferTarget,
+	AudioBufferSource,
+	canEncodeAudio,
+} from "mediabunny";
+import { encodeWav } from "@/lib/media/wav";
+import type {
+	AudioExportFormat,
+	ExportQuality,
+	WavBitDepth,
+} from "@/types/export";
+import { qualityMap } from "./scene-exporter";
+
+const encodedFormats = {
+	ogg: { codec: "opus", label: "Opus" },
+	m4a: { codec: "aac", label: "AAC" },
+} as const;
+
+/**
+ * One audio file from a rendered mix. WAV goes through our own PCM writer;
+ * Opus and AAC depend on the browser's encoders, so they are checked first.
+ */
+export async function encodeAudioFile({
+	buffer,
+	format,
+	quality,
+	wavBitDepth,
+}: {
+	buffer: AudioBuffer;
+	format: AudioExportFormat;
+	quality: ExportQuality;
+	wavBitDepth?: WavBitDepth;
+}): Promise<ArrayBuffer> {
+	if (format === "wav") {
+		return encodeWav({
+			channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+				buffer.getChannelData(channel),
+			),
+			sampleRate: buffer.sampleRate,
+			bitDepth: wavBitDepth,
+		});
+	}
+
+	const { codec, label } = encodedFormats[format];
+	const bitrate = qualityMap[quality];
+	const isSupported = await canEncodeAudio(codec, {
+		numberOfChannels: buffer.numberOfChannels,
+		sampleRate: buffer.sampleRate,
+		bitrate,
+	});
+	if (!isSupported) {
+		throw new Error(`This browser can't encode ${label} audio`);
+	}
+
+	const output = new Output({
+		format: format === "ogg" ? new OggOutputFormat() : new Mp4OutputFormat(),
+		target: new BufferTarget(),
+	});
+	const audioSource = new AudioBufferSource({ codec, bitrate });
+	output.addAudioTrack(audioSource);
+
+	await output.start();
+	await audioSource.add(buffer);
+	audioSource.close();
+	await output.finalize();
+
+	const encoded = output.target.buffer;
+	if (!encoded) throw new Error(`Failed to encode ${label} audio`);
+	return encoded;
+}
@@ -1,6 +1,10 @@
 import type { CanvasRenderer } from "../canvas-renderer";
 import { BaseNode } from "./base-node";
-import type { BaseMediaNodeParams } from "./video-node";
+import {
+	drawMediaSource,
+	isExcludedTime,
+	type BaseMediaNodeParams,
+} from "./video-node";
 
 const IMAGE_EPSILON = 1 / 1000;
 
@@ -37,7 +41,8 @@ export class ImageNode extends BaseNode<ImageNodeParams> {
 		const imageTime = this.getImageTime(time);
 		return (
 			imageTime >= this.params.trimStart - IMAGE_EPSILON &&
-			imageTime < this.params.trimStart + this.params.duration
+			imageTime < this.params.trimStart + this.params.duration &&
+			!isExcludedTime({ params: this.params, time })
 		);
 	}
 
@@ -54,40 +59,14 @@ export class ImageNode extends BaseNode<ImageNodeParams> {
 			return;
 		}
 
-		renderer.context.save();
-
-		if (this.params.opacity !== undefined) {
-			renderer.context.globalAlpha = this.params.opacity;
-		}
-
-		if (
-			this.params.x !== undefined &&
-			this.params.y !== undefined &&
-			this.params.width !== undefined &&
-			this.params.height !== undefined
-		) {
-			renderer.context.drawImage(
-				this.image,
-				this.params.x,
-				this.params.y,
-				this.params.width,
-				this.params.height,
-			);
-		} else {
-			const mediaW = this.image.naturalWidth || renderer.width;
-			const mediaH = this.image.naturalHeight || renderer.height;
-			const containScale = Math.min(
-				renderer.width / mediaW,
-				renderer.height / mediaH,
-			);
-			const drawW = mediaW * containScale;
-			const drawH = mediaH * containScale;
-			const drawX = (renderer.width - drawW) / 2;
-			const drawY = (renderer.height - drawH) / 2;
-
-			renderer.context.drawImage(this.image, drawX, drawY, drawW, drawH);
-		}
-
-		renderer.context.restore();
+		drawMediaSource({
+			renderer,
+			source: this.image,
+			mediaWidth: this.image.naturalWidth || renderer.width,
+			mediaHeight: this.image.naturalHeight || renderer.height,
+			params: this.params,
+			contentTime: this.getImageTime(time),
+			time,
+		});
 	}
 }
@@ -0,0 +1,66 @@
+import type { CanvasRenderer } from "../canvas-renderer";
+import type { BaseNode } from "./base-node";
+
+// an offscreen surface nodes draw into before it gets composited, the renderer's size unless given
+export type Layer = {
+	canvas: OffscreenCanvas | HTMLCanvasElement;
+	context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+};
+
+export function prepareLayer({
+	layer,
+	renderer,
+	width = renderer.width,
+	height = renderer.height,
+	willReadFrequently = false,
+}: {
+	layer: Layer | null;
+	renderer: CanvasRenderer;
+	width?: number;
+	height?: number;
+	// for layers whose pixels are read back every frame
+	willReadFrequently?: boolean;
+}): Layer {
+	if (layer && layer.canvas.width === width && layer.canvas.height === height) {
+		layer.context.clearRect(0, 0, width, height);
+		return layer;
+	}
+
+	try {
+		const canvas = new OffscreenCanvas(width, height);
+		const context = canvas.getContext("2d", { willReadFrequently });
+		if (!context) {
+			throw new Error("failed to get offscreen canvas context");
+		}
+		return { canvas, context };
+	} catch {
+		const canvas = document.createElement("canvas");
+		canvas.width = width;
+		canvas.height = height;
+		const context = canvas.getContext("2d", { willReadFrequently });
+		if (!context) {
+			throw new Error("failed to get canvas context");
+		}
+		return { canvas, context };
+	}
+}
+
+export async function renderIntoLayer({
+	renderer,
+	layer,
+	node,
+	time,
+}: {
+	renderer: CanvasRenderer;
+	layer: Layer;
+	node: BaseNode;
+	time: number;
+}) {
+	const originalContext = renderer.context;
+	renderer.context = layer.context;
+	try {
+		await node.render({ renderer, time });
+	} finally {
+		renderer.context = originalContext;
+	}
+}
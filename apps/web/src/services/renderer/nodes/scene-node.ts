@@ -0,0 +1,67 @@
+import type { CanvasRenderer } from "../canvas-renderer";
+import { BaseNode } from "./base-node";
+import { type Layer, prepareLayer, renderIntoLayer } from "./layer";
+import {
+	drawMediaSource,
+	isExcludedTime,
+	type BaseMediaNodeParams,
+} from "./video-node";
+
+export type SceneNodeParams = Omit<
+	BaseMediaNodeParams,
+	"file" | "crop" | "fitMode" | "blendMode"
+> & {
+	// render tree of the nested scene, on that scene's own clock
+	scene: BaseNode;
+	// nested scene seconds per timeline second, above 1 when time remapping squeezes the clip
+	timeScale?: number;
+};
+
+/**
+ * Renders a nested scene into its own layer and draws that layer like a media
+ * frame, so the element's transform, opacity and keyframes apply to the whole
+ * scene.
+ */
+export class SceneNode extends BaseNode<SceneNodeParams> {
+	private layer: Layer | null = null;
+
+	private getSceneTime(time: number) {
+		const { timeOffset, trimStart, timeScale = 1 } = this.params;
+		return trimStart + (time - timeOffset) * timeScale;
+	}
+
+	private isInRange(time: number) {
+		const { timeOffset, duration } = this.params;
+		return (
+			time >= timeOffset &&
+			time < timeOffset + duration &&
+			!isExcludedTime({ params: this.params, time })
+		);
+	}
+
+	async render({ renderer, time }: { renderer: CanvasRenderer; time: number }) {
+		await super.render({ renderer, time });
+
+		if (!this.isInRange(time)) {
+			return;
+		}
+
+		this.layer = prepareLayer({ layer: this.layer, renderer });
+		await renderIntoLayer({
+			renderer,
+			layer: this.layer,
+			node: this.params.scene,
+			time: this.getSceneTime(time),
+		});
+
+		drawMediaSource({
+			renderer,
+			source: this.layer.canvas as CanvasImageSource,
+			mediaWidth: renderer.width,
+			mediaHeight: renderer.height,
+			params: this.params,
+			contentTime: time - this.params.timeOffset + this.params.trimStart,
+			time,
+		});
+	}
+}
@@ -1,6 +1,8 @@
 import type { CanvasRenderer } from "../canvas-renderer";
 import { BaseNode, type BaseNodeParams } from "./base-node";
 import type { Transform } from "@/types/timeline";
+import type { ElementKeyframes } from "@/types/keyframe";
+import { resolveAnimatedTransform } from "@/lib/keyframes";
 
 const STICKER_EPSILON = 1 / 1000;
 
@@ -13,6 +15,7 @@ export type StickerNodeParams = BaseNodeParams & {
 	transform: Transform;
 	opacity: number;
 	color?: string;
+	keyframes?: ElementKeyframes;
 };
 
 export class StickerNode extends BaseNode<StickerNodeParams> {
@@ -65,7 +68,12 @@ export class StickerNode extends BaseNode<StickerNodeParams> {
 			return;
 		}
 
-		const { transform, opacity } = this.params;
+		const { transform, opacity } = resolveAnimatedTransform({
+			transform: this.params.transform,
+			opacity: this.params.opacity,
+			keyframes: this.params.keyframes,
+			time: this.getStickerTime(time),
+		});
 		const size = 200 * transform.scale;
 		const x = renderer.width / 2 + transform.position.x - size / 2;
 		const y = renderer.height / 2 + transform.position.y - size / 2;
@@ -1,6 +1,26 @@
 import type { CanvasRenderer } from "../canvas-renderer";
 import { BaseNode } from "./base-node";
-import type { TextElement } from "@/types/timeline";
+import type {
+	CaptionHighlight,
+	CaptionWord,
+	TextElement,
+} from "@/types/timeline";
+import {
+	getElementContentTime,
+	resolveAnimatedTransform,
+} from "@/lib/keyframes";
+import {
+	type ResolvedTextStyle,
+	type TextContext,
+	type TextLine,
+	applyTextFont,
+	drawTextRun,
+	hasTextBackground,
+	layoutText,
+	measureTextRun,
+	resolveTextStyle,
+} from "@/lib/text-layout";
+import { resolveTextAnimation, revealTextLines } from "@/lib/text-animation";
 
 export type TextNodeParams = TextElement & {
 	canvasCenter: { x: number; y: number };
@@ -20,55 +40,249 @@ export class TextNode extends BaseNode<TextNodeParams> {
 			return;
 		}
 
-		renderer.context.save();
+		const { transform, opacity } = resolveAnimatedTransform({
+			transform: this.params.transform,
+			opacity: this.params.opacity,
+			keyframes: this.params.keyframes,
+			time: getElementContentTime({ element: this.params, time }),
+		});
+		const animation = resolveTextAnimation({
+			element: this.params,
+			localTime: time - this.params.startTime,
+			canvasSize: { width: renderer.width, height: renderer.height },
+		});
+		const alpha = opacity * animation.opacity;
+		const scale = transform.scale * animation.scale;
+		if (alpha <= 0 || scale <= 0) {
+			return;
+		}
+
+		const context = renderer.context;
+		context.save();
+
+		// slides move along the canvas, whatever the text's rotation
+		const x = transform.position.x + this.params.canvasCenter.x;
+		const y = transform.position.y + this.params.canvasCenter.y;
+
+		context.translate(x + animation.offset.x, y + animation.offset.y);
+		if (transform.rotate) {
+			context.rotate((transform.rotate * Math.PI) / 180);
+		}
+		if (scale !== 1) {
+			context.scale(scale, scale);
+		}
+		if (animation.blur > 0) {
+			context.filter = `blur(${animation.blur}px)`;
+		}
+
+		const style = resolveTextStyle({ element: this.params });
+		applyTextFont({ context, element: this.params, style });
+		// lines are placed by their left edge, whatever the alignment
+		context.textAlign = "left";
+		context.textBaseline = this.params.textBaseline || "middle";
+		context.globalAlpha = alpha;
 
-		const x = this.params.transform.position.x + this.params.canvasCenter.x;
-		const y = this.params.transform.position.y + this.params.canvasCenter.y;
+		const layout = layoutText({ context, element: this.params, style });
+		const lines = revealTextLines({
+			lines: layout.lines,
+			reveal: animation.reveal,
+			measure: (text) =>
+				measureTextRun({ context, text, letterSpacing: style.letterSpacing }),
+		});
+
+		if (hasTextBackground({ element: this.params })) {
+			this.renderLineBackgrounds({ context, lines, style });
+		}
 
-		renderer.context.translate(x, y);
-		if (this.params.transform.rotate) {
-			renderer.context.rotate((this.params.transform.rotate * Math.PI) / 180);
+		const { words, captionHighlight } = this.params;
+		if (captionHighlight && words && words.length > 0) {
+			const activeIndex = getActiveWordIndex({
+				words,
+				time: getElementContentTime({ element: this.params, time }),
+			});
+			let firstIndex = 0;
+			for (const line of lines) {
+				firstIndex = this.renderCaptionLine({
+					context,
+					line,
+					style,
+					highlight: captionHighlight,
+					activeIndex,
+					firstIndex,
+				});
+			}
+		} else {
+			for (const line of lines) {
+				this.renderRun({
+					context,
+					text: line.text,
+					x: line.x,
+					y: line.y,
+					style,
+					color: this.params.color,
+				});
+			}
 		}
 
-		const fontWeight = this.params.fontWeight === "bold" ? "bold" : "normal";
-		const fontStyle = this.params.fontStyle === "italic" ? "italic" : "normal";
-		renderer.context.font = `${fontStyle} ${fontWeight} ${this.params.fontSize}px ${this.params.fontFamily}`;
-		renderer.context.textAlign = this.params.textAlign;
-		renderer.context.textBaseline = this.params.textBaseline || "middle";
-		renderer.context.fillStyle = this.params.color;
-
-		const prevAlpha = renderer.context.globalAlpha;
-		renderer.context.globalAlpha = this.params.opacity;
-
-		if (this.params.backgroundColor) {
-			const metrics = renderer.context.measureText(this.params.content);
-			const ascent =
-				metrics.actualBoundingBoxAscent ?? this.params.fontSize * 0.8;
-			const descent =
-				metrics.actualBoundingBoxDescent ?? this.params.fontSize * 0.2;
-			const textW = metrics.width;
-			const textH = ascent + descent;
-			const padX = 8;
-			const padY = 4;
-
-			renderer.context.fillStyle = this.params.backgroundColor;
-			let bgLeft = -textW / 2;
-			if (renderer.context.textAlign === "left") bgLeft = 0;
-			if (renderer.context.textAlign === "right") bgLeft = -textW;
-
-			renderer.context.fillRect(
-				bgLeft - padX,
-				-textH / 2 - padY,
-				textW + padX * 2,
-				textH + padY * 2,
+		context.restore();
+	}
+
+	private renderLineBackgrounds({
+		context,
+		lines,
+		style,
+	}: {
+		context: TextContext;
+		lines: TextLine[];
+		style: ResolvedTextStyle;
+	}) {
+		const { x: padX, y: padY } = style.backgroundPadding;
+		const height = this.params.fontSize;
+
+		context.fillStyle = this.params.backgroundColor;
+		for (const line of lines) {
+			// blank lines keep their spacing but get no background
+			if (!line.text.trim()) continue;
+			context.beginPath();
+			context.roundRect(
+				line.x - padX,
+				line.y - height / 2 - padY,
+				line.width + padX * 2,
+				height + padY * 2,
+				style.backgroundRadius,
 			);
+			context.fill();
+		}
+	}
 
-			renderer.context.fillStyle = this.params.color;
+	// the outline sits behind the fill, so only its outer half shows
+	private renderRun({
+		context,
+		text,
+		x,
+		y,
+		style,
+		color,
+	}: {
+		context: TextContext;
+		text: string;
+		x: number;
+		y: number;
+		style: ResolvedTextStyle;
+		color: string;
+	}) {
+		const { letterSpacing, shadow, strokeWidth } = style;
+
+		if (shadow) {
+			context.shadowColor = shadow.color;
+			context.shadowBlur = shadow.blur;
+			context.shadowOffsetX = shadow.offsetX;
+			context.shadowOffsetY = shadow.offsetY;
 		}
 
-		renderer.context.fillText(this.params.content, 0, 0);
+		if (strokeWidth > 0) {
+			context.strokeStyle = style.strokeColor;
+			context.lineWidth = strokeWidth * 2;
+			context.lineJoin = "round";
+			drawTextRun({ context, text, x, y, letterSpacing, mode: "stroke" });
+			// one shadow for the whole glyph, cast by the outline
+			context.shadowColor = "transparent";
+		}
+
+		context.fillStyle = color;
+		drawTextRun({ context, text, x, y, letterSpacing, mode: "fill" });
+		context.shadowColor = "transparent";
+	}
+
+	/**
+	 * Draws a line word by word so the one being spoken can be styled on its
+	 * own. Words are matched to the content by position across lines, so an
+	 * edited caption still highlights in step as long as its word count
+	 * holds. Returns the index the next line's words start at.
+	 */
+	private renderCaptionLine({
+		context,
+		line,
+		style,
+		highlight,
+		activeIndex,
+		firstIndex,
+	}: {
+		context: TextContext;
+		line: TextLine;
+		style: ResolvedTextStyle;
+		highlight: CaptionHighlight;
+		activeIndex: number;
+		firstIndex: number;
+	}): number {
+		const { letterSpacing } = style;
+		const measure = (text: string) =>
+			measureTextRun({ context, text, letterSpacing });
+		const spaceWidth = measure(" ");
+		const tokens = line.text.split(/\s+/).filter(Boolean);
+
+		let x = line.x;
+		for (const [offset, token] of tokens.entries()) {
+			const width = measure(token);
+			if (firstIndex + offset !== activeIndex) {
+				this.renderRun({
+					context,
+					text: token,
+					x,
+					y: line.y,
+					style,
+					color: this.params.color,
+				});
+				x += width + spaceWidth;
+				continue;
+			}
+
+			context.save();
+			// scaled about the word's center so it grows in place
+			context.translate(x + width / 2, line.y);
+			context.scale(highlight.scale, highlight.scale);
+			if (highlight.backgroundColor) {
+				const { x: padX, y: padY } = style.backgroundPadding;
+				const height = this.params.fontSize;
+				context.fillStyle = highlight.backgroundColor;
+				context.beginPath();
+				context.roundRect(
+					-width / 2 - padX,
+					-height / 2 - padY,
+					width + padX * 2,
+					height + padY * 2,
+					style.backgroundRadius,
+				);
+				context.fill();
+			}
+			this.renderRun({
+				context,
+				text: token,
+				x: -width / 2,
+				y: 0,
+				style,
+				color: highlight.color ?? this.params.color,
+			});
+			context.restore();
+			x += width + spaceWidth;
+		}
+
+		return firstIndex + tokens.length;
+	}
+}
 
-		renderer.context.globalAlpha = prevAlpha;
-		renderer.context.restore();
+// the last word to have started; it stays lit through the pause after it
+function getActiveWordIndex({
+	words,
+	time,
+}: {
+	words: CaptionWord[];
+	time: number;
+}): number {
+	let active = -1;
+	for (const [index, word] of words.entries()) {
+		if (word.start > time) break;
+		active = index;
 	}
+	return active;
 }
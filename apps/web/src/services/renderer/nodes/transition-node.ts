@@ -0,0 +1,177 @@
+import type { CanvasRenderer } from "../canvas-renderer";
+import { BaseNode } from "./base-node";
+import { type Layer, prepareLayer, renderIntoLayer } from "./layer";
+import type { Transition, TransitionDirection } from "@/types/transition";
+import {
+	type TransitionWindow,
+	getTransitionProgress,
+} from "@/lib/transitions";
+import {
+	DEFAULT_TRANSITION_COLOR,
+	DEFAULT_TRANSITION_DIRECTION,
+} from "@/constants/transition-constants";
+
+// keeps the held last frame inside the outgoing clip's range
+const FRAME_EPSILON = 1 / 1000;
+
+// how far the zoom transition pushes into the frame
+const ZOOM_AMOUNT = 0.5;
+
+const DIRECTION_VECTORS: Record<TransitionDirection, { x: number; y: number }> =
+	{
+		left: { x: -1, y: 0 },
+		right: { x: 1, y: 0 },
+		up: { x: 0, y: -1 },
+		down: { x: 0, y: 1 },
+	};
+
+export type TransitionNodeParams = TransitionWindow & {
+	transition: Transition;
+	from: BaseNode;
+	to: BaseNode;
+};
+
+/**
+ * Draws both clips of a transition into their own layers and composites them.
+ * The clips' regular nodes skip the transition window so they are not drawn
+ * twice.
+ */
+export class TransitionNode extends BaseNode<TransitionNodeParams> {
+	private fromLayer: Layer | null = null;
+	private toLayer: Layer | null = null;
+
+	async render({ renderer, time }: { renderer: CanvasRenderer; time: number }) {
+		const { start, end, fromEnd, toStart, from, to } = this.params;
+		if (time < start || time >= end) {
+			return;
+		}
+
+		this.fromLayer = prepareLayer({ layer: this.fromLayer, renderer });
+		this.toLayer = prepareLayer({ layer: this.toLayer, renderer });
+
+		await renderIntoLayer({
+			renderer,
+			layer: this.fromLayer,
+			node: from,
+			time: Math.min(time, fromEnd - FRAME_EPSILON),
+		});
+		await renderIntoLayer({
+			renderer,
+			layer: this.toLayer,
+			node: to,
+			time: Math.max(time, toStart),
+		});
+
+		this.composite({
+			renderer,
+			progress: getTransitionProgress({ window: { start, end }, time }),
+		});
+	}
+
+	private composite({
+		renderer,
+		progress,
+	}: {
+		renderer: CanvasRenderer;
+		progress: number;
+	}) {
+		if (!this.fromLayer || !this.toLayer) return;
+
+		const { context, width, height } = renderer;
+		const { transition } = this.params;
+		const fromImage = this.fromLayer.canvas as CanvasImageSource;
+		const toImage = this.toLayer.canvas as CanvasImageSource;
+		const direction =
+			DIRECTION_VECTORS[transition.direction ?? DEFAULT_TRANSITION_DIRECTION];
+
+		context.save();
+
+		switch (transition.type) {
+			case "crossfade": {
+				context.drawImage(fromImage, 0, 0);
+				context.globalAlpha = progress;
+				context.drawImage(toImage, 0, 0);
+				break;
+			}
+			case "dip-to-color": {
+				// out to the color over the first half, back in over the second
+				const isFirstHalf = progress < 0.5;
+				context.drawImage(isFirstHalf ? fromImage : toImage, 0, 0);
+				context.globalAlpha = isFirstHalf ? progress * 2 : (1 - progress) * 2;
+				context.fillStyle = transition.color ?? DEFAULT_TRANSITION_COLOR;
+				context.fillRect(0, 0, width, height);
+				break;
+			}
+			case "wipe": {
+				context.drawImage(fromImage, 0, 0);
+				const revealWidth = direction.x === 0 ? width : width * progress;
+				const revealHeight = direction.y === 0 ? height : height * progress;
+				context.beginPath();
+				context.rect(
+					direction.x < 0 ? width - revealWidth : 0,
+					direction.y < 0 ? height - revealHeight : 0,
+					revealWidth,
+					revealHeight,
+				);
+				context.clip();
+				context.drawImage(toImage, 0, 0);
+				break;
+			}
+			case "slide": {
+				context.drawImage(
+					fromImage,
+					direction.x * width * progress,
+					direction.y * height * progress,
+				);
+				context.drawImage(
+					toImage,
+					-direction.x * width * (1 - progress),
+					-direction.y * height * (1 - progress),
+				);
+				break;
+			}
+			case "zoom": {
+				drawScaled({
+					renderer,
+					image: fromImage,
+					scale: 1 + ZOOM_AMOUNT * progress,
+					alpha: 1 - progress,
+				});
+				drawScaled({
+					renderer,
+					image: toImage,
+					scale: 1 + ZOOM_AMOUNT * (1 - progress),
+					alpha: progress,
+				});
+				break;
+			}
+		}
+
+		context.restore();
+	}
+}
+
+function drawScaled({
+	renderer,
+	image,
+	scale,
+	alpha,
+}: {
+	renderer: CanvasRenderer;
+	image: CanvasImageSource;
+	scale: number;
+	alpha: number;
+}) {
+	const { context, width, height } = renderer;
+	const scaledWidth = width * scale;
+	const scaledHeight = height * scale;
+
+	context.globalAlpha = alpha;
+	context.drawImage(
+		image,
+		(width - scaledWidth) / 2,
+		(height - scaledHeight) / 2,
+		scaledWidth,
+		scaledHeight,
+	);
+}
@@ -1,6 +1,22 @@
 import type { CanvasRenderer } from "../canvas-renderer";
 import { BaseNode } from "./base-node";
 import { videoCache } from "@/services/video-cache/service";
+import type {
+	CropRect,
+	MediaBlendMode,
+	MediaFitMode,
+	Transform,
+} from "@/types/timeline";
+import type { ElementKeyframes } from "@/types/keyframe";
+import { resolveAnimatedTransform } from "@/lib/keyframes";
+import {
+	type MediaDrawRects,
+	getMediaDrawRects,
+} from "@/lib/media/media-layout";
+import { getClipSourceTime } from "@/lib/timeline/element-utils";
+import { applyColorFilters, hasActiveColorFilters } from "@/lib/color";
+import type { ColorFilter } from "@/types/color";
+import { type Layer, prepareLayer } from "./layer";
 
 const VIDEO_EPSILON = 1 / 1000;
 
@@ -10,27 +26,200 @@ export interface BaseMediaNodeParams {
 	timeOffset: number;
 	trimStart: number;
 	trimEnd: number;
-	x?: number;
-	y?: number;
-	width?: number;
-	height?: number;
 	opacity?: number;
+	transform?: Transform;
+	keyframes?: ElementKeyframes;
+	crop?: CropRect;
+	fitMode?: MediaFitMode;
+	blendMode?: MediaBlendMode;
+	filters?: ColorFilter[];
+	// timeline ranges drawn by a transition node instead of this node
+	excludedRanges?: { start: number; end: number }[];
+	// opacity multiplier from track automation, on the timeline clock
+	trackOpacity?: (time: number) => number;
+}
+
+export function isExcludedTime({
+	params,
+	time,
+}: {
+	params: Pick<BaseMediaNodeParams, "excludedRanges">;
+	time: number;
+}): boolean {
+	return (
+		params.excludedRanges?.some(
+			(range) => time >= range.start && time < range.end,
+		) ?? false
+	);
+}
+
+/**
+ * Draw a media frame with the node's crop, fit mode, blend mode, opacity and
+ * (keyframed) transform. The fitted media is centered on the canvas and the
+ * transform is applied around that center.
+ */
+export function drawMediaSource({
+	renderer,
+	source,
+	mediaWidth,
+	mediaHeight,
+	params,
+	contentTime,
+	time,
+}: {
+	renderer: CanvasRenderer;
+	source: CanvasImageSource;
+	mediaWidth: number;
+	mediaHeight: number;
+	params: Omit<BaseMediaNodeParams, "file">;
+	contentTime: number;
+	time: number;
+}) {
+	const { transform, opacity } = params.transform
+		? resolveAnimatedTransform({
+				transform: params.transform,
+				opacity: params.opacity ?? 1,
+				keyframes: params.keyframes,
+				time: contentTime,
+			})
+		: { transform: undefined, opacity: params.opacity };
+
+	const { source: from, destination: to } = getMediaDrawRects({
+		mediaWidth,
+		mediaHeight,
+		canvasWidth: renderer.width,
+		canvasHeight: renderer.height,
+		crop: params.crop,
+		fitMode: params.fitMode,
+	});
+
+	renderer.context.save();
+
+	const trackOpacity = params.trackOpacity?.(time);
+	const alpha =
+		trackOpacity === undefined ? opacity : (opacity ?? 1) * trackOpacity;
+	if (alpha !== undefined) {
+		renderer.context.globalAlpha = alpha;
+	}
+
+	if (params.blendMode && params.blendMode !== "normal") {
+		renderer.context.globalCompositeOperation = params.blendMode;
+	}
+
+	if (transform) {
+		const centerX = renderer.width / 2;
+		const centerY = renderer.height / 2;
+
+		renderer.context.translate(
+			centerX + transform.position.x,
+			centerY + transform.position.y,
+		);
+		if (transform.rotate !== 0) {
+			renderer.context.rotate((transform.rotate * Math.PI) / 180);
+		}
+		if (transform.scale !== 1) {
+			renderer.context.scale(transform.scale, transform.scale);
+		}
+		renderer.context.translate(-centerX, -centerY);
+	}
+
+	const frame = hasActiveColorFilters({ filters: params.filters })
+		? getFilteredFrame({
+				renderer,
+				source,
+				from,
+				to,
+				filters: params.filters ?? [],
+			})
+		: { image: source, rect: from };
+
+	renderer.context.drawImage(
+		frame.image,
+		frame.rect.x,
+		frame.rect.y,
+		frame.rect.width,
+		frame.rect.height,
+		to.x,
+		to.y,
+		to.width,
+		to.height,
+	);
+
+	renderer.context.restore();
+}
+
+// shared by all nodes, frames are drawn one at a time
+let filterLayer: Layer | null = null;
+
+/**
+ * Run the color filters over the cropped source at the size it is drawn, so
+ * preview and export filter the same pixels and vignettes follow the frame.
+ */
+function getFilteredFrame({
+	renderer,
+	source,
+	from,
+	to,
+	filters,
+}: {
+	renderer: CanvasRenderer;
+	source: CanvasImageSource;
+	from: MediaDrawRects["source"];
+	to: MediaDrawRects["destination"];
+	filters: ColorFilter[];
+}): { image: CanvasImageSource; rect: MediaDrawRects["source"] } {
+	const width = Math.max(1, Math.round(Math.min(from.width, to.width)));
+	const height = Math.max(1, Math.round(Math.min(from.height, to.height)));
+	filterLayer = prepareLayer({
+		layer: filterLayer,
+		renderer,
+		width,
+		height,
+		willReadFrequently: true,
+	});
+
+	const { context } = filterLayer;
+	context.drawImage(
+		source,
+		from.x,
+		from.y,
+		from.width,
+		from.height,
+		0,
+		0,
+		width,
+		height,
+	);
+	const imageData = context.getImageData(0, 0, width, height);
+	applyColorFilters({ imageData, filters });
+	context.putImageData(imageData, 0, 0);
+
+	return {
+		image: filterLayer.canvas as CanvasImageSource,
+		rect: { x: 0, y: 0, width, height },
+	};
 }
 
 export interface VideoNodeParams extends BaseMediaNodeParams {
 	mediaId: string;
+	speed?: number;
+	reversed?: boolean;
 }
 
 export class VideoNode extends BaseNode<VideoNodeParams> {
 	private getVideoTime(time: number) {
-		return time - this.params.timeOffset + this.params.trimStart;
+		return getClipSourceTime({
+			clip: this.params,
+			offset: time - this.params.timeOffset,
+		});
 	}
 
 	private isInRange(time: number) {
-		const videoTime = this.getVideoTime(time);
+		const offset = time - this.params.timeOffset;
 		return (
-			videoTime >= this.params.trimStart - VIDEO_EPSILON &&
-			videoTime < this.params.trimStart + this.params.duration
+			offset >= -VIDEO_EPSILON &&
+			offset < this.params.duration &&
+			!isExcludedTime({ params: this.params, time })
 		);
 	}
 
@@ -49,36 +238,16 @@ export class VideoNode extends BaseNode<VideoNodeParams> {
 		});
 
 		if (frame) {
-			renderer.context.save();
-
-			if (this.params.opacity !== undefined) {
-				renderer.context.globalAlpha = this.params.opacity;
-			}
-
-			if (
-				this.params.x !== undefined &&
-				this.params.y !== undefined &&
-				this.params.width !== undefined &&
-				this.params.height !== undefined
-			) {
-				renderer.context.drawImage(
-					frame.canvas,
-					this.params.x,
-					this.params.y,
-					this.params.width,
-					this.params.height,
-				);
-			} else {
-				renderer.context.drawImage(
-					frame.canvas,
-					0,
-					0,
-					renderer.width,
-					renderer.height,
-				);
-			}
-
-			renderer.context.restore();
+			drawMediaSource({
+				renderer,
+				source: frame.canvas,
+				mediaWidth: frame.canvas.width,
+				mediaHeight: frame.canvas.height,
+				params: this.params,
+				// keyframes are timed on the source clock, like the frame
+				contentTime: videoTime,
+				time,
+			});
 		}
 	}
 }
@@ -1,17 +1,44 @@
-import type { TimelineTrack } from "@/types/timeline";
+import type {
+	ImageElement,
+	SceneElement,
+	TimelineElement,
+	TimelineTrack,
+	TScene,
+	VideoElement,
+} from "@/types/timeline";
 import type { MediaAsset } from "@/types/assets";
 import type { TimeRemapConfig } from "@/types/time-remap";
+import type { Transition } from "@/types/transition";
+import type { BaseNode } from "./nodes/base-node";
 import { RootNode } from "./nodes/root-node";
 import { VideoNode } from "./nodes/video-node";
 import { ImageNode } from "./nodes/image-node";
 import { TextNode } from "./nodes/text-node";
 import { StickerNode } from "./nodes/sticker-node";
+import { TransitionNode } from "./nodes/transition-node";
+import { SceneNode } from "./nodes/scene-node";
 import { ColorNode } from "./nodes/color-node";
 import { BlurBackgroundNode } from "./nodes/blur-background-node";
 import type { TBackground, TCanvasSize } from "@/types/project";
 import { DEFAULT_BLUR_INTENSITY } from "@/constants/project-constants";
-import { isMainTrack } from "@/lib/timeline";
-import { getTrackBehavior, remapTime } from "@/lib/time-remap";
+import { getClipSourceRange, isMainTrack } from "@/lib/timeline";
+import {
+	getTrackBehavior,
+	remapAutomationSnapshot,
+	remapTime,
+} from "@/lib/time-remap";
+import { scaleKeyframeTimes } from "@/lib/keyframes";
+import { resolveTrackTransitions } from "@/lib/transitions";
+import { getSceneDuration } from "@/lib/scenes";
+import {
+	applyAutomationBlend,
+	hasAutomationForTarget,
+	resolveAutomationBlend,
+	type AutomationSnapshot,
+	type AutomationTarget,
+} from "@/lib/automation/apply-automation";
+
+type ClipElement = VideoElement | ImageElement | SceneElement;
 
 export type BuildSceneParams = {
 	canvasSize: TCanvasSize;
@@ -20,12 +47,35 @@ export type BuildSceneParams = {
 	duration: number;
 	background: TBackground;
 	timeRemapConfig?: TimeRemapConfig;
+	transitions?: Transition[];
+	// every scene of the project, needed to render scene elements
+	scenes?: TScene[];
+	// scenes being built further up, skipped so a cycle cannot recurse forever
+	ancestorSceneIds?: Set<string>;
+	// automation of the scene being built, drives video track opacity
+	automation?: AutomationSnapshot;
 };
 
 export function buildScene(params: BuildSceneParams) {
-	const { tracks, mediaAssets, duration, canvasSize, background, timeRemapConfig } = params;
+	const {
+		tracks,
+		mediaAssets,
+		duration,
+		canvasSize,
+		background,
+		timeRemapConfig,
+		transitions = [],
+		scenes = [],
+		ancestorSceneIds = new Set<string>(),
+		automation,
+	} = params;
 
 	const rootNode = new RootNode({ duration });
+	// automation is placed on the original timeline, like the elements
+	const timedAutomation =
+		automation && timeRemapConfig
+			? remapAutomationSnapshot(automation, timeRemapConfig)
+			: automation;
 	const mediaMap = new Map(mediaAssets.map((m) => [m.id, m]));
 
 	const visibleTracks = tracks.filter(
@@ -48,6 +98,13 @@ export function buildScene(params: BuildSceneParams) {
 			? getTrackBehavior(track.id, timeRemapConfig)
 			: "stretch";
 		const timeScale = timeRemapConfig?.timeScale ?? 1;
+		const trackOpacity =
+			track.type === "video"
+				? getTrackOpacity({
+						trackId: track.id,
+						automation: timedAutomation,
+					})
+				: undefined;
 
 		const elements = track.elements
 			.filter((element) => !("hidden" in element && element.hidden))
@@ -57,43 +114,151 @@ export function buildScene(params: BuildSceneParams) {
 				return a.id.localeCompare(b.id);
 			});
 
-		for (const element of elements) {
+		const getTiming = (element: TimelineElement) => {
 			// Calculate remapped timing based on track behavior
-			const elementStartTime = timeRemapConfig
+			const startTime = timeRemapConfig
 				? remapTime(element.startTime, timeScale)
 				: element.startTime;
-			const elementDuration = trackBehavior === "stretch" && timeRemapConfig
+			const duration = trackBehavior === "stretch" && timeRemapConfig
 				? remapTime(element.duration, timeScale)
 				: element.duration;
+			// stretched elements animate over their remapped duration
+			const keyframes =
+				element.duration > 0
+					? scaleKeyframeTimes({
+							keyframes: element.keyframes,
+							origin: getClipSourceRange({ clip: element }).start,
+							factor: duration / element.duration,
+						})
+					: element.keyframes;
+			return { startTime, duration, keyframes };
+		};
 
-			if (element.type === "video" || element.type === "image") {
-				const mediaAsset = mediaMap.get(element.mediaId);
-				if (!mediaAsset?.file) {
-					continue;
-				}
+		// transitions are resolved on the remapped timing so windows line up
+		const trackTransitions =
+			track.type === "video"
+				? resolveTrackTransitions({
+						track: {
+							...track,
+							elements: elements.map((element) => ({
+								...element,
+								...getTiming(element),
+							})),
+						} as TimelineTrack,
+						transitions: transitions.map((transition) => ({
+							...transition,
+							duration:
+								trackBehavior === "stretch" && timeRemapConfig
+									? remapTime(transition.duration, timeScale)
+									: transition.duration,
+						})),
+					})
+				: [];
 
-				if (mediaAsset.type === "video") {
-					contentNodes.push(
-						new VideoNode({
-							mediaId: mediaAsset.id,
-							file: mediaAsset.file,
-							duration: elementDuration,
-							timeOffset: elementStartTime,
-							trimStart: element.trimStart,
-							trimEnd: element.trimEnd,
-						}),
-					);
-				}
-				if (mediaAsset.type === "image") {
-					contentNodes.push(
-						new ImageNode({
-							file: mediaAsset.file,
-							duration: elementDuration,
-							timeOffset: elementStartTime,
-							trimStart: element.trimStart,
-							trimEnd: element.trimEnd,
-						}),
-					);
+		const buildClipNode = ({
+			element,
+			excludedRanges,
+		}: {
+			element: ClipElement;
+			excludedRanges?: { start: number; end: number }[];
+		}): BaseNode | null => {
+			if (element.type === "scene") {
+				return buildSceneNode({ element, excludedRanges });
+			}
+
+			const mediaAsset = mediaMap.get(element.mediaId);
+			if (!mediaAsset?.file) {
+				return null;
+			}
+
+			const timing = getTiming(element);
+			const nodeParams = {
+				file: mediaAsset.file,
+				duration: timing.duration,
+				timeOffset: timing.startTime,
+				trimStart: element.trimStart,
+				trimEnd: element.trimEnd,
+				transform: element.transform,
+				opacity: element.opacity,
+				keyframes: timing.keyframes,
+				crop: element.crop,
+				fitMode: element.fitMode,
+				blendMode: element.blendMode,
+				filters: element.filters,
+				excludedRanges,
+				trackOpacity,
+			};
+
+			if (mediaAsset.type === "video") {
+				return new VideoNode({
+					mediaId: mediaAsset.id,
+					...nodeParams,
+					speed: element.type === "video" ? element.speed : undefined,
+					reversed: element.type === "video" ? element.reversed : undefined,
+				});
+			}
+			if (mediaAsset.type === "image") {
+				return new ImageNode(nodeParams);
+			}
+			return null;
+		};
+
+		const buildSceneNode = ({
+			element,
+			excludedRanges,
+		}: {
+			element: SceneElement;
+			excludedRanges?: { start: number; end: number }[];
+		}): BaseNode | null => {
+			if (ancestorSceneIds.has(element.sceneId)) return null;
+			const scene = scenes.find((item) => item.id === element.sceneId);
+			if (!scene) return null;
+
+			const timing = getTiming(element);
+			return new SceneNode({
+				scene: buildScene({
+					tracks: scene.tracks ?? [],
+					mediaAssets,
+					duration: getSceneDuration({ scene }),
+					canvasSize,
+					background: { type: "color", color: "transparent" },
+					transitions: scene.transitions,
+					scenes,
+					ancestorSceneIds: new Set([...ancestorSceneIds, scene.id]),
+				}),
+				duration: timing.duration,
+				timeOffset: timing.startTime,
+				trimStart: element.trimStart,
+				trimEnd: element.trimEnd,
+				transform: element.transform,
+				opacity: element.opacity,
+				keyframes: timing.keyframes,
+				timeScale:
+					timing.duration > 0 ? element.duration / timing.duration : 1,
+				excludedRanges,
+				trackOpacity,
+			});
+		};
+
+		for (const element of elements) {
+			const {
+				startTime: elementStartTime,
+				duration: elementDuration,
+				keyframes,
+			} = getTiming(element);
+
+			if (isClipElement(element)) {
+				const excludedRanges = trackTransitions
+					.filter(
+						({ transition }) =>
+							transition.fromElementId === element.id ||
+							transition.toElementId === element.id,
+					)
+					.map(({ start, end }) => ({ start, end }));
+
+				const node = buildClipNode({ element, excludedRanges });
+				if (node) {
+					contentNodes.push(node);
 				}
 			}
 
@@ -103,6 +268,7 @@ export function buildScene(params: BuildSceneParams) {
 						...element,
 						startTime: elementStartTime,
 						duration: elementDuration,
+						keyframes,
 						canvasCenter: { x: canvasSize.width / 2, y: canvasSize.height / 2 },
 						textBaseline: "middle",
 					}),
@@ -120,10 +286,29 @@ export function buildScene(params: BuildSceneParams) {
 						transform: element.transform,
 						opacity: element.opacity,
 						color: element.color,
+						keyframes,
 					}),
 				);
 			}
 		}
+
+		for (const resolved of trackTransitions) {
+			const from = elements.find(
+				(element) => element.id === resolved.transition.fromElementId,
+			);
+			const to = elements.find(
+				(element) => element.id === resolved.transition.toElementId,
+			);
+			if (!from || !isClipElement(from) || !to || !isClipElement(to)) continue;
+
+			const fromNode = buildClipNode({ element: from });
+			const toNode = buildClipNode({ element: to });
+			if (!fromNode || !toNode) continue;
+
+			contentNodes.push(
+				new TransitionNode({ ...resolved, from: fromNode, to: toNode }),
+			);
+		}
 	}
 
 	if (background.type === "blur") {
@@ -147,3 +332,33 @@ export function buildScene(params: BuildSceneParams) {
 
 	return rootNode;
 }
+
+function getTrackOpacity({
+	trackId,
+	automation,
+}: {
+	trackId: string;
+	automation?: AutomationSnapshot;
+}): ((time: number) => number) | undefined {
+	const target: AutomationTarget = { type: "video-opacity", trackId };
+	if (
+		!automation ||
+		!hasAutomationForTarget({ target, states: automation.states })
+	) {
+		return undefined;
+	}
+
+	return (time) =>
+		applyAutomationBlend({
+			blend: resolveAutomationBlend({ target, time, snapshot: automation }),
+			base: 100,
+		}) / 100;
+}
+
+function isClipElement(element: TimelineElement): element is ClipElement {
+	return (
+		element.type === "video" ||
+		element.type === "image" ||
+		element.type === "scene"
+	);
+}
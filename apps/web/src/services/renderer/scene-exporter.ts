@@ -7,6 +7,7 @@ import {
 	BufferTarget,
 	CanvasSource,
 	AudioBufferSource,
+	TextSubtitleSource,
 	QUALITY_LOW,
 	QUALITY_MEDIUM,
 	QUALITY_HIGH,
@@ -26,9 +27,16 @@ type ExportParams = {
 	quality: ExportQuality;
 	shouldIncludeAudio?: boolean;
 	audioBuffer?: AudioBuffer;
+	subtitleTrack?: SubtitleTrack;
 };
 
-const qualityMap = {
+// muxed as a soft subtitle stream players can toggle
+type SubtitleTrack = {
+	name: string;
+	webVtt: string;
+};
+
+export const qualityMap = {
 	low: QUALITY_LOW,
 	medium: QUALITY_MEDIUM,
 	high: QUALITY_HIGH,
@@ -48,6 +56,7 @@ export class SceneExporter extends EventEmitter<SceneExporterEvents> {
 	private quality: ExportQuality;
 	private shouldIncludeAudio: boolean;
 	private audioBuffer?: AudioBuffer;
+	private subtitleTrack?: SubtitleTrack;
 
 	private isCancelled = false;
 
@@ -59,6 +68,7 @@ export class SceneExporter extends EventEmitter<SceneExporterEvents> {
 		quality,
 		shouldIncludeAudio,
 		audioBuffer,
+		subtitleTrack,
 	}: ExportParams) {
 		super();
 		this.renderer = new CanvasRenderer({
@@ -71,6 +81,7 @@ export class SceneExporter extends EventEmitter<SceneExporterEvents> {
 		this.quality = quality;
 		this.shouldIncludeAudio = shouldIncludeAudio ?? false;
 		this.audioBuffer = audioBuffer;
+		this.subtitleTrack = subtitleTrack;
 	}
 
 	cancel(): void {
@@ -109,6 +120,14 @@ export class SceneExporter extends EventEmitter<SceneExporterEvents> {
 			output.addAudioTrack(audioSource);
 		}
 
+		let subtitleSource: TextSubtitleSource | null = null;
+		if (this.subtitleTrack) {
+			subtitleSource = new TextSubtitleSource("webvtt");
+			output.addSubtitleTrack(subtitleSource, {
+				name: this.subtitleTrack.name,
+			});
+		}
+
 		await output.start();
 
 		if (audioSource && this.audioBuffer) {
@@ -116,6 +135,11 @@ export class SceneExporter extends EventEmitter<SceneExporterEvents> {
 			audioSource.close();
 		}
 
+		if (subtitleSource && this.subtitleTrack) {
+			await subtitleSource.add(this.subtitleTrack.webVtt);
+			subtitleSource.close();
+		}
+
 		for (let i = 0; i < frameCount; i++) {
 			if (this.isCancelled) {
 				await output.cancel();
@@ -7,3 +7,4 @@ export * from "./v0";
 export * from "./v1";
 export * from "./v2";
 export * from "./v3";
+export * from "./v4";
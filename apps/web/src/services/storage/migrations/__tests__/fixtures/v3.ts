@@ -45,3 +45,85 @@ export const v3Project = {
 		},
 	],
 };
+
+export const v3ProjectWithMixedElements = {
+	id: "project-v3-mixed",
+	version: 3,
+	metadata: {
+		id: "project-v3-mixed",
+		name: "Mixed Elements Project",
+		duration: 10,
+		createdAt: "2024-05-10T10:00:00.000Z",
+		updatedAt: "2024-05-10T12:00:00.000Z",
+	},
+	settings: {
+		fps: 30,
+		canvasSize: { width: 1920, height: 1080 },
+		background: { type: "color", color: "#000000" },
+	},
+	currentSceneId: "scene-main",
+	scenes: [
+		{
+			id: "scene-main",
+			name: "Main scene",
+			isMain: true,
+			tracks: [
+				{
+					id: "track-1",
+					type: "text",
+					name: "Text Track",
+					elements: [
+						{
+							id: "element-1",
+							type: "text",
+							content: "Animated",
+							startTime: 0,
+							duration: 5,
+							keyframes: {
+								opacity: [
+									{ id: "kf-1", time: 0, value: 0, easing: "linear" },
+									{ id: "kf-2", time: 1, value: 1, easing: "linear" },
+								],
+							},
+						},
+					],
+				},
+				{
+					id: "track-2",
+					type: "audio",
+					name: "Audio Track",
+					elements: [
+						{
+							id: "element-2",
+							type: "audio",
+							sourceType: "upload",
+							mediaId: "media-2",
+							startTime: 0,
+							duration: 10,
+							trimStart: 0,
+							trimEnd: 0,
+							volume: 1,
+							keyframes: null,
+						},
+					],
+				},
+				{
+					id: "track-3",
+					type: "sticker",
+					name: "Sticker Track",
+				},
+			],
+			bookmarks: [],
+			createdAt: "2024-05-10T10:00:00.000Z",
+			updatedAt: "2024-05-10T12:00:00.000Z",
+		},
+		{
+			id: "scene-broken",
+			name: "Scene without tracks",
+			isMain: false,
+			bookmarks: [],
+			createdAt: "2024-05-10T10:00:00.000Z",
+			updatedAt: "2024-05-10T12:00:00.000Z",
+		},
+	],
+};
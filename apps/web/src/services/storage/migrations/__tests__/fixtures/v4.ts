@@ -0,0 +1,53 @@
+export const v4Project = {
+	id: "project-v4-123",
+	version: 4,
+	metadata: {
+		id: "project-v4-123",
+		name: "My V4 Project",
+		thumbnail: "data:image/png;base64,v4v4v4",
+		duration: 12,
+		createdAt: "2024-06-01T10:00:00.000Z",
+		updatedAt: "2024-06-01T14:00:00.000Z",
+	},
+	settings: {
+		fps: 30,
+		canvasSize: { width: 1920, height: 1080 },
+		background: { type: "color", color: "#000000" },
+	},
+	currentSceneId: "scene-main",
+	scenes: [
+		{
+			id: "scene-main",
+			name: "Main scene",
+			isMain: true,
+			tracks: [
+				{
+					id: "track-1",
+					type: "video",
+					name: "Video Track",
+					isMain: true,
+					elements: [
+						{
+							id: "element-1",
+							type: "video",
+							mediaId: "media-1",
+							startTime: 0,
+							duration: 12,
+							trimStart: 0,
+							trimEnd: 0,
+							keyframes: {
+								scale: [
+									{ id: "kf-1", time: 0, value: 1, easing: "ease-out" },
+									{ id: "kf-2", time: 2, value: 1.5, easing: "linear" },
+								],
+							},
+						},
+					],
+				},
+			],
+			bookmarks: [],
+			createdAt: "2024-06-01T10:00:00.000Z",
+			updatedAt: "2024-06-01T14:00:00.000Z",
+		},
+	],
+};
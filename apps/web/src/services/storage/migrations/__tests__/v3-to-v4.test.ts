@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { getProjectId, transformProjectV3ToV4 } from "../transformers/v3-to-v4";
+import {
+	projectWithNoId,
+	v3Project,
+	v3ProjectWithMixedElements,
+	v4Project,
+} from "./fixtures";
+
+type SceneRecord = {
+	tracks?: { elements?: Record<string, unknown>[] }[];
+};
+
+function getElements({
+	project,
+	sceneIndex = 0,
+	trackIndex,
+}: {
+	project: Record<string, unknown>;
+	sceneIndex?: number;
+	trackIndex: number;
+}): Record<string, unknown>[] {
+	const scenes = project.scenes as SceneRecord[];
+	return scenes[sceneIndex].tracks?.[trackIndex].elements ?? [];
+}
+
+describe("V3 to V4 Migration", () => {
+	describe("transformProjectV3ToV4", () => {
+		test("sets version to 4", () => {
+			const result = transformProjectV3ToV4({ project: v3Project });
+
+			expect(result.skipped).toBe(false);
+			expect(result.project.version).toBe(4);
+		});
+
+		test("adds empty keyframes to elements without them", () => {
+			const result = transformProjectV3ToV4({ project: v3Project });
+
+			const [element] = getElements({ project: result.project, trackIndex: 0 });
+			expect(element.keyframes).toEqual({});
+		});
+
+		test("keeps existing keyframes", () => {
+			const result = transformProjectV3ToV4({
+				project: v3ProjectWithMixedElements,
+			});
+
+			const [element] = getElements({ project: result.project, trackIndex: 0 });
+			const keyframes = element.keyframes as Record<string, unknown[]>;
+			expect(keyframes.opacity).toHaveLength(2);
+		});
+
+		test("replaces invalid keyframes with an empty record", () => {
+			const result = transformProjectV3ToV4({
+				project: v3ProjectWithMixedElements,
+			});
+
+			const [element] = getElements({ project: result.project, trackIndex: 1 });
+			expect(element.keyframes).toEqual({});
+		});
+
+		test("preserves other element fields", () => {
+			const result = transformProjectV3ToV4({ project: v3Project });
+
+			const [element] = getElements({ project: result.project, trackIndex: 0 });
+			expect(element.id).toBe("element-1");
+			expect(element.duration).toBe(25.5);
+			expect(element.mediaId).toBe("media-1");
+		});
+
+		test("handles tracks without elements and scenes without tracks", () => {
+			const result = transformProjectV3ToV4({
+				project: v3ProjectWithMixedElements,
+			});
+
+			const scenes = result.project.scenes as Record<string, unknown>[];
+			const tracks = scenes[0].tracks as Record<string, unknown>[];
+			expect(tracks[2].elements).toBeUndefined();
+			expect(scenes[1].tracks).toBeUndefined();
+		});
+
+		test("preserves metadata and settings", () => {
+			const result = transformProjectV3ToV4({ project: v3Project });
+
+			expect(result.project.metadata).toEqual(v3Project.metadata);
+			expect(result.project.settings).toEqual(v3Project.settings);
+		});
+
+		test("skips project that is already v4", () => {
+			const result = transformProjectV3ToV4({ project: v4Project });
+
+			expect(result.skipped).toBe(true);
+			expect(result.reason).toBe("already v4");
+		});
+
+		test("skips project with no id", () => {
+			const result = transformProjectV3ToV4({ project: projectWithNoId });
+
+			expect(result.skipped).toBe(true);
+			expect(result.reason).toBe("no project id");
+		});
+
+		test("does not mutate the input project", () => {
+			const before = JSON.stringify(v3Project);
+			transformProjectV3ToV4({ project: v3Project });
+
+			expect(JSON.stringify(v3Project)).toBe(before);
+		});
+	});
+
+	describe("getProjectId", () => {
+		test("reads id from project or metadata", () => {
+			expect(getProjectId({ project: v3Project })).toBe("project-v3-123");
+			expect(
+				getProjectId({ project: { metadata: { id: "from-metadata" } } }),
+			).toBe("from-metadata");
+		});
+
+		test("returns null when no id exists", () => {
+			expect(getProjectId({ project: projectWithNoId })).toBeNull();
+		});
+	});
+});
@@ -3,12 +3,14 @@ export { StorageVersionManager } from "./version-manager";
 import { V0toV1Migration } from "./v0-to-v1";
 import { V1toV2Migration } from "./v1-to-v2";
 import { V2toV3Migration } from "./v2-to-v3";
+import { V3toV4Migration } from "./v3-to-v4";
 export { runStorageMigrations } from "./runner";
 
-export const CURRENT_STORAGE_VERSION = 3;
+export const CURRENT_STORAGE_VERSION = 4;
 
 export const migrations = [
 	new V0toV1Migration(),
 	new V1toV2Migration(),
 	new V2toV3Migration(),
+	new V3toV4Migration(),
 ];
@@ -1,4 +1,5 @@
 export { transformProjectV0ToV1 } from "./v0-to-v1";
 export { transformProjectV1ToV2 } from "./v1-to-v2";
 export { transformProjectV2ToV3 } from "./v2-to-v3";
+export { transformProjectV3ToV4 } from "./v3-to-v4";
 export type { MigrationResult, ProjectRecord } from "./types";
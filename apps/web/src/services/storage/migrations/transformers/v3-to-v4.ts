@@ -0,0 +1,95 @@
+import type { MigrationResult, ProjectRecord } from "./types";
+
+export function transformProjectV3ToV4({
+	project,
+}: {
+	project: ProjectRecord;
+}): MigrationResult<ProjectRecord> {
+	const projectId = getProjectId({ project });
+	if (!projectId) {
+		return { project, skipped: true, reason: "no project id" };
+	}
+
+	if (isV4Project({ project })) {
+		return { project, skipped: true, reason: "already v4" };
+	}
+
+	const scenesValue = project.scenes;
+	const scenes = Array.isArray(scenesValue)
+		? scenesValue.map((scene) => migrateScene({ scene }))
+		: scenesValue;
+
+	const migratedProject = {
+		...project,
+		scenes,
+		version: 4,
+	};
+
+	return { project: migratedProject, skipped: false };
+}
+
+export function getProjectId({
+	project,
+}: {
+	project: ProjectRecord;
+}): string | null {
+	const idValue = project.id;
+	if (typeof idValue === "string" && idValue.length > 0) {
+		return idValue;
+	}
+
+	const metadataValue = project.metadata;
+	if (!isRecord(metadataValue)) {
+		return null;
+	}
+
+	const metadataId = metadataValue.id;
+	if (typeof metadataId === "string" && metadataId.length > 0) {
+		return metadataId;
+	}
+
+	return null;
+}
+
+function migrateScene({ scene }: { scene: unknown }): unknown {
+	if (!isRecord(scene) || !Array.isArray(scene.tracks)) {
+		return scene;
+	}
+
+	return {
+		...scene,
+		tracks: scene.tracks.map((track) => migrateTrack({ track })),
+	};
+}
+
+function migrateTrack({ track }: { track: unknown }): unknown {
+	if (!isRecord(track) || !Array.isArray(track.elements)) {
+		return track;
+	}
+
+	return {
+		...track,
+		elements: track.elements.map((element) => migrateElement({ element })),
+	};
+}
+
+// every element gets a keyframes record, so later code can rely on it being an object
+function migrateElement({ element }: { element: unknown }): unknown {
+	if (!isRecord(element)) {
+		return element;
+	}
+
+	return {
+		...element,
+		keyframes: isRecord(element.keyframes) ? element.keyframes : {},
+	};
+}
+
+function isV4Project({ project }: { project: ProjectRecord }): boolean {
+	const versionValue = project.version;
+	return typeof versionValue === "number" && versionValue >= 4;
+}
+
+function isRecord(value: unknown): value is ProjectRecord {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
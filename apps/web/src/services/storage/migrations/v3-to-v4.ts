@@ -0,0 +1,42 @@
+/*
+ * Adds an empty keyframes record to every timeline element
+ */
+
+import { IndexedDBAdapter } from "@/services/storage/indexeddb-adapter";
+import { StorageMigration } from "./base";
+import { getProjectId, transformProjectV3ToV4 } from "./transformers/v3-to-v4";
+
+export class V3toV4Migration extends StorageMigration {
+	from = 3;
+	to = 4;
+
+	async run(): Promise<void> {
+		const projectsAdapter = new IndexedDBAdapter<unknown>(
+			"video-editor-projects",
+			"projects",
+			1,
+		);
+		const projects = await projectsAdapter.getAll();
+
+		for (const project of projects) {
+			if (typeof project !== "object" || project === null) {
+				continue;
+			}
+
+			const result = transformProjectV3ToV4({
+				project: project as Record<string, unknown>,
+			});
+
+			if (result.skipped) {
+				continue;
+			}
+
+			const projectId = getProjectId({ project: result.project });
+			if (!projectId) {
+				continue;
+			}
+
+			await projectsAdapter.set(projectId, result.project);
+		}
+	}
+}
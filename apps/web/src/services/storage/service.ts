@@ -1,5 +1,8 @@
 import type { TProject, TProjectMetadata } from "@/types/project";
-import { getProjectDurationFromScenes } from "@/lib/scenes";
+import {
+	getProjectDurationFromScenes,
+	sanitizeSceneReferences,
+} from "@/lib/scenes";
 import type { MediaAsset } from "@/types/assets";
 import { IndexedDBAdapter } from "./indexeddb-adapter";
 import { OPFSAdapter } from "./opfs-adapter";
@@ -15,6 +18,7 @@ import {
 	runStorageMigrations,
 } from "@/services/storage/migrations";
 import type { TimelineTrack, TScene } from "@/types/timeline";
+import { DEFAULT_SIDECHAIN_PARAMS } from "@/types/sidechain";
 
 class StorageService {
 	private projectsAdapter: IndexedDBAdapter<SerializedProject>;
@@ -98,7 +102,10 @@ class StorageService {
 			automationMarkers: scene.automationMarkers,
 			oneshotDefinitions: scene.oneshotDefinitions,
 			oneshotMarkers: scene.oneshotMarkers,
+			oneshotGroups: scene.oneshotGroups,
 			sidechainConfigs: scene.sidechainConfigs,
+			transitions: scene.transitions,
+			beatGrid: scene.beatGrid,
 			createdAt: scene.createdAt.toISOString(),
 			updatedAt: scene.updatedAt.toISOString(),
 		}));
@@ -132,7 +139,7 @@ class StorageService {
 
 		if (!serializedProject) return null;
 
-		const scenes =
+		const loadedScenes =
 			serializedProject.scenes?.map((scene) => ({
 				id: scene.id,
 				name: scene.name,
@@ -147,13 +154,22 @@ class StorageService {
 				automationMarkers: scene.automationMarkers ?? [],
 				oneshotDefinitions: scene.oneshotDefinitions ?? [],
 				oneshotMarkers: scene.oneshotMarkers ?? [],
+				oneshotGroups: scene.oneshotGroups ?? [],
 				sidechainConfigs: (scene.sidechainConfigs ?? []).map((c: any) => {
-					if (c.source) return { ...c, targetOneshotDefinitionIds: c.targetOneshotDefinitionIds ?? [] };
-					return { ...c, source: { type: "track", trackId: c.sourceTrackId }, targetOneshotDefinitionIds: [] };
+					// legacy: lookahead, knee, key filter and hold were added later
+					const params = { ...DEFAULT_SIDECHAIN_PARAMS, ...c.params };
+					if (c.source) return { ...c, params, targetOneshotDefinitionIds: c.targetOneshotDefinitionIds ?? [] };
+					return { ...c, params, source: { type: "track", trackId: c.sourceTrackId }, targetOneshotDefinitionIds: [] };
 				}),
+				transitions: scene.transitions ?? [],
+				beatGrid: scene.beatGrid,
 				createdAt: new Date(scene.createdAt),
 				updatedAt: new Date(scene.updatedAt),
 			})) ?? [];
+		// a nested scene may have been deleted or the data edited outside the app.
+		// scene elements are a new kind of clip that v4 projects just don't have,
+		// so no existing data changes shape and no migration is needed
+		const scenes = sanitizeSceneReferences({ scenes: loadedScenes });
 
 		const project: TProject = {
 			metadata: {
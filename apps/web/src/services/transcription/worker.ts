@@ -3,7 +3,10 @@ import {
 	type AutomaticSpeechRecognitionPipeline,
 	type AutomaticSpeechRecognitionOutput,
 } from "@huggingface/transformers";
-import type { TranscriptionSegment } from "@/types/transcription";
+import type {
+	TranscriptionSegment,
+	TranscriptionWord,
+} from "@/types/transcription";
 import {
 	DEFAULT_CHUNK_LENGTH_SECONDS,
 	DEFAULT_STRIDE_SECONDS,
@@ -23,6 +26,7 @@ export type WorkerResponse =
 			type: "transcribe-complete";
 			text: string;
 			segments: TranscriptionSegment[];
+			words?: TranscriptionWord[];
 	  }
 	| { type: "transcribe-error"; error: string }
 	| { type: "cancelled" };
@@ -134,37 +138,41 @@ async function handleTranscribe({
 	cancelled = false;
 
 	try {
-		const rawResult = await transcriber(audio, {
+		const options = {
 			chunk_length_s: DEFAULT_CHUNK_LENGTH_SECONDS,
 			stride_length_s: DEFAULT_STRIDE_SECONDS,
 			language: language === "auto" ? undefined : language,
-			return_timestamps: true,
-		});
+		};
+
+		let words: TranscriptionWord[] | undefined;
+		let result: AutomaticSpeechRecognitionOutput;
+		try {
+			result = unwrapResult(
+				await transcriber(audio, { ...options, return_timestamps: "word" }),
+			);
+			words = getTimedChunks(result).map(({ text, start, end }) => ({
+				text: text.trim(),
+				start,
+				end,
+			}));
+		} catch (error) {
+			if (cancelled) return;
+			// word alignment needs cross-attentions, which not every export has
+			console.warn("Word timestamps unavailable, using segments:", error);
+			result = unwrapResult(
+				await transcriber(audio, { ...options, return_timestamps: true }),
+			);
+		}
 
 		if (cancelled) return;
 
-		const result: AutomaticSpeechRecognitionOutput = Array.isArray(rawResult)
-			? rawResult[0]
-			: rawResult;
-
-		const segments: TranscriptionSegment[] = [];
-
-		if (result.chunks) {
-			for (const chunk of result.chunks) {
-				if (chunk.timestamp && chunk.timestamp.length >= 2) {
-					segments.push({
-						text: chunk.text,
-						start: chunk.timestamp[0] ?? 0,
-						end: chunk.timestamp[1] ?? chunk.timestamp[0] ?? 0,
-					});
-				}
-			}
-		}
-
 		self.postMessage({
 			type: "transcribe-complete",
 			text: result.text,
-			segments,
+			segments: words
+				? buildSegmentsFromWords({ words })
+				: getTimedChunks(result),
+			words,
 		} satisfies WorkerResponse);
 	} catch (error) {
 		if (cancelled) return;
@@ -174,3 +182,52 @@ async function handleTranscribe({
 		} satisfies WorkerResponse);
 	}
 }
+
+function unwrapResult(
+	rawResult:
+		| AutomaticSpeechRecognitionOutput
+		| AutomaticSpeechRecognitionOutput[],
+): AutomaticSpeechRecognitionOutput {
+	return Array.isArray(rawResult) ? rawResult[0] : rawResult;
+}
+
+function getTimedChunks(
+	result: AutomaticSpeechRecognitionOutput,
+): TranscriptionSegment[] {
+	const segments: TranscriptionSegment[] = [];
+
+	if (result.chunks) {
+		for (const chunk of result.chunks) {
+			if (chunk.timestamp && chunk.timestamp.length >= 2) {
+				segments.push({
+					text: chunk.text,
+					start: chunk.timestamp[0] ?? 0,
+					end: chunk.timestamp[1] ?? chunk.timestamp[0] ?? 0,
+				});
+			}
+		}
+	}
+
+	return segments;
+}
+
+// word mode returns no segments, so sentences stand in for them
+function buildSegmentsFromWords({
+	words,
+}: {
+	words: TranscriptionWord[];
+}): TranscriptionSegment[] {
+	const segments: TranscriptionSegment[] = [];
+	let sentence: TranscriptionWord[] = [];
+	for (const [index, word] of words.entries()) {
+		sentence.push(word);
+		if (index < words.length - 1 && !/[.!?]$/.test(word.text)) continue;
+		segments.push({
+			text: sentence.map((sentenceWord) => sentenceWord.text).join(" "),
+			start: sentence[0].start,
+			end: sentence[sentence.length - 1].end,
+		});
+		sentence = [];
+	}
+	return segments;
+}
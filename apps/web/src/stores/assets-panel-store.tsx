@@ -11,14 +11,17 @@ import {
 	Settings01Icon,
 	Settings02Icon,
 	SlidersHorizontalIcon,
+	SlidersVerticalIcon,
 	ColorsIcon,
 	AiBrain01Icon,
+	FileScriptIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon, type IconSvgElement } from "@hugeicons/react";
 
 export const TAB_KEYS = [
 	"media",
 	"automation",
+	"mixer",
 	"settings",
 	"sounds",
 	"text",
@@ -26,6 +29,7 @@ export const TAB_KEYS = [
 	"effects",
 	"transitions",
 	"captions",
+	"transcript",
 	"filters",
 	"adjustment",
 ] as const;
@@ -67,6 +71,10 @@ export const tabs = {
 		icon: createHugeiconsIcon({ icon: ClosedCaptionIcon }),
 		label: "Captions",
 	},
+	transcript: {
+		icon: createHugeiconsIcon({ icon: FileScriptIcon }),
+		label: "Transcript",
+	},
 	filters: {
 		icon: createHugeiconsIcon({ icon: ColorsIcon }),
 		label: "Filters",
@@ -79,6 +87,10 @@ export const tabs = {
 		icon: createHugeiconsIcon({ icon: AiBrain01Icon }),
 		label: "Automation",
 	},
+	mixer: {
+		icon: createHugeiconsIcon({ icon: SlidersVerticalIcon }),
+		label: "Mixer",
+	},
 	settings: {
 		icon: createHugeiconsIcon({ icon: Settings01Icon }),
 		label: "Settings",
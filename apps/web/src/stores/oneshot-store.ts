@@ -10,6 +10,8 @@ interface OneshotStore {
 	isCreatingOneshot: boolean;
 	editingOneshotId: string | null;
 	isOneshotSelectionOpen: boolean;
+	isCreatingGroup: boolean;
+	editingGroupId: string | null;
 
 	// Waveform editor state
 	audioBuffer: AudioBuffer | null;
@@ -25,6 +27,9 @@ interface OneshotStore {
 	cancelEditingOneshot: () => void;
 	openOneshotSelection: () => void;
 	closeOneshotSelection: () => void;
+	startCreatingGroup: () => void;
+	startEditingGroup: (groupId: string) => void;
+	closeGroupDialog: () => void;
 	setAudioBuffer: (buffer: AudioBuffer | null) => void;
 	setIsLoadingAudio: (loading: boolean) => void;
 }
@@ -37,6 +42,8 @@ export const useOneshotStore = create<OneshotStore>((set) => ({
 	isCreatingOneshot: false,
 	editingOneshotId: null,
 	isOneshotSelectionOpen: false,
+	isCreatingGroup: false,
+	editingGroupId: null,
 	audioBuffer: null,
 	isLoadingAudio: false,
 
@@ -93,6 +100,24 @@ export const useOneshotStore = create<OneshotStore>((set) => ({
 			isOneshotSelectionOpen: false,
 		}),
 
+	startCreatingGroup: () =>
+		set({
+			isCreatingGroup: true,
+			editingGroupId: null,
+		}),
+
+	startEditingGroup: (groupId: string) =>
+		set({
+			editingGroupId: groupId,
+			isCreatingGroup: false,
+		}),
+
+	closeGroupDialog: () =>
+		set({
+			isCreatingGroup: false,
+			editingGroupId: null,
+		}),
+
 	setAudioBuffer: (buffer: AudioBuffer | null) =>
 		set({
 			audioBuffer: buffer,
@@ -5,12 +5,17 @@
 
 import { create } from "zustand";
 import type { ClipboardItem } from "@/types/timeline";
+import type { RippleOptions } from "@/lib/timeline/ripple";
 
 interface TimelineStore {
 	snappingEnabled: boolean;
 	toggleSnapping: () => void;
 	rippleEditingEnabled: boolean;
 	toggleRippleEditing: () => void;
+	rippleAllTracksEnabled: boolean;
+	toggleRippleAllTracks: () => void;
+	// options for an edit made right now, undefined while ripple is off
+	getRippleOptions: () => RippleOptions | undefined;
 	clipboard: {
 		items: ClipboardItem[];
 	} | null;
@@ -21,7 +26,7 @@ interface TimelineStore {
 	) => void;
 }
 
-export const useTimelineStore = create<TimelineStore>((set) => ({
+export const useTimelineStore = create<TimelineStore>((set, get) => ({
 	snappingEnabled: true,
 
 	toggleSnapping: () => {
@@ -36,6 +41,21 @@ export const useTimelineStore = create<TimelineStore>((set) => ({
 		}));
 	},
 
+	rippleAllTracksEnabled: false,
+
+	toggleRippleAllTracks: () => {
+		set((state) => ({
+			rippleAllTracksEnabled: !state.rippleAllTracksEnabled,
+		}));
+	},
+
+	getRippleOptions: () => {
+		const { rippleEditingEnabled, rippleAllTracksEnabled } = get();
+		return rippleEditingEnabled
+			? { allTracks: rippleAllTracksEnabled }
+			: undefined;
+	},
+
 	clipboard: null,
 
 	setClipboard: (clipboard) => {
@@ -0,0 +1,18 @@
+import { create } from "zustand";
+import type { TranscriptionWord } from "@/types/transcription";
+
+interface TranscriptStore {
+	// words in source seconds, by the audio they were heard in
+	transcripts: Record<string, TranscriptionWord[]>;
+
+	setTranscript: (sourceKey: string, words: TranscriptionWord[]) => void;
+}
+
+export const useTranscriptStore = create<TranscriptStore>((set) => ({
+	transcripts: {},
+
+	setTranscript: (sourceKey, words) =>
+		set((state) => ({
+			transcripts: { ...state.transcripts, [sourceKey]: words },
+		})),
+}));
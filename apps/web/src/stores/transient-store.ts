@@ -0,0 +1,17 @@
+import { create } from "zustand";
+import type { TransientSource } from "@/types/transient";
+
+interface TransientStore {
+	source: TransientSource | null;
+
+	openDetection: (source: TransientSource) => void;
+	closeDetection: () => void;
+}
+
+export const useTransientStore = create<TransientStore>((set) => ({
+	source: null,
+
+	openDetection: (source: TransientSource) => set({ source }),
+
+	closeDetection: () => set({ source: null }),
+}));
@@ -3,11 +3,20 @@ export interface AutomationState {
 	id: string;
 	name: string;
 	description?: string;
-	operations: AudioVolumeOperation[];
+	operations: AutomationOperation[];
 	createdAt: Date;
 	updatedAt: Date;
 }
 
+export type AutomationOperation =
+	| AudioVolumeOperation
+	| TrackPanOperation
+	| SidechainEnabledOperation
+	| OneshotGainOperation
+	| VideoOpacityOperation;
+
+export type AutomationOperationType = AutomationOperation["type"];
+
 // Audio volume operation (0-100)
 export interface AudioVolumeOperation {
 	id: string;
@@ -16,6 +25,50 @@ export interface AudioVolumeOperation {
 	value: number; // Volume percentage (0-100)
 }
 
+// Track pan operation (-100 hard left to 100 hard right)
+export interface TrackPanOperation {
+	id: string;
+	type: "track-pan";
+	trackId: string;
+	value: number;
+}
+
+// Sidechain enable/bypass operation
+export interface SidechainEnabledOperation {
+	id: string;
+	type: "sidechain-enabled";
+	configId: string;
+	enabled: boolean;
+}
+
+// Oneshot definition gain operation (0-100)
+export interface OneshotGainOperation {
+	id: string;
+	type: "oneshot-gain";
+	definitionId: string;
+	value: number;
+}
+
+// Video track opacity operation (0-100)
+export interface VideoOpacityOperation {
+	id: string;
+	type: "video-opacity";
+	trackId: string;
+	value: number;
+}
+
+export type AutomationRampCurve =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out";
+
+// Glide from the previous value into the marker's state
+export interface AutomationRamp {
+	duration: number; // seconds
+	curve: AutomationRampCurve;
+}
+
 // Automation markers
 export type AutomationMarker = RangeMarker | PointMarker;
 
@@ -36,4 +89,5 @@ export interface RangeMarker extends BaseMarker {
 export interface PointMarker extends BaseMarker {
 	type: "point";
 	time: number; // seconds
+	ramp?: AutomationRamp; // hard step when absent
 }
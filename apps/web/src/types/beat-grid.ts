@@ -0,0 +1,6 @@
+export interface BeatGrid {
+	bpm: number;
+	offset: number; // timeline seconds of a downbeat
+	beatsPerBar: number;
+	enabled: boolean; // off keeps the tempo but hides the lines and snapping
+}
@@ -0,0 +1,42 @@
+export type AdjustmentFilterType =
+	| "brightness"
+	| "contrast"
+	| "saturation"
+	| "exposure"
+	| "temperature"
+	| "tint"
+	| "hue"
+	| "vignette";
+
+export type ColorFilterType = AdjustmentFilterType | "lut";
+
+interface BaseColorFilter {
+	id: string;
+	enabled?: boolean; // disabled filters stay in the stack but are skipped
+}
+
+export interface AdjustmentFilter extends BaseColorFilter {
+	type: AdjustmentFilterType;
+	amount: number;
+}
+
+// a 3D lookup table imported from a .cube file
+export interface LutFilter extends BaseColorFilter {
+	type: "lut";
+	name: string;
+	size: number; // points per axis
+	data: number[]; // rgb triplets, red changing fastest
+	domainMin: [number, number, number];
+	domainMax: [number, number, number];
+	amount: number; // 0-1 mix between the original and the graded color
+}
+
+export type ColorFilter = AdjustmentFilter | LutFilter;
+
+export interface ParsedCubeLut {
+	title: string | null;
+	size: number;
+	data: number[];
+	domainMin: [number, number, number];
+	domainMax: [number, number, number];
+}
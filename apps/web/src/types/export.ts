@@ -1,3 +1,5 @@
+import type { LoudnessOptions, LoudnessReport } from "./loudness";
+import type { SubtitleExportOptions, SubtitleFile } from "./subtitles";
 import type { TimeRemapConfig } from "./time-remap";
 
 export const EXPORT_QUALITY_VALUES = [
@@ -7,16 +9,32 @@ export const EXPORT_QUALITY_VALUES = [
 	"very_high",
 ] as const;
 
-export const EXPORT_FORMAT_VALUES = ["mp4", "webm"] as const;
+export const EXPORT_FORMAT_VALUES = [
+	"mp4",
+	"webm",
+	"wav",
+	"ogg",
+	"m4a",
+] as const;
+export const AUDIO_EXPORT_FORMAT_VALUES = ["wav", "ogg", "m4a"] as const;
+export const WAV_BIT_DEPTH_VALUES = [16, 24] as const;
 
 export type ExportFormat = (typeof EXPORT_FORMAT_VALUES)[number];
+export type AudioExportFormat = (typeof AUDIO_EXPORT_FORMAT_VALUES)[number];
 export type ExportQuality = (typeof EXPORT_QUALITY_VALUES)[number];
+export type WavBitDepth = (typeof WAV_BIT_DEPTH_VALUES)[number];
 
 export interface ExportOptions {
 	format: ExportFormat;
 	quality: ExportQuality;
 	fps?: number;
 	includeAudio?: boolean;
+	wavBitDepth?: WavBitDepth;
+	// audio formats only: one file per track, oneshots and video audio, zipped
+	stems?: boolean;
+	loudness?: LoudnessOptions;
+	// video formats only
+	subtitles?: SubtitleExportOptions;
 	timeRemapConfig?: TimeRemapConfig;
 	onProgress?: ({ progress }: { progress: number }) => void;
 	onCancel?: () => boolean;
@@ -27,4 +45,8 @@ export interface ExportResult {
 	buffer?: ArrayBuffer;
 	error?: string;
 	cancelled?: boolean;
+	// the delivered audio, after normalization and limiting
+	loudness?: LoudnessReport;
+	// a sidecar file to save next to the video
+	subtitles?: SubtitleFile;
 }
@@ -0,0 +1,31 @@
+export type KeyframeEasing =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out"
+	| "bezier"
+	| "hold";
+
+// cubic-bezier control points (x1, y1, x2, y2), css timing-function style
+export type BezierCurve = [number, number, number, number];
+
+export type AnimatableProperty =
+	| "position.x"
+	| "position.y"
+	| "scale"
+	| "rotate"
+	| "opacity"
+	| "volume";
+
+export interface Keyframe {
+	id: string;
+	time: number; // source seconds the element shows, the clock trims are counted on
+	value: number;
+	easing: KeyframeEasing; // curve used from this keyframe to the next one
+	bezier?: BezierCurve; // only read when easing is "bezier"
+}
+
+// keyframes per property, each list sorted by time
+export type ElementKeyframes = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+export const DEFAULT_BEZIER_CURVE: BezierCurve = [0.25, 0.1, 0.25, 1];
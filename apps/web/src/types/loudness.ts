@@ -0,0 +1,12 @@
+export interface LoudnessOptions {
+	targetLufs: number | null; // integrated target, null keeps the mix level
+	truePeakCeiling: number | null; // dBTP, null turns the limiter off
+}
+
+// measured per ITU-R BS.1770 and EBU Tech 3342; silence reads -Infinity
+export interface LoudnessReport {
+	integrated: number; // LUFS
+	shortTermMax: number; // LUFS
+	loudnessRange: number; // LU
+	truePeak: number; // dBTP
+}
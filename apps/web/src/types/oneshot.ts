@@ -20,12 +20,28 @@ export interface OneshotDefinition {
 // Oneshot Marker - a point on the timeline where a oneshot triggers
 export interface OneshotMarker {
 	id: string;
-	oneshotId: string; // Reference to OneshotDefinition
+	oneshotId: string; // Reference to OneshotDefinition or OneshotVariationGroup
 	time: number; // Timeline position where cuePoint aligns
 	volume?: number; // Optional per-marker volume (0-1), defaults to 1
+	seed?: number; // Drives the variation picked for group markers
 	createdAt: number;
 }
 
+export type OneshotVariationMode = "round-robin" | "random";
+
+// Variation Group - a set of definitions a marker picks one of per hit
+export interface OneshotVariationGroup {
+	id: string;
+	name: string;
+	color: string;
+	definitionIds: string[];
+	mode: OneshotVariationMode;
+	pitchRange: number; // Random detune of +/- semitones, 0 = off
+	gainRange: number; // Random gain of +/- dB, 0 = off
+	createdAt: number;
+	updatedAt: number;
+}
+
 // Input types for creating/updating
 export type CreateOneshotInput = Omit<
 	OneshotDefinition,
@@ -37,3 +53,12 @@ export type UpdateOneshotInput = Partial<
 >;
 
 export type CreateOneshotMarkerInput = Omit<OneshotMarker, "id" | "createdAt">;
+
+export type CreateOneshotGroupInput = Omit<
+	OneshotVariationGroup,
+	"id" | "createdAt" | "updatedAt"
+>;
+
+export type UpdateOneshotGroupInput = Partial<
+	Omit<OneshotVariationGroup, "id" | "createdAt" | "updatedAt">
+>;
@@ -4,12 +4,22 @@ export interface SidechainParams {
 	attack: number; // seconds, 0.001~0.5, default 0.01
 	release: number; // seconds, 0.01~2.0, default 0.2
 	depth: number; // max reduction dB, 0~-60, default -24
+	lookahead: number; // seconds, 0~0.05, default 0
+	knee: number; // soft knee width dB, 0~24, default 0 (hard knee)
+	keyHighpass: number; // detector high-pass Hz, 0 = off
+	keyLowpass: number; // detector low-pass Hz, 0 = off
+	hold: number; // seconds before release, 0~0.5, default 0
 }
 
 export type SidechainSource =
 	| { type: "track"; trackId: string }
 	| { type: "oneshot"; definitionId: string };
 
+// what a config ducks: a track or every hit of a oneshot definition
+export type SidechainTarget =
+	| { type: "track"; trackId: string }
+	| { type: "oneshot"; definitionId: string };
+
 export interface SidechainConfig {
 	id: string;
 	name: string;
@@ -43,4 +53,9 @@ export const DEFAULT_SIDECHAIN_PARAMS: SidechainParams = {
 	attack: 0.01,
 	release: 0.2,
 	depth: -24,
+	lookahead: 0,
+	knee: 0,
+	keyHighpass: 0,
+	keyLowpass: 0,
+	hold: 0,
 };
@@ -0,0 +1,29 @@
+export const SUBTITLE_FORMAT_VALUES = ["srt", "vtt"] as const;
+
+export type SubtitleFormat = (typeof SUBTITLE_FORMAT_VALUES)[number];
+
+/**
+ * One timed caption. Text elements style their whole text, so styling tags
+ * only carry over when they wrap the entire cue.
+ */
+export interface SubtitleCue {
+	startTime: number;
+	endTime: number;
+	text: string; // plain text, lines separated by \n
+	bold: boolean;
+	italic: boolean;
+	underline: boolean;
+	color?: string;
+}
+
+// embedded streams are always WebVTT, the only codec the muxers take
+export interface SubtitleExportOptions {
+	trackId: string;
+	mode: "embed" | "sidecar";
+	format: SubtitleFormat;
+}
+
+export interface SubtitleFile {
+	format: SubtitleFormat;
+	content: string;
+}
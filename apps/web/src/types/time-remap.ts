@@ -46,6 +46,12 @@ export interface TimeRemapPreset {
 	};
 }
 
+// Marker timing for an un-remapped timeline
+export const ORIGINAL_MARKER_REMAP_CONFIG: MarkerRemapConfig = {
+	triggerBehavior: "original",
+	playbackBehavior: "original",
+};
+
 // Default presets
 export const TIME_REMAP_PRESETS: TimeRemapPreset[] = [
 	{
@@ -1,6 +1,14 @@
 import type { AutomationMarker, AutomationState } from "./automation";
-import type { OneshotDefinition, OneshotMarker } from "./oneshot";
+import type { BeatGrid } from "./beat-grid";
+import type { ColorFilter } from "./color";
+import type { ElementKeyframes, KeyframeEasing } from "./keyframe";
+import type {
+	OneshotDefinition,
+	OneshotMarker,
+	OneshotVariationGroup,
+} from "./oneshot";
 import type { SidechainConfig } from "./sidechain";
+import type { Transition } from "./transition";
 
 export interface TScene {
 	id: string;
@@ -12,7 +20,10 @@ export interface TScene {
 	automationMarkers?: AutomationMarker[];
 	oneshotDefinitions?: OneshotDefinition[];
 	oneshotMarkers?: OneshotMarker[];
+	oneshotGroups?: OneshotVariationGroup[];
 	sidechainConfigs?: SidechainConfig[];
+	transitions?: Transition[];
+	beatGrid?: BeatGrid;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -24,9 +35,18 @@ interface BaseTrack {
 	name: string;
 }
 
-export interface VideoTrack extends BaseTrack {
+// mixer settings of a track that carries audio
+interface TrackMix {
+	volume?: number; // linear gain, 1 is unity
+	pan?: number; // -1 is hard left, 1 hard right
+	solo?: boolean;
+	// ducking from sidechain configs is drawn over the row unless hidden
+	hideSidechainOverlay?: boolean;
+}
+
+export interface VideoTrack extends BaseTrack, TrackMix {
 	type: "video";
-	elements: (VideoElement | ImageElement)[];
+	elements: (VideoElement | ImageElement | SceneElement)[];
 	isMain: boolean;
 	muted: boolean;
 	hidden: boolean;
@@ -38,7 +58,7 @@ export interface TextTrack extends BaseTrack {
 	hidden: boolean;
 }
 
-export interface AudioTrack extends BaseTrack {
+export interface AudioTrack extends BaseTrack, TrackMix {
 	type: "audio";
 	elements: AudioElement[];
 	muted: boolean;
@@ -61,12 +81,60 @@ export interface Transform {
 	rotate: number;
 }
 
-interface BaseAudioElement extends BaseTimelineElement {
+// how media is sized against the project canvas before the transform applies
+export type MediaFitMode = "contain" | "cover" | "stretch";
+
+export type MediaBlendMode =
+	| "normal"
+	| "multiply"
+	| "screen"
+	| "overlay"
+	| "darken"
+	| "lighten"
+	| "color-dodge"
+	| "color-burn"
+	| "hard-light"
+	| "soft-light"
+	| "difference"
+	| "exclusion"
+	| "hue"
+	| "saturation"
+	| "color"
+	| "luminosity";
+
+// visible part of the source, as fractions (0-1) of its width and height
+export interface CropRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Per-clip playback speed. Trims stay in source seconds and are counted in
+ * play order, so a reversed clip's trimStart is cut from the end of the source.
+ */
+interface ClipSpeed {
+	speed?: number; // 1 plays at normal speed
+	reversed?: boolean;
+	preservePitch?: boolean; // time-stretch audio instead of resampling it
+}
+
+export type FadeCurve = "linear" | "equal-power" | "logarithmic";
+
+export interface AudioFade {
+	duration: number; // timeline seconds
+	curve: FadeCurve;
+}
+
+interface BaseAudioElement extends BaseTimelineElement, ClipSpeed {
 	type: "audio";
 	volume: number;
 	muted?: boolean;
 	buffer?: AudioBuffer;
 	loop?: boolean;
+	fadeIn?: AudioFade;
+	fadeOut?: AudioFade;
 }
 
 export interface UploadAudioElement extends BaseAudioElement {
@@ -88,15 +156,20 @@ interface BaseTimelineElement {
 	startTime: number;
 	trimStart: number;
 	trimEnd: number;
+	keyframes?: ElementKeyframes;
 }
 
-export interface VideoElement extends BaseTimelineElement {
+export interface VideoElement extends BaseTimelineElement, ClipSpeed {
 	type: "video";
 	mediaId: string;
 	muted?: boolean;
 	hidden?: boolean;
 	transform: Transform;
 	opacity: number;
+	crop?: CropRect;
+	fitMode?: MediaFitMode;
+	blendMode?: MediaBlendMode;
+	filters?: ColorFilter[]; // applied in order
 }
 
 export interface ImageElement extends BaseTimelineElement {
@@ -105,6 +178,51 @@ export interface ImageElement extends BaseTimelineElement {
 	hidden?: boolean;
 	transform: Transform;
 	opacity: number;
+	crop?: CropRect;
+	fitMode?: MediaFitMode;
+	blendMode?: MediaBlendMode;
+	filters?: ColorFilter[]; // applied in order
+}
+
+// a spoken word, in seconds of the element's content
+export interface CaptionWord {
+	text: string;
+	start: number;
+	end: number;
+}
+
+// how the word being spoken stands out; null leaves that aspect alone
+export interface CaptionHighlight {
+	color: string | null;
+	backgroundColor: string | null;
+	scale: number;
+}
+
+export interface TextShadow {
+	color: string;
+	blur: number;
+	offsetX: number;
+	offsetY: number;
+}
+
+export type TextAnimationPreset =
+	| "fade"
+	| "slide-left"
+	| "slide-right"
+	| "slide-up"
+	| "slide-down"
+	| "pop"
+	| "typewriter"
+	| "word-reveal"
+	| "blur";
+
+export type TextAnimationEasing = Exclude<KeyframeEasing, "bezier" | "hold">;
+
+// slides come in from the named edge and go out toward it
+export interface TextAnimation {
+	preset: TextAnimationPreset;
+	duration: number; // seconds
+	easing: TextAnimationEasing;
 }
 
 export interface TextElement extends BaseTimelineElement {
@@ -121,6 +239,22 @@ export interface TextElement extends BaseTimelineElement {
 	hidden?: boolean;
 	transform: Transform;
 	opacity: number;
+	// box to wrap within, in canvas pixels; without one the longest line sets it
+	boxWidth?: number;
+	autoWrap?: boolean;
+	lineHeight?: number; // multiple of the font size
+	letterSpacing?: number;
+	strokeColor?: string;
+	strokeWidth?: number;
+	shadow?: TextShadow;
+	// the background is drawn behind each line on its own
+	backgroundPadding?: { x: number; y: number };
+	backgroundRadius?: number;
+	words?: CaptionWord[];
+	// set to highlight the active word karaoke-style, which needs words
+	captionHighlight?: CaptionHighlight;
+	animationIn?: TextAnimation;
+	animationOut?: TextAnimation;
 }
 
 export interface StickerElement extends BaseTimelineElement {
@@ -132,12 +266,23 @@ export interface StickerElement extends BaseTimelineElement {
 	color?: string;
 }
 
+// another scene of the project placed as a clip, trims are in that scene's time
+export interface SceneElement extends BaseTimelineElement {
+	type: "scene";
+	sceneId: string;
+	muted?: boolean;
+	hidden?: boolean;
+	transform: Transform;
+	opacity: number;
+}
+
 export type TimelineElement =
 	| AudioElement
 	| VideoElement
 	| ImageElement
 	| TextElement
-	| StickerElement;
+	| StickerElement
+	| SceneElement;
 
 export type ElementType = TimelineElement["type"];
 
@@ -150,12 +295,14 @@ export type CreateVideoElement = Omit<VideoElement, "id">;
 export type CreateImageElement = Omit<ImageElement, "id">;
 export type CreateTextElement = Omit<TextElement, "id">;
 export type CreateStickerElement = Omit<StickerElement, "id">;
+export type CreateSceneElement = Omit<SceneElement, "id">;
 export type CreateTimelineElement =
 	| CreateAudioElement
 	| CreateVideoElement
 	| CreateImageElement
 	| CreateTextElement
-	| CreateStickerElement;
+	| CreateStickerElement
+	| CreateSceneElement;
 
 // ---- Drag State ----
 
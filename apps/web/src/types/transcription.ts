@@ -1,4 +1,5 @@
 import type { LanguageCode } from "./language";
+import type { CaptionWord } from "./timeline";
 
 export type TranscriptionLanguage = LanguageCode | "auto";
 
@@ -8,9 +9,17 @@ export interface TranscriptionSegment {
 	end: number;
 }
 
+export interface TranscriptionWord {
+	text: string;
+	start: number;
+	end: number;
+}
+
 export interface TranscriptionResult {
 	text: string;
 	segments: TranscriptionSegment[];
+	// only when the model can align words, otherwise timing is per segment
+	words?: TranscriptionWord[];
 	language: string;
 }
 
@@ -44,4 +53,5 @@ export interface CaptionChunk {
 	text: string;
 	startTime: number;
 	duration: number;
+	words: CaptionWord[];
 }
@@ -0,0 +1,7 @@
+// audio a transient scan runs over
+export type TransientSource =
+	| { type: "element"; trackId: string; elementId: string }
+	| { type: "asset"; assetId: string };
+
+// what gets placed at each detected hit
+export type TransientAction = "oneshot-markers" | "bookmarks" | "split";
@@ -0,0 +1,28 @@
+export type TransitionType =
+	| "crossfade"
+	| "dip-to-color"
+	| "wipe"
+	| "slide"
+	| "zoom";
+
+// direction the incoming clip moves in, for wipe and slide
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+// a transition between two neighbouring elements on the same video track
+export interface Transition {
+	id: string;
+	trackId: string;
+	fromElementId: string;
+	toElementId: string;
+	type: TransitionType;
+	duration: number; // seconds, centered on the cut when the clips only touch
+	direction?: TransitionDirection; // wipe and slide only
+	color?: string; // dip-to-color only
+}
+
+// Input types for creating/updating
+export type CreateTransitionInput = Omit<Transition, "id">;
+
+export type UpdateTransitionInput = Partial<
+	Pick<Transition, "type" | "duration" | "direction" | "color">
+>;
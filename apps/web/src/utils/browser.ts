@@ -15,3 +15,20 @@ export function isTypableDOMElement({
 
 	return false;
 }
+
+export function downloadBlob({
+	blob,
+	fileName,
+}: {
+	blob: Blob;
+	fileName: string;
+}): void {
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = fileName;
+	document.body.appendChild(a);
+	a.click();
+	document.body.removeChild(a);
+	URL.revokeObjectURL(url);
+}